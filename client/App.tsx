@@ -1,30 +1,142 @@
 import React, { useState, useEffect, useCallback } from "react";
-import { StyleSheet, View, ActivityIndicator } from "react-native";
-import { NavigationContainer } from "@react-navigation/native";
+import { StyleSheet, View, ActivityIndicator, AppState } from "react-native";
+import {
+  NavigationContainer,
+  createNavigationContainerRef,
+} from "@react-navigation/native";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { KeyboardProvider } from "react-native-keyboard-controller";
 import { SafeAreaProvider } from "react-native-safe-area-context";
 import { StatusBar } from "expo-status-bar";
+import * as Linking from "expo-linking";
 
 import { QueryClientProvider } from "@tanstack/react-query";
 import { queryClient, loadCustomServerUrl } from "@/lib/query-client";
 
-import RootStackNavigator from "@/navigation/RootStackNavigator";
+import RootStackNavigator, {
+  type RootStackParamList,
+} from "@/navigation/RootStackNavigator";
 import OnboardingScreen from "@/screens/OnboardingScreen";
+import UnlockScreen from "@/screens/UnlockScreen";
+import AppLockScreen from "@/screens/AppLockScreen";
 import { ErrorBoundary } from "@/components/ErrorBoundary";
+import { usePrivacyEnforcement } from "@/hooks/usePrivacyEnforcement";
 import { hasCompletedOnboarding, getLanguage } from "@/lib/storage";
+import {
+  getUnlockedIdentity,
+  onLockChange,
+  lockIfIdle,
+  recordActivity,
+} from "@/lib/keystore";
+import { initSocket } from "@/lib/socket";
+import { shredOpenedAttachments } from "@/lib/attachments";
+import {
+  isAppLocked,
+  onAppLockChange,
+  onDataWiped,
+  lockIfAwayTooLong,
+  recordBackgrounded,
+  unlockApp,
+} from "@/lib/appLock";
+import { isContactCardUri } from "@/lib/contactCard";
+import { isGroupInviteUri } from "@/lib/groupInvites";
 import { LanguageContext, type Language } from "@/constants/language";
 import { Colors } from "@/constants/theme";
 
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
 export default function App() {
   const [isLoading, setIsLoading] = useState(true);
   const [showOnboarding, setShowOnboarding] = useState(false);
   const [language, setLanguageState] = useState<Language>("tr");
+  const [unlocked, setUnlocked] = useState(() => getUnlockedIdentity() !== null);
+  const [appLocked, setAppLocked] = useState(isAppLocked);
+  const [pendingLink, setPendingLink] = useState<string | null>(null);
+  const privacyShield = usePrivacyEnforcement();
 
   useEffect(() => {
     checkOnboarding();
   }, []);
 
+  // Entering the passphrase (or its biometric copy) already proves who is
+  // holding the device, so it opens the app lock too. The relay connection
+  // needs the unlocked key to register; locking disconnects it, so every
+  // unlock (and a key migration) connects again.
+  useEffect(() => {
+    return onLockChange((isUnlocked) => {
+      const identity = getUnlockedIdentity();
+      if (isUnlocked && identity) {
+        unlockApp();
+        // No bubble is mounted yet, so any decrypted copy is a leftover.
+        shredOpenedAttachments();
+        initSocket(identity.id, identity.publicKey, identity.privateKey).catch((error) => {
+          console.error("Relay connection failed:", error);
+        });
+      }
+      setUnlocked(isUnlocked);
+    });
+  }, []);
+
+  useEffect(() => {
+    return onAppLockChange(setAppLocked);
+  }, []);
+
+  // Settings and the onboarding flag went with the wipe, so they are read
+  // again from scratch.
+  useEffect(() => {
+    return onDataWiped(() => {
+      checkOnboarding();
+    });
+  }, []);
+
+  // Decrypted key material is dropped after AUTO_LOCK_MS without a touch,
+  // including time spent in the background. With Biometric Lock on, the app
+  // lock also returns after the configured time away.
+  useEffect(() => {
+    const interval = setInterval(() => lockIfIdle(), 15 * 1000);
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") {
+        lockIfIdle();
+        lockIfAwayTooLong();
+      } else if (state === "background") {
+        recordBackgrounded();
+      }
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, []);
+
+  // Contact and group invite links can arrive while the app is locked; they
+  // are held until the navigator is mounted and then handed to AddContact or
+  // GroupInvite for verification.
+  useEffect(() => {
+    const handleUrl = (url: string | null) => {
+      if (url && (isContactCardUri(url) || isGroupInviteUri(url))) {
+        setPendingLink(url);
+      }
+    };
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener("url", ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
+
+  const openPendingLink = useCallback(() => {
+    if (pendingLink && navigationRef.isReady()) {
+      if (isGroupInviteUri(pendingLink)) {
+        navigationRef.navigate("GroupInvite", { invite: pendingLink });
+      } else {
+        navigationRef.navigate("AddContact", { card: pendingLink });
+      }
+      setPendingLink(null);
+    }
+  }, [pendingLink]);
+
+  useEffect(() => {
+    openPendingLink();
+  }, [openPendingLink]);
+
   const checkOnboarding = async () => {
     const completed = await hasCompletedOnboarding();
     const savedLanguage = await getLanguage();
@@ -54,16 +166,27 @@ export default function App() {
     <ErrorBoundary>
       <QueryClientProvider client={queryClient}>
         <SafeAreaProvider>
-          <GestureHandlerRootView style={styles.root}>
+          <GestureHandlerRootView
+            style={styles.root}
+            onStartShouldSetResponderCapture={() => {
+              recordActivity();
+              return false;
+            }}
+          >
             <KeyboardProvider>
               <LanguageContext.Provider value={{ language, setLanguage: handleSetLanguage }}>
                 {showOnboarding ? (
                   <OnboardingScreen onComplete={handleOnboardingComplete} />
+                ) : !unlocked ? (
+                  <UnlockScreen />
+                ) : appLocked ? (
+                  <AppLockScreen />
                 ) : (
-                  <NavigationContainer>
+                  <NavigationContainer ref={navigationRef} onReady={openPendingLink}>
                     <RootStackNavigator />
                   </NavigationContainer>
                 )}
+                {privacyShield ? <View style={styles.privacyShield} /> : null}
                 <StatusBar style="light" />
               </LanguageContext.Provider>
             </KeyboardProvider>
@@ -78,6 +201,10 @@ const styles = StyleSheet.create({
   root: {
     flex: 1,
   },
+  privacyShield: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "#000",
+  },
   loading: {
     flex: 1,
     justifyContent: "center",
@@ -0,0 +1,247 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+import * as Sharing from "expo-sharing";
+
+import { ThemedText } from "@/components/ThemedText";
+import { VoiceNoteBubble } from "@/components/VoiceNoteBubble";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  closeAttachment,
+  downloadAttachment,
+  formatFileSize,
+  hasStoredAttachment,
+  isImageAttachment,
+  openAttachment,
+  type Attachment,
+  type DownloadResult,
+} from "@/lib/attachments";
+
+interface AttachmentBubbleProps {
+  attachment: Attachment;
+  messageId: string;
+  isMine: boolean;
+  onLongPress?: () => void;
+}
+
+const IMAGE_WIDTH = 220;
+
+const DOWNLOAD_ERRORS: Record<
+  Extract<DownloadResult, { downloaded: false }>["reason"],
+  string
+> = {
+  expired: "This attachment is no longer on the relay.",
+  network:
+    "The attachment could not be downloaded. Check your connection and try again.",
+  corrupted:
+    "The downloaded file does not match the one that was sent, so it was discarded.",
+};
+
+// Shows an attachment inside a message bubble. Nothing is fetched until the
+// user asks for it. Images we already hold (our own uploads, earlier
+// downloads) are decrypted for display while the bubble is mounted; other
+// files only for as long as the share sheet is open.
+export function AttachmentBubble(props: AttachmentBubbleProps) {
+  const { voice } = props.attachment;
+  return voice ? (
+    <VoiceNoteBubble {...props} voice={voice} />
+  ) : (
+    <FileAttachmentBubble {...props} />
+  );
+}
+
+function FileAttachmentBubble({
+  attachment,
+  messageId,
+  isMine,
+  onLongPress,
+}: AttachmentBubbleProps) {
+  // The decrypted copy behind an image preview.
+  const [uri, setUri] = useState<string | null>(null);
+  const [isStored, setIsStored] = useState(() =>
+    hasStoredAttachment(attachment, messageId),
+  );
+  const [isLoading, setIsLoading] = useState(false);
+  const mountedRef = useRef(true);
+  const isImage = isImageAttachment(attachment);
+  const textColor = isMine ? Colors.dark.buttonText : Colors.dark.text;
+  const subtleColor = isMine
+    ? Colors.dark.buttonText
+    : Colors.dark.textSecondary;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isImage || !hasStoredAttachment(attachment, messageId)) return;
+    let cancelled = false;
+    openAttachment(attachment, messageId).then((result) => {
+      if (!result.downloaded) return;
+      if (cancelled) {
+        closeAttachment(result.uri);
+      } else {
+        setUri(result.uri);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, messageId, isImage]);
+
+  useEffect(() => {
+    if (!uri) return;
+    return () => closeAttachment(uri);
+  }, [uri]);
+
+  const handleDownload = async () => {
+    setIsLoading(true);
+    const result = await downloadAttachment(attachment, messageId);
+    if (!result.downloaded) {
+      setIsLoading(false);
+      Alert.alert("Download Failed", DOWNLOAD_ERRORS[result.reason]);
+      return;
+    }
+    if (!isImage || !mountedRef.current) {
+      closeAttachment(result.uri);
+    } else {
+      setUri(result.uri);
+    }
+    setIsLoading(false);
+    setIsStored(true);
+  };
+
+  const shareFile = (fileUri: string) =>
+    Sharing.shareAsync(fileUri, {
+      mimeType: attachment.mimeType,
+      dialogTitle: attachment.name,
+    });
+
+  const handleOpen = async () => {
+    if (!(await Sharing.isAvailableAsync())) return;
+    if (uri) {
+      await shareFile(uri);
+      return;
+    }
+    const result = await openAttachment(attachment, messageId);
+    if (!result.downloaded) {
+      Alert.alert("Open Failed", DOWNLOAD_ERRORS[result.reason]);
+      return;
+    }
+    try {
+      await shareFile(result.uri);
+    } finally {
+      closeAttachment(result.uri);
+    }
+  };
+
+  const aspectRatio =
+    attachment.width && attachment.height
+      ? attachment.width / attachment.height
+      : 4 / 3;
+
+  return (
+    <View>
+      {isImage && uri ? (
+        <Pressable
+          onPress={handleOpen}
+          onLongPress={onLongPress}
+          delayLongPress={500}
+        >
+          <Image
+            source={{ uri }}
+            style={[styles.image, { aspectRatio }]}
+            contentFit="cover"
+          />
+        </Pressable>
+      ) : (
+        <Pressable
+          onPress={isStored ? handleOpen : handleDownload}
+          onLongPress={onLongPress}
+          delayLongPress={500}
+          disabled={isLoading}
+          style={styles.fileRow}
+        >
+          <View style={[styles.fileIcon, isMine && styles.fileIconMine]}>
+            {isLoading ? (
+              <ActivityIndicator size="small" color={textColor} />
+            ) : (
+              <Feather
+                name={isStored ? (isImage ? "image" : "file") : "download"}
+                size={20}
+                color={textColor}
+              />
+            )}
+          </View>
+          <View style={styles.fileInfo}>
+            <ThemedText
+              style={[styles.fileName, { color: textColor }]}
+              numberOfLines={1}
+            >
+              {isImage ? "Photo" : attachment.name}
+            </ThemedText>
+            <ThemedText style={[styles.fileMeta, { color: subtleColor }]}>
+              {formatFileSize(attachment.size)}
+              {isStored ? "" : " · Tap to download"}
+            </ThemedText>
+          </View>
+        </Pressable>
+      )}
+      {attachment.caption ? (
+        <ThemedText style={[styles.caption, { color: textColor }]}>
+          {attachment.caption}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  image: {
+    width: IMAGE_WIDTH,
+    maxHeight: 320,
+    borderRadius: BorderRadius.sm,
+  },
+  fileRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    minWidth: 180,
+  },
+  fileIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.sm,
+  },
+  fileIconMine: {
+    backgroundColor: "rgba(0,0,0,0.15)",
+  },
+  fileInfo: {
+    flex: 1,
+  },
+  fileName: {
+    fontSize: 15,
+    fontWeight: "500",
+  },
+  fileMeta: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  caption: {
+    fontSize: 16,
+    marginTop: Spacing.xs,
+  },
+});
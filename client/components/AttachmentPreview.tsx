@@ -0,0 +1,125 @@
+import React from "react";
+import { View, StyleSheet, Pressable, ActivityIndicator } from "react-native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { formatFileSize, type PickedFile } from "@/lib/attachments";
+import { describeScrub } from "@/lib/scrubber";
+
+interface AttachmentPreviewProps {
+  file: PickedFile;
+  isUploading: boolean;
+  onRemove: () => void;
+}
+
+// Sits above the composer while a picked file waits to be sent; the text
+// field becomes its caption.
+export function AttachmentPreview({
+  file,
+  isUploading,
+  onRemove,
+}: AttachmentPreviewProps) {
+  const isImage = file.mimeType.startsWith("image/");
+  const scrubSummary = describeScrub(file);
+
+  return (
+    <View style={styles.container}>
+      {isImage ? (
+        <Image
+          source={{ uri: file.uri }}
+          style={styles.thumbnail}
+          contentFit="cover"
+        />
+      ) : (
+        <View style={styles.fileIcon}>
+          <Feather name="file" size={20} color={Colors.dark.secondary} />
+        </View>
+      )}
+      <View style={styles.info}>
+        <ThemedText style={styles.name} numberOfLines={1}>
+          {file.name}
+        </ThemedText>
+        <ThemedText style={styles.meta}>
+          {isUploading
+            ? "Encrypting and uploading…"
+            : formatFileSize(file.size)}
+        </ThemedText>
+        {scrubSummary ? (
+          <View style={styles.scrubRow}>
+            <Feather
+              name="shield"
+              size={11}
+              color={Colors.dark.success}
+              style={styles.scrubIcon}
+            />
+            <ThemedText style={styles.scrub} numberOfLines={2}>
+              {scrubSummary}
+            </ThemedText>
+          </View>
+        ) : null}
+      </View>
+      {isUploading ? (
+        <ActivityIndicator size="small" color={Colors.dark.primary} />
+      ) : (
+        <Pressable onPress={onRemove} hitSlop={8}>
+          <Feather name="x" size={20} color={Colors.dark.textSecondary} />
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.border,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    marginRight: Spacing.md,
+  },
+  fileIcon: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.xs,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.md,
+  },
+  info: {
+    flex: 1,
+    marginRight: Spacing.md,
+  },
+  name: {
+    fontSize: 14,
+    fontWeight: "500",
+    color: Colors.dark.text,
+  },
+  meta: {
+    fontSize: 12,
+    color: Colors.dark.textSecondary,
+  },
+  scrubRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: 2,
+  },
+  scrubIcon: {
+    marginRight: Spacing.xs,
+  },
+  scrub: {
+    flex: 1,
+    fontSize: 11,
+    color: Colors.dark.textSecondary,
+  },
+});
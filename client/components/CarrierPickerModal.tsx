@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  Modal,
+  ActivityIndicator,
+  Alert,
+} from "react-native";
+import { Image } from "expo-image";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  BUNDLED_CARRIERS,
+  loadBundledCarrier,
+  pickGalleryCarrier,
+  type Carrier,
+} from "@/lib/stegoImages";
+
+export type CarrierAction = "send" | "share";
+
+interface CarrierPickerModalProps {
+  visible: boolean;
+  isWorking: boolean;
+  recipientName: string;
+  onConfirm: (carrier: Uint8Array, action: CarrierAction) => void;
+  onClose: () => void;
+}
+
+// Lets the sender choose the picture a steganography-mode message is hidden
+// in, then either send it through the relay or share it from another app.
+export function CarrierPickerModal({
+  visible,
+  isWorking,
+  recipientName,
+  onConfirm,
+  onClose,
+}: CarrierPickerModalProps) {
+  const [selected, setSelected] = useState<Carrier | null>(BUNDLED_CARRIERS[0]);
+  const [galleryCarrier, setGalleryCarrier] = useState<Uint8Array | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) {
+      setSelected(BUNDLED_CARRIERS[0]);
+      setGalleryCarrier(null);
+    }
+  }, [visible]);
+
+  const handlePickGallery = async () => {
+    setIsLoading(true);
+    try {
+      const carrier = await pickGalleryCarrier();
+      if (carrier) {
+        setGalleryCarrier(carrier);
+        setSelected(null);
+      }
+    } catch (error) {
+      console.error("Carrier pick error:", error);
+      Alert.alert("Photo Unavailable", "That photo could not be converted.");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirm = async (action: CarrierAction) => {
+    if (galleryCarrier && !selected) {
+      onConfirm(galleryCarrier, action);
+      return;
+    }
+    if (!selected) return;
+    setIsLoading(true);
+    try {
+      onConfirm(await loadBundledCarrier(selected), action);
+    } catch (error) {
+      console.error("Carrier load error:", error);
+      Alert.alert(
+        "Image Unavailable",
+        "The carrier image could not be loaded.",
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const busy = isWorking || isLoading;
+  const hasCarrier = !!selected || !!galleryCarrier;
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={styles.content}>
+          <Feather name="image" size={32} color={Colors.dark.secondary} />
+          <ThemedText style={styles.title}>Hide in Image</ThemedText>
+          <ThemedText style={styles.text}>
+            Your message is encrypted to {recipientName} and hidden in the
+            picture you choose. Send it here, or share the image through another
+            app as a PNG file.
+          </ThemedText>
+
+          <View style={styles.carriers}>
+            {BUNDLED_CARRIERS.map((carrier) => (
+              <Pressable
+                key={carrier.id}
+                onPress={() => setSelected(carrier)}
+                disabled={busy}
+                style={[
+                  styles.carrier,
+                  selected?.id === carrier.id && styles.carrierSelected,
+                ]}
+              >
+                <Image
+                  source={carrier.source}
+                  style={styles.thumbnail}
+                  contentFit="cover"
+                />
+              </Pressable>
+            ))}
+            <Pressable
+              onPress={handlePickGallery}
+              disabled={busy}
+              style={[
+                styles.carrier,
+                styles.galleryTile,
+                !selected && galleryCarrier && styles.carrierSelected,
+              ]}
+            >
+              <Feather
+                name={galleryCarrier ? "check" : "plus"}
+                size={20}
+                color={Colors.dark.textSecondary}
+              />
+            </Pressable>
+          </View>
+          <ThemedText style={styles.carrierLabel}>
+            {selected ? selected.name : "Photo from your gallery"}
+          </ThemedText>
+
+          {busy ? (
+            <ActivityIndicator
+              color={Colors.dark.primary}
+              style={styles.spinner}
+            />
+          ) : (
+            <View style={styles.buttons}>
+              <Pressable
+                onPress={() => handleConfirm("share")}
+                disabled={!hasCarrier}
+                style={[styles.button, styles.buttonSecondary]}
+              >
+                <ThemedText style={styles.buttonText}>Share</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={() => handleConfirm("send")}
+                disabled={!hasCarrier}
+                style={[styles.button, styles.buttonPrimary]}
+              >
+                <ThemedText style={styles.buttonTextPrimary}>Send</ThemedText>
+              </Pressable>
+            </View>
+          )}
+          <Pressable onPress={onClose} disabled={busy} style={styles.cancel}>
+            <ThemedText style={styles.cancelText}>Cancel</ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    width: "85%",
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.md,
+    color: Colors.dark.text,
+  },
+  text: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    marginBottom: Spacing.lg,
+  },
+  carriers: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+  },
+  carrier: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.xs,
+    borderWidth: 2,
+    borderColor: "transparent",
+    overflow: "hidden",
+  },
+  carrierSelected: {
+    borderColor: Colors.dark.primary,
+  },
+  thumbnail: {
+    width: "100%",
+    height: "100%",
+  },
+  galleryTile: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  carrierLabel: {
+    fontSize: 12,
+    color: Colors.dark.textSecondary,
+    marginTop: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  spinner: {
+    marginVertical: Spacing.md,
+  },
+  buttons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    alignSelf: "stretch",
+  },
+  button: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  buttonPrimary: {
+    backgroundColor: Colors.dark.primary,
+  },
+  buttonSecondary: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  buttonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  buttonTextPrimary: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  cancel: {
+    marginTop: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+  },
+});
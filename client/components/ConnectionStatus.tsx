@@ -39,6 +39,8 @@ export default function ConnectionStatus({ state = "relay", showLabel = false }:
         setDisplayState("tor");
       } else if (status === "tor_connecting") {
         setDisplayState("tor_connecting");
+      } else if (status === "register_failed") {
+        setDisplayState("offline");
       } else if (status === "disconnected") {
         getTorSettings().then((settings) => {
           if (!settings.enabled) {
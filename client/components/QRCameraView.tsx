@@ -0,0 +1,326 @@
+import React from "react";
+import { View, StyleSheet, Pressable, Platform } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { CameraView, useCameraPermissions } from "expo-camera";
+import { Feather } from "@expo/vector-icons";
+import * as Linking from "expo-linking";
+import { ThemedText } from "@/components/ThemedText";
+import { ThemedView } from "@/components/ThemedView";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import { useLanguage } from "@/constants/language";
+
+interface QRCameraViewProps {
+  title: string;
+  hint: string;
+  // Leave undefined to pause scanning while a result is being handled.
+  onScan?: (data: string) => void;
+  onClose: () => void;
+}
+
+// Camera permission handling and the scan frame, shared by the contact
+// scanner and the device transfer flow in onboarding.
+export default function QRCameraView({ title, hint, onScan, onClose }: QRCameraViewProps) {
+  const insets = useSafeAreaInsets();
+  const { language } = useLanguage();
+  const [permission, requestPermission] = useCameraPermissions();
+
+  const t = {
+    loadingCamera: language === "tr" ? "Kamera yukleniyor..." : "Loading camera...",
+    cameraAccessRequired: language === "tr" ? "Kamera Erişimi Gerekli" : "Camera Access Required",
+    enableCameraInSettings: language === "tr"
+      ? "QR kodlari taramak icin Ayarlar'dan kamera erisimini etkinlestirin"
+      : "Please enable camera access in Settings to scan QR codes",
+    openSettings: language === "tr" ? "Ayarlari Ac" : "Open Settings",
+    goBack: language === "tr" ? "Geri Don" : "Go Back",
+    cameraPermission: language === "tr" ? "Kamera Izni" : "Camera Permission",
+    needCameraAccess: language === "tr"
+      ? "QR kodlari taramak icin kamera erisimi gerekiyor"
+      : "We need camera access to scan QR codes",
+    enableCamera: language === "tr" ? "Kamerayi Etkinlestir" : "Enable Camera",
+    cancel: language === "tr" ? "Iptal" : "Cancel",
+    useExpoGo: language === "tr" ? "Expo Go Kullanin" : "Use Expo Go",
+    qrScanningBest: language === "tr"
+      ? "QR tarama mobilde en iyi calisir. QR kodlari taramak icin bu uygulamayi Expo Go'da acin."
+      : "QR scanning is best on mobile. Open this app in Expo Go to scan QR codes.",
+  };
+
+  if (Platform.OS === "web") {
+    return (
+      <ThemedView style={[styles.container, styles.permissionContainer]}>
+        <Feather name="smartphone" size={64} color={Colors.dark.primary} />
+        <ThemedText style={styles.permissionTitle}>{t.useExpoGo}</ThemedText>
+        <ThemedText style={styles.permissionText}>
+          {t.qrScanningBest}
+        </ThemedText>
+        <Pressable
+          onPress={onClose}
+          style={({ pressed }) => [
+            styles.closeButton,
+            pressed && styles.closeButtonPressed,
+          ]}
+        >
+          <ThemedText style={styles.closeButtonText}>{t.goBack}</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  if (!permission) {
+    return (
+      <ThemedView style={[styles.container, styles.permissionContainer]}>
+        <ThemedText>{t.loadingCamera}</ThemedText>
+      </ThemedView>
+    );
+  }
+
+  if (!permission.granted) {
+    if (permission.status === "denied" && !permission.canAskAgain) {
+      return (
+        <ThemedView style={[styles.container, styles.permissionContainer]}>
+          <Feather name="camera-off" size={64} color={Colors.dark.textSecondary} />
+          <ThemedText style={styles.permissionTitle}>{t.cameraAccessRequired}</ThemedText>
+          <ThemedText style={styles.permissionText}>
+            {t.enableCameraInSettings}
+          </ThemedText>
+          <Pressable
+            onPress={async () => {
+              try {
+                await Linking.openSettings();
+              } catch {
+                console.error("Could not open settings");
+              }
+            }}
+            style={({ pressed }) => [
+              styles.settingsButton,
+              pressed && styles.settingsButtonPressed,
+            ]}
+          >
+            <ThemedText style={styles.settingsButtonText}>{t.openSettings}</ThemedText>
+          </Pressable>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [
+              styles.closeButton,
+              pressed && styles.closeButtonPressed,
+            ]}
+          >
+            <ThemedText style={styles.closeButtonText}>{t.goBack}</ThemedText>
+          </Pressable>
+        </ThemedView>
+      );
+    }
+
+    return (
+      <ThemedView style={[styles.container, styles.permissionContainer]}>
+        <Feather name="camera" size={64} color={Colors.dark.primary} />
+        <ThemedText style={styles.permissionTitle}>{t.cameraPermission}</ThemedText>
+        <ThemedText style={styles.permissionText}>
+          {t.needCameraAccess}
+        </ThemedText>
+        <Pressable
+          onPress={requestPermission}
+          style={({ pressed }) => [
+            styles.permissionButton,
+            pressed && styles.permissionButtonPressed,
+          ]}
+        >
+          <ThemedText style={styles.permissionButtonText}>{t.enableCamera}</ThemedText>
+        </Pressable>
+        <Pressable
+          onPress={onClose}
+          style={({ pressed }) => [
+            styles.closeButton,
+            pressed && styles.closeButtonPressed,
+          ]}
+        >
+          <ThemedText style={styles.closeButtonText}>{t.cancel}</ThemedText>
+        </Pressable>
+      </ThemedView>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <CameraView
+        style={StyleSheet.absoluteFill}
+        barcodeScannerSettings={{
+          barcodeTypes: ["qr"],
+        }}
+        onBarcodeScanned={onScan ? ({ data }) => onScan(data) : undefined}
+      />
+
+      <View style={[styles.overlay, { paddingTop: insets.top }]}>
+        <View style={styles.header}>
+          <Pressable
+            onPress={onClose}
+            style={({ pressed }) => [
+              styles.backButton,
+              pressed && styles.backButtonPressed,
+            ]}
+          >
+            <Feather name="x" size={24} color={Colors.dark.text} />
+          </Pressable>
+          <ThemedText style={styles.title}>{title}</ThemedText>
+          <View style={styles.placeholder} />
+        </View>
+
+        <View style={styles.scanArea}>
+          <View style={styles.corner} />
+          <View style={[styles.corner, styles.cornerTopRight]} />
+          <View style={[styles.corner, styles.cornerBottomLeft]} />
+          <View style={[styles.corner, styles.cornerBottomRight]} />
+        </View>
+
+        <ThemedText style={styles.hint}>
+          {hint}
+        </ThemedText>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  permissionContainer: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing["3xl"],
+  },
+  permissionTitle: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    marginTop: Spacing.xl,
+    marginBottom: Spacing.md,
+  },
+  permissionText: {
+    fontSize: 16,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    marginBottom: Spacing.xl,
+  },
+  permissionButton: {
+    backgroundColor: Colors.dark.primary,
+    paddingHorizontal: Spacing["3xl"],
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.lg,
+  },
+  permissionButtonPressed: {
+    opacity: 0.8,
+  },
+  permissionButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  settingsButton: {
+    backgroundColor: Colors.dark.primary,
+    paddingHorizontal: Spacing["3xl"],
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.lg,
+  },
+  settingsButtonPressed: {
+    opacity: 0.8,
+  },
+  settingsButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  closeButton: {
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.md,
+  },
+  closeButtonPressed: {
+    opacity: 0.6,
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: Colors.dark.textSecondary,
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingBottom: Spacing["5xl"],
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    width: "100%",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  backButton: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    backgroundColor: "rgba(0,0,0,0.5)",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  backButtonPressed: {
+    opacity: 0.7,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  placeholder: {
+    width: 44,
+  },
+  scanArea: {
+    width: 250,
+    height: 250,
+    position: "relative",
+  },
+  corner: {
+    position: "absolute",
+    width: 40,
+    height: 40,
+    borderColor: Colors.dark.primary,
+    borderTopWidth: 4,
+    borderLeftWidth: 4,
+    top: 0,
+    left: 0,
+  },
+  cornerTopRight: {
+    top: 0,
+    left: undefined,
+    right: 0,
+    borderLeftWidth: 0,
+    borderRightWidth: 4,
+  },
+  cornerBottomLeft: {
+    top: undefined,
+    bottom: 0,
+    borderTopWidth: 0,
+    borderBottomWidth: 4,
+  },
+  cornerBottomRight: {
+    top: undefined,
+    left: undefined,
+    bottom: 0,
+    right: 0,
+    borderTopWidth: 0,
+    borderLeftWidth: 0,
+    borderBottomWidth: 4,
+    borderRightWidth: 4,
+  },
+  hint: {
+    fontSize: 16,
+    color: Colors.dark.text,
+    textAlign: "center",
+    backgroundColor: "rgba(0,0,0,0.5)",
+    paddingHorizontal: Spacing.xl,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+  },
+});
@@ -0,0 +1,39 @@
+import React from "react";
+import { View, StyleSheet } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors } from "@/constants/theme";
+
+interface ThreadHeaderTitleProps {
+  title: string;
+  subtitle?: string;
+}
+
+export function ThreadHeaderTitle({ title, subtitle }: ThreadHeaderTitleProps) {
+  return (
+    <View style={styles.container}>
+      <ThemedText style={styles.title} numberOfLines={1}>
+        {title}
+      </ThemedText>
+      {subtitle ? (
+        <ThemedText style={styles.subtitle} numberOfLines={1}>
+          {subtitle}
+        </ThemedText>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: "center",
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  subtitle: {
+    fontSize: 12,
+    color: Colors.dark.primary,
+  },
+});
@@ -0,0 +1,261 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  ActivityIndicator,
+  Alert,
+  type GestureResponderEvent,
+} from "react-native";
+import { useAudioPlayer, useAudioPlayerStatus } from "expo-audio";
+import { Feather } from "@expo/vector-icons";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import {
+  closeAttachment,
+  downloadAttachment,
+  formatDuration,
+  type Attachment,
+  type DownloadResult,
+  type VoiceNote,
+} from "@/lib/attachments";
+
+interface VoiceNoteBubbleProps {
+  attachment: Attachment;
+  voice: VoiceNote;
+  messageId: string;
+  isMine: boolean;
+  onLongPress?: () => void;
+}
+
+const PLAYBACK_RATES = [1, 1.5, 2];
+const BAR_MIN_HEIGHT = 3;
+const BAR_MAX_HEIGHT = 24;
+
+const DOWNLOAD_ERRORS: Record<
+  Extract<DownloadResult, { downloaded: false }>["reason"],
+  string
+> = {
+  expired: "This voice message is no longer on the relay.",
+  network:
+    "The voice message could not be downloaded. Check your connection and try again.",
+  corrupted:
+    "The downloaded recording does not match the one that was sent, so it was discarded.",
+};
+
+// Inline player for recorded voice notes. Like other attachments, nothing is
+// fetched or decrypted until the first tap on play, and the decrypted copy
+// goes when the bubble unmounts.
+export function VoiceNoteBubble({
+  attachment,
+  voice,
+  messageId,
+  isMine,
+  onLongPress,
+}: VoiceNoteBubbleProps) {
+  const [uri, setUri] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rateIndex, setRateIndex] = useState(0);
+  const [waveformWidth, setWaveformWidth] = useState(0);
+  const playWhenLoadedRef = useRef(false);
+  const mountedRef = useRef(true);
+  const player = useAudioPlayer(uri ? { uri } : null, { updateInterval: 100 });
+  const status = useAudioPlayerStatus(player);
+  const rate = PLAYBACK_RATES[rateIndex];
+
+  const textColor = isMine ? Colors.dark.buttonText : Colors.dark.text;
+  const activeBarColor = isMine ? Colors.dark.buttonText : Colors.dark.primary;
+  const idleBarColor = isMine ? "rgba(0,0,0,0.25)" : Colors.dark.textDisabled;
+
+  useEffect(() => {
+    mountedRef.current = true;
+    return () => {
+      mountedRef.current = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!uri) return;
+    return () => closeAttachment(uri);
+  }, [uri]);
+
+  // The first tap downloads; playback starts once the new player has loaded.
+  useEffect(() => {
+    if (playWhenLoadedRef.current && status.isLoaded) {
+      playWhenLoadedRef.current = false;
+      player.setPlaybackRate(rate);
+      player.play();
+    }
+  }, [player, status.isLoaded, rate]);
+
+  useEffect(() => {
+    if (status.didJustFinish) {
+      player.pause();
+      player.seekTo(0);
+    }
+  }, [player, status.didJustFinish]);
+
+  const handlePlayPause = async () => {
+    if (status.playing) {
+      player.pause();
+      return;
+    }
+    if (!uri) {
+      setIsLoading(true);
+      const result = await downloadAttachment(attachment, messageId);
+      setIsLoading(false);
+      if (result.downloaded && !mountedRef.current) {
+        closeAttachment(result.uri);
+      } else if (result.downloaded) {
+        playWhenLoadedRef.current = true;
+        setUri(result.uri);
+      } else {
+        Alert.alert("Download Failed", DOWNLOAD_ERRORS[result.reason]);
+      }
+      return;
+    }
+    player.setPlaybackRate(rate);
+    player.play();
+  };
+
+  const handleRate = () => {
+    const next = (rateIndex + 1) % PLAYBACK_RATES.length;
+    setRateIndex(next);
+    player.setPlaybackRate(PLAYBACK_RATES[next]);
+  };
+
+  const handleSeek = (event: GestureResponderEvent) => {
+    if (!uri || !status.isLoaded || waveformWidth === 0) return;
+    const fraction = event.nativeEvent.locationX / waveformWidth;
+    const duration = status.duration || voice.duration / 1000;
+    player.seekTo(Math.min(1, Math.max(0, fraction)) * duration);
+  };
+
+  const duration = status.duration || voice.duration / 1000;
+  const progress = duration > 0 ? status.currentTime / duration : 0;
+  const showElapsed = status.playing || status.currentTime > 0;
+
+  return (
+    <Pressable
+      onLongPress={onLongPress}
+      delayLongPress={500}
+      style={styles.container}
+    >
+      <Pressable
+        onPress={handlePlayPause}
+        disabled={isLoading}
+        hitSlop={8}
+        style={[styles.playButton, isMine && styles.playButtonMine]}
+      >
+        {isLoading ? (
+          <ActivityIndicator size="small" color={textColor} />
+        ) : (
+          <Feather
+            name={status.playing ? "pause" : uri ? "play" : "download"}
+            size={18}
+            color={textColor}
+          />
+        )}
+      </Pressable>
+      <View style={styles.body}>
+        <Pressable
+          onPress={handleSeek}
+          onLongPress={onLongPress}
+          delayLongPress={500}
+          onLayout={(e) => setWaveformWidth(e.nativeEvent.layout.width)}
+          style={styles.waveform}
+        >
+          {voice.waveform.map((level, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  height:
+                    BAR_MIN_HEIGHT + level * (BAR_MAX_HEIGHT - BAR_MIN_HEIGHT),
+                  backgroundColor:
+                    (index + 0.5) / voice.waveform.length <= progress
+                      ? activeBarColor
+                      : idleBarColor,
+                },
+              ]}
+            />
+          ))}
+        </Pressable>
+        <View style={styles.footer}>
+          <ThemedText style={[styles.duration, { color: textColor }]}>
+            {formatDuration(
+              showElapsed ? status.currentTime * 1000 : voice.duration,
+            )}
+          </ThemedText>
+          <Pressable
+            onPress={handleRate}
+            hitSlop={8}
+            style={[styles.rateChip, isMine && styles.rateChipMine]}
+          >
+            <ThemedText style={[styles.rateText, { color: textColor }]}>
+              {rate}x
+            </ThemedText>
+          </Pressable>
+        </View>
+      </View>
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: "row",
+    alignItems: "center",
+    width: 230,
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.sm,
+  },
+  playButtonMine: {
+    backgroundColor: "rgba(0,0,0,0.15)",
+  },
+  body: {
+    flex: 1,
+  },
+  waveform: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    height: BAR_MAX_HEIGHT,
+  },
+  bar: {
+    width: 2,
+    borderRadius: 1,
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.xs,
+  },
+  duration: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  rateChip: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 1,
+    borderRadius: BorderRadius.xs,
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  rateChipMine: {
+    backgroundColor: "rgba(0,0,0,0.15)",
+  },
+  rateText: {
+    fontSize: 11,
+    fontWeight: "600",
+  },
+});
@@ -1,48 +1,51 @@
 import { useState, useEffect, useCallback } from "react";
+import { updateDisplayName, type UserIdentity } from "@/lib/crypto";
 import {
-  getOrCreateIdentity,
-  updateDisplayName,
-  regenerateIdentity,
-  type UserIdentity,
-} from "@/lib/crypto";
+  getUnlockedIdentity,
+  onLockChange,
+  resetIdentity,
+  updateUnlockedIdentity,
+} from "@/lib/keystore";
 
 export function useIdentity() {
-  const [identity, setIdentity] = useState<UserIdentity | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [identity, setIdentity] = useState<UserIdentity | null>(
+    getUnlockedIdentity,
+  );
+  const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const loadIdentity = useCallback(async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const id = await getOrCreateIdentity();
-      setIdentity(id);
-    } catch (err) {
-      setError("Failed to load identity");
-      console.error("Identity error:", err);
-    } finally {
-      setLoading(false);
+    setError(null);
+    const id = getUnlockedIdentity();
+    if (!id) {
+      setError("Identity is locked");
     }
+    setIdentity(id);
   }, []);
 
   useEffect(() => {
     loadIdentity();
+    return onLockChange(() => {
+      loadIdentity();
+    });
   }, [loadIdentity]);
 
   const setDisplayName = useCallback(async (name: string) => {
     try {
       await updateDisplayName(name);
+      updateUnlockedIdentity({ displayName: name });
       setIdentity((prev) => (prev ? { ...prev, displayName: name } : null));
     } catch (err) {
       console.error("Update display name error:", err);
     }
   }, []);
 
+  // Drops the current identity; the app's lock gate then walks the user
+  // through creating a new one with a fresh passphrase.
   const regenerate = useCallback(async () => {
     try {
       setLoading(true);
-      const newIdentity = await regenerateIdentity();
-      setIdentity(newIdentity);
+      await resetIdentity();
     } catch (err) {
       console.error("Regenerate error:", err);
     } finally {
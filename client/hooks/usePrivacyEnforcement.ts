@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Platform } from "react-native";
+import * as ScreenCapture from "expo-screen-capture";
+import { getPrivacySettings, onPrivacySettingsChange } from "@/lib/storage";
+
+const CAPTURE_KEY = "screen-protection";
+const APP_SWITCHER_BLUR = 1;
+
+// Applies the privacy settings that act on the whole app rather than a single
+// screen. Returns true while the content should be covered by a privacy shield.
+export function usePrivacyEnforcement(): boolean {
+  const [screenProtection, setScreenProtection] = useState(false);
+  const [tabHidden, setTabHidden] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    getPrivacySettings().then((settings) => {
+      if (active) setScreenProtection(settings.screenProtection);
+    });
+    const unsubscribe = onPrivacySettingsChange((settings) =>
+      setScreenProtection(settings.screenProtection),
+    );
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // FLAG_SECURE on Android blocks screenshots and recordings and blanks the
+  // recent-apps preview. iOS blanks captures and blurs the app-switcher
+  // snapshot instead.
+  useEffect(() => {
+    if (Platform.OS === "web") return;
+    const apply = async () => {
+      if (screenProtection) {
+        await ScreenCapture.preventScreenCaptureAsync(CAPTURE_KEY);
+        if (Platform.OS === "ios") {
+          await ScreenCapture.enableAppSwitcherProtectionAsync(
+            APP_SWITCHER_BLUR,
+          );
+        }
+      } else {
+        await ScreenCapture.allowScreenCaptureAsync(CAPTURE_KEY);
+        if (Platform.OS === "ios") {
+          await ScreenCapture.disableAppSwitcherProtectionAsync();
+        }
+      }
+    };
+    apply().catch((error) => {
+      console.error("Screen protection error:", error);
+    });
+  }, [screenProtection]);
+
+  // Browsers cannot block screenshots, so the web build hides the content
+  // whenever the tab is in the background.
+  useEffect(() => {
+    if (Platform.OS !== "web" || !screenProtection) {
+      setTabHidden(false);
+      return;
+    }
+    const update = () => setTabHidden(document.visibilityState === "hidden");
+    update();
+    document.addEventListener("visibilitychange", update);
+    return () => document.removeEventListener("visibilitychange", update);
+  }, [screenProtection]);
+
+  return tabHidden;
+}
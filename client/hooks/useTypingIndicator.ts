@@ -0,0 +1,86 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { getPrivacySettings, onPrivacySettingsChange } from "@/lib/storage";
+import { onTyping, sendTyping, sendGroupTyping } from "@/lib/socket";
+
+const SEND_INTERVAL_MS = 3000;
+const DISPLAY_TIMEOUT_MS = 5000;
+
+type TypingTarget = { contactId: string } | { groupId: string };
+
+export function useTypingIndicator(target: TypingTarget) {
+  const contactId = "contactId" in target ? target.contactId : undefined;
+  const groupId = "groupId" in target ? target.groupId : undefined;
+
+  const [typingUsers, setTypingUsers] = useState<string[]>([]);
+  // Stays disabled until privacy settings load so Ghost Mode never leaks a
+  // typing event on the first keystroke.
+  const [enabled, setEnabled] = useState(false);
+  const lastSentRef = useRef(0);
+  const timeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  // Follows Ghost Mode as it changes, so an open thread stops sending as soon
+  // as it is switched on. If the settings cannot be read, stay disabled.
+  useEffect(() => {
+    let active = true;
+    getPrivacySettings()
+      .then((settings) => {
+        if (active) setEnabled(!settings.ghostMode);
+      })
+      .catch((error) => {
+        console.error("Typing indicator settings error:", error);
+      });
+    const unsubscribe = onPrivacySettingsChange((settings) =>
+      setEnabled(!settings.ghostMode),
+    );
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const timeouts = timeoutsRef.current;
+    const unsubscribe = onTyping((data) => {
+      const matches = groupId
+        ? data.groupId === groupId
+        : !data.groupId && data.from === contactId;
+      if (!matches) return;
+
+      const existing = timeouts.get(data.from);
+      if (existing) clearTimeout(existing);
+      timeouts.set(
+        data.from,
+        setTimeout(() => {
+          timeouts.delete(data.from);
+          setTypingUsers((prev) => prev.filter((id) => id !== data.from));
+        }, DISPLAY_TIMEOUT_MS),
+      );
+      setTypingUsers((prev) =>
+        prev.includes(data.from) ? prev : [...prev, data.from],
+      );
+    });
+
+    return () => {
+      unsubscribe();
+      timeouts.forEach((timeout) => clearTimeout(timeout));
+      timeouts.clear();
+      setTypingUsers([]);
+    };
+  }, [enabled, contactId, groupId]);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!enabled || now - lastSentRef.current < SEND_INTERVAL_MS) return;
+    lastSentRef.current = now;
+
+    if (groupId) {
+      sendGroupTyping(groupId);
+    } else if (contactId) {
+      sendTyping(contactId);
+    }
+  }, [enabled, contactId, groupId]);
+
+  return { typingUsers, notifyTyping };
+}
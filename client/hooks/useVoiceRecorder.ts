@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import {
+  AudioQuality,
+  IOSOutputFormat,
+  requestRecordingPermissionsAsync,
+  setAudioModeAsync,
+  useAudioRecorder,
+  useAudioRecorderState,
+  type RecordingOptions,
+} from "expo-audio";
+import { File } from "expo-file-system";
+import { WAVEFORM_BARS, type PickedFile } from "@/lib/attachments";
+
+// Mono AAC at 32 kbps: about 240 KB a minute, plenty for speech.
+const VOICE_RECORDING: RecordingOptions = {
+  extension: ".m4a",
+  sampleRate: 22050,
+  numberOfChannels: 1,
+  bitRate: 32000,
+  isMeteringEnabled: true,
+  android: {
+    outputFormat: "mpeg4",
+    audioEncoder: "aac",
+  },
+  ios: {
+    outputFormat: IOSOutputFormat.MPEG4AAC,
+    audioQuality: AudioQuality.LOW,
+  },
+  web: {
+    mimeType: "audio/webm",
+    bitsPerSecond: 32000,
+  },
+};
+
+const METERING_INTERVAL_MS = 100;
+// Metering is in dBFS; anything under this is drawn as silence.
+const SILENCE_DB = -60;
+const MIN_DURATION_MS = 1000;
+
+export type StopRecordingResult =
+  | { recorded: true; file: PickedFile }
+  | { recorded: false; reason: "too_short" | "failed" };
+
+// Squeezes the metering samples into WAVEFORM_BARS levels between 0 and 1,
+// taking the loudest sample in each slice so short syllables still show.
+function toWaveform(samples: number[]): number[] {
+  if (samples.length === 0) return new Array(WAVEFORM_BARS).fill(0);
+  const levels: number[] = [];
+  for (let i = 0; i < WAVEFORM_BARS; i++) {
+    const start = Math.floor((i * samples.length) / WAVEFORM_BARS);
+    const end = Math.max(
+      start + 1,
+      Math.floor(((i + 1) * samples.length) / WAVEFORM_BARS),
+    );
+    const peak = Math.max(...samples.slice(start, end));
+    const level = Math.min(1, Math.max(0, (peak - SILENCE_DB) / -SILENCE_DB));
+    levels.push(Math.round(level * 100) / 100);
+  }
+  return levels;
+}
+
+// Press-and-hold recording for the chat composers. `start` asks for the
+// microphone the first time; `stop` hands back the recording as a file ready
+// for uploadAttachment, with its duration and waveform attached.
+export function useVoiceRecorder() {
+  const recorder = useAudioRecorder(VOICE_RECORDING);
+  const state = useAudioRecorderState(recorder, METERING_INTERVAL_MS);
+  const [isRecording, setIsRecording] = useState(false);
+  const samplesRef = useRef<number[]>([]);
+  // Set when the finger lifts before recording has actually started.
+  const releasedRef = useRef(false);
+
+  useEffect(() => {
+    if (isRecording && state.isRecording && state.metering !== undefined) {
+      samplesRef.current.push(state.metering);
+    }
+  }, [isRecording, state.isRecording, state.metering, state.durationMillis]);
+
+  const start = useCallback(async (): Promise<boolean> => {
+    releasedRef.current = false;
+    const permission = await requestRecordingPermissionsAsync();
+    if (!permission.granted) return false;
+    try {
+      await setAudioModeAsync({
+        allowsRecording: true,
+        playsInSilentMode: true,
+      });
+      await recorder.prepareToRecordAsync();
+      if (releasedRef.current) return true;
+      samplesRef.current = [];
+      recorder.record();
+      setIsRecording(true);
+      return true;
+    } catch (error) {
+      console.error("Voice recording error:", error);
+      return false;
+    }
+  }, [recorder]);
+
+  const stop = useCallback(async (): Promise<StopRecordingResult> => {
+    releasedRef.current = true;
+    if (!recorder.isRecording) {
+      setIsRecording(false);
+      return { recorded: false, reason: "too_short" };
+    }
+    const duration = recorder.currentTime * 1000;
+    try {
+      await recorder.stop();
+    } catch (error) {
+      console.error("Voice recording error:", error);
+      setIsRecording(false);
+      return { recorded: false, reason: "failed" };
+    } finally {
+      await setAudioModeAsync({
+        allowsRecording: false,
+        playsInSilentMode: true,
+      });
+    }
+    setIsRecording(false);
+
+    if (!recorder.uri) return { recorded: false, reason: "failed" };
+    const recording = new File(recorder.uri);
+    if (duration < MIN_DURATION_MS) {
+      discardRecording(recording.uri);
+      return { recorded: false, reason: "too_short" };
+    }
+    return {
+      recorded: true,
+      file: {
+        uri: recording.uri,
+        name: `voice-${Date.now()}.m4a`,
+        mimeType: "audio/mp4",
+        size: recording.size,
+        voice: {
+          duration: Math.round(duration),
+          waveform: toWaveform(samplesRef.current),
+        },
+      },
+    };
+  }, [recorder]);
+
+  return {
+    isRecording,
+    duration: isRecording ? state.durationMillis : 0,
+    start,
+    stop,
+  };
+}
+
+// The plaintext recording is only needed until it has been encrypted and
+// uploaded.
+export function discardRecording(uri: string): void {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error) {
+    console.error("Voice recording cleanup error:", error);
+  }
+}
@@ -0,0 +1,210 @@
+import { Platform } from "react-native";
+import * as LocalAuthentication from "expo-local-authentication";
+import { deleteAllAttachmentFiles } from "./attachments";
+import { fromBase64, randomBytes, toBase64 } from "./encoding";
+import {
+  forgetBiometricPassphrase,
+  lockIdentity,
+  resetIdentity,
+} from "./keystore";
+import { setCustomServerUrl } from "./query-client";
+import { deleteScrubbedCopies } from "./scrubber";
+import { deleteStegoImages } from "./stegoImages";
+import {
+  getAppLockPin,
+  getFailedUnlockCount,
+  getPrivacySettings,
+  saveAppLockPin,
+  setFailedUnlockCount,
+  wipeAllData,
+} from "./storage";
+
+// The app lock sits in front of the navigator while the identity is
+// unlocked. It only hides the UI: key material is dropped separately by the
+// keystore's idle lock. Unlocking the identity with the passphrase or its
+// biometric copy also opens the app lock, so a cold start asks once.
+
+export const MIN_PIN_LENGTH = 4;
+export const MAX_PIN_LENGTH = 8;
+export const MAX_FAILED_UNLOCKS = 10;
+const PIN_ITERATIONS = 100000;
+
+export type PinUnlockResult =
+  | { unlocked: true }
+  | { unlocked: false; reason: "wrong_pin"; attemptsLeft: number }
+  // Out of attempts: either everything was erased or the passphrase is
+  // needed again.
+  | { unlocked: false; reason: "wiped" | "locked_out" };
+
+type AppLockCallback = (locked: boolean) => void;
+type WipeCallback = () => void;
+
+let appLocked = true;
+let backgroundedAt: number | null = null;
+const appLockListeners: AppLockCallback[] = [];
+const wipeListeners: WipeCallback[] = [];
+
+function setAppLocked(locked: boolean): void {
+  if (appLocked === locked) return;
+  appLocked = locked;
+  appLockListeners.forEach((cb) => cb(locked));
+}
+
+export function isAppLocked(): boolean {
+  return appLocked;
+}
+
+export function unlockApp(): void {
+  setAppLocked(false);
+  setFailedUnlockCount(0).catch((error) => {
+    console.error("Failed unlock reset error:", error);
+  });
+}
+
+export function onAppLockChange(callback: AppLockCallback): () => void {
+  appLockListeners.push(callback);
+  return () => {
+    const index = appLockListeners.indexOf(callback);
+    if (index > -1) appLockListeners.splice(index, 1);
+  };
+}
+
+// Fires once a failed-unlock wipe has finished, so the app can start over
+// from onboarding.
+export function onDataWiped(callback: WipeCallback): () => void {
+  wipeListeners.push(callback);
+  return () => {
+    const index = wipeListeners.indexOf(callback);
+    if (index > -1) wipeListeners.splice(index, 1);
+  };
+}
+
+export function recordBackgrounded(now: number = Date.now()): void {
+  backgroundedAt = now;
+}
+
+// Called when the app comes back to the foreground.
+export async function lockIfAwayTooLong(
+  now: number = Date.now(),
+): Promise<void> {
+  if (backgroundedAt === null) return;
+  const away = now - backgroundedAt;
+  backgroundedAt = null;
+  const settings = await getPrivacySettings();
+  if (settings.biometricLock && away >= settings.appLockTimeout * 1000) {
+    setAppLocked(true);
+  }
+}
+
+export async function canUseBiometrics(): Promise<boolean> {
+  if (Platform.OS === "web") return false;
+  try {
+    const [hasHardware, isEnrolled] = await Promise.all([
+      LocalAuthentication.hasHardwareAsync(),
+      LocalAuthentication.isEnrolledAsync(),
+    ]);
+    return hasHardware && isEnrolled;
+  } catch {
+    return false;
+  }
+}
+
+export async function unlockWithBiometricPrompt(
+  promptMessage: string,
+): Promise<boolean> {
+  try {
+    const result = await LocalAuthentication.authenticateAsync({
+      promptMessage,
+    });
+    if (result.success) unlockApp();
+    return result.success;
+  } catch (error) {
+    console.error("App lock biometric error:", error);
+    return false;
+  }
+}
+
+export function isValidPin(pin: string): boolean {
+  return (
+    /^\d+$/.test(pin) &&
+    pin.length >= MIN_PIN_LENGTH &&
+    pin.length <= MAX_PIN_LENGTH
+  );
+}
+
+async function hashPin(
+  pin: string,
+  salt: Uint8Array<ArrayBuffer>,
+): Promise<string> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(pin),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations: PIN_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    256,
+  );
+  return toBase64(new Uint8Array(bits));
+}
+
+export async function hasAppLockPin(): Promise<boolean> {
+  return (await getAppLockPin()) !== null;
+}
+
+export async function setAppLockPin(pin: string): Promise<void> {
+  const salt = randomBytes(16);
+  await saveAppLockPin({
+    salt: toBase64(salt),
+    hash: await hashPin(pin, salt),
+  });
+}
+
+export async function clearAppLockPin(): Promise<void> {
+  await saveAppLockPin(null);
+}
+
+export async function unlockWithPin(pin: string): Promise<PinUnlockResult> {
+  const record = await getAppLockPin();
+  if (record && (await hashPin(pin, fromBase64(record.salt))) === record.hash) {
+    unlockApp();
+    return { unlocked: true };
+  }
+
+  const failures = (await getFailedUnlockCount()) + 1;
+  if (failures < MAX_FAILED_UNLOCKS) {
+    await setFailedUnlockCount(failures);
+    return {
+      unlocked: false,
+      reason: "wrong_pin",
+      attemptsLeft: MAX_FAILED_UNLOCKS - failures,
+    };
+  }
+
+  const settings = await getPrivacySettings();
+  await setFailedUnlockCount(0);
+  if (settings.wipeOnFailedUnlocks) {
+    await wipeAfterFailedUnlocks();
+    return { unlocked: false, reason: "wiped" };
+  }
+  lockIdentity();
+  return { unlocked: false, reason: "locked_out" };
+}
+
+// Leaves the device as if the app had just been installed: every stored key
+// and setting, the keychain copy of the passphrase and every file we wrote.
+async function wipeAfterFailedUnlocks(): Promise<void> {
+  await forgetBiometricPassphrase();
+  await wipeAllData();
+  setCustomServerUrl(null);
+  await resetIdentity();
+  if (Platform.OS !== "web") {
+    deleteAllAttachmentFiles();
+    deleteScrubbedCopies();
+    deleteStegoImages();
+  }
+  wipeListeners.forEach((cb) => cb());
+}
@@ -0,0 +1,521 @@
+import { Platform } from "react-native";
+import { Directory, File, Paths } from "expo-file-system";
+import * as ImagePicker from "expo-image-picker";
+import {
+  BLOB_DELETE_TOKEN_HEADER,
+  BLOB_ID_PATTERN,
+  BLOB_UPLOAD_TOKEN_HEADER,
+  MAX_BLOB_SIZE,
+  type BlobError,
+  type BlobUploadResult,
+} from "@shared/blobs";
+import {
+  concatBytes,
+  fromBase64Url,
+  randomBytes,
+  toBase64Url,
+} from "./encoding";
+import type { MetadataField } from "./metadata";
+import { getApiUrl } from "./query-client";
+import { requestUploadToken } from "./socket";
+
+const ATTACHMENT_PREFIX = "cn-attachment:v1:";
+const IV_LENGTH = 12;
+// AES-GCM adds a 16-byte tag; the IV is stored in front of the ciphertext.
+export const MAX_ATTACHMENT_SIZE = MAX_BLOB_SIZE - IV_LENGTH - 16;
+const MAX_NAME_LENGTH = 128;
+const MAX_CAPTION_LENGTH = 2000;
+export const WAVEFORM_BARS = 40;
+
+// Carried as the plaintext of an ordinary message, so it is end-to-end
+// encrypted like any other. The key never reaches the relay; the hash is over
+// the ciphertext, so a swapped blob is caught before decrypting.
+export interface Attachment {
+  blobId: string;
+  key: string;
+  hash: string;
+  mimeType: string;
+  name: string;
+  size: number;
+  width?: number;
+  height?: number;
+  caption?: string;
+  voice?: VoiceNote;
+  // When the relay drops the blob; after that only local copies remain.
+  expiresAt: number;
+}
+
+// Set on recorded voice notes so they get an inline player instead of a file
+// row. The waveform is WAVEFORM_BARS levels between 0 and 1.
+export interface VoiceNote {
+  duration: number;
+  waveform: number[];
+}
+
+export interface PickedFile {
+  uri: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  width?: number;
+  height?: number;
+  voice?: VoiceNote;
+  // Set once the file has been through the metadata scrubber.
+  scrub?: ScrubReport;
+}
+
+export interface ScrubReport {
+  // False for formats the scrubber does not understand.
+  checked: boolean;
+  removed: MetadataField[];
+}
+
+// `deleteToken` stays on this device: discardUpload needs it to take the blob
+// back when no message ends up carrying it.
+export type UploadResult =
+  | { uploaded: true; attachment: Attachment; deleteToken: string }
+  | {
+      uploaded: false;
+      reason:
+        | "too_large"
+        | "store_full"
+        | "quota_exceeded"
+        | "unreadable"
+        | "network";
+    };
+
+export type DownloadResult =
+  | { downloaded: true; uri: string }
+  | { downloaded: false; reason: "expired" | "network" | "corrupted" };
+
+// Ciphertext downloaded or uploaded by us, filed under the message that
+// carries it so the copies can go when the message does. Decrypted copies
+// are made per viewer in the cache directory and shredded by closeAttachment
+// when that viewer is done with them.
+function storedDirectory(): Directory {
+  return new Directory(Paths.document, "attachments");
+}
+
+function openedDirectory(): Directory {
+  return new Directory(Paths.cache, "attachments");
+}
+
+// Message IDs of received messages are chosen by the sender.
+function messageFolder(messageId: string): string {
+  return messageId.replace(/[^A-Za-z0-9_-]/g, "_");
+}
+
+function storedFile(attachment: Attachment, messageId: string): File {
+  return new File(
+    storedDirectory(),
+    messageFolder(messageId),
+    attachment.blobId,
+  );
+}
+
+// File pickers and the document directory are not available on web.
+export function isAttachmentSupported(): boolean {
+  return Platform.OS !== "web";
+}
+
+export function isAttachmentMessage(content: string): boolean {
+  return content.startsWith(ATTACHMENT_PREFIX);
+}
+
+export function serializeAttachment(attachment: Attachment): string {
+  return ATTACHMENT_PREFIX + JSON.stringify(attachment);
+}
+
+// Returns null for anything that is not a well-formed attachment, so a
+// malformed one is shown as text rather than fetched.
+export function parseAttachment(content: string): Attachment | null {
+  if (!isAttachmentMessage(content)) return null;
+  let value: Partial<Attachment>;
+  try {
+    value = JSON.parse(content.slice(ATTACHMENT_PREFIX.length));
+  } catch {
+    return null;
+  }
+  if (
+    typeof value?.blobId !== "string" ||
+    !BLOB_ID_PATTERN.test(value.blobId) ||
+    typeof value.key !== "string" ||
+    typeof value.hash !== "string" ||
+    typeof value.mimeType !== "string" ||
+    typeof value.size !== "number" ||
+    typeof value.expiresAt !== "number"
+  ) {
+    return null;
+  }
+  return {
+    blobId: value.blobId,
+    key: value.key,
+    hash: value.hash,
+    mimeType: value.mimeType,
+    name: String(value.name ?? "").slice(0, MAX_NAME_LENGTH) || "attachment",
+    size: value.size,
+    width: typeof value.width === "number" ? value.width : undefined,
+    height: typeof value.height === "number" ? value.height : undefined,
+    caption:
+      typeof value.caption === "string"
+        ? value.caption.slice(0, MAX_CAPTION_LENGTH)
+        : undefined,
+    voice: parseVoiceNote(value.voice),
+    expiresAt: value.expiresAt,
+  };
+}
+
+function parseVoiceNote(value: unknown): VoiceNote | undefined {
+  const voice = value as Partial<VoiceNote> | undefined;
+  if (
+    typeof voice?.duration !== "number" ||
+    !Number.isFinite(voice.duration) ||
+    !Array.isArray(voice.waveform)
+  ) {
+    return undefined;
+  }
+  return {
+    duration: Math.max(0, voice.duration),
+    waveform: voice.waveform
+      .slice(0, WAVEFORM_BARS)
+      .map((level) =>
+        typeof level === "number" ? Math.min(1, Math.max(0, level)) : 0,
+      ),
+  };
+}
+
+export function isImageAttachment(attachment: Attachment): boolean {
+  return attachment.mimeType.startsWith("image/");
+}
+
+// One-line description for chat list previews.
+export function describeAttachment(attachment: Attachment): string {
+  if (attachment.caption) return attachment.caption;
+  if (attachment.voice) {
+    return `Voice message (${formatDuration(attachment.voice.duration)})`;
+  }
+  return isImageAttachment(attachment) ? "Photo" : attachment.name;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Milliseconds as m:ss.
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+// Returns null when the user cancels the picker.
+export async function pickImage(): Promise<PickedFile | null> {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ["images"],
+    quality: 0.8,
+  });
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset) return null;
+  return {
+    uri: asset.uri,
+    name: asset.fileName || `image-${Date.now()}.jpg`,
+    mimeType: asset.mimeType || "image/jpeg",
+    size: asset.fileSize ?? new File(asset.uri).size,
+    width: asset.width,
+    height: asset.height,
+  };
+}
+
+export async function pickDocument(): Promise<PickedFile | null> {
+  try {
+    const picked = await File.pickFileAsync();
+    const first = Array.isArray(picked) ? picked[0] : picked;
+    if (!first) return null;
+    const file = new File(first.uri);
+    return {
+      uri: file.uri,
+      name: file.name,
+      mimeType: file.type || "application/octet-stream",
+      size: file.size,
+    };
+  } catch (error) {
+    console.error("Document pick error:", error);
+    return null;
+  }
+}
+
+async function sha256(bytes: Uint8Array<ArrayBuffer>): Promise<string> {
+  return toBase64Url(
+    new Uint8Array(await crypto.subtle.digest("SHA-256", bytes)),
+  );
+}
+
+function writeStored(
+  attachment: Attachment,
+  messageId: string,
+  ciphertext: Uint8Array,
+): void {
+  const file = storedFile(attachment, messageId);
+  file.parentDirectory.create({ intermediates: true, idempotent: true });
+  if (file.exists) file.delete();
+  file.write(ciphertext);
+}
+
+// Encrypts the file under a fresh key and uploads the ciphertext. `ttl` lets
+// attachments in disappearing chats leave the relay with the message; the
+// relay caps it at a week either way. `messageId` is the message that will
+// carry the attachment.
+export async function uploadAttachment(
+  file: PickedFile,
+  messageId: string,
+  options: { caption?: string; ttl?: number } = {},
+): Promise<UploadResult> {
+  let plaintext: Uint8Array<ArrayBuffer>;
+  try {
+    plaintext = await new File(file.uri).bytes();
+  } catch (error) {
+    console.error("Attachment read error:", error);
+    return { uploaded: false, reason: "unreadable" };
+  }
+  if (plaintext.length > MAX_ATTACHMENT_SIZE) {
+    return { uploaded: false, reason: "too_large" };
+  }
+
+  const keyBytes = randomBytes(32);
+  const iv = randomBytes(IV_LENGTH);
+  const key = await crypto.subtle.importKey("raw", keyBytes, "AES-GCM", false, [
+    "encrypt",
+  ]);
+  const ciphertext = concatBytes(
+    iv,
+    new Uint8Array(
+      await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, plaintext),
+    ),
+  );
+
+  const token = await requestUploadToken();
+  if (!token) {
+    return { uploaded: false, reason: "network" };
+  }
+
+  let upload: BlobUploadResult;
+  try {
+    // searchParams is only partly implemented in React Native.
+    const url = new URL(
+      options.ttl ? `api/blobs?ttl=${Math.round(options.ttl)}` : "api/blobs",
+      getApiUrl(),
+    );
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/octet-stream",
+        [BLOB_UPLOAD_TOKEN_HEADER]: token,
+      },
+      body: ciphertext,
+    });
+    if (!res.ok) {
+      const error: Partial<BlobError> = await res.json().catch(() => ({}));
+      return {
+        uploaded: false,
+        reason:
+          error.code === "too_large" ||
+          error.code === "store_full" ||
+          error.code === "quota_exceeded"
+            ? error.code
+            : "network",
+      };
+    }
+    upload = await res.json();
+  } catch (error) {
+    console.error("Attachment upload error:", error);
+    return { uploaded: false, reason: "network" };
+  }
+
+  const attachment: Attachment = {
+    blobId: upload.id,
+    key: toBase64Url(keyBytes),
+    hash: await sha256(ciphertext),
+    mimeType: file.mimeType,
+    name: file.name.slice(0, MAX_NAME_LENGTH),
+    size: plaintext.length,
+    width: file.width,
+    height: file.height,
+    caption: options.caption?.slice(0, MAX_CAPTION_LENGTH) || undefined,
+    voice: file.voice,
+    expiresAt: upload.expiresAt,
+  };
+  // Keep our own copy so the sender never has to download it again.
+  writeStored(attachment, messageId, ciphertext);
+  return { uploaded: true, attachment, deleteToken: upload.deleteToken };
+}
+
+// Undoes uploadAttachment when the message carrying the attachment could not
+// be encrypted, so the blob does not sit on the relay with nothing pointing to
+// it. Best effort: the relay drops the blob at its TTL anyway.
+export async function discardUpload(
+  attachment: Attachment,
+  messageId: string,
+  deleteToken: string,
+): Promise<void> {
+  deleteMessageAttachments([messageId]);
+  try {
+    await fetch(new URL(`api/blobs/${attachment.blobId}`, getApiUrl()), {
+      method: "DELETE",
+      headers: { [BLOB_DELETE_TOKEN_HEADER]: deleteToken },
+    });
+  } catch (error) {
+    console.error("Attachment discard error:", error);
+  }
+}
+
+export function hasStoredAttachment(
+  attachment: Attachment,
+  messageId: string,
+): boolean {
+  return isAttachmentSupported() && storedFile(attachment, messageId).exists;
+}
+
+// Fetches the ciphertext and keeps it only if the hash matches the one in
+// the message, then opens it like openAttachment.
+export async function downloadAttachment(
+  attachment: Attachment,
+  messageId: string,
+): Promise<DownloadResult> {
+  if (hasStoredAttachment(attachment, messageId)) {
+    return openAttachment(attachment, messageId);
+  }
+  if (attachment.expiresAt <= Date.now()) {
+    return { downloaded: false, reason: "expired" };
+  }
+
+  let ciphertext: Uint8Array<ArrayBuffer>;
+  try {
+    const url = new URL(
+      `api/blobs/${encodeURIComponent(attachment.blobId)}`,
+      getApiUrl(),
+    );
+    const res = await fetch(url);
+    if (res.status === 404) {
+      return { downloaded: false, reason: "expired" };
+    }
+    if (!res.ok) {
+      return { downloaded: false, reason: "network" };
+    }
+    ciphertext = new Uint8Array(await res.arrayBuffer());
+  } catch (error) {
+    console.error("Attachment download error:", error);
+    return { downloaded: false, reason: "network" };
+  }
+
+  if ((await sha256(ciphertext)) !== attachment.hash) {
+    return { downloaded: false, reason: "corrupted" };
+  }
+  writeStored(attachment, messageId, ciphertext);
+  return openAttachment(attachment, messageId);
+}
+
+// Decrypts the stored ciphertext into a fresh file in the cache directory
+// and returns its URI for previews and the share sheet. Each call gets its
+// own copy, so one viewer closing it never pulls it from under another.
+export async function openAttachment(
+  attachment: Attachment,
+  messageId: string,
+): Promise<DownloadResult> {
+  const stored = storedFile(attachment, messageId);
+  if (!stored.exists) {
+    return { downloaded: false, reason: "expired" };
+  }
+  const opened = new File(
+    openedDirectory(),
+    messageFolder(messageId),
+    toBase64Url(randomBytes(9)),
+    attachment.name.replace(/[\\/]/g, "_"),
+  );
+
+  try {
+    const bytes = await stored.bytes();
+    const key = await crypto.subtle.importKey(
+      "raw",
+      fromBase64Url(attachment.key),
+      "AES-GCM",
+      false,
+      ["decrypt"],
+    );
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: bytes.slice(0, IV_LENGTH) },
+      key,
+      bytes.slice(IV_LENGTH),
+    );
+    opened.parentDirectory.create({ intermediates: true, idempotent: true });
+    opened.write(new Uint8Array(plaintext));
+    return { downloaded: true, uri: opened.uri };
+  } catch (error) {
+    console.error("Attachment decrypt error:", error);
+    return { downloaded: false, reason: "corrupted" };
+  }
+}
+
+// Overwrites the decrypted copies before unlinking them; the ciphertext is
+// useless once the message holding its key is gone, so it is just deleted.
+function shredDirectory(directory: Directory): void {
+  for (const entry of directory.list()) {
+    if (entry instanceof Directory) {
+      shredDirectory(entry);
+    } else if (entry.size > 0) {
+      entry.write(new Uint8Array(entry.size));
+    }
+  }
+  directory.delete();
+}
+
+// Shreds a copy made by openAttachment (or downloadAttachment) once it is no
+// longer shown.
+export function closeAttachment(uri: string): void {
+  try {
+    const opened = new File(uri);
+    const directory = opened.parentDirectory;
+    if (!directory.uri.startsWith(openedDirectory().uri) || !directory.exists) {
+      return;
+    }
+    shredDirectory(directory);
+  } catch (error) {
+    console.error("Attachment close error:", error);
+  }
+}
+
+// Copies left behind when the app was killed while one was open.
+export function shredOpenedAttachments(): void {
+  if (!isAttachmentSupported()) return;
+  try {
+    const directory = openedDirectory();
+    if (directory.exists) shredDirectory(directory);
+  } catch (error) {
+    console.error("Attachment cleanup error:", error);
+  }
+}
+
+// Removes the local copies of whatever these messages carried, e.g. when
+// disappearing messages expire.
+export function deleteMessageAttachments(messageIds: string[]): void {
+  if (!isAttachmentSupported()) return;
+  for (const messageId of messageIds) {
+    const folder = messageFolder(messageId);
+    try {
+      const opened = new Directory(openedDirectory(), folder);
+      if (opened.exists) shredDirectory(opened);
+      const stored = new Directory(storedDirectory(), folder);
+      if (stored.exists) stored.delete();
+    } catch (error) {
+      console.error("Attachment cleanup error:", error);
+    }
+  }
+}
+
+// Removes every local copy, encrypted or not, e.g. when the account is reset.
+export function deleteAllAttachmentFiles(): void {
+  if (!isAttachmentSupported()) return;
+  for (const directory of [storedDirectory(), openedDirectory()]) {
+    if (directory.exists) directory.delete();
+  }
+}
@@ -0,0 +1,197 @@
+import { Platform } from "react-native";
+import { File, Paths } from "expo-file-system";
+import * as Sharing from "expo-sharing";
+import {
+  getIdentity,
+  saveIdentity,
+  unlockPrivateKey,
+  type UserIdentity,
+} from "./crypto";
+import { fromBase64, randomBytes, toBase64 } from "./encoding";
+import { unlockIdentity } from "./keystore";
+import {
+  getStorageSnapshot,
+  restoreStorageSnapshot,
+  type StorageSnapshot,
+} from "./storage";
+import { derivePassphraseKey } from "./vault";
+
+const BACKUP_FORMAT = "ciphernode-backup";
+const BACKUP_VERSION = 1;
+
+// The file written to disk. Only the format and version are readable; the
+// payload is AES-GCM under a key derived from the identity passphrase.
+interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+// Also what a device transfer streams to the new device.
+export interface BackupPayload {
+  // Stored as on disk, so the private key stays passphrase-encrypted.
+  identity: UserIdentity;
+  storage: StorageSnapshot;
+}
+
+export type RestoreResult =
+  | { restored: true; identity: UserIdentity }
+  | {
+      restored: false;
+      reason: "invalid_archive" | "unsupported_version" | "wrong_passphrase";
+    };
+
+export function isBackupSupported(): boolean {
+  return Platform.OS !== "web";
+}
+
+// Returns null when the passphrase does not unlock the identity, so the
+// account is only handed out by someone who knows it.
+export async function buildBackupPayload(
+  passphrase: string,
+): Promise<BackupPayload | null> {
+  const identity = await getIdentity();
+  if (!identity?.privateKey) return null;
+  try {
+    await unlockPrivateKey(identity.privateKey, passphrase);
+  } catch {
+    return null;
+  }
+  return { identity, storage: await getStorageSnapshot() };
+}
+
+// Replaces everything on this device with the payload and unlocks the
+// restored identity. Returns null when the passphrase does not unlock it.
+export async function applyBackupPayload(
+  payload: BackupPayload,
+  passphrase: string,
+): Promise<UserIdentity | null> {
+  try {
+    await unlockPrivateKey(payload.identity.privateKey, passphrase);
+  } catch {
+    return null;
+  }
+  await restoreStorageSnapshot(payload.storage, passphrase);
+  await saveIdentity(payload.identity);
+  return unlockIdentity(passphrase);
+}
+
+export function isBackupPayload(value: unknown): value is BackupPayload {
+  const payload = value as BackupPayload | null;
+  return !!payload?.identity?.privateKey && !!payload.storage;
+}
+
+// Returns null when the passphrase does not unlock the identity: the archive
+// is encrypted with it, so a typo here would make the backup unrestorable.
+export async function createBackup(passphrase: string): Promise<string | null> {
+  const payload = await buildBackupPayload(passphrase);
+  if (!payload) return null;
+
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const key = await derivePassphraseKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(payload)),
+  );
+
+  const archive: BackupArchive = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+  return JSON.stringify(archive);
+}
+
+// Writes the archive to the cache directory only for as long as the share
+// sheet needs it.
+export async function shareBackup(
+  archive: string,
+  dialogTitle: string,
+): Promise<void> {
+  const date = new Date().toISOString().slice(0, 10);
+  const file = new File(Paths.cache, `ciphernode-backup-${date}.json`);
+  try {
+    if (file.exists) file.delete();
+    file.write(archive);
+    await Sharing.shareAsync(file.uri, {
+      mimeType: "application/json",
+      UTI: "public.json",
+      dialogTitle,
+    });
+  } finally {
+    if (file.exists) file.delete();
+  }
+}
+
+// Returns null when the user cancels the picker.
+export async function pickBackupFile(): Promise<string | null> {
+  try {
+    const picked = await File.pickFileAsync();
+    const file = Array.isArray(picked) ? picked[0] : picked;
+    return file ? await file.text() : null;
+  } catch (error) {
+    console.error("Backup pick error:", error);
+    return null;
+  }
+}
+
+function parseArchive(archive: string): BackupArchive | null {
+  try {
+    const parsed = JSON.parse(archive);
+    if (
+      parsed?.format !== BACKUP_FORMAT ||
+      typeof parsed.version !== "number" ||
+      typeof parsed.salt !== "string" ||
+      typeof parsed.iv !== "string" ||
+      typeof parsed.ciphertext !== "string"
+    ) {
+      return null;
+    }
+    return parsed;
+  } catch {
+    return null;
+  }
+}
+
+export async function restoreBackup(
+  archive: string,
+  passphrase: string,
+): Promise<RestoreResult> {
+  const parsed = parseArchive(archive);
+  if (!parsed) {
+    return { restored: false, reason: "invalid_archive" };
+  }
+  if (parsed.version !== BACKUP_VERSION) {
+    return { restored: false, reason: "unsupported_version" };
+  }
+
+  let payload: BackupPayload;
+  try {
+    const key = await derivePassphraseKey(passphrase, fromBase64(parsed.salt));
+    const plaintext = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(parsed.iv) },
+      key,
+      fromBase64(parsed.ciphertext),
+    );
+    payload = JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    return { restored: false, reason: "wrong_passphrase" };
+  }
+  if (!isBackupPayload(payload)) {
+    return { restored: false, reason: "invalid_archive" };
+  }
+
+  const identity = await applyBackupPayload(payload, passphrase);
+  if (!identity) {
+    return { restored: false, reason: "wrong_passphrase" };
+  }
+  return { restored: true, identity };
+}
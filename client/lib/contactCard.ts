@@ -0,0 +1,144 @@
+import {
+  armorPublicKey,
+  dearmorPublicKey,
+  generateShortId,
+  getKeyFingerprint,
+  signDetached,
+  verifyDetached,
+  type UserIdentity,
+} from "./crypto";
+import { lookupContactKey } from "./directory";
+import { fromBase64Url, toBase64Url } from "./encoding";
+
+const CONTACT_CARD_PREFIX = "ciphernode://contact?";
+const CONTACT_CARD_VERSION = "1";
+const MAX_DISPLAY_NAME_LENGTH = 64;
+
+export interface ContactCard {
+  id: string;
+  displayName: string;
+  publicKey: string;
+  fingerprint: string;
+}
+
+export type ContactCardCheck =
+  | { valid: true; card: ContactCard }
+  | {
+      valid: false;
+      reason:
+        | "malformed"
+        | "unsupported_version"
+        | "invalid_signature"
+        | "id_mismatch";
+    };
+
+// What the self-signature covers: every field of the card, in a fixed order.
+function signedText(
+  version: string,
+  id: string,
+  displayName: string,
+  key: string,
+): string {
+  return ["ciphernode-contact", version, id, displayName, key].join("\n");
+}
+
+// Parsed by hand: URLSearchParams is only partly implemented in React Native.
+function parseQuery(uri: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const pair of uri.slice(CONTACT_CARD_PREFIX.length).split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      params[pair.slice(0, separator)] = decodeURIComponent(
+        pair.slice(separator + 1),
+      );
+    }
+  }
+  return params;
+}
+
+export function isContactCardUri(value: string): boolean {
+  return value.startsWith(CONTACT_CARD_PREFIX);
+}
+
+// Builds the `ciphernode://contact?...` URI shown in our QR code and shared
+// as a link. Needs the unlocked private key for the self-signature.
+export async function createContactCard(
+  identity: UserIdentity,
+): Promise<string> {
+  const displayName = identity.displayName.slice(0, MAX_DISPLAY_NAME_LENGTH);
+  const key = toBase64Url(await dearmorPublicKey(identity.publicKey));
+  const signature = await signDetached(
+    signedText(CONTACT_CARD_VERSION, identity.id, displayName, key),
+    identity.privateKey,
+  );
+
+  const params: [string, string][] = [
+    ["v", CONTACT_CARD_VERSION],
+    ["id", identity.id],
+    ["n", displayName],
+    ["k", key],
+    ["s", toBase64Url(signature)],
+  ];
+  return (
+    CONTACT_CARD_PREFIX +
+    params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join("&")
+  );
+}
+
+// A card is only accepted when it is signed by the key it carries and that
+// key is the one its ID was derived from, or one the relay vouches for after
+// a key migration.
+export async function verifyContactCard(
+  uri: string,
+): Promise<ContactCardCheck> {
+  if (!isContactCardUri(uri)) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let params: Record<string, string>;
+  try {
+    params = parseQuery(uri);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const { v, id, n = "", k, s } = params;
+  if (v !== CONTACT_CARD_VERSION) {
+    return { valid: false, reason: v ? "unsupported_version" : "malformed" };
+  }
+  if (!id || !k || !s || n.length > MAX_DISPLAY_NAME_LENGTH) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let publicKey: string;
+  let fingerprint: string;
+  let signature: Uint8Array;
+  try {
+    publicKey = await armorPublicKey(fromBase64Url(k));
+    fingerprint = await getKeyFingerprint(publicKey);
+    signature = fromBase64Url(s);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const verified = await verifyDetached(
+    signedText(v, id, n, k),
+    signature,
+    publicKey,
+  );
+  if (!verified) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  if (generateShortId(fingerprint) !== id) {
+    const lookup = await lookupContactKey(id);
+    if (!lookup.found || lookup.fingerprint !== fingerprint) {
+      return { valid: false, reason: "id_mismatch" };
+    }
+  }
+
+  return {
+    valid: true,
+    card: { id, displayName: n, publicKey, fingerprint },
+  };
+}
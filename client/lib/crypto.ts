@@ -1,5 +1,13 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import * as openpgp from "openpgp";
+import {
+  generateShortId,
+  type KeyBundle,
+  type KeyBundleClaims,
+  type KeyTransition,
+  type KeyTransitionClaims,
+  type PrekeyBundle,
+} from "@shared/identity";
 
 const IDENTITY_STORAGE_KEY = "@ciphernode/identity";
 
@@ -10,6 +18,8 @@ export interface UserIdentity {
   fingerprint: string;
   displayName: string;
   createdAt: number;
+  // Present once the identity has moved off the key its ID was derived from.
+  keyTransition?: KeyTransition;
 }
 
 export interface Contact {
@@ -18,25 +28,31 @@ export interface Contact {
   fingerprint: string;
   displayName: string;
   addedAt: number;
+  // Set after scanning the contact's QR code in person; cleared whenever
+  // their key changes.
+  verified?: boolean;
+  // A different key seen for this contact that the user has not accepted.
+  keyChange?: {
+    publicKey: string;
+    fingerprint: string;
+    detectedAt: number;
+  };
 }
 
-export function generateShortId(fingerprint: string): string {
-  const clean = fingerprint.replace(/\s/g, "").toUpperCase();
-  const part1 = clean.slice(0, 4);
-  const part2 = clean.slice(4, 8);
-  return `${part1}-${part2}`;
-}
+export { generateShortId };
+
+const SAFETY_NUMBER_ITERATIONS = 5200;
 
-export async function generateKeyPair(): Promise<{
+export async function generateKeyPair(passphrase: string): Promise<{
   publicKey: string;
   privateKey: string;
   fingerprint: string;
   id: string;
 }> {
   const { privateKey, publicKey } = await openpgp.generateKey({
-    type: "rsa",
-    rsaBits: 2048,
+    type: "curve25519",
     userIDs: [{ name: "CipherNode User" }],
+    passphrase,
     format: "armored",
   });
 
@@ -47,40 +63,22 @@ export async function generateKeyPair(): Promise<{
   return { publicKey, privateKey, fingerprint, id };
 }
 
-export async function getOrCreateIdentity(): Promise<UserIdentity> {
-  try {
-    const stored = await AsyncStorage.getItem(IDENTITY_STORAGE_KEY);
-    
-    if (stored) {
-      return JSON.parse(stored);
-    }
+// The identity on disk always carries a passphrase-encrypted private key.
+// Decrypted key material is only ever held in memory by keystore.ts.
+export async function createIdentity(passphrase: string): Promise<UserIdentity> {
+  const { publicKey, privateKey, fingerprint, id } = await generateKeyPair(passphrase);
 
-    const { publicKey, privateKey, fingerprint, id } = await generateKeyPair();
-    
-    const identity: UserIdentity = {
-      id,
-      publicKey,
-      privateKey,
-      fingerprint,
-      displayName: "",
-      createdAt: Date.now(),
-    };
+  const identity: UserIdentity = {
+    id,
+    publicKey,
+    privateKey,
+    fingerprint,
+    displayName: "",
+    createdAt: Date.now(),
+  };
 
-    await AsyncStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
-    return identity;
-  } catch (error) {
-    console.error("Error creating identity:", error);
-    const fallbackId = Math.random().toString(36).substring(2, 6).toUpperCase() + "-" + 
-                       Math.random().toString(36).substring(2, 6).toUpperCase();
-    return {
-      id: fallbackId,
-      publicKey: "",
-      privateKey: "",
-      fingerprint: fallbackId.replace("-", "").padEnd(40, "0"),
-      displayName: "",
-      createdAt: Date.now(),
-    };
-  }
+  await saveIdentity(identity);
+  return identity;
 }
 
 export async function getIdentity(): Promise<UserIdentity | null> {
@@ -92,25 +90,136 @@ export async function getIdentity(): Promise<UserIdentity | null> {
   }
 }
 
+export async function saveIdentity(identity: UserIdentity): Promise<void> {
+  await AsyncStorage.setItem(...identityEntry(identity));
+}
+
+// For callers that have to write the identity together with other records.
+export function identityEntry(identity: UserIdentity): [string, string] {
+  return [IDENTITY_STORAGE_KEY, JSON.stringify(identity)];
+}
+
+export async function deleteIdentity(): Promise<void> {
+  await AsyncStorage.removeItem(IDENTITY_STORAGE_KEY);
+}
+
 export async function updateDisplayName(name: string): Promise<void> {
   const identity = await getIdentity();
   if (identity) {
     identity.displayName = name;
-    await AsyncStorage.setItem(IDENTITY_STORAGE_KEY, JSON.stringify(identity));
+    await saveIdentity(identity);
   }
 }
 
-export async function regenerateIdentity(): Promise<UserIdentity> {
-  await AsyncStorage.removeItem(IDENTITY_STORAGE_KEY);
-  return getOrCreateIdentity();
+export async function isPrivateKeyProtected(privateKeyArmored: string): Promise<boolean> {
+  const privateKey = await openpgp.readPrivateKey({ armoredKey: privateKeyArmored });
+  return !privateKey.isDecrypted();
 }
 
+// Throws when the passphrase is wrong.
+export async function unlockPrivateKey(
+  lockedPrivateKey: string,
+  passphrase: string
+): Promise<string> {
+  const privateKey = await openpgp.decryptKey({
+    privateKey: await openpgp.readPrivateKey({ armoredKey: lockedPrivateKey }),
+    passphrase,
+  });
+  return privateKey.armor();
+}
+
+export async function lockPrivateKey(
+  privateKeyArmored: string,
+  passphrase: string
+): Promise<string> {
+  const privateKey = await openpgp.encryptKey({
+    privateKey: await openpgp.readPrivateKey({ armoredKey: privateKeyArmored }),
+    passphrase,
+  });
+  return privateKey.armor();
+}
+
+export async function getKeyFingerprint(publicKeyArmored: string): Promise<string> {
+  const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+  return publicKey.getFingerprint().toUpperCase();
+}
+
+// Hashes each side's fingerprint and ID into 30 digits and joins the two
+// halves in a fixed order, so both contacts see the same 60-digit number.
+export async function computeSafetyNumber(
+  ownId: string,
+  ownPublicKey: string,
+  contactId: string,
+  contactPublicKey: string
+): Promise<string> {
+  const halves = await Promise.all([
+    safetyNumberHalf(ownId, await getKeyFingerprint(ownPublicKey)),
+    safetyNumberHalf(contactId, await getKeyFingerprint(contactPublicKey)),
+  ]);
+  return halves.sort().join("");
+}
+
+async function safetyNumberHalf(id: string, fingerprint: string): Promise<string> {
+  const input = new TextEncoder().encode(fingerprint + id);
+  let hash = new Uint8Array(await crypto.subtle.digest("SHA-512", input));
+  // Iterated so that finding a key whose number matches a target is costly.
+  for (let i = 1; i < SAFETY_NUMBER_ITERATIONS; i++) {
+    const next = new Uint8Array(hash.length + input.length);
+    next.set(hash);
+    next.set(input, hash.length);
+    hash = new Uint8Array(await crypto.subtle.digest("SHA-512", next));
+  }
+
+  let digits = "";
+  for (let chunk = 0; chunk < 6; chunk++) {
+    let value = 0;
+    for (let i = 0; i < 5; i++) {
+      value = value * 256 + hash[chunk * 5 + i];
+    }
+    digits += (value % 100000).toString().padStart(5, "0");
+  }
+  return digits;
+}
+
+export function formatSafetyNumber(safetyNumber: string): string {
+  return safetyNumber.replace(/(.{5})/g, "$1 ").trim();
+}
+
+// Identities created before the switch to Curve25519 carry RSA keys.
+export async function isLegacyRsaKey(publicKeyArmored: string): Promise<boolean> {
+  const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+  return publicKey.getAlgorithmInfo().algorithm.startsWith("rsa");
+}
+
+export async function hasUsableEncryptionKey(publicKeyArmored: string): Promise<boolean> {
+  if (!publicKeyArmored) {
+    return false;
+  }
+
+  try {
+    const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+    await publicKey.getEncryptionKey();
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// In strict mode (the default) a missing recipient key or an openpgp failure
+// throws instead of handing the plaintext back, so callers can never mistake
+// it for ciphertext and put it on the wire.
 export async function encryptMessage(
   message: string,
   recipientPublicKey: string,
-  senderPrivateKey?: string
+  senderPrivateKey?: string,
+  options: { strict?: boolean } = {}
 ): Promise<string> {
+  const strict = options.strict ?? true;
+
   if (!recipientPublicKey) {
+    if (strict) {
+      throw new Error("Recipient has no public key");
+    }
     return message;
   }
   
@@ -136,17 +245,44 @@ export async function encryptMessage(
     return encrypted as string;
   } catch (error) {
     console.error("Encryption error:", error);
+    if (strict) {
+      throw error;
+    }
     return message;
   }
 }
 
+export async function encryptGroupMessage(
+  message: string,
+  recipientPublicKeys: string[],
+  senderPrivateKey: string
+): Promise<string> {
+  const armoredKeys = recipientPublicKeys.filter((key) => key);
+  if (armoredKeys.length === 0) {
+    throw new Error("No group member has a usable public key");
+  }
+
+  const encryptionKeys = await Promise.all(
+    armoredKeys.map((armoredKey) => openpgp.readKey({ armoredKey }))
+  );
+  const signingKeys = await openpgp.readPrivateKey({ armoredKey: senderPrivateKey });
+
+  const encrypted = await openpgp.encrypt({
+    message: await openpgp.createMessage({ text: message }),
+    encryptionKeys,
+    signingKeys,
+  });
+
+  return encrypted as string;
+}
+
 export async function decryptMessage(
   encryptedMessage: string,
   privateKeyArmored: string,
   senderPublicKey?: string
-): Promise<{ content: string; verified: boolean }> {
+): Promise<{ content: string; verified: boolean; signedByOtherKey: boolean }> {
   if (!privateKeyArmored || !encryptedMessage.includes("-----BEGIN PGP MESSAGE-----")) {
-    return { content: encryptedMessage, verified: false };
+    return { content: encryptedMessage, verified: false, signedByOtherKey: false };
   }
   
   try {
@@ -156,6 +292,7 @@ export async function decryptMessage(
       armoredMessage: encryptedMessage,
     });
 
+    let senderKeyIds: string[] = [];
     const decryptOptions: {
       message: openpgp.Message<openpgp.MaybeStream<string>>;
       decryptionKeys: openpgp.PrivateKey;
@@ -168,11 +305,13 @@ export async function decryptMessage(
     if (senderPublicKey) {
       const publicKey = await openpgp.readKey({ armoredKey: senderPublicKey });
       decryptOptions.verificationKeys = publicKey;
+      senderKeyIds = publicKey.getKeyIDs().map((keyId) => keyId.toHex());
     }
 
     const { data: decrypted, signatures } = await openpgp.decrypt(decryptOptions);
     
     let verified = false;
+    let signedByOtherKey = false;
     if (signatures && signatures.length > 0 && senderPublicKey) {
       try {
         await signatures[0].verified;
@@ -180,12 +319,15 @@ export async function decryptMessage(
       } catch {
         verified = false;
       }
+      // Signed, but not by any key we hold for the sender: their key may
+      // have been replaced.
+      signedByOtherKey = !senderKeyIds.includes(signatures[0].keyID.toHex());
     }
 
-    return { content: decrypted as string, verified };
+    return { content: decrypted as string, verified, signedByOtherKey };
   } catch (error) {
     console.error("Decryption error:", error);
-    return { content: encryptedMessage, verified: false };
+    return { content: encryptedMessage, verified: false, signedByOtherKey: false };
   }
 }
 
@@ -237,6 +379,52 @@ export async function verifySignature(
   }
 }
 
+// Binary signature over `text` that travels separately from it, e.g. as a
+// query parameter in a contact card.
+export async function signDetached(text: string, privateKeyArmored: string): Promise<Uint8Array> {
+  const privateKey = await openpgp.readPrivateKey({ armoredKey: privateKeyArmored });
+  return openpgp.sign({
+    message: await openpgp.createMessage({ text }),
+    signingKeys: privateKey,
+    detached: true,
+    format: "binary",
+  });
+}
+
+export async function verifyDetached(
+  text: string,
+  signature: Uint8Array,
+  publicKeyArmored: string
+): Promise<boolean> {
+  try {
+    const { signatures } = await openpgp.verify({
+      message: await openpgp.createMessage({ text }),
+      signature: await openpgp.readSignature({ binarySignature: signature }),
+      verificationKeys: await openpgp.readKey({ armoredKey: publicKeyArmored }),
+    });
+    if (signatures.length === 0) return false;
+    await signatures[0].verified;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Contact cards carry the raw key packets: armor headers, line breaks and
+// their URL escapes would only make the QR code denser.
+export async function dearmorPublicKey(publicKeyArmored: string): Promise<Uint8Array> {
+  const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+  return publicKey.write();
+}
+
+export async function armorPublicKey(binaryKey: Uint8Array): Promise<string> {
+  const publicKey = await openpgp.readKey({ binaryKey });
+  if (publicKey.isPrivate()) {
+    throw new Error("Expected a public key");
+  }
+  return publicKey.armor();
+}
+
 export async function exportPublicKey(identity: UserIdentity): Promise<string> {
   return identity.publicKey;
 }
@@ -262,3 +450,121 @@ export async function importContactFromPublicKey(
     return null;
   }
 }
+
+export async function signKeyBundle(
+  userId: string,
+  publicKeyArmored: string,
+  privateKeyArmored: string,
+  prekeys?: PrekeyBundle
+): Promise<string> {
+  const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+  const claims: KeyBundleClaims = {
+    userId,
+    fingerprint: publicKey.getFingerprint().toUpperCase(),
+    publishedAt: Date.now(),
+    prekeys,
+  };
+  return signMessage(JSON.stringify(claims), privateKeyArmored);
+}
+
+// Signs, with the key `userId` was derived from, that the ID now belongs to
+// `newPublicKey`. `previousPrivateKey` must already be decrypted.
+export async function createKeyTransition(
+  userId: string,
+  previousPublicKey: string,
+  previousPrivateKey: string,
+  newPublicKey: string
+): Promise<KeyTransition> {
+  const claims: KeyTransitionClaims = {
+    userId,
+    previousFingerprint: await getKeyFingerprint(previousPublicKey),
+    fingerprint: await getKeyFingerprint(newPublicKey),
+    issuedAt: Date.now(),
+  };
+  const signedClaims = await signMessage(JSON.stringify(claims), previousPrivateKey);
+  return { previousPublicKey, signedClaims };
+}
+
+export async function verifyKeyTransition(
+  userId: string,
+  fingerprint: string,
+  transition: KeyTransition
+): Promise<boolean> {
+  try {
+    const previousFingerprint = await getKeyFingerprint(transition.previousPublicKey);
+    if (generateShortId(previousFingerprint) !== userId) {
+      return false;
+    }
+
+    const { verified, content } = await verifySignature(
+      transition.signedClaims,
+      transition.previousPublicKey
+    );
+    if (!verified) {
+      return false;
+    }
+
+    const claims = JSON.parse(content) as KeyTransitionClaims;
+    return (
+      claims.userId === userId &&
+      claims.previousFingerprint === previousFingerprint &&
+      claims.fingerprint === fingerprint
+    );
+  } catch {
+    return false;
+  }
+}
+
+export type KeyBundleCheck =
+  | {
+      valid: true;
+      publicKey: string;
+      fingerprint: string;
+      prekeys?: PrekeyBundle;
+      keyTransition?: KeyTransition;
+    }
+  | { valid: false; reason: "fingerprint_mismatch" | "invalid_signature" };
+
+// Never trust the relay's word for which key belongs to an ID: the key must
+// hash to the requested ID (or carry a transition signed by the key that
+// does) and the bundle must be self-signed by that key.
+export async function verifyKeyBundle(requestedId: string, bundle: KeyBundle): Promise<KeyBundleCheck> {
+  let fingerprint: string;
+  let publicKey: openpgp.Key;
+  try {
+    publicKey = await openpgp.readKey({ armoredKey: bundle.publicKey });
+    fingerprint = publicKey.getFingerprint().toUpperCase();
+  } catch {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  if (
+    generateShortId(fingerprint) !== requestedId &&
+    !(bundle.keyTransition && (await verifyKeyTransition(requestedId, fingerprint, bundle.keyTransition)))
+  ) {
+    return { valid: false, reason: "fingerprint_mismatch" };
+  }
+
+  const { verified, content } = await verifySignature(bundle.signedClaims, bundle.publicKey);
+  if (!verified) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  let claims: KeyBundleClaims;
+  try {
+    claims = JSON.parse(content) as KeyBundleClaims;
+  } catch {
+    return { valid: false, reason: "invalid_signature" };
+  }
+  if (claims.userId !== requestedId || claims.fingerprint !== fingerprint) {
+    return { valid: false, reason: "fingerprint_mismatch" };
+  }
+
+  return {
+    valid: true,
+    publicKey: bundle.publicKey,
+    fingerprint,
+    prekeys: claims.prekeys,
+    keyTransition: bundle.keyTransition,
+  };
+}
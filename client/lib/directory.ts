@@ -0,0 +1,107 @@
+import type { KeyBundle, KeyTransition, PrekeyBundle } from "@shared/identity";
+import { getApiUrl } from "./query-client";
+import { getKeyFingerprint, verifyKeyBundle } from "./crypto";
+import {
+  getContact,
+  recordContactKeyChange,
+  updateContactKey,
+} from "./storage";
+
+export type KeyLookupResult =
+  | {
+      found: true;
+      publicKey: string;
+      fingerprint: string;
+      prekeys?: PrekeyBundle;
+      keyTransition?: KeyTransition;
+    }
+  | {
+      found: false;
+      reason:
+        | "not_found"
+        | "network"
+        | "fingerprint_mismatch"
+        | "invalid_signature";
+    };
+
+export async function lookupContactKey(
+  contactId: string,
+): Promise<KeyLookupResult> {
+  let bundle: KeyBundle;
+  try {
+    const url = new URL(
+      `api/keys/${encodeURIComponent(contactId)}`,
+      getApiUrl(),
+    );
+    const res = await fetch(url);
+    if (res.status === 404) {
+      return { found: false, reason: "not_found" };
+    }
+    if (!res.ok) {
+      return { found: false, reason: "network" };
+    }
+    bundle = await res.json();
+  } catch (error) {
+    console.error("Key lookup error:", error);
+    return { found: false, reason: "network" };
+  }
+
+  const check = await verifyKeyBundle(contactId, bundle);
+  if (!check.valid) {
+    return { found: false, reason: check.reason };
+  }
+  return {
+    found: true,
+    publicKey: check.publicKey,
+    fingerprint: check.fingerprint,
+    prekeys: check.prekeys,
+    keyTransition: check.keyTransition,
+  };
+}
+
+export type ContactKeyCheck = "unchanged" | "transitioned" | "conflict";
+
+// Compares the directory's key for a contact with the one we pinned. A key
+// migration signed by the pinned key is applied silently; any other new key is
+// only recorded as a pending change for the user to review, so the relay
+// cannot swap in a key of its own. Pass `lookup` to reuse a fresh result.
+export async function checkContactKey(
+  contactId: string,
+  lookup?: KeyLookupResult,
+): Promise<ContactKeyCheck> {
+  const contact = await getContact(contactId);
+  if (!contact) return "unchanged";
+
+  const result = lookup ?? (await lookupContactKey(contactId));
+  if (!result.found) return "unchanged";
+
+  let pinnedFingerprint: string;
+  try {
+    pinnedFingerprint = await getKeyFingerprint(contact.publicKey);
+  } catch {
+    return "unchanged";
+  }
+  if (
+    result.fingerprint === pinnedFingerprint ||
+    result.fingerprint === contact.keyChange?.fingerprint
+  ) {
+    return "unchanged";
+  }
+
+  if (result.keyTransition) {
+    try {
+      const previousFingerprint = await getKeyFingerprint(
+        result.keyTransition.previousPublicKey,
+      );
+      if (previousFingerprint === pinnedFingerprint) {
+        await updateContactKey(contactId, result.publicKey, result.fingerprint);
+        return "transitioned";
+      }
+    } catch {
+      // Fall through and treat it like any other unexpected key.
+    }
+  }
+
+  await recordContactKeyChange(contactId, result.publicKey, result.fingerprint);
+  return "conflict";
+}
@@ -0,0 +1,369 @@
+import type { GroupInvitationClaims } from "@shared/groups";
+import {
+  decryptMessage,
+  encryptGroupMessage,
+  signMessage,
+  type UserIdentity,
+} from "./crypto";
+import {
+  getContact,
+  getGroup,
+  getPendingGroupJoins,
+  removePendingGroupJoin,
+  saveGroup,
+  updateGroup,
+  type Group,
+  type GroupMember,
+  type GroupRosterChange,
+} from "./storage";
+
+const CONTROL_PREFIX = "cn-group-control:v1:";
+const PENDING_JOIN_TTL = 7 * 24 * 60 * 60 * 1000;
+export const MAX_GROUP_NAME_LENGTH = 64;
+export const MAX_GROUP_DESCRIPTION_LENGTH = 256;
+
+// What a newly added member needs to set the group up on their side.
+export type GroupSnapshot = Pick<
+  Group,
+  "name" | "description" | "createdBy" | "createdAt" | "members"
+>;
+
+// Everything except "leave" needs the sender to be an admin in the
+// receiver's own copy of the group.
+export type GroupControlAction =
+  | { type: "add_members"; members: GroupMember[]; snapshot?: GroupSnapshot }
+  | { type: "remove_member"; memberId: string }
+  | { type: "set_role"; memberId: string; role: GroupMember["role"] }
+  | { type: "update_info"; name: string; description: string }
+  | { type: "leave" };
+
+// Sent through the group channel, encrypted to every member and signed by
+// the sender like any group message. groupId and from are repeated inside so
+// a control message cannot be replayed into another group or re-attributed.
+// `seq` rises with each of the sender's own control messages for the group
+// and is only compared with that sender's earlier ones: changes from
+// different admins apply in the order they arrive.
+export interface GroupControl {
+  groupId: string;
+  from: string;
+  seq: number;
+  action: GroupControlAction;
+}
+
+function lastSeq(group: Group | null | undefined, senderId: string): number {
+  return group?.controlSeqs?.[senderId] ?? 0;
+}
+
+export function isGroupControl(encrypted: string): boolean {
+  return encrypted.startsWith(CONTROL_PREFIX);
+}
+
+function isMember(value: unknown): value is GroupMember {
+  const member = value as GroupMember | null;
+  return (
+    typeof member?.id === "string" &&
+    typeof member.publicKey === "string" &&
+    typeof member.displayName === "string"
+  );
+}
+
+// Returns the group with the change applied, or null when the sender may not
+// make it or it does not fit the current state.
+export function applyGroupControl(
+  group: Group,
+  control: GroupControl,
+): Group | null {
+  if (
+    control.groupId !== group.id ||
+    !Number.isSafeInteger(control.seq) ||
+    control.seq <= lastSeq(group, control.from)
+  ) {
+    return null;
+  }
+
+  const sender = group.members.find((m) => m.id === control.from);
+  const next: Group = {
+    ...group,
+    members: [...group.members],
+    controlSeqs: { ...group.controlSeqs, [control.from]: control.seq },
+  };
+  const { action } = control;
+
+  if (action?.type === "leave") {
+    if (!sender) return null;
+    next.members = next.members.filter((m) => m.id !== control.from);
+    return next;
+  }
+  if (sender?.role !== "admin") return null;
+
+  switch (action?.type) {
+    case "add_members": {
+      if (!Array.isArray(action.members) || !action.members.every(isMember)) {
+        return null;
+      }
+      for (const member of action.members) {
+        if (!next.members.some((m) => m.id === member.id)) {
+          next.members.push({ ...member, role: "member" });
+        }
+      }
+      return next;
+    }
+    case "remove_member": {
+      if (!next.members.some((m) => m.id === action.memberId)) return null;
+      next.members = next.members.filter((m) => m.id !== action.memberId);
+      return next;
+    }
+    case "set_role": {
+      if (
+        (action.role !== "admin" && action.role !== "member") ||
+        !next.members.some((m) => m.id === action.memberId)
+      ) {
+        return null;
+      }
+      next.members = next.members.map((m) =>
+        m.id === action.memberId ? { ...m, role: action.role } : m,
+      );
+      return next;
+    }
+    case "update_info": {
+      const name = typeof action.name === "string" ? action.name.trim() : "";
+      const description =
+        typeof action.description === "string" ? action.description.trim() : "";
+      if (
+        !name ||
+        name.length > MAX_GROUP_NAME_LENGTH ||
+        description.length > MAX_GROUP_DESCRIPTION_LENGTH
+      ) {
+        return null;
+      }
+      return { ...next, name, description };
+    }
+    default:
+      return null;
+  }
+}
+
+// Lets the relay put `member` on its roster with their current role. The
+// relay checks the signature against the admin keys it holds for the group.
+async function createGroupInvitation(
+  groupId: string,
+  member: GroupMember,
+  identity: Pick<UserIdentity, "id" | "privateKey">,
+): Promise<string> {
+  const claims: GroupInvitationClaims = {
+    groupId,
+    userId: member.id,
+    publicKey: member.publicKey,
+    role: member.role,
+    issuedBy: identity.id,
+    issuedAt: Date.now(),
+  };
+  return signMessage(JSON.stringify(claims), identity.privateKey);
+}
+
+// Invitations for everyone else in our copy of the group, for an admin who
+// opened the roster again after the relay lost it.
+export async function rosterInvitations(
+  group: Group,
+  identity: Pick<UserIdentity, "id" | "privateKey">,
+): Promise<string[]> {
+  return Promise.all(
+    group.members
+      .filter((m) => m.id !== identity.id)
+      .map((m) => createGroupInvitation(group.id, m, identity)),
+  );
+}
+
+async function rosterChange(
+  before: Group,
+  after: Group,
+  identity: UserIdentity,
+): Promise<GroupRosterChange> {
+  const changed = after.members.filter(
+    (m) => before.members.find((o) => o.id === m.id)?.role !== m.role,
+  );
+  const invitations = await Promise.all(
+    changed.map((m) => createGroupInvitation(after.id, m, identity)),
+  );
+  return {
+    // group:create is a no-op for a roster we already administer.
+    create: invitations.length > 0 && after.createdBy === identity.id,
+    invitations,
+    leave: before.members
+      .filter((m) => !after.members.some((o) => o.id === m.id))
+      .map((m) => m.id),
+  };
+}
+
+// Applies our own change locally and encrypts it for everyone who was or is
+// now a member, so a removed member also learns about it. `encrypted` is null
+// when nobody else is left to tell. Returns null when the change is refused.
+export async function prepareGroupControl(
+  groupId: string,
+  identity: UserIdentity,
+  action: GroupControlAction,
+): Promise<{
+  group: Group;
+  encrypted: string | null;
+  roster: GroupRosterChange;
+} | null> {
+  // Applied inside one storage update, so two changes made at once cannot
+  // take the same seq or save over each other.
+  let applied: { group: Group; control: GroupControl } | undefined;
+  const updated = await updateGroup(groupId, (stored) => {
+    const control: GroupControl = {
+      groupId,
+      from: identity.id,
+      // The clock only sets a floor, so our seq keeps rising after a restore
+      // from an older backup; it is never compared with another admin's.
+      seq: Math.max(Date.now(), lastSeq(stored, identity.id) + 1),
+      action,
+    };
+    const next = applyGroupControl(stored, control);
+    if (next) applied = { group: stored, control };
+    return next;
+  });
+  if (!updated || !applied) return null;
+  const { group, control } = applied;
+
+  if (action.type === "add_members") {
+    const { name, description, createdBy, createdAt, members } = updated;
+    control.action = {
+      ...action,
+      snapshot: { name, description, createdBy, createdAt, members },
+    };
+  }
+
+  const recipientKeys = [...group.members, ...updated.members]
+    .filter((m, index, all) => all.findIndex((o) => o.id === m.id) === index)
+    .filter((m) => m.id !== identity.id)
+    .map((m) => m.publicKey);
+  const encrypted =
+    recipientKeys.length > 0
+      ? CONTROL_PREFIX +
+        (await encryptGroupMessage(
+          JSON.stringify(control),
+          recipientKeys,
+          identity.privateKey,
+        ))
+      : null;
+
+  return {
+    group: updated,
+    encrypted,
+    roster: await rosterChange(group, updated, identity),
+  };
+}
+
+// The key we trust for someone adding us to a group we are not in: a contact's
+// pinned key, or the admin key from an invite link we asked to join through.
+async function outsiderKey(
+  groupId: string,
+  senderId: string,
+): Promise<string | undefined> {
+  const contact = await getContact(senderId);
+  if (contact) return contact.publicKey;
+  const pending = (await getPendingGroupJoins()).find(
+    (j) =>
+      j.groupId === groupId &&
+      j.adminId === senderId &&
+      Date.now() - j.requestedAt < PENDING_JOIN_TTL,
+  );
+  return pending?.adminPublicKey;
+}
+
+async function openControl(
+  encrypted: string,
+  privateKey: string,
+  senderPublicKey: string,
+): Promise<GroupControl | null> {
+  const { content, verified } = await decryptMessage(
+    encrypted.slice(CONTROL_PREFIX.length),
+    privateKey,
+    senderPublicKey,
+  );
+  if (!verified) return null;
+  try {
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+// Verifies a received control message against the sender's key and role in
+// our copy of the group and stores the result. Being added to a group we are
+// not in is only accepted from a contact or the admin of an invite we
+// accepted, who must be an admin in the snapshot they send. The relay roster
+// is kept by the admin who made the change. Returns null when the message is
+// rejected.
+export async function receiveGroupControl(
+  msg: { groupId: string; from: string; encrypted: string },
+  ownId: string,
+  privateKey: string,
+): Promise<Group | null> {
+  const known = await getGroup(msg.groupId);
+  const senderKey = known?.members.some((m) => m.id === ownId)
+    ? known.members.find((m) => m.id === msg.from)?.publicKey
+    : await outsiderKey(msg.groupId, msg.from);
+  if (!senderKey) return null;
+
+  const control = await openControl(msg.encrypted, privateKey, senderKey);
+  if (
+    !control ||
+    control.groupId !== msg.groupId ||
+    control.from !== msg.from
+  ) {
+    return null;
+  }
+
+  // Read again: messages may have been stored while we were decrypting.
+  const existing = await getGroup(msg.groupId);
+  const wasMember = !!existing?.members.some((m) => m.id === ownId);
+
+  if (wasMember) {
+    // Applied inside one storage update, so a message stored meanwhile is
+    // kept and two control messages cannot both pass the same seq check.
+    let applied = false;
+    const updated = await updateGroup(msg.groupId, (stored) => {
+      const next = applyGroupControl(stored, control);
+      applied = !!next;
+      return next;
+    });
+    return applied ? updated : null;
+  }
+
+  const { action } = control;
+  const snapshot = action?.type === "add_members" ? action.snapshot : null;
+  if (
+    !snapshot ||
+    !Array.isArray(snapshot.members) ||
+    !snapshot.members.every(isMember) ||
+    !snapshot.members.some((m) => m.id === ownId) ||
+    snapshot.members.find((m) => m.id === msg.from)?.role !== "admin" ||
+    !Number.isSafeInteger(control.seq) ||
+    control.seq <= lastSeq(existing, msg.from)
+  ) {
+    return null;
+  }
+  const joined: Group = {
+    id: msg.groupId,
+    messages: [],
+    lastMessageAt: Date.now(),
+    unreadCount: 0,
+    isArchived: false,
+    ...existing,
+    name: String(snapshot.name).slice(0, MAX_GROUP_NAME_LENGTH),
+    description: String(snapshot.description ?? "").slice(
+      0,
+      MAX_GROUP_DESCRIPTION_LENGTH,
+    ),
+    createdBy: snapshot.createdBy,
+    createdAt: snapshot.createdAt,
+    members: snapshot.members,
+    controlSeqs: { ...existing?.controlSeqs, [msg.from]: control.seq },
+  };
+
+  await saveGroup(joined);
+  await removePendingGroupJoin(msg.groupId);
+  return joined;
+}
@@ -0,0 +1,335 @@
+import {
+  armorPublicKey,
+  dearmorPublicKey,
+  decryptMessage,
+  encryptMessage,
+  generateShortId,
+  getKeyFingerprint,
+  signDetached,
+  signMessage,
+  verifyDetached,
+  verifySignature,
+  type UserIdentity,
+} from "./crypto";
+import { lookupContactKey } from "./directory";
+import { fromBase64Url, randomBytes, toBase64Url } from "./encoding";
+import { updateGroup, type GroupInvite, type GroupMember } from "./storage";
+
+const GROUP_INVITE_PREFIX = "ciphernode://group-invite?";
+const GROUP_INVITE_VERSION = "1";
+const JOIN_REQUEST_PREFIX = "cn-group-join:v1:";
+const MAX_NAME_LENGTH = 64;
+
+// Everything the invitee sees before deciding to join, plus what they need to
+// reach the admin. Signed by the admin's key, which is carried along so it
+// can be checked against the admin's ID.
+export interface GroupInviteLink {
+  groupId: string;
+  groupName: string;
+  adminId: string;
+  adminName: string;
+  adminPublicKey: string;
+  adminFingerprint: string;
+  secret: string;
+  expiresAt: number;
+}
+
+export type GroupInviteCheck =
+  | { valid: true; invite: GroupInviteLink }
+  | {
+      valid: false;
+      reason:
+        | "malformed"
+        | "unsupported_version"
+        | "invalid_signature"
+        | "id_mismatch"
+        | "expired";
+    };
+
+// Signed by the invitee, so the admin can check the key it names is theirs
+// before handing it to every member.
+interface GroupJoinRequest {
+  groupId: string;
+  secret: string;
+  member: { id: string; publicKey: string; displayName: string };
+  requestedAt: number;
+}
+
+function signedText(fields: string[]): string {
+  return ["ciphernode-group-invite", ...fields].join("\n");
+}
+
+// Parsed by hand: URLSearchParams is only partly implemented in React Native.
+function parseQuery(uri: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const pair of uri.slice(GROUP_INVITE_PREFIX.length).split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      params[pair.slice(0, separator)] = decodeURIComponent(
+        pair.slice(separator + 1),
+      );
+    }
+  }
+  return params;
+}
+
+// True when `fingerprint` is the key `id` was derived from, or the key the
+// relay vouches for after a key migration.
+async function keyBelongsTo(id: string, fingerprint: string): Promise<boolean> {
+  if (generateShortId(fingerprint) === id) return true;
+  const lookup = await lookupContactKey(id);
+  return lookup.found && lookup.fingerprint === fingerprint;
+}
+
+export function isGroupInviteUri(value: string): boolean {
+  return value.startsWith(GROUP_INVITE_PREFIX);
+}
+
+export function isJoinRequest(encrypted: string): boolean {
+  return encrypted.startsWith(JOIN_REQUEST_PREFIX);
+}
+
+// Records a new invite on our copy of the group and returns the
+// `ciphernode://group-invite?...` URI for it. Only admins can create one.
+export async function createGroupInvite(
+  groupId: string,
+  identity: UserIdentity,
+  options: { lifetime: number; maxUses: number },
+): Promise<string | null> {
+  const now = Date.now();
+  const invite: GroupInvite = {
+    secret: toBase64Url(randomBytes(16)),
+    createdAt: now,
+    expiresAt: now + options.lifetime,
+    maxUses: options.maxUses,
+    uses: 0,
+  };
+  let recorded = false;
+  const group = await updateGroup(groupId, (stored) => {
+    const self = stored.members.find((m) => m.id === identity.id);
+    if (self?.role !== "admin") return null;
+    recorded = true;
+    return {
+      ...stored,
+      invites: [
+        ...(stored.invites ?? []).filter((i) => i.expiresAt > now),
+        invite,
+      ],
+    };
+  });
+  if (!group || !recorded) return null;
+
+  const fields = [
+    GROUP_INVITE_VERSION,
+    groupId,
+    group.name.slice(0, MAX_NAME_LENGTH),
+    identity.id,
+    identity.displayName.slice(0, MAX_NAME_LENGTH),
+    toBase64Url(await dearmorPublicKey(identity.publicKey)),
+    invite.secret,
+    String(invite.expiresAt),
+  ];
+  const signature = await signDetached(signedText(fields), identity.privateKey);
+  const params: [string, string][] = [
+    ["v", fields[0]],
+    ["g", fields[1]],
+    ["n", fields[2]],
+    ["a", fields[3]],
+    ["an", fields[4]],
+    ["k", fields[5]],
+    ["s", fields[6]],
+    ["e", fields[7]],
+    ["sig", toBase64Url(signature)],
+  ];
+  return (
+    GROUP_INVITE_PREFIX +
+    params.map(([k, v]) => `${k}=${encodeURIComponent(v)}`).join("&")
+  );
+}
+
+export async function revokeGroupInvite(
+  groupId: string,
+  secret: string,
+): Promise<void> {
+  await updateGroup(groupId, (group) => ({
+    ...group,
+    invites: (group.invites ?? []).filter((i) => i.secret !== secret),
+  }));
+}
+
+// Checks the admin's signature and that their key belongs to their ID. The
+// invite itself can still be refused by the admin: only their device knows
+// whether it was revoked or used up.
+export async function verifyGroupInvite(
+  uri: string,
+): Promise<GroupInviteCheck> {
+  if (!isGroupInviteUri(uri)) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let params: Record<string, string>;
+  try {
+    params = parseQuery(uri);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const { v, g, n = "", a, an = "", k, s, e, sig } = params;
+  if (v !== GROUP_INVITE_VERSION) {
+    return { valid: false, reason: v ? "unsupported_version" : "malformed" };
+  }
+  const expiresAt = Number(e);
+  if (
+    !g ||
+    !a ||
+    !k ||
+    !s ||
+    !sig ||
+    !Number.isFinite(expiresAt) ||
+    n.length > MAX_NAME_LENGTH ||
+    an.length > MAX_NAME_LENGTH
+  ) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  let adminPublicKey: string;
+  let adminFingerprint: string;
+  let signature: Uint8Array;
+  try {
+    adminPublicKey = await armorPublicKey(fromBase64Url(k));
+    adminFingerprint = await getKeyFingerprint(adminPublicKey);
+    signature = fromBase64Url(sig);
+  } catch {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const verified = await verifyDetached(
+    signedText([v, g, n, a, an, k, s, e]),
+    signature,
+    adminPublicKey,
+  );
+  if (!verified) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+  if (!(await keyBelongsTo(a, adminFingerprint))) {
+    return { valid: false, reason: "id_mismatch" };
+  }
+  if (expiresAt <= Date.now()) {
+    return { valid: false, reason: "expired" };
+  }
+
+  return {
+    valid: true,
+    invite: {
+      groupId: g,
+      groupName: n,
+      adminId: a,
+      adminName: an,
+      adminPublicKey,
+      adminFingerprint,
+      secret: s,
+      expiresAt,
+    },
+  };
+}
+
+// Encrypted to the admin only; sent as a direct message so it reaches them
+// through the relay even though we are not on the group roster yet.
+export async function createJoinRequest(
+  invite: GroupInviteLink,
+  identity: UserIdentity,
+): Promise<string> {
+  const request: GroupJoinRequest = {
+    groupId: invite.groupId,
+    secret: invite.secret,
+    member: {
+      id: identity.id,
+      publicKey: identity.publicKey,
+      displayName: identity.displayName || identity.id,
+    },
+    requestedAt: Date.now(),
+  };
+  const signed = await signMessage(
+    JSON.stringify(request),
+    identity.privateKey,
+  );
+  return (
+    JOIN_REQUEST_PREFIX +
+    (await encryptMessage(
+      JSON.stringify({ publicKey: identity.publicKey, signed }),
+      invite.adminPublicKey,
+    ))
+  );
+}
+
+// Runs on the admin's device. Returns the member to add when the request is
+// signed by the sender's own key and names an invite of ours that is still
+// open; the invite's use is counted here.
+export async function acceptJoinRequest(
+  msg: { from: string; encrypted: string },
+  ownId: string,
+  privateKey: string,
+): Promise<{ groupId: string; member: GroupMember } | null> {
+  const { content } = await decryptMessage(
+    msg.encrypted.slice(JOIN_REQUEST_PREFIX.length),
+    privateKey,
+  );
+
+  let request: GroupJoinRequest;
+  let publicKey: string;
+  try {
+    const envelope = JSON.parse(content);
+    publicKey = String(envelope.publicKey);
+    const check = await verifySignature(String(envelope.signed), publicKey);
+    if (!check.verified) return null;
+    request = JSON.parse(check.content);
+  } catch {
+    return null;
+  }
+  if (
+    request.member?.id !== msg.from ||
+    request.member.publicKey !== publicKey ||
+    !(await keyBelongsTo(msg.from, await getKeyFingerprint(publicKey)))
+  ) {
+    return null;
+  }
+
+  // The check and the use count are one storage update, so join requests
+  // that arrive together cannot all pass on the same count.
+  const now = Date.now();
+  let accepted = false;
+  const group = await updateGroup(request.groupId, (stored) => {
+    const invite = stored.invites?.find((i) => i.secret === request.secret);
+    if (
+      !invite ||
+      invite.expiresAt <= now ||
+      invite.uses >= invite.maxUses ||
+      stored.members.find((m) => m.id === ownId)?.role !== "admin" ||
+      stored.members.some((m) => m.id === msg.from)
+    ) {
+      return null;
+    }
+    accepted = true;
+    return {
+      ...stored,
+      invites: stored.invites?.map((i) =>
+        i === invite ? { ...i, uses: i.uses + 1 } : i,
+      ),
+    };
+  });
+  if (!group || !accepted) return null;
+
+  return {
+    groupId: group.id,
+    member: {
+      id: msg.from,
+      publicKey,
+      displayName: String(request.member.displayName ?? "").slice(
+        0,
+        MAX_NAME_LENGTH,
+      ),
+      role: "member",
+      addedAt: now,
+    },
+  };
+}
@@ -0,0 +1,266 @@
+import { Platform } from "react-native";
+import * as SecureStore from "expo-secure-store";
+import {
+  createIdentity,
+  createKeyTransition,
+  deleteIdentity,
+  generateKeyPair,
+  getIdentity,
+  identityEntry,
+  isLegacyRsaKey,
+  isPrivateKeyProtected,
+  lockPrivateKey,
+  saveIdentity,
+  unlockPrivateKey,
+  type UserIdentity,
+} from "./crypto";
+import { disconnect, sendKeyUpdate } from "./socket";
+import {
+  getContacts,
+  migrateChatSessions,
+  migrateToSealedStorage,
+} from "./storage";
+import { closeVault, destroyVault, openVault, rewrapVault } from "./vault";
+
+const BIOMETRIC_PASSPHRASE_KEY = "ciphernode.passphrase";
+const BIOMETRIC_ENABLED_KEY = "ciphernode.passphrase.enabled";
+
+export const AUTO_LOCK_MS = 5 * 60 * 1000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// "unprotected" is an identity stored before passphrases existed: its private
+// key is still plaintext on disk and has to be locked before first use.
+export type KeystoreState = "missing" | "unprotected" | "locked" | "unlocked";
+
+type LockCallback = (unlocked: boolean) => void;
+
+let unlockedIdentity: UserIdentity | null = null;
+let lastActivityAt = Date.now();
+const lockListeners: LockCallback[] = [];
+
+function notifyLockChange(): void {
+  lockListeners.forEach((cb) => cb(unlockedIdentity !== null));
+}
+
+export function getUnlockedIdentity(): UserIdentity | null {
+  return unlockedIdentity;
+}
+
+export async function getKeystoreState(): Promise<KeystoreState> {
+  if (unlockedIdentity) return "unlocked";
+
+  const stored = await getIdentity();
+  if (!stored?.privateKey) return "missing";
+  try {
+    return (await isPrivateKeyProtected(stored.privateKey))
+      ? "locked"
+      : "unprotected";
+  } catch {
+    return "missing";
+  }
+}
+
+// Creates a fresh identity, or locks the plaintext key of an "unprotected"
+// one, and unlocks it for this session.
+export async function setupIdentity(
+  passphrase: string,
+): Promise<UserIdentity | null> {
+  const stored = await getIdentity();
+  if (stored?.privateKey && (await getKeystoreState()) === "unprotected") {
+    await saveIdentity({
+      ...stored,
+      privateKey: await lockPrivateKey(stored.privateKey, passphrase),
+    });
+  } else {
+    await createIdentity(passphrase);
+  }
+  return unlockIdentity(passphrase);
+}
+
+// Returns null when the passphrase is wrong.
+export async function unlockIdentity(
+  passphrase: string,
+): Promise<UserIdentity | null> {
+  const stored = await getIdentity();
+  if (!stored?.privateKey) return null;
+
+  try {
+    const privateKey = await unlockPrivateKey(stored.privateKey, passphrase);
+    // The same passphrase unwraps the data key for local storage.
+    await openVault(passphrase);
+    await migrateToSealedStorage();
+    await migrateChatSessions();
+    unlockedIdentity = { ...stored, privateKey };
+  } catch (error) {
+    console.error("Unlock failed:", error);
+    closeVault();
+    return null;
+  }
+
+  recordActivity();
+  notifyLockChange();
+  return unlockedIdentity;
+}
+
+export function lockIdentity(): void {
+  if (!unlockedIdentity) return;
+  unlockedIdentity = null;
+  closeVault();
+  // The socket keeps its own copy of the key for registration.
+  disconnect();
+  notifyLockChange();
+}
+
+export async function changePassphrase(
+  currentPassphrase: string,
+  newPassphrase: string,
+): Promise<boolean> {
+  const stored = await getIdentity();
+  if (!stored?.privateKey) return false;
+
+  let privateKey: string;
+  try {
+    privateKey = await unlockPrivateKey(stored.privateKey, currentPassphrase);
+  } catch {
+    return false;
+  }
+
+  // The data key and the private key are rewrapped in one write: if only one
+  // of them switched passphrase, neither passphrase would unlock the app.
+  const identity = identityEntry({
+    ...stored,
+    privateKey: await lockPrivateKey(privateKey, newPassphrase),
+  });
+  await rewrapVault(currentPassphrase, newPassphrase, [identity]);
+  if (await hasBiometricPassphrase()) {
+    await storeBiometricPassphrase(newPassphrase);
+  }
+  return true;
+}
+
+// Moves an RSA identity to a Curve25519 key while keeping its ID: the old key
+// signs a transition to the new one, which is published with our key bundle,
+// and every contact is told to fetch it. Returns false on a wrong passphrase.
+export async function migrateIdentityKey(passphrase: string): Promise<boolean> {
+  const stored = await getIdentity();
+  if (
+    !stored?.privateKey ||
+    stored.keyTransition ||
+    !(await isLegacyRsaKey(stored.publicKey))
+  ) {
+    return false;
+  }
+
+  let previousPrivateKey: string;
+  try {
+    previousPrivateKey = await unlockPrivateKey(stored.privateKey, passphrase);
+  } catch {
+    return false;
+  }
+
+  const next = await generateKeyPair(passphrase);
+  const identity: UserIdentity = {
+    ...stored,
+    publicKey: next.publicKey,
+    privateKey: next.privateKey,
+    fingerprint: next.fingerprint,
+    keyTransition: await createKeyTransition(
+      stored.id,
+      stored.publicKey,
+      previousPrivateKey,
+      next.publicKey,
+    ),
+  };
+  await saveIdentity(identity);
+  unlockedIdentity = {
+    ...identity,
+    privateKey: await unlockPrivateKey(next.privateKey, passphrase),
+  };
+
+  // The relay registration is tied to the old key; the next connection
+  // registers with the new one and flushes the key updates queued here.
+  disconnect();
+  for (const contact of await getContacts()) {
+    await sendKeyUpdate(contact.id);
+  }
+  notifyLockChange();
+  return true;
+}
+
+export function updateUnlockedIdentity(
+  updates: Partial<Pick<UserIdentity, "displayName">>,
+): void {
+  if (unlockedIdentity) {
+    unlockedIdentity = { ...unlockedIdentity, ...updates };
+  }
+}
+
+export async function resetIdentity(): Promise<void> {
+  // Local data was sealed under the old passphrase; it goes with the identity.
+  await destroyVault();
+  await deleteIdentity();
+  await forgetBiometricPassphrase();
+  if (unlockedIdentity) {
+    lockIdentity();
+  } else {
+    notifyLockChange();
+  }
+}
+
+// With Biometric Lock on, the passphrase is kept in the platform keychain
+// behind biometric authentication so the key can be unlocked without typing.
+export async function storeBiometricPassphrase(
+  passphrase: string,
+): Promise<void> {
+  if (Platform.OS === "web") return;
+  await SecureStore.setItemAsync(BIOMETRIC_PASSPHRASE_KEY, passphrase, {
+    requireAuthentication: true,
+  });
+  await SecureStore.setItemAsync(BIOMETRIC_ENABLED_KEY, "1");
+}
+
+export async function forgetBiometricPassphrase(): Promise<void> {
+  if (Platform.OS === "web") return;
+  await SecureStore.deleteItemAsync(BIOMETRIC_PASSPHRASE_KEY);
+  await SecureStore.deleteItemAsync(BIOMETRIC_ENABLED_KEY);
+}
+
+export async function hasBiometricPassphrase(): Promise<boolean> {
+  if (Platform.OS === "web") return false;
+  return (await SecureStore.getItemAsync(BIOMETRIC_ENABLED_KEY)) === "1";
+}
+
+export async function unlockWithBiometrics(
+  authenticationPrompt: string,
+): Promise<UserIdentity | null> {
+  if (!(await hasBiometricPassphrase())) return null;
+
+  try {
+    const passphrase = await SecureStore.getItemAsync(
+      BIOMETRIC_PASSPHRASE_KEY,
+      { requireAuthentication: true, authenticationPrompt },
+    );
+    return passphrase ? unlockIdentity(passphrase) : null;
+  } catch (error) {
+    console.error("Biometric unlock failed:", error);
+    return null;
+  }
+}
+
+export function recordActivity(): void {
+  lastActivityAt = Date.now();
+}
+
+export function lockIfIdle(now: number = Date.now()): void {
+  if (unlockedIdentity && now - lastActivityAt >= AUTO_LOCK_MS) {
+    lockIdentity();
+  }
+}
+
+export function onLockChange(callback: LockCallback): () => void {
+  lockListeners.push(callback);
+  return () => {
+    const index = lockListeners.indexOf(callback);
+    if (index > -1) lockListeners.splice(index, 1);
+  };
+}
@@ -0,0 +1,317 @@
+// Strips identifying metadata from outgoing media before it is encrypted.
+// Formats are recognised by their magic bytes rather than the MIME type the
+// picker reports. Like steganography.ts this has no React Native imports.
+
+export type MetadataFormat = "jpeg" | "png" | "webp" | "mp4";
+
+// What was found and removed, coarse enough to show the user.
+export type MetadataField =
+  | "location"
+  | "device"
+  | "timestamps"
+  | "exif"
+  | "xmp"
+  | "iptc"
+  | "comments"
+  | "other";
+
+export interface StripResult {
+  // Null when the format is not recognised; the bytes are then unchanged.
+  format: MetadataFormat | null;
+  bytes: Uint8Array;
+  removed: MetadataField[];
+}
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+// HEIF images are ISO media files too, but their pixels hang off the same
+// `meta` box as their EXIF, so they are left alone.
+const HEIF_BRANDS = ["heic", "heix", "heim", "heis", "mif1", "msf1", "avif"];
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(start, start + length));
+}
+
+function startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+  return ascii(bytes, offset, text.length) === text;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+export function detectFormat(bytes: Uint8Array): MetadataFormat | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return "jpeg";
+  }
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return "png";
+  if (startsWith(bytes, 0, "RIFF") && startsWith(bytes, 8, "WEBP")) {
+    return "webp";
+  }
+  if (startsWith(bytes, 4, "ftyp")) {
+    return HEIF_BRANDS.includes(ascii(bytes, 8, 4)) ? null : "mp4";
+  }
+  return null;
+}
+
+// Reads the tags that matter from a TIFF-structured EXIF block: what they
+// reveal, and the orientation, which is kept so photos do not turn sideways.
+function inspectExif(tiff: Uint8Array): {
+  fields: MetadataField[];
+  orientation: number | null;
+} {
+  const fields = new Set<MetadataField>(["exif"]);
+  let orientation: number | null = null;
+  const little = startsWith(tiff, 0, "II");
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+  const u16 = (offset: number) => view.getUint16(offset, little);
+  const u32 = (offset: number) => view.getUint32(offset, little);
+
+  const readIfd = (offset: number, depth: number) => {
+    if (depth > 2 || offset + 2 > tiff.length) return;
+    const count = u16(offset);
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.length) return;
+      const tag = u16(entry);
+      if (tag === 0x8825) fields.add("location");
+      else if ([0x010f, 0x0110, 0x0131, 0xa431, 0xa433, 0xa434].includes(tag)) {
+        fields.add("device");
+      } else if ([0x0132, 0x9003, 0x9004, 0x9010, 0x9011].includes(tag)) {
+        fields.add("timestamps");
+      } else if (tag === 0x0112 && depth === 0) orientation = u16(entry + 8);
+      else if (tag === 0x8769) readIfd(u32(entry + 8), depth + 1);
+    }
+  };
+
+  try {
+    if (tiff.length >= 8) readIfd(u32(4), 0);
+  } catch {
+    // A truncated block is still dropped; it just reports less.
+  }
+  return { fields: [...fields], orientation };
+}
+
+// "Exif\0\0" and a big-endian TIFF block holding only the orientation.
+function orientationSegment(orientation: number): Uint8Array {
+  const segment = new Uint8Array(2 + 2 + 6 + 26);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  segment.set([0x45, 0x78, 0x69, 0x66, 0, 0], 4);
+  const tiff = 10;
+  segment.set([0x4d, 0x4d, 0x00, 0x2a], tiff);
+  view.setUint32(tiff + 4, 8);
+  view.setUint16(tiff + 8, 1);
+  view.setUint16(tiff + 10, 0x0112);
+  view.setUint16(tiff + 12, 3);
+  view.setUint32(tiff + 14, 1);
+  view.setUint16(tiff + 18, orientation);
+  view.setUint32(tiff + 22, 0);
+  return segment;
+}
+
+function stripJpeg(bytes: Uint8Array): StripResult {
+  const removed = new Set<MetadataField>();
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    // Image data starts here; everything after is copied untouched.
+    if (marker === 0xda || marker === 0xd9) break;
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      parts.push(bytes.subarray(offset, offset + 2));
+      offset += 2;
+      continue;
+    }
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const segment = bytes.subarray(offset, offset + 2 + length);
+    const body = offset + 4;
+    offset += 2 + length;
+
+    if (marker === 0xe1 && startsWith(bytes, body, "Exif\0\0")) {
+      const { fields, orientation } = inspectExif(segment.subarray(10));
+      fields.forEach((field) => removed.add(field));
+      if (orientation && orientation !== 1) {
+        parts.push(orientationSegment(orientation));
+      }
+    } else if (
+      marker === 0xe1 &&
+      startsWith(bytes, body, "http://ns.adobe.com/")
+    ) {
+      removed.add("xmp");
+    } else if (marker === 0xed) {
+      removed.add("iptc");
+    } else if (marker === 0xfe) {
+      removed.add("comments");
+    } else if (
+      marker >= 0xe1 &&
+      marker <= 0xef &&
+      // Colour profiles and Adobe's colour transform change how the image
+      // looks, so they stay.
+      !(marker === 0xe2 && startsWith(bytes, body, "ICC_PROFILE\0")) &&
+      marker !== 0xee
+    ) {
+      removed.add("other");
+    } else {
+      parts.push(segment);
+    }
+  }
+  parts.push(bytes.subarray(Math.min(offset, bytes.length)));
+  return { format: "jpeg", bytes: concat(parts), removed: [...removed] };
+}
+
+function stripPng(bytes: Uint8Array): StripResult {
+  const removed = new Set<MetadataField>();
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= bytes.length) {
+    const length =
+      ((bytes[offset] << 24) |
+        (bytes[offset + 1] << 16) |
+        (bytes[offset + 2] << 8) |
+        bytes[offset + 3]) >>>
+      0;
+    const type = ascii(bytes, offset + 4, 4);
+    const chunk = bytes.subarray(offset, offset + 12 + length);
+    const data = offset + 8;
+    offset += 12 + length;
+
+    if (type === "eXIf") {
+      inspectExif(chunk.subarray(8, 8 + length)).fields.forEach((field) =>
+        removed.add(field),
+      );
+    } else if (type === "tIME") {
+      removed.add("timestamps");
+    } else if (type === "tEXt" || type === "zTXt" || type === "iTXt") {
+      const keyword = ascii(bytes, data, Math.min(length, 79)).split("\0")[0];
+      removed.add(
+        keyword === "XML:com.adobe.xmp"
+          ? "xmp"
+          : keyword === "Creation Time"
+            ? "timestamps"
+            : "comments",
+      );
+    } else {
+      parts.push(chunk);
+    }
+    if (type === "IEND") break;
+  }
+  return { format: "png", bytes: concat(parts), removed: [...removed] };
+}
+
+function stripWebp(bytes: Uint8Array): StripResult {
+  const removed = new Set<MetadataField>();
+  const parts: Uint8Array[] = [bytes.slice(0, 12)];
+  let vp8x: Uint8Array | null = null;
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4);
+    const length =
+      (bytes[offset + 4] |
+        (bytes[offset + 5] << 8) |
+        (bytes[offset + 6] << 16) |
+        (bytes[offset + 7] << 24)) >>>
+      0;
+    const end = offset + 8 + length + (length % 2);
+    const chunk = bytes.slice(offset, end);
+    offset = end;
+
+    if (type === "EXIF") {
+      const tiff = chunk.subarray(8, 8 + length);
+      inspectExif(
+        startsWith(tiff, 0, "Exif\0\0") ? tiff.subarray(6) : tiff,
+      ).fields.forEach((field) => removed.add(field));
+    } else if (type === "XMP ") {
+      removed.add("xmp");
+    } else {
+      if (type === "VP8X") vp8x = chunk;
+      parts.push(chunk);
+    }
+  }
+  // Clear the extended header's EXIF and XMP flags to match.
+  if (vp8x) vp8x[8] &= ~0x0c;
+  const out = concat(parts);
+  new DataView(out.buffer).setUint32(4, out.length - 8, true);
+  return { format: "webp", bytes: out, removed: [...removed] };
+}
+
+// Walks the boxes of an MP4/QuickTime/M4A file. Creation and modification
+// times in the movie, track and media headers are zeroed, and metadata boxes
+// (where phones put location and device tags) are renamed to `free` so no
+// sample offsets move.
+function stripMp4(bytes: Uint8Array): StripResult {
+  const out = bytes.slice();
+  const view = new DataView(out.buffer);
+  const removed = new Set<MetadataField>();
+
+  const walk = (start: number, end: number, depth: number) => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      let size = view.getUint32(offset);
+      let header = 8;
+      if (size === 1) {
+        if (offset + 16 > end) return;
+        size = Number(view.getBigUint64(offset + 8));
+        header = 16;
+      } else if (size === 0) {
+        size = end - offset;
+      }
+      if (size < header || offset + size > end) return;
+      const type = ascii(out, offset + 4, 4);
+      const body = offset + header;
+
+      if (type === "moov" || type === "trak" || type === "mdia") {
+        walk(body, offset + size, depth + 1);
+      } else if (type === "mvhd" || type === "tkhd" || type === "mdhd") {
+        const width = out[body] === 1 ? 8 : 4;
+        const times = out.subarray(body + 4, body + 4 + width * 2);
+        if (times.some((byte) => byte !== 0)) removed.add("timestamps");
+        times.fill(0);
+      } else if ((type === "udta" || type === "meta") && depth > 0) {
+        const contents = ascii(out, body, Math.min(size - header, 4096));
+        removed.add(
+          contents.includes("©xyz") || contents.includes("location")
+            ? "location"
+            : "other",
+        );
+        // Renamed to `free` and blanked in place, so sample offsets into
+        // `mdat` stay valid while the tags themselves are gone.
+        out.set([0x66, 0x72, 0x65, 0x65], offset + 4);
+        out.fill(0, body, offset + size);
+      }
+      offset += size;
+    }
+  };
+
+  walk(0, out.length, 0);
+  return { format: "mp4", bytes: out, removed: [...removed] };
+}
+
+export function stripMetadata(bytes: Uint8Array): StripResult {
+  try {
+    switch (detectFormat(bytes)) {
+      case "jpeg":
+        return stripJpeg(bytes);
+      case "png":
+        return stripPng(bytes);
+      case "webp":
+        return stripWebp(bytes);
+      case "mp4":
+        return stripMp4(bytes);
+    }
+  } catch {
+    // Fall through: a file we cannot parse is reported as unchecked.
+  }
+  return { format: null, bytes, removed: [] };
+}
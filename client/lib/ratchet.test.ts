@@ -0,0 +1,130 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  acceptSession,
+  generateDhKeyPair,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  type RatchetState,
+} from "./ratchet";
+
+// Alice starts a session with Bob's published identity key and signed
+// prekey; Bob accepts it from her first message.
+async function startSessions(): Promise<{
+  alice: RatchetState;
+  bob: RatchetState;
+}> {
+  const [aliceIdentity, bobIdentity, bobPrekey] = await Promise.all([
+    generateDhKeyPair(),
+    generateDhKeyPair(),
+    generateDhKeyPair(),
+  ]);
+  const { state, ephemeralKey } = await initiateSession(
+    aliceIdentity,
+    bobIdentity.publicKey,
+    bobPrekey.publicKey,
+  );
+  const bob = await acceptSession(
+    bobIdentity,
+    bobPrekey,
+    aliceIdentity.publicKey,
+    ephemeralKey,
+  );
+  return { alice: state, bob };
+}
+
+describe("ratchet sessions", () => {
+  it("round-trips messages in both directions", async () => {
+    let { alice, bob } = await startSessions();
+
+    const first = await ratchetEncrypt(alice, "hello bob");
+    alice = first.state;
+    const opened = await ratchetDecrypt(bob, first.header, first.ciphertext);
+    bob = opened.state;
+    assert.equal(opened.plaintext, "hello bob");
+
+    const reply = await ratchetEncrypt(bob, "hello alice");
+    bob = reply.state;
+    const answer = await ratchetDecrypt(alice, reply.header, reply.ciphertext);
+    alice = answer.state;
+    assert.equal(answer.plaintext, "hello alice");
+
+    // A new DH key on every turn of the conversation.
+    const second = await ratchetEncrypt(alice, "again");
+    assert.notEqual(second.header.dh, first.header.dh);
+    assert.equal(
+      (await ratchetDecrypt(bob, second.header, second.ciphertext)).plaintext,
+      "again",
+    );
+  });
+
+  it("does not let the accepting side send first", async () => {
+    const { bob } = await startSessions();
+    await assert.rejects(ratchetEncrypt(bob, "too early"));
+  });
+
+  it("decrypts messages that arrive out of order", async () => {
+    let { alice, bob } = await startSessions();
+    const sent = [];
+    for (const text of ["one", "two", "three"]) {
+      const message = await ratchetEncrypt(alice, text);
+      alice = message.state;
+      sent.push(message);
+    }
+
+    for (const i of [2, 0, 1]) {
+      const opened = await ratchetDecrypt(
+        bob,
+        sent[i].header,
+        sent[i].ciphertext,
+      );
+      bob = opened.state;
+      assert.equal(opened.plaintext, ["one", "two", "three"][i]);
+    }
+    assert.deepEqual(bob.skipped, {});
+  });
+
+  it("refuses a message delivered twice", async () => {
+    const { alice, bob } = await startSessions();
+    const message = await ratchetEncrypt(alice, "once");
+    const { state } = await ratchetDecrypt(
+      bob,
+      message.header,
+      message.ciphertext,
+    );
+    await assert.rejects(
+      ratchetDecrypt(state, message.header, message.ciphertext),
+    );
+  });
+
+  it("leaves the state untouched when a message does not authenticate", async () => {
+    const { alice, bob } = await startSessions();
+    const message = await ratchetEncrypt(alice, "genuine");
+    const before = structuredClone(bob);
+
+    const tampered = { ...message.header, pn: message.header.pn + 1 };
+    await assert.rejects(ratchetDecrypt(bob, tampered, message.ciphertext));
+    assert.deepEqual(bob, before);
+
+    const opened = await ratchetDecrypt(
+      bob,
+      message.header,
+      message.ciphertext,
+    );
+    assert.equal(opened.plaintext, "genuine");
+  });
+
+  it("refuses a header that skips too many messages", async () => {
+    let { alice, bob } = await startSessions();
+    const first = await ratchetEncrypt(alice, "first");
+    alice = first.state;
+    bob = (await ratchetDecrypt(bob, first.header, first.ciphertext)).state;
+
+    const next = await ratchetEncrypt(alice, "next");
+    await assert.rejects(
+      ratchetDecrypt(bob, { ...next.header, n: 1000 }, next.ciphertext),
+      /Too many skipped messages/,
+    );
+  });
+});
@@ -0,0 +1,361 @@
+import { concatBytes, fromBase64, toBase64 } from "./encoding";
+
+// Bounds how many message keys a single header may make us derive and hold on
+// to, so a forged counter cannot make us spin or fill storage.
+const MAX_SKIP = 100;
+const MAX_STORED_SKIPPED_KEYS = 500;
+
+const X3DH_INFO = "CipherNode X3DH";
+const ROOT_INFO = "CipherNode Ratchet";
+const MESSAGE_INFO = "CipherNode Message Keys";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Raw X25519 public key and PKCS#8 private key, both base64.
+export interface DhKeyPair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface RatchetHeader {
+  dh: string;
+  pn: number;
+  n: number;
+}
+
+export interface RatchetState {
+  rootKey: string;
+  dhSelf: DhKeyPair;
+  dhRemote: string | null;
+  sendChain: string | null;
+  receiveChain: string | null;
+  sendCount: number;
+  receiveCount: number;
+  previousSendCount: number;
+  // Message keys for messages that arrived out of order, keyed "dh:n".
+  skipped: Record<string, string>;
+  // Both identity keys, initiator first; bound into every message.
+  associatedData: string;
+}
+
+export async function generateDhKeyPair(): Promise<DhKeyPair> {
+  const keyPair = (await crypto.subtle.generateKey({ name: "X25519" }, true, [
+    "deriveBits",
+  ])) as CryptoKeyPair;
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.exportKey("raw", keyPair.publicKey),
+    crypto.subtle.exportKey("pkcs8", keyPair.privateKey),
+  ]);
+  return {
+    publicKey: toBase64(new Uint8Array(publicKey)),
+    privateKey: toBase64(new Uint8Array(privateKey)),
+  };
+}
+
+async function dh(
+  self: DhKeyPair,
+  remotePublicKey: string,
+): Promise<Uint8Array> {
+  const [privateKey, publicKey] = await Promise.all([
+    crypto.subtle.importKey(
+      "pkcs8",
+      fromBase64(self.privateKey),
+      { name: "X25519" },
+      false,
+      ["deriveBits"],
+    ),
+    crypto.subtle.importKey(
+      "raw",
+      fromBase64(remotePublicKey),
+      { name: "X25519" },
+      false,
+      [],
+    ),
+  ]);
+  const shared = await crypto.subtle.deriveBits(
+    { name: "X25519", public: publicKey },
+    privateKey,
+    256,
+  );
+  return new Uint8Array(shared);
+}
+
+async function hkdf(
+  inputKeyMaterial: Uint8Array<ArrayBuffer>,
+  salt: Uint8Array<ArrayBuffer>,
+  info: string,
+  length: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    inputKeyMaterial,
+    "HKDF",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "HKDF", hash: "SHA-256", salt, info: encoder.encode(info) },
+    key,
+    length * 8,
+  );
+  return new Uint8Array(bits);
+}
+
+async function hmac(key: string, data: number): Promise<string> {
+  const hmacKey = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(key),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const mac = await crypto.subtle.sign("HMAC", hmacKey, new Uint8Array([data]));
+  return toBase64(new Uint8Array(mac));
+}
+
+async function kdfRoot(
+  rootKey: string,
+  dhOutput: Uint8Array,
+): Promise<{ rootKey: string; chainKey: string }> {
+  const output = await hkdf(
+    concatBytes(dhOutput),
+    fromBase64(rootKey),
+    ROOT_INFO,
+    64,
+  );
+  return {
+    rootKey: toBase64(output.slice(0, 32)),
+    chainKey: toBase64(output.slice(32)),
+  };
+}
+
+async function kdfChain(
+  chainKey: string,
+): Promise<{ chainKey: string; messageKey: string }> {
+  const [messageKey, nextChainKey] = await Promise.all([
+    hmac(chainKey, 0x01),
+    hmac(chainKey, 0x02),
+  ]);
+  return { chainKey: nextChainKey, messageKey };
+}
+
+async function messageCipher(
+  messageKey: string,
+  header: RatchetHeader,
+  associatedData: string,
+): Promise<{
+  key: CryptoKey;
+  iv: Uint8Array<ArrayBuffer>;
+  aad: Uint8Array<ArrayBuffer>;
+}> {
+  const material = await hkdf(
+    fromBase64(messageKey),
+    new Uint8Array(32),
+    MESSAGE_INFO,
+    44,
+  );
+  const key = await crypto.subtle.importKey(
+    "raw",
+    concatBytes(material.slice(0, 32)),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+  return {
+    key,
+    iv: concatBytes(material.slice(32)),
+    aad: encoder.encode(associatedData + JSON.stringify(header)),
+  };
+}
+
+// X3DH without one-time prekeys. The caller is responsible for checking that
+// both identity keys and the signed prekey are vouched for by PGP signatures.
+async function x3dhSecret(parts: Uint8Array[]): Promise<string> {
+  const secret = await hkdf(
+    concatBytes(new Uint8Array(32).fill(0xff), ...parts),
+    new Uint8Array(32),
+    X3DH_INFO,
+    32,
+  );
+  return toBase64(secret);
+}
+
+export async function initiateSession(
+  identityKey: DhKeyPair,
+  remoteIdentityKey: string,
+  remoteSignedPrekey: string,
+): Promise<{ state: RatchetState; ephemeralKey: string }> {
+  const ephemeral = await generateDhKeyPair();
+  const sharedSecret = await x3dhSecret([
+    await dh(identityKey, remoteSignedPrekey),
+    await dh(ephemeral, remoteIdentityKey),
+    await dh(ephemeral, remoteSignedPrekey),
+  ]);
+
+  const dhSelf = await generateDhKeyPair();
+  const { rootKey, chainKey } = await kdfRoot(
+    sharedSecret,
+    await dh(dhSelf, remoteSignedPrekey),
+  );
+
+  return {
+    ephemeralKey: ephemeral.publicKey,
+    state: {
+      rootKey,
+      dhSelf,
+      dhRemote: remoteSignedPrekey,
+      sendChain: chainKey,
+      receiveChain: null,
+      sendCount: 0,
+      receiveCount: 0,
+      previousSendCount: 0,
+      skipped: {},
+      associatedData: identityKey.publicKey + remoteIdentityKey,
+    },
+  };
+}
+
+export async function acceptSession(
+  identityKey: DhKeyPair,
+  signedPrekey: DhKeyPair,
+  remoteIdentityKey: string,
+  remoteEphemeralKey: string,
+): Promise<RatchetState> {
+  const sharedSecret = await x3dhSecret([
+    await dh(signedPrekey, remoteIdentityKey),
+    await dh(identityKey, remoteEphemeralKey),
+    await dh(signedPrekey, remoteEphemeralKey),
+  ]);
+
+  return {
+    rootKey: sharedSecret,
+    dhSelf: signedPrekey,
+    dhRemote: null,
+    sendChain: null,
+    receiveChain: null,
+    sendCount: 0,
+    receiveCount: 0,
+    previousSendCount: 0,
+    skipped: {},
+    associatedData: remoteIdentityKey + identityKey.publicKey,
+  };
+}
+
+// Returns the advanced state instead of mutating, so a caller only persists it
+// once the message has actually been produced or accepted.
+export async function ratchetEncrypt(
+  state: RatchetState,
+  plaintext: string,
+): Promise<{ state: RatchetState; header: RatchetHeader; ciphertext: string }> {
+  if (!state.sendChain) {
+    throw new Error("Session cannot send before receiving a message");
+  }
+
+  const { chainKey, messageKey } = await kdfChain(state.sendChain);
+  const header: RatchetHeader = {
+    dh: state.dhSelf.publicKey,
+    pn: state.previousSendCount,
+    n: state.sendCount,
+  };
+  const { key, iv, aad } = await messageCipher(
+    messageKey,
+    header,
+    state.associatedData,
+  );
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: aad },
+    key,
+    encoder.encode(plaintext),
+  );
+
+  return {
+    state: { ...state, sendChain: chainKey, sendCount: state.sendCount + 1 },
+    header,
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+async function skipMessageKeys(
+  state: RatchetState,
+  until: number,
+): Promise<void> {
+  if (!state.receiveChain || !state.dhRemote) return;
+  if (until - state.receiveCount > MAX_SKIP) {
+    throw new Error("Too many skipped messages");
+  }
+  while (state.receiveCount < until) {
+    const { chainKey, messageKey } = await kdfChain(state.receiveChain);
+    state.skipped[`${state.dhRemote}:${state.receiveCount}`] = messageKey;
+    state.receiveChain = chainKey;
+    state.receiveCount += 1;
+  }
+
+  const keys = Object.keys(state.skipped);
+  for (const stale of keys.slice(0, keys.length - MAX_STORED_SKIPPED_KEYS)) {
+    delete state.skipped[stale];
+  }
+}
+
+async function dhRatchet(
+  state: RatchetState,
+  header: RatchetHeader,
+): Promise<void> {
+  state.previousSendCount = state.sendCount;
+  state.sendCount = 0;
+  state.receiveCount = 0;
+  state.dhRemote = header.dh;
+
+  const receiving = await kdfRoot(
+    state.rootKey,
+    await dh(state.dhSelf, header.dh),
+  );
+  state.receiveChain = receiving.chainKey;
+
+  state.dhSelf = await generateDhKeyPair();
+  const sending = await kdfRoot(
+    receiving.rootKey,
+    await dh(state.dhSelf, header.dh),
+  );
+  state.rootKey = sending.rootKey;
+  state.sendChain = sending.chainKey;
+}
+
+// Throws when the message cannot be authenticated; the input state is left
+// untouched in that case.
+export async function ratchetDecrypt(
+  current: RatchetState,
+  header: RatchetHeader,
+  ciphertext: string,
+): Promise<{ state: RatchetState; plaintext: string }> {
+  const state: RatchetState = { ...current, skipped: { ...current.skipped } };
+  const skippedId = `${header.dh}:${header.n}`;
+
+  let messageKey = state.skipped[skippedId];
+  if (messageKey) {
+    delete state.skipped[skippedId];
+  } else {
+    if (header.dh !== state.dhRemote) {
+      await skipMessageKeys(state, header.pn);
+      await dhRatchet(state, header);
+    }
+    await skipMessageKeys(state, header.n);
+    const next = await kdfChain(state.receiveChain!);
+    state.receiveChain = next.chainKey;
+    state.receiveCount += 1;
+    messageKey = next.messageKey;
+  }
+
+  const { key, iv, aad } = await messageCipher(
+    messageKey,
+    header,
+    state.associatedData,
+  );
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv, additionalData: aad },
+    key,
+    fromBase64(ciphertext),
+  );
+
+  return { state, plaintext: decoder.decode(plaintext) };
+}
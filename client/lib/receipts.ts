@@ -0,0 +1,68 @@
+import {
+  decryptMessage,
+  encryptMessage,
+  type Contact,
+  type UserIdentity,
+} from "./crypto";
+import { generateMessageId } from "./storage";
+import { sendReceipt as socketSendReceipt } from "./socket";
+
+export type ReceiptType = "delivered" | "read";
+
+export interface Receipt {
+  type: ReceiptType;
+  messageIds: string[];
+}
+
+// Receipts are end-to-end encrypted and signed like messages, so the relay
+// only learns that a receipt was sent, never which message it covers.
+export async function sendReceipt(
+  type: ReceiptType,
+  messageIds: string[],
+  contact: Contact,
+  identity: UserIdentity,
+): Promise<void> {
+  if (messageIds.length === 0) return;
+
+  try {
+    const receipt: Receipt = { type, messageIds };
+    const encrypted = await encryptMessage(
+      JSON.stringify(receipt),
+      contact.publicKey,
+      identity.privateKey || undefined,
+    );
+    socketSendReceipt(contact.id, encrypted, generateMessageId());
+  } catch (error) {
+    console.error("Receipt encryption failed:", error);
+  }
+}
+
+// Only receipts signed by the contact's key are trusted; anything else is
+// dropped rather than allowed to mark messages as delivered or read.
+export async function parseReceipt(
+  encrypted: string,
+  contact: Contact,
+  identity: UserIdentity,
+): Promise<Receipt | null> {
+  if (!identity.privateKey || !contact.publicKey) return null;
+
+  const { content, verified } = await decryptMessage(
+    encrypted,
+    identity.privateKey,
+    contact.publicKey,
+  );
+  if (!verified) return null;
+
+  try {
+    const receipt = JSON.parse(content) as Receipt;
+    if (
+      (receipt.type !== "delivered" && receipt.type !== "read") ||
+      !Array.isArray(receipt.messageIds)
+    ) {
+      return null;
+    }
+    return receipt;
+  } catch {
+    return null;
+  }
+}
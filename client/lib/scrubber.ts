@@ -0,0 +1,80 @@
+import { Directory, File, Paths } from "expo-file-system";
+import type { PickedFile } from "./attachments";
+import { randomBytes, toBase64Url } from "./encoding";
+import { stripMetadata, type MetadataField } from "./metadata";
+import { getPrivacySettings } from "./storage";
+
+// Runs outgoing attachments through the metadata sanitizer when Auto
+// Metadata Scrubbing is on. The cleaned copy gets a random name, so neither
+// the file's contents nor its name say where or when it was made.
+
+const FIELD_LABELS: Record<MetadataField, string> = {
+  location: "location",
+  device: "camera details",
+  timestamps: "timestamps",
+  exif: "EXIF",
+  xmp: "XMP",
+  iptc: "IPTC",
+  comments: "comments",
+  other: "other embedded data",
+};
+
+function scrubbedDirectory(): Directory {
+  return new Directory(Paths.cache, "scrubbed");
+}
+
+function randomName(original: string): string {
+  const extension = original.match(/\.([A-Za-z0-9]{1,8})$/)?.[1];
+  const base = toBase64Url(randomBytes(9));
+  return extension ? `${base}.${extension.toLowerCase()}` : base;
+}
+
+// Returns the file unchanged when the setting is off.
+export async function prepareOutgoingFile(
+  file: PickedFile,
+): Promise<PickedFile> {
+  const settings = await getPrivacySettings();
+  if (!settings.autoMetadataScrubbing) return file;
+
+  const result = stripMetadata(await new File(file.uri).bytes());
+  const directory = scrubbedDirectory();
+  directory.create({ intermediates: true, idempotent: true });
+  const name = randomName(file.name);
+  const scrubbed = new File(directory, name);
+  scrubbed.write(result.bytes);
+  return {
+    ...file,
+    uri: scrubbed.uri,
+    name,
+    size: scrubbed.size,
+    scrub: { checked: result.format !== null, removed: result.removed },
+  };
+}
+
+// The cleaned copy is only needed until it has been encrypted and uploaded.
+export function discardScrubbedCopy(file: PickedFile): void {
+  if (!file.scrub) return;
+  try {
+    const copy = new File(file.uri);
+    if (copy.exists) copy.delete();
+  } catch (error) {
+    console.error("Scrubbed copy cleanup error:", error);
+  }
+}
+
+// Copies left behind by a send that never finished.
+export function deleteScrubbedCopies(): void {
+  const directory = scrubbedDirectory();
+  if (directory.exists) directory.delete();
+}
+
+// One line for the pre-send preview.
+export function describeScrub(file: PickedFile): string | null {
+  if (!file.scrub) return null;
+  if (!file.scrub.checked) return "Metadata not checked for this file type";
+  if (file.scrub.removed.length === 0) return "No metadata found";
+  const labels = (Object.keys(FIELD_LABELS) as MetadataField[])
+    .filter((field) => file.scrub!.removed.includes(field))
+    .map((field) => FIELD_LABELS[field]);
+  return `Removed ${labels.join(", ")}`;
+}
@@ -0,0 +1,292 @@
+import type { PrekeyBundle } from "@shared/identity";
+import {
+  getKeyFingerprint,
+  signMessage,
+  verifySignature,
+  type Contact,
+  type UserIdentity,
+} from "./crypto";
+import { checkContactKey, lookupContactKey } from "./directory";
+import {
+  acceptSession,
+  generateDhKeyPair,
+  initiateSession,
+  ratchetDecrypt,
+  ratchetEncrypt,
+  type RatchetHeader,
+  type RatchetState,
+} from "./ratchet";
+import {
+  getChatSession,
+  getLocalPrekeys,
+  saveChatSession,
+  saveLocalPrekeys,
+  type ChatSession,
+  type LocalPrekeys,
+  type SessionInit,
+} from "./storage";
+
+const SESSION_PREFIX = "cn-ratchet:v1:";
+const SIGNED_PREKEY_ROTATION_MS = 7 * 24 * 60 * 60 * 1000;
+const RETAINED_SIGNED_PREKEYS = 2;
+// How long to stick with OpenPGP for a contact who published no prekeys
+// before looking them up again.
+const PREKEY_LOOKUP_BACKOFF_MS = 10 * 60 * 1000;
+
+interface SessionEnvelope {
+  header: RatchetHeader;
+  ciphertext: string;
+  init?: SessionInit;
+}
+
+// What the initiator's PGP signature in SessionInit covers.
+interface SessionInitClaims {
+  from: string;
+  to: string;
+  identityKey: string;
+  ephemeralKey: string;
+  signedPrekeyId: number;
+}
+
+const sessionLocks = new Map<string, Promise<unknown>>();
+const prekeyLookupBackoff = new Map<string, number>();
+
+// Ratchet state is read, advanced and written back; two messages for the same
+// contact must never interleave or one of them would reuse a chain key.
+function withSessionLock<T>(
+  contactId: string,
+  task: () => Promise<T>,
+): Promise<T> {
+  const previous = sessionLocks.get(contactId) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  sessionLocks.set(contactId, next);
+  return next;
+}
+
+export function isSessionEnvelope(encrypted: string): boolean {
+  return encrypted.startsWith(SESSION_PREFIX);
+}
+
+function parseEnvelope(encrypted: string): SessionEnvelope | null {
+  try {
+    return JSON.parse(encrypted.slice(SESSION_PREFIX.length));
+  } catch {
+    return null;
+  }
+}
+
+async function ensureLocalPrekeys(): Promise<LocalPrekeys> {
+  const existing = await getLocalPrekeys();
+  const current = existing?.signedPrekeys[existing.signedPrekeys.length - 1];
+  if (
+    existing &&
+    current &&
+    Date.now() - current.createdAt < SIGNED_PREKEY_ROTATION_MS
+  ) {
+    return existing;
+  }
+
+  const prekeys: LocalPrekeys = {
+    identityKey: existing?.identityKey ?? (await generateDhKeyPair()),
+    signedPrekeys: [
+      ...(existing?.signedPrekeys ?? []),
+      {
+        id: (current?.id ?? 0) + 1,
+        keyPair: await generateDhKeyPair(),
+        createdAt: Date.now(),
+      },
+    ].slice(-RETAINED_SIGNED_PREKEYS),
+  };
+  await saveLocalPrekeys(prekeys);
+  return prekeys;
+}
+
+// The public half of our prekeys, published inside the signed key bundle on
+// every register. Rotates the signed prekey once a week.
+export async function getPublishedPrekeys(): Promise<PrekeyBundle> {
+  const { identityKey, signedPrekeys } = await ensureLocalPrekeys();
+  const current = signedPrekeys[signedPrekeys.length - 1];
+  return {
+    identityKey: identityKey.publicKey,
+    signedPrekey: current.keyPair.publicKey,
+    signedPrekeyId: current.id,
+  };
+}
+
+async function startSession(
+  contact: Contact,
+  identity: UserIdentity,
+): Promise<ChatSession | null> {
+  const backoffUntil = prekeyLookupBackoff.get(contact.id);
+  if (backoffUntil && Date.now() < backoffUntil) {
+    return null;
+  }
+
+  // The bundle must belong to the key we already trust for this contact;
+  // a relay swapping in another key would otherwise get the session.
+  const lookup = await lookupContactKey(contact.id);
+  if (
+    lookup.found &&
+    lookup.fingerprint !== (await getKeyFingerprint(contact.publicKey))
+  ) {
+    await checkContactKey(contact.id, lookup);
+    return null;
+  }
+  if (!lookup.found || !lookup.prekeys) {
+    prekeyLookupBackoff.set(contact.id, Date.now() + PREKEY_LOOKUP_BACKOFF_MS);
+    return null;
+  }
+  prekeyLookupBackoff.delete(contact.id);
+
+  const { identityKey } = await ensureLocalPrekeys();
+  const { state, ephemeralKey } = await initiateSession(
+    identityKey,
+    lookup.prekeys.identityKey,
+    lookup.prekeys.signedPrekey,
+  );
+  const claims: SessionInitClaims = {
+    from: identity.id,
+    to: contact.id,
+    identityKey: identityKey.publicKey,
+    ephemeralKey,
+    signedPrekeyId: lookup.prekeys.signedPrekeyId,
+  };
+
+  return {
+    ratchet: state,
+    pendingInit: {
+      identityKey: claims.identityKey,
+      ephemeralKey: claims.ephemeralKey,
+      signedPrekeyId: claims.signedPrekeyId,
+      signature: await signMessage(JSON.stringify(claims), identity.privateKey),
+    },
+  };
+}
+
+async function acceptInit(
+  contact: Contact,
+  identity: UserIdentity,
+  init: SessionInit,
+): Promise<RatchetState | null> {
+  const { verified, content } = await verifySignature(
+    init.signature,
+    contact.publicKey,
+  );
+  if (!verified) return null;
+
+  let claims: SessionInitClaims;
+  try {
+    claims = JSON.parse(content);
+  } catch {
+    return null;
+  }
+  if (
+    claims.from !== contact.id ||
+    claims.to !== identity.id ||
+    claims.identityKey !== init.identityKey ||
+    claims.ephemeralKey !== init.ephemeralKey ||
+    claims.signedPrekeyId !== init.signedPrekeyId
+  ) {
+    return null;
+  }
+
+  const prekeys = await getLocalPrekeys();
+  const signedPrekey = prekeys?.signedPrekeys.find(
+    (p) => p.id === init.signedPrekeyId,
+  );
+  if (!prekeys || !signedPrekey) return null;
+
+  return acceptSession(
+    prekeys.identityKey,
+    signedPrekey.keyPair,
+    init.identityKey,
+    init.ephemeralKey,
+  );
+}
+
+// Returns null when the contact has no session and publishes no prekeys (or
+// the session cannot be used); the caller then falls back to OpenPGP.
+export async function encryptForSession(
+  contact: Contact,
+  identity: UserIdentity,
+  plaintext: string,
+): Promise<string | null> {
+  return withSessionLock(contact.id, async () => {
+    try {
+      const session =
+        (await getChatSession(contact.id)) ??
+        (await startSession(contact, identity));
+      if (!session) return null;
+
+      const { state, header, ciphertext } = await ratchetEncrypt(
+        session.ratchet,
+        plaintext,
+      );
+      await saveChatSession(contact.id, { ...session, ratchet: state });
+
+      const envelope: SessionEnvelope = {
+        header,
+        ciphertext,
+        init: session.pendingInit,
+      };
+      return SESSION_PREFIX + JSON.stringify(envelope);
+    } catch (error) {
+      console.error("Session encryption error:", error);
+      return null;
+    }
+  });
+}
+
+// Message keys are deleted as soon as they are used, so this can only succeed
+// once per message: callers must store the plaintext it returns.
+export async function decryptSessionMessage(
+  contact: Contact,
+  identity: UserIdentity,
+  encrypted: string,
+): Promise<string | null> {
+  const envelope = parseEnvelope(encrypted);
+  if (!envelope) return null;
+
+  return withSessionLock(contact.id, async () => {
+    try {
+      const session = await getChatSession(contact.id);
+      const { init, header, ciphertext } = envelope;
+
+      if (init && init.ephemeralKey !== session?.remoteEphemeralKey) {
+        const accepted = await acceptInit(contact, identity, init);
+        if (!accepted) return null;
+        const { state, plaintext } = await ratchetDecrypt(
+          accepted,
+          header,
+          ciphertext,
+        );
+        // Both sides started a session at the same time: the one started by
+        // the lower ID wins and the other side switches over to it.
+        const keepOurs = session?.pendingInit && identity.id < contact.id;
+        if (!keepOurs) {
+          await saveChatSession(contact.id, {
+            ratchet: state,
+            remoteEphemeralKey: init.ephemeralKey,
+          });
+        }
+        return plaintext;
+      }
+
+      if (!session) return null;
+      const { state, plaintext } = await ratchetDecrypt(
+        session.ratchet,
+        header,
+        ciphertext,
+      );
+      // A reply within our session means the contact has set up their side.
+      await saveChatSession(contact.id, {
+        ratchet: state,
+        remoteEphemeralKey: session.remoteEphemeralKey,
+      });
+      return plaintext;
+    } catch (error) {
+      console.error("Session decryption error:", error);
+      return null;
+    }
+  });
+}
@@ -1,12 +1,58 @@
 import { io, Socket } from "socket.io-client";
 import { getApiUrl } from "./query-client";
-import { getTorSettings, getActiveGroups, type TorSettings } from "./storage";
+import {
+  getTorSettings,
+  getOutbox,
+  getGroup,
+  getGroups,
+  addToOutbox,
+  addPendingGroupJoin,
+  updateOutboxEntry,
+  removeFromOutbox,
+  advanceMessageStatus,
+  updateMessage,
+  updateGroupMessage,
+  generateMessageId,
+  type Group,
+  type GroupRosterChange,
+  type OutboxEntry,
+  type TorSettings,
+} from "./storage";
+import { getIdentity, signMessage, signKeyBundle, type UserIdentity } from "./crypto";
+import { checkContactKey } from "./directory";
+import {
+  isGroupControl,
+  prepareGroupControl,
+  receiveGroupControl,
+  rosterInvitations,
+  type GroupControlAction,
+} from "./groupControl";
+import {
+  acceptJoinRequest,
+  createJoinRequest,
+  isJoinRequest,
+  type GroupInviteLink,
+} from "./groupInvites";
+import { getPublishedPrekeys } from "./sessions";
+import type { BlobTokenResult } from "@shared/blobs";
+import type { GroupMessageError, GroupResult } from "@shared/groups";
+import type { RegisterChallenge, RegisterError } from "@shared/identity";
 
 let socket: Socket | null = null;
 let currentUserId: string | null = null;
 let currentPublicKey: string = "";
+let currentPrivateKey: string = "";
 let torEnabled: boolean = false;
 let currentTorSettings: TorSettings | null = null;
+let registered = false;
+let outboxTimer: ReturnType<typeof setTimeout> | null = null;
+let flushingOutbox = false;
+
+const OUTBOX_BASE_DELAY_MS = 2000;
+const OUTBOX_MAX_DELAY_MS = 60 * 1000;
+const OUTBOX_MAX_ATTEMPTS = 6;
+const ROSTER_ACK_TIMEOUT_MS = 10 * 1000;
+const UPLOAD_TOKEN_TIMEOUT_MS = 10 * 1000;
 
 type MessageCallback = (msg: {
   id: string;
@@ -17,24 +63,54 @@ type MessageCallback = (msg: {
 }) => void;
 
 type GroupMessageCallback = (msg: {
+  id?: string;
   groupId: string;
   from: string;
   encrypted: string;
-  content?: string;
   timestamp: number;
 }) => void;
 
-type TypingCallback = (data: { from: string }) => void;
-type StatusCallback = (status: "connected" | "disconnected" | "registered" | "tor_connected" | "tor_connecting") => void;
+type MessageAckCallback = (ack: { id: string; to: string; queued: boolean }) => void;
+type GroupMessageAckCallback = (ack: { id: string; groupId: string }) => void;
+
+type ReceiptCallback = (receipt: {
+  id: string;
+  from: string;
+  encrypted: string;
+  timestamp: number;
+}) => void;
+
+type TypingCallback = (data: { from: string; groupId?: string }) => void;
+type GroupUpdateCallback = (groupId: string) => void;
+type ContactKeyChangeCallback = (contactId: string) => void;
+type StatusCallback = (
+  status: "connected" | "disconnected" | "registered" | "register_failed" | "tor_connected" | "tor_connecting",
+  error?: RegisterError
+) => void;
 type TorStatusCallback = (settings: TorSettings) => void;
 
 const messageListeners: MessageCallback[] = [];
 const groupMessageListeners: GroupMessageCallback[] = [];
+const messageAckListeners: MessageAckCallback[] = [];
+const groupMessageAckListeners: GroupMessageAckCallback[] = [];
+const receiptListeners: ReceiptCallback[] = [];
 const typingListeners: TypingCallback[] = [];
+const contactKeyChangeListeners: ContactKeyChangeCallback[] = [];
+const groupUpdateListeners: GroupUpdateCallback[] = [];
 const statusListeners: StatusCallback[] = [];
 const torStatusListeners: TorStatusCallback[] = [];
 
-export async function initSocket(userId: string, publicKey: string): Promise<Socket> {
+// Socket.io ignores the promises returned by async listeners, so a storage
+// or crypto failure would otherwise surface as an unhandled rejection.
+function safeHandler<T extends unknown[]>(event: string, handler: (...args: T) => Promise<void>) {
+  return (...args: T) => {
+    handler(...args).catch((error) => {
+      console.error(`[Socket] ${event} handler failed:`, error);
+    });
+  };
+}
+
+export async function initSocket(userId: string, publicKey: string, privateKey: string): Promise<Socket> {
   if (socket?.connected && currentUserId === userId) {
     return socket;
   }
@@ -45,6 +121,7 @@ export async function initSocket(userId: string, publicKey: string): Promise<Soc
 
   currentUserId = userId;
   currentPublicKey = publicKey;
+  currentPrivateKey = privateKey;
   const url = getApiUrl();
   
   const torSettings = await getTorSettings();
@@ -65,32 +142,136 @@ export async function initSocket(userId: string, publicKey: string): Promise<Soc
     } : undefined,
   });
 
-  socket.on("connect", async () => {
-    const userGroupsList = await getActiveGroups();
-    const groupIds = userGroupsList.map(g => g.id);
-    socket?.emit("register", { userId, publicKey, torEnabled, groups: groupIds });
+  socket.on("connect", () => {
     if (torEnabled) {
       statusListeners.forEach((cb) => cb("tor_connected"));
     }
   });
 
-  socket.on("registered", () => {
+  // The relay issues a fresh nonce on every connection; registering means
+  // proving we hold the private key for `userId` by signing it.
+  socket.on("register:challenge", safeHandler("register:challenge", async ({ nonce }: RegisterChallenge) => {
+    const signature = await signMessage(nonce, privateKey);
+    const prekeys = await getPublishedPrekeys().catch(() => undefined);
+    const keyBundle = await signKeyBundle(userId, publicKey, privateKey, prekeys).catch(() => undefined);
+    // After a key migration the ID no longer hashes from our key; the
+    // transition signed by the original key vouches for it instead.
+    const keyTransition = (await getIdentity())?.keyTransition;
+    socket?.emit("register", { userId, publicKey, signature, keyBundle, keyTransition, torEnabled });
+  }));
+
+  socket.on("registered", safeHandler("registered", async () => {
+    registered = true;
     statusListeners.forEach((cb) => cb("registered"));
-  });
+    // Before the outbox goes out, so queued group messages find their rosters.
+    for (const group of await getGroups()) {
+      await restoreGroupRoster(group);
+    }
+    flushOutbox(true);
+  }));
 
-  socket.on("message", (msg) => {
-    messageListeners.forEach((cb) => cb(msg));
+  socket.on("register:error", (error: RegisterError) => {
+    console.error(`Relay rejected registration (${error.code}): ${error.message}`);
+    statusListeners.forEach((cb) => cb("register_failed", error));
   });
 
-  socket.on("group:message", (msg) => {
-    groupMessageListeners.forEach((cb) => cb(msg));
+  socket.on("message", safeHandler("message", async (msg) => {
+    if (!isJoinRequest(msg.encrypted)) {
+      messageListeners.forEach((cb) => cb(msg));
+      return;
+    }
+    // Someone asking to join through one of our invite links; they are not a
+    // contact, so this never becomes a chat.
+    if (!currentUserId || !currentPrivateKey) return;
+    const request = await acceptJoinRequest(msg, currentUserId, currentPrivateKey).catch((error) => {
+      console.error("Group join request handling failed:", error);
+      return null;
+    });
+    const identity = request ? await getIdentity() : null;
+    if (request && identity) {
+      await sendGroupControl(
+        request.groupId,
+        { ...identity, privateKey: currentPrivateKey },
+        { type: "add_members", members: [request.member] }
+      );
+    }
+  }));
+
+  // Storage is updated before listeners run so screens reloading on an ack
+  // already see the new status.
+  socket.on("message:ack", safeHandler("message:ack", async (ack) => {
+    await removeFromOutbox(ack.id);
+    await advanceMessageStatus(ack.to, [ack.id], "sent");
+    messageAckListeners.forEach((cb) => cb(ack));
+  }));
+
+  socket.on("group:message:ack", safeHandler("group:message:ack", async (ack) => {
+    const entry = await removeFromOutbox(ack.id);
+    if (entry) {
+      await updateGroupMessage(ack.groupId, ack.id, { status: "sent" });
+      // Removed members leave the relay roster only once the relay holds the
+      // control message that tells them so.
+      entry.roster?.leave.forEach((userId) => {
+        socket?.emit("group:leave", { groupId: ack.groupId, userId });
+      });
+    }
+    groupMessageAckListeners.forEach((cb) => cb(ack));
+  }));
+
+  // The relay refuses group messages from anyone not on its roster; resending
+  // will not help, so the message fails right away. A missing roster is one the
+  // relay lost, so it is restored if we are an admin and the entry stays queued.
+  socket.on("group:message:error", safeHandler("group:message:error", async (error: GroupMessageError) => {
+    if (error.code === "not_found") {
+      const group = await getGroup(error.groupId);
+      if (group) await restoreGroupRoster(group);
+      return;
+    }
+    if (error.code !== "not_member") return;
+    const entry = (await getOutbox()).find((e) => e.id === error.id);
+    if (entry) {
+      await failOutboxEntry(entry);
+      groupMessageAckListeners.forEach((cb) => cb({ id: error.id, groupId: error.groupId }));
+    }
+  }));
+
+  socket.on("key:update:ack", safeHandler("key:update:ack", async (ack: { id: string }) => {
+    await removeFromOutbox(ack.id);
+  }));
+
+  socket.on("key:update", safeHandler("key:update", async ({ from }: { from: string }) => {
+    if ((await checkContactKey(from)) !== "unchanged") {
+      contactKeyChangeListeners.forEach((cb) => cb(from));
+    }
+  }));
+
+  socket.on("receipt", (receipt) => {
+    receiptListeners.forEach((cb) => cb(receipt));
   });
 
+  // Membership changes are applied here rather than in the thread, so they
+  // take effect whether or not the group is open.
+  socket.on("group:message", safeHandler("group:message", async (msg) => {
+    if (!isGroupControl(msg.encrypted)) {
+      groupMessageListeners.forEach((cb) => cb(msg));
+      return;
+    }
+    if (!currentUserId || !currentPrivateKey) return;
+
+    const group = await receiveGroupControl(msg, currentUserId, currentPrivateKey).catch((error) => {
+      console.error("Group control handling failed:", error);
+      return null;
+    });
+    if (!group) return;
+    groupUpdateListeners.forEach((cb) => cb(msg.groupId));
+  }));
+
   socket.on("typing", (data) => {
     typingListeners.forEach((cb) => cb(data));
   });
 
   socket.on("disconnect", () => {
+    registered = false;
     statusListeners.forEach((cb) => cb("disconnected"));
   });
 
@@ -101,34 +282,204 @@ export async function initSocket(userId: string, publicKey: string): Promise<Soc
   return socket;
 }
 
-export function sendMessage(to: string, encrypted: string, id: string): void {
-  if (socket?.connected && currentUserId) {
-    socket.emit("message", { to, from: currentUserId, encrypted, id });
+function outboxDelay(attempts: number): number {
+  return Math.min(OUTBOX_BASE_DELAY_MS * 2 ** attempts, OUTBOX_MAX_DELAY_MS);
+}
+
+async function failOutboxEntry(entry: OutboxEntry): Promise<void> {
+  await removeFromOutbox(entry.id);
+  if (entry.kind === "key_update") {
+    return;
+  } else if (entry.kind === "group") {
+    await updateGroupMessage(entry.target, entry.id, { status: "failed" });
+  } else {
+    await updateMessage(entry.target, entry.id, { status: "failed" });
   }
 }
 
-export function sendGroupMessage(groupId: string, encrypted: string, content: string): void {
-  if (socket?.connected && currentUserId) {
-    socket.emit("group:message", { groupId, from: currentUserId, encrypted, content });
+// A single-use token for one attachment upload. Null when we are not
+// registered with the relay or it did not answer.
+export async function requestUploadToken(): Promise<string | null> {
+  const relay = socket;
+  if (!relay || !registered) return null;
+  try {
+    const result: BlobTokenResult = await relay.timeout(UPLOAD_TOKEN_TIMEOUT_MS).emitWithAck("blob:token");
+    return result.token ?? null;
+  } catch {
+    return null;
   }
 }
 
-export function joinGroup(groupId: string): void {
-  if (socket?.connected && currentUserId) {
-    socket.emit("group:join", { groupId, userId: currentUserId });
+// Waits for the relay to accept each roster change, so new members are on the
+// roster before the control message that adds them is fanned out. Returns
+// false when the relay refused or did not answer; the entry is retried later.
+async function syncGroupRoster(groupId: string, roster: GroupRosterChange): Promise<boolean> {
+  const relay = socket;
+  if (!relay) return false;
+  try {
+    if (roster.create) {
+      const result: GroupResult = await relay.timeout(ROSTER_ACK_TIMEOUT_MS).emitWithAck("group:create", { groupId });
+      if (!result.ok) return false;
+    }
+    for (const invitation of roster.invitations) {
+      const result: GroupResult = await relay.timeout(ROSTER_ACK_TIMEOUT_MS).emitWithAck("group:join", { groupId, invitation });
+      if (!result.ok) {
+        console.error(`Relay refused group invitation (${result.code})`);
+        return false;
+      }
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A relay with in-memory storage loses its rosters when it restarts. Any admin
+// opens the roster again and re-invites everyone in their own copy; for a
+// roster the relay still has, group:create changes nothing.
+async function restoreGroupRoster(group: Group): Promise<void> {
+  const relay = socket;
+  const userId = currentUserId;
+  if (!relay || !userId || !currentPrivateKey) return;
+  if (group.members.find((m) => m.id === userId)?.role !== "admin") return;
+  try {
+    const result: GroupResult = await relay.timeout(ROSTER_ACK_TIMEOUT_MS).emitWithAck("group:create", { groupId: group.id });
+    if (!result.created) return;
+    const invitations = await rosterInvitations(group, { id: userId, privateKey: currentPrivateKey });
+    await syncGroupRoster(group.id, { create: false, invitations, leave: [] });
+  } catch (error) {
+    console.error("Group roster restore failed:", error);
+  }
+}
+
+async function scheduleOutboxFlush(): Promise<void> {
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+    outboxTimer = null;
+  }
+  const entries = await getOutbox();
+  if (entries.length === 0 || !registered) return;
+
+  const nextAttemptAt = Math.min(...entries.map((e) => e.nextAttemptAt));
+  outboxTimer = setTimeout(() => {
+    outboxTimer = null;
+    flushOutbox();
+  }, Math.max(nextAttemptAt - Date.now(), 0));
+}
+
+// Sends due outbox entries in the order they were queued. Entries stay in the
+// outbox until the relay acks them; the relay drops duplicate IDs, so resending
+// after a lost ack is harmless. `force` ignores backoff, used right after
+// registering so a reconnect flushes everything immediately.
+async function flushOutbox(force = false): Promise<void> {
+  if (flushingOutbox || !socket?.connected || !registered || !currentUserId) {
+    return;
+  }
+
+  flushingOutbox = true;
+  try {
+    const now = Date.now();
+    const entries = await getOutbox();
+    for (const entry of entries) {
+      if (!force && entry.nextAttemptAt > now) continue;
+      if (entry.attempts >= OUTBOX_MAX_ATTEMPTS) {
+        await failOutboxEntry(entry);
+        continue;
+      }
+
+      if (entry.kind === "key_update") {
+        socket.emit("key:update", { to: entry.target, id: entry.id });
+      } else if (entry.kind === "group") {
+        if (!entry.roster || (await syncGroupRoster(entry.target, entry.roster))) {
+          socket?.emit("group:message", {
+            groupId: entry.target,
+            encrypted: entry.encrypted,
+            id: entry.id,
+          });
+        }
+      } else {
+        socket.emit("message", {
+          to: entry.target,
+          encrypted: entry.encrypted,
+          id: entry.id,
+        });
+      }
+      await updateOutboxEntry(entry.id, {
+        attempts: entry.attempts + 1,
+        nextAttemptAt: now + outboxDelay(entry.attempts),
+      });
+    }
+  } catch (error) {
+    console.error("Outbox flush failed:", error);
+  } finally {
+    flushingOutbox = false;
   }
+
+  await scheduleOutboxFlush();
+}
+
+async function enqueueOutgoing(
+  kind: OutboxEntry["kind"],
+  target: string,
+  encrypted: string,
+  id: string,
+  roster?: GroupRosterChange
+): Promise<void> {
+  const now = Date.now();
+  await addToOutbox({ id, kind, target, encrypted, attempts: 0, nextAttemptAt: now, createdAt: now, roster });
+  await flushOutbox();
+}
+
+export async function sendMessage(to: string, encrypted: string, id: string): Promise<void> {
+  await enqueueOutgoing("message", to, encrypted, id);
+}
+
+// Goes through the outbox so a contact who is offline during a key migration
+// still hears about it once we reconnect.
+export async function sendKeyUpdate(to: string): Promise<void> {
+  await enqueueOutgoing("key_update", to, "", generateMessageId());
 }
 
-export function leaveGroup(groupId: string): void {
+export function sendReceipt(to: string, encrypted: string, id: string): void {
   if (socket?.connected && currentUserId) {
-    socket.emit("group:leave", { groupId, userId: currentUserId });
+    socket.emit("receipt", { to, encrypted, id });
   }
 }
 
-export function createGroupOnServer(groupId: string, members: string[]): void {
-  if (socket?.connected) {
-    socket.emit("group:create", { groupId, members });
+export async function sendGroupMessage(groupId: string, encrypted: string, id: string): Promise<void> {
+  await enqueueOutgoing("group", groupId, encrypted, id);
+}
+
+// Applies a membership or admin change to our copy of the group and
+// broadcasts it as a signed control message. Returns null when we are not
+// allowed to make the change.
+export async function sendGroupControl(
+  groupId: string,
+  identity: UserIdentity,
+  action: GroupControlAction
+): Promise<Group | null> {
+  const prepared = await prepareGroupControl(groupId, identity, action);
+  if (!prepared) return null;
+  if (prepared.encrypted) {
+    await enqueueOutgoing("group", groupId, prepared.encrypted, generateMessageId(), prepared.roster);
   }
+  groupUpdateListeners.forEach((cb) => cb(groupId));
+  return prepared.group;
+}
+
+// Asks the admin behind an invite link to add us. The group shows up once
+// their add_members message arrives, which we trust because of the pending
+// join recorded here.
+export async function requestGroupJoin(invite: GroupInviteLink, identity: UserIdentity): Promise<void> {
+  await addPendingGroupJoin({
+    groupId: invite.groupId,
+    groupName: invite.groupName,
+    adminId: invite.adminId,
+    adminPublicKey: invite.adminPublicKey,
+    requestedAt: Date.now(),
+  });
+  const encrypted = await createJoinRequest(invite, identity);
+  await enqueueOutgoing("message", invite.adminId, encrypted, generateMessageId());
 }
 
 export function sendTyping(to: string): void {
@@ -137,6 +488,12 @@ export function sendTyping(to: string): void {
   }
 }
 
+export function sendGroupTyping(groupId: string): void {
+  if (socket?.connected) {
+    socket.emit("typing", { groupId });
+  }
+}
+
 export function onMessage(callback: MessageCallback): () => void {
   messageListeners.push(callback);
   return () => {
@@ -145,6 +502,30 @@ export function onMessage(callback: MessageCallback): () => void {
   };
 }
 
+export function onMessageAck(callback: MessageAckCallback): () => void {
+  messageAckListeners.push(callback);
+  return () => {
+    const index = messageAckListeners.indexOf(callback);
+    if (index > -1) messageAckListeners.splice(index, 1);
+  };
+}
+
+export function onReceipt(callback: ReceiptCallback): () => void {
+  receiptListeners.push(callback);
+  return () => {
+    const index = receiptListeners.indexOf(callback);
+    if (index > -1) receiptListeners.splice(index, 1);
+  };
+}
+
+export function onGroupMessageAck(callback: GroupMessageAckCallback): () => void {
+  groupMessageAckListeners.push(callback);
+  return () => {
+    const index = groupMessageAckListeners.indexOf(callback);
+    if (index > -1) groupMessageAckListeners.splice(index, 1);
+  };
+}
+
 export function onGroupMessage(callback: GroupMessageCallback): () => void {
   groupMessageListeners.push(callback);
   return () => {
@@ -161,6 +542,22 @@ export function onTyping(callback: TypingCallback): () => void {
   };
 }
 
+export function onGroupUpdate(callback: GroupUpdateCallback): () => void {
+  groupUpdateListeners.push(callback);
+  return () => {
+    const index = groupUpdateListeners.indexOf(callback);
+    if (index > -1) groupUpdateListeners.splice(index, 1);
+  };
+}
+
+export function onContactKeyChange(callback: ContactKeyChangeCallback): () => void {
+  contactKeyChangeListeners.push(callback);
+  return () => {
+    const index = contactKeyChangeListeners.indexOf(callback);
+    if (index > -1) contactKeyChangeListeners.splice(index, 1);
+  };
+}
+
 export function onStatusChange(callback: StatusCallback): () => void {
   statusListeners.push(callback);
   return () => {
@@ -170,6 +567,12 @@ export function onStatusChange(callback: StatusCallback): () => void {
 }
 
 export function disconnect(): void {
+  if (outboxTimer) {
+    clearTimeout(outboxTimer);
+    outboxTimer = null;
+  }
+  registered = false;
+  currentPrivateKey = "";
   if (socket) {
     socket.disconnect();
     socket = null;
@@ -201,13 +604,14 @@ export async function reconnectWithTor(): Promise<void> {
   if (currentUserId) {
     const userId = currentUserId;
     const publicKey = currentPublicKey;
+    const privateKey = currentPrivateKey;
     disconnect();
     const torSettings = await getTorSettings();
     currentTorSettings = torSettings;
     torEnabled = torSettings.enabled;
     
     return new Promise((resolve, reject) => {
-      initSocket(userId, publicKey).then((newSocket) => {
+      initSocket(userId, publicKey, privateKey).then((newSocket) => {
         const timeout = setTimeout(() => {
           reject(new Error("Connection timeout"));
         }, 10000);
@@ -241,10 +645,11 @@ export async function reconnectToServer(): Promise<void> {
   if (currentUserId) {
     const userId = currentUserId;
     const publicKey = currentPublicKey;
+    const privateKey = currentPrivateKey;
     disconnect();
     
     return new Promise((resolve, reject) => {
-      initSocket(userId, publicKey).then((newSocket) => {
+      initSocket(userId, publicKey, privateKey).then((newSocket) => {
         const timeout = setTimeout(() => {
           reject(new Error("Connection timeout"));
         }, 10000);
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  carrierCapacity,
+  decodePng,
+  encodePng,
+  hideInPng,
+  revealFromPng,
+  type RgbaImage,
+} from "./steganography";
+
+// Deterministic noise, so a failure reproduces.
+function makeImage(width: number, height: number, alpha = 255): RgbaImage {
+  const pixels = new Uint8Array(width * height * 4);
+  let seed = 7;
+  for (let i = 0; i < pixels.length; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    pixels[i] = (i & 3) === 3 ? alpha : seed & 0xff;
+  }
+  return { width, height, pixels };
+}
+
+// Byte offset of the first chunk of the given type.
+function chunkOffset(png: Uint8Array, type: string): number {
+  let offset = 8;
+  while (offset + 8 <= png.length) {
+    const length =
+      ((png[offset] << 24) |
+        (png[offset + 1] << 16) |
+        (png[offset + 2] << 8) |
+        png[offset + 3]) >>>
+      0;
+    const name = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (name === type) return offset;
+    offset += 12 + length;
+  }
+  throw new Error(`No ${type} chunk`);
+}
+
+describe("hideInPng / revealFromPng", () => {
+  it("round-trips a payload", () => {
+    const carrier = encodePng(makeImage(32, 32));
+    const payload =
+      "-----BEGIN PGP MESSAGE-----\nhidden\n-----END PGP MESSAGE-----";
+
+    const hidden = hideInPng(carrier, payload);
+    assert.equal(hidden.hidden, true);
+    if (!hidden.hidden) return;
+    assert.equal(hidden.width, 32);
+    assert.equal(hidden.height, 32);
+    assert.deepEqual(revealFromPng(hidden.png), { found: true, payload });
+  });
+
+  it("only changes the lowest bit of colour channels", () => {
+    const image = makeImage(16, 16);
+    const hidden = hideInPng(encodePng(image), "x".repeat(40));
+    assert.equal(hidden.hidden, true);
+    if (!hidden.hidden) return;
+
+    const stego = decodePng(hidden.png);
+    assert.ok(stego);
+    for (let i = 0; i < image.pixels.length; i++) {
+      const limit = (i & 3) === 3 ? 0 : 1;
+      assert.ok(Math.abs(stego.pixels[i] - image.pixels[i]) <= limit);
+    }
+  });
+
+  it("reports no payload in an untouched image", () => {
+    assert.deepEqual(revealFromPng(encodePng(makeImage(16, 16))), {
+      found: false,
+      reason: "no_payload",
+    });
+  });
+});
+
+describe("capacity", () => {
+  it("accepts a payload that exactly fills the carrier", () => {
+    const image = makeImage(16, 16);
+    const capacity = carrierCapacity(image);
+    assert.equal(capacity, Math.floor((16 * 16 * 3) / 8) - 8);
+
+    const result = hideInPng(encodePng(image), "a".repeat(capacity));
+    assert.equal(result.hidden, true);
+  });
+
+  it("refuses a payload one byte over capacity", () => {
+    const image = makeImage(16, 16);
+    const result = hideInPng(
+      encodePng(image),
+      "a".repeat(carrierCapacity(image) + 1),
+    );
+    assert.deepEqual(result, { hidden: false, reason: "too_small" });
+  });
+
+  it("skips transparent pixels", () => {
+    const image = makeImage(16, 16, 0);
+    assert.equal(carrierCapacity(image), 0);
+    assert.deepEqual(hideInPng(encodePng(image), "a"), {
+      hidden: false,
+      reason: "too_small",
+    });
+  });
+});
+
+describe("unsupported input", () => {
+  it("rejects data that is not a PNG", () => {
+    const jpeg = new Uint8Array([
+      0xff, 0xd8, 0xff, 0xe0, 0, 16, 74, 70, 73, 70,
+    ]);
+    assert.deepEqual(hideInPng(jpeg, "a"), {
+      hidden: false,
+      reason: "unsupported_image",
+    });
+    assert.deepEqual(revealFromPng(jpeg), {
+      found: false,
+      reason: "unsupported_image",
+    });
+    assert.equal(decodePng(new Uint8Array(0)), null);
+  });
+
+  it("rejects a PNG cut off inside its image data", () => {
+    const png = encodePng(makeImage(16, 16));
+    const idat = chunkOffset(png, "IDAT");
+    const truncated = png.slice(0, idat + 20);
+
+    assert.equal(decodePng(truncated), null);
+    assert.deepEqual(revealFromPng(truncated), {
+      found: false,
+      reason: "unsupported_image",
+    });
+  });
+
+  it("rejects a PNG whose image data is not a zlib stream", () => {
+    const png = encodePng(makeImage(16, 16));
+    const idat = chunkOffset(png, "IDAT");
+    const corrupted = png.slice();
+    // The zlib header, right after the chunk's length and type.
+    corrupted[idat + 8] ^= 0xff;
+
+    assert.equal(decodePng(corrupted), null);
+  });
+
+  it("rejects a PNG with only its header chunk", () => {
+    const png = encodePng(makeImage(16, 16));
+    const headerOnly = png.slice(0, chunkOffset(png, "IDAT"));
+
+    assert.equal(decodePng(headerOnly), null);
+  });
+});
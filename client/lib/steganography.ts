@@ -0,0 +1,338 @@
+import { strFromU8, strToU8, unzlibSync, zlibSync } from "fflate";
+
+// Hides a payload in the least significant bits of a PNG's red, green and
+// blue channels. Nothing here touches React Native, so the codec can be
+// exercised from plain TypeScript.
+
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+// "CNS1" followed by the payload length as a big-endian uint32.
+const PAYLOAD_MAGIC = [0x43, 0x4e, 0x53, 0x31];
+const HEADER_LENGTH = 8;
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  // Four bytes per pixel, rows top to bottom.
+  pixels: Uint8Array;
+}
+
+export type HideResult =
+  | { hidden: true; png: Uint8Array; width: number; height: number }
+  | { hidden: false; reason: "unsupported_image" | "too_small" };
+
+export type RevealResult =
+  | { found: true; payload: string }
+  | { found: false; reason: "unsupported_image" | "no_payload" };
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return (
+    ((bytes[offset] << 24) |
+      (bytes[offset + 1] << 16) |
+      (bytes[offset + 2] << 8) |
+      bytes[offset + 3]) >>>
+    0
+  );
+}
+
+function writeUint32(bytes: Uint8Array, offset: number, value: number): void {
+  bytes[offset] = value >>> 24;
+  bytes[offset + 1] = (value >>> 16) & 0xff;
+  bytes[offset + 2] = (value >>> 8) & 0xff;
+  bytes[offset + 3] = value & 0xff;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+// Channels per pixel for each 8-bit PNG colour type.
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+// Decodes non-interlaced 8-bit PNGs of any colour type, which covers the
+// bundled carriers and what expo-image-manipulator writes. Anything else
+// returns null.
+export function decodePng(png: Uint8Array): RgbaImage | null {
+  if (
+    png.length < PNG_SIGNATURE.length ||
+    PNG_SIGNATURE.some((byte, i) => png[i] !== byte)
+  ) {
+    return null;
+  }
+
+  let width = 0;
+  let height = 0;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  let transparency: Uint8Array | null = null;
+  const idat: Uint8Array[] = [];
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= png.length) {
+    const length = readUint32(png, offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    const data = png.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+    if (type === "IHDR") {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      const bitDepth = data[8];
+      colorType = data[9];
+      const interlace = data[12];
+      if (bitDepth !== 8 || interlace !== 0 || !(colorType in CHANNELS)) {
+        return null;
+      }
+    } else if (type === "PLTE") {
+      palette = data;
+    } else if (type === "tRNS") {
+      transparency = data;
+    } else if (type === "IDAT") {
+      idat.push(data);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+  if (width === 0 || height === 0 || idat.length === 0) return null;
+  if (colorType === 3 && !palette) return null;
+
+  let raw: Uint8Array;
+  try {
+    const compressed = new Uint8Array(
+      idat.reduce((sum, part) => sum + part.length, 0),
+    );
+    let position = 0;
+    for (const part of idat) {
+      compressed.set(part, position);
+      position += part.length;
+    }
+    raw = unzlibSync(compressed);
+  } catch {
+    return null;
+  }
+
+  const channels = CHANNELS[colorType];
+  const stride = width * channels;
+  if (raw.length < height * (stride + 1)) return null;
+
+  // Undo the per-row filters.
+  const rows = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const source = y * (stride + 1) + 1;
+    const row = y * stride;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= channels ? rows[row + x - channels] : 0;
+      const up = y > 0 ? rows[row - stride + x] : 0;
+      const upLeft =
+        y > 0 && x >= channels ? rows[row - stride + x - channels] : 0;
+      let predictor: number;
+      switch (filter) {
+        case 0:
+          predictor = 0;
+          break;
+        case 1:
+          predictor = left;
+          break;
+        case 2:
+          predictor = up;
+          break;
+        case 3:
+          predictor = (left + up) >> 1;
+          break;
+        case 4:
+          predictor = paeth(left, up, upLeft);
+          break;
+        default:
+          return null;
+      }
+      rows[row + x] = (raw[source + x] + predictor) & 0xff;
+    }
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const out = i * 4;
+    const src = i * channels;
+    switch (colorType) {
+      case 0:
+        pixels[out] = pixels[out + 1] = pixels[out + 2] = rows[src];
+        pixels[out + 3] = 255;
+        break;
+      case 2:
+        pixels.set(rows.subarray(src, src + 3), out);
+        pixels[out + 3] = 255;
+        break;
+      case 3: {
+        const index = rows[src];
+        pixels.set(palette!.subarray(index * 3, index * 3 + 3), out);
+        pixels[out + 3] =
+          transparency && index < transparency.length
+            ? transparency[index]
+            : 255;
+        break;
+      }
+      case 4:
+        pixels[out] = pixels[out + 1] = pixels[out + 2] = rows[src];
+        pixels[out + 3] = rows[src + 1];
+        break;
+      case 6:
+        pixels.set(rows.subarray(src, src + 4), out);
+        break;
+    }
+  }
+  return { width, height, pixels };
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out.subarray(4, 8 + data.length)));
+  return out;
+}
+
+// Writes an 8-bit RGBA PNG. Rows use the Sub filter, which keeps photos
+// reasonably small even with noisy low bits.
+export function encodePng(image: RgbaImage): Uint8Array {
+  const { width, height, pixels } = image;
+  const stride = width * 4;
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const out = y * (stride + 1);
+    const row = y * stride;
+    raw[out] = 1;
+    for (let x = 0; x < stride; x++) {
+      const left = x >= 4 ? pixels[row + x - 4] : 0;
+      raw[out + 1 + x] = (pixels[row + x] - left) & 0xff;
+    }
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8;
+  header[9] = 6;
+
+  const parts = [
+    new Uint8Array(PNG_SIGNATURE),
+    chunk("IHDR", header),
+    chunk("IDAT", zlibSync(raw, { level: 6 })),
+    chunk("IEND", new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png;
+}
+
+// Only fully opaque pixels carry bits, since viewers and share targets may
+// premultiply or drop the colour of transparent ones.
+function carrierSlots(image: RgbaImage): number[] {
+  const slots: number[] = [];
+  for (let i = 0; i < image.pixels.length; i += 4) {
+    if (image.pixels[i + 3] === 255) slots.push(i, i + 1, i + 2);
+  }
+  return slots;
+}
+
+// How many payload bytes fit in the image.
+export function carrierCapacity(image: RgbaImage): number {
+  return Math.max(
+    0,
+    Math.floor(carrierSlots(image).length / 8) - HEADER_LENGTH,
+  );
+}
+
+export function embedPayload(
+  image: RgbaImage,
+  payload: Uint8Array,
+): RgbaImage | null {
+  const slots = carrierSlots(image);
+  if (payload.length > Math.floor(slots.length / 8) - HEADER_LENGTH) {
+    return null;
+  }
+  const data = new Uint8Array(HEADER_LENGTH + payload.length);
+  data.set(PAYLOAD_MAGIC, 0);
+  writeUint32(data, 4, payload.length);
+  data.set(payload, HEADER_LENGTH);
+
+  const pixels = new Uint8Array(image.pixels);
+  for (let bit = 0; bit < data.length * 8; bit++) {
+    const value = (data[bit >> 3] >> (7 - (bit & 7))) & 1;
+    const slot = slots[bit];
+    pixels[slot] = (pixels[slot] & 0xfe) | value;
+  }
+  return { width: image.width, height: image.height, pixels };
+}
+
+export function extractPayload(image: RgbaImage): Uint8Array | null {
+  const slots = carrierSlots(image);
+  const readBytes = (start: number, count: number): Uint8Array => {
+    const bytes = new Uint8Array(count);
+    for (let i = 0; i < count * 8; i++) {
+      const bit = image.pixels[slots[start * 8 + i]] & 1;
+      bytes[i >> 3] |= bit << (7 - (i & 7));
+    }
+    return bytes;
+  };
+
+  if (slots.length < HEADER_LENGTH * 8) return null;
+  const header = readBytes(0, HEADER_LENGTH);
+  if (PAYLOAD_MAGIC.some((byte, i) => header[i] !== byte)) return null;
+  const length = readUint32(header, 4);
+  if (length > Math.floor(slots.length / 8) - HEADER_LENGTH) return null;
+  return readBytes(HEADER_LENGTH, length);
+}
+
+// Hides an ASCII-armoured ciphertext in a carrier PNG.
+export function hideInPng(carrier: Uint8Array, payload: string): HideResult {
+  const image = decodePng(carrier);
+  if (!image) return { hidden: false, reason: "unsupported_image" };
+  const stego = embedPayload(image, strToU8(payload));
+  if (!stego) return { hidden: false, reason: "too_small" };
+  return {
+    hidden: true,
+    png: encodePng(stego),
+    width: stego.width,
+    height: stego.height,
+  };
+}
+
+export function revealFromPng(png: Uint8Array): RevealResult {
+  const image = decodePng(png);
+  if (!image) return { found: false, reason: "unsupported_image" };
+  const payload = extractPayload(image);
+  if (!payload) return { found: false, reason: "no_payload" };
+  try {
+    return { found: true, payload: strFromU8(payload) };
+  } catch {
+    return { found: false, reason: "no_payload" };
+  }
+}
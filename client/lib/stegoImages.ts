@@ -0,0 +1,123 @@
+import { Asset } from "expo-asset";
+import { Directory, File, Paths } from "expo-file-system";
+import * as ImagePicker from "expo-image-picker";
+import { ImageManipulator, SaveFormat } from "expo-image-manipulator";
+import type { PickedFile } from "./attachments";
+import { randomBytes, toBase64Url } from "./encoding";
+import { hideInPng, revealFromPng, type RevealResult } from "./steganography";
+
+// Device side of steganography mode: where carrier images come from and where
+// the finished images go. The codec itself lives in steganography.ts.
+
+export interface Carrier {
+  id: string;
+  name: string;
+  source: number;
+}
+
+export const BUNDLED_CARRIERS: Carrier[] = [
+  {
+    id: "aurora",
+    name: "Aurora",
+    source: require("../../assets/images/carriers/aurora.png"),
+  },
+  {
+    id: "dunes",
+    name: "Dunes",
+    source: require("../../assets/images/carriers/dunes.png"),
+  },
+  {
+    id: "tide",
+    name: "Tide",
+    source: require("../../assets/images/carriers/tide.png"),
+  },
+];
+
+// Gallery photos are scaled down first: a 1024 px image still holds around
+// 300 KB of payload and keeps the PNG well under the attachment limit.
+const MAX_GALLERY_DIMENSION = 1024;
+
+export type StegoImageResult =
+  | { created: true; file: PickedFile }
+  | { created: false; reason: "unsupported_image" | "too_small" };
+
+export async function loadBundledCarrier(
+  carrier: Carrier,
+): Promise<Uint8Array> {
+  const asset = await Asset.fromModule(carrier.source).downloadAsync();
+  return new File(asset.localUri ?? asset.uri).bytes();
+}
+
+// Returns null when the user cancels the picker. The photo is re-encoded as
+// PNG, since lossy formats would destroy the hidden bits.
+export async function pickGalleryCarrier(): Promise<Uint8Array | null> {
+  const result = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ["images"],
+    quality: 1,
+  });
+  const asset = result.canceled ? null : result.assets[0];
+  if (!asset) return null;
+
+  const context = ImageManipulator.manipulate(asset.uri);
+  const longest = Math.max(asset.width, asset.height);
+  if (longest > MAX_GALLERY_DIMENSION) {
+    context.resize(
+      asset.width >= asset.height
+        ? { width: MAX_GALLERY_DIMENSION }
+        : { height: MAX_GALLERY_DIMENSION },
+    );
+  }
+  const rendered = await context.renderAsync();
+  const saved = await rendered.saveAsync({ format: SaveFormat.PNG });
+  const file = new File(saved.uri);
+  try {
+    return await file.bytes();
+  } finally {
+    file.delete();
+  }
+}
+
+// Hides the ciphertext in the carrier and writes the result under a
+// camera-style name, ready to upload or share.
+export function createStegoImage(
+  carrier: Uint8Array,
+  ciphertext: string,
+): StegoImageResult {
+  const result = hideInPng(carrier, ciphertext);
+  if (!result.hidden) return { created: false, reason: result.reason };
+
+  // A shared image is left for the receiving app to read; it goes when the
+  // next one is made.
+  deleteStegoImages();
+  const directory = new Directory(Paths.cache, "steganography");
+  directory.create({ intermediates: true, idempotent: true });
+  const name = `IMG_${toBase64Url(randomBytes(6)).replace(/[-_]/g, "0")}.png`;
+  const file = new File(directory, name);
+  file.write(result.png);
+  return {
+    created: true,
+    file: {
+      uri: file.uri,
+      name,
+      mimeType: "image/png",
+      size: file.size,
+      width: result.width,
+      height: result.height,
+    },
+  };
+}
+
+export async function readHiddenPayload(uri: string): Promise<RevealResult> {
+  try {
+    return revealFromPng(await new File(uri).bytes());
+  } catch (error) {
+    console.error("Hidden payload read error:", error);
+    return { found: false, reason: "unsupported_image" };
+  }
+}
+
+// Stego images are only needed until they are uploaded or shared.
+export function deleteStegoImages(): void {
+  const directory = new Directory(Paths.cache, "steganography");
+  if (directory.exists) directory.delete();
+}
@@ -1,5 +1,15 @@
 import AsyncStorage from "@react-native-async-storage/async-storage";
+import { deleteMessageAttachments } from "./attachments";
 import type { Contact } from "./crypto";
+import type { DhKeyPair, RatchetState } from "./ratchet";
+import {
+  closeVault,
+  destroyVault,
+  isSealed,
+  openVault,
+  seal,
+  unseal,
+} from "./vault";
 
 const CONTACTS_KEY = "@ciphernode/contacts";
 const CHATS_KEY = "@ciphernode/chats";
@@ -7,6 +17,12 @@ const GROUPS_KEY = "@ciphernode/groups";
 const SETTINGS_KEY = "@ciphernode/settings";
 const ONBOARDING_KEY = "@ciphernode/onboarding";
 const LANGUAGE_KEY = "@ciphernode/language";
+const OUTBOX_KEY = "@ciphernode/outbox";
+const PREKEYS_KEY = "@ciphernode/prekeys";
+const SESSIONS_KEY = "@ciphernode/sessions";
+const PENDING_GROUP_JOINS_KEY = "@ciphernode/pending_group_joins";
+const APP_LOCK_PIN_KEY = "@ciphernode/app_lock_pin";
+const FAILED_UNLOCKS_KEY = "@ciphernode/failed_unlocks";
 
 export interface Message {
   id: string;
@@ -15,7 +31,7 @@ export interface Message {
   senderId: string;
   recipientId: string;
   timestamp: number;
-  status: "sending" | "sent" | "delivered" | "read" | "received";
+  status: "sending" | "sent" | "delivered" | "read" | "received" | "failed";
   expiresAt?: number;
   groupId?: string;
 }
@@ -28,6 +44,31 @@ export interface Chat {
   isArchived: boolean;
 }
 
+// X3DH parameters the initiator attaches to its first messages, with a PGP
+// signature over them so the responder knows the session is really theirs.
+export interface SessionInit {
+  identityKey: string;
+  ephemeralKey: string;
+  signedPrekeyId: number;
+  signature: string;
+}
+
+// `pendingInit` is sent along until the contact replies within the session.
+// `remoteEphemeralKey` identifies a session the contact started, so repeats of
+// their init are recognized instead of resetting it.
+export interface ChatSession {
+  ratchet: RatchetState;
+  pendingInit?: SessionInit;
+  remoteEphemeralKey?: string;
+}
+
+// Our X25519 keys for incoming sessions. The last signed prekey is the one
+// published; the previous one is kept for inits that were already in flight.
+export interface LocalPrekeys {
+  identityKey: DhKeyPair;
+  signedPrekeys: { id: number; keyPair: DhKeyPair; createdAt: number }[];
+}
+
 export interface GroupMember {
   id: string;
   publicKey: string;
@@ -47,6 +88,54 @@ export interface Group {
   lastMessageAt: number;
   unreadCount: number;
   isArchived: boolean;
+  // The `seq` of the last control message applied from each sender, so a
+  // replayed membership change cannot undo a newer one from the same admin.
+  controlSeqs?: Record<string, number>;
+  // Invite links this device created; only the admin who created one can
+  // accept join requests for it.
+  invites?: GroupInvite[];
+}
+
+export interface GroupInvite {
+  secret: string;
+  createdAt: number;
+  expiresAt: number;
+  maxUses: number;
+  uses: number;
+}
+
+// A join request we sent after accepting an invite link. The add_members
+// message that answers it is only trusted from `adminId` with this key.
+export interface PendingGroupJoin {
+  groupId: string;
+  groupName: string;
+  adminId: string;
+  adminPublicKey: string;
+  requestedAt: number;
+}
+
+// What the relay's group roster has to gain before a group control message is
+// sent, and lose once the relay has accepted it. `invitations` are signed
+// invitation tokens, one per member added or whose role changed; `create`
+// opens the roster first when we created the group.
+export interface GroupRosterChange {
+  create?: boolean;
+  invitations: string[];
+  leave: string[];
+}
+
+// An encrypted envelope waiting for the relay to acknowledge it. `target` is
+// the contact ID for direct messages and key updates, and the group ID for
+// group messages. Key updates have no payload.
+export interface OutboxEntry {
+  id: string;
+  kind: "message" | "group" | "key_update";
+  target: string;
+  encrypted: string;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: number;
+  roster?: GroupRosterChange;
 }
 
 export interface AppSettings {
@@ -59,6 +148,10 @@ export interface AppSettings {
 export interface PrivacySettings {
   screenProtection: boolean;
   biometricLock: boolean;
+  // Seconds the app can spend in the background before the app lock asks
+  // again; 0 locks on every return.
+  appLockTimeout: number;
+  wipeOnFailedUnlocks: boolean;
   autoMetadataScrubbing: boolean;
   steganographyMode: boolean;
   ghostMode: boolean;
@@ -66,6 +159,12 @@ export interface PrivacySettings {
   lowPowerMode: boolean;
 }
 
+// PBKDF2 hash of the app lock PIN, used when biometrics are unavailable.
+export interface AppLockPin {
+  salt: string;
+  hash: string;
+}
+
 export interface TorSettings {
   enabled: boolean;
   proxyHost: string;
@@ -73,6 +172,18 @@ export interface TorSettings {
   connectionStatus: "disconnected" | "connecting" | "connected" | "error";
 }
 
+// Everything a backup carries besides the identity. Ratchet sessions, prekeys
+// and the outbox belong to the device and are left out.
+export interface StorageSnapshot {
+  contacts: Contact[];
+  chats: Chat[];
+  groups: Group[];
+  settings: AppSettings;
+  privacySettings: PrivacySettings;
+  torSettings: TorSettings;
+  language: "tr" | "en";
+}
+
 const DEFAULT_SETTINGS: AppSettings = {
   serverUrl: "",
   defaultMessageTimer: 0,
@@ -83,6 +194,8 @@ const DEFAULT_SETTINGS: AppSettings = {
 const DEFAULT_PRIVACY_SETTINGS: PrivacySettings = {
   screenProtection: false,
   biometricLock: false,
+  appLockTimeout: 60,
+  wipeOnFailedUnlocks: false,
   autoMetadataScrubbing: true,
   steganographyMode: false,
   ghostMode: false,
@@ -98,8 +211,46 @@ const DEFAULT_TOR_SETTINGS: TorSettings = {
 };
 
 const PRIVACY_SETTINGS_KEY = "@ciphernode/privacy_settings";
+
+type PrivacySettingsCallback = (settings: PrivacySettings) => void;
+const privacySettingsListeners: PrivacySettingsCallback[] = [];
 const TOR_SETTINGS_KEY = "@ciphernode/tor_settings";
 
+// Contacts, chats, groups and the outbox are sealed with the vault's data key.
+// Settings, language and onboarding stay readable because the app needs them
+// before the identity is unlocked.
+const SEALED_KEYS = [
+  CONTACTS_KEY,
+  CHATS_KEY,
+  GROUPS_KEY,
+  OUTBOX_KEY,
+  PREKEYS_KEY,
+  SESSIONS_KEY,
+  PENDING_GROUP_JOINS_KEY,
+  APP_LOCK_PIN_KEY,
+];
+
+async function readSealed<T>(key: string): Promise<T | null> {
+  const stored = await AsyncStorage.getItem(key);
+  if (!stored) return null;
+  return JSON.parse(isSealed(stored) ? await unseal(stored) : stored);
+}
+
+async function writeSealed(key: string, value: unknown): Promise<void> {
+  await AsyncStorage.setItem(key, await seal(JSON.stringify(value)));
+}
+
+// Seals anything still stored as plaintext JSON from before local encryption
+// existed. Runs on every unlock and is a no-op once everything is sealed.
+export async function migrateToSealedStorage(): Promise<void> {
+  for (const key of SEALED_KEYS) {
+    const stored = await AsyncStorage.getItem(key);
+    if (stored && !isSealed(stored)) {
+      await AsyncStorage.setItem(key, await seal(stored));
+    }
+  }
+}
+
 export async function hasCompletedOnboarding(): Promise<boolean> {
   try {
     const value = await AsyncStorage.getItem(ONBOARDING_KEY);
@@ -113,28 +264,64 @@ export async function setOnboardingComplete(): Promise<void> {
   await AsyncStorage.setItem(ONBOARDING_KEY, "true");
 }
 
+// The load* readers throw when a blob cannot be read, so read-modify-write
+// paths fail instead of saving an empty list over data that is still there.
+// The exported getters fall back to empty for display.
+async function loadContacts(): Promise<Contact[]> {
+  return (await readSealed<Contact[]>(CONTACTS_KEY)) ?? [];
+}
+
+// Every read-modify-write of a sealed blob goes through one queue. Without it
+// two writers can read the same value and the later write drops the earlier
+// one's change, e.g. an outbox backoff update bringing back an entry that
+// message:ack just removed. `update` returns the value to store, or undefined
+// to leave the blob as it is; it must not wait on another queued update.
+let sealedWrites: Promise<unknown> = Promise.resolve();
+
+function updateSealed<T>(
+  key: string,
+  load: () => Promise<T>,
+  update: (value: T) => T | undefined
+): Promise<void> {
+  const next = sealedWrites
+    .catch(() => undefined)
+    .then(async () => {
+      const updated = update(await load());
+      if (updated !== undefined) {
+        await writeSealed(key, updated);
+      }
+    });
+  sealedWrites = next;
+  return next;
+}
+
+function updateContacts(
+  update: (contacts: Contact[]) => Contact[] | undefined
+): Promise<void> {
+  return updateSealed(CONTACTS_KEY, loadContacts, update);
+}
+
 export async function getContacts(): Promise<Contact[]> {
   try {
-    const stored = await AsyncStorage.getItem(CONTACTS_KEY);
-    return stored ? JSON.parse(stored) : [];
+    return await loadContacts();
   } catch {
     return [];
   }
 }
 
 export async function addContact(contact: Contact): Promise<void> {
-  const contacts = await getContacts();
-  const exists = contacts.find((c) => c.id === contact.id);
-  if (!exists) {
+  await updateContacts((contacts) => {
+    const exists = contacts.find((c) => c.id === contact.id);
+    if (exists) return undefined;
     contacts.push(contact);
-    await AsyncStorage.setItem(CONTACTS_KEY, JSON.stringify(contacts));
-  }
+    return contacts;
+  });
 }
 
 export async function removeContact(contactId: string): Promise<void> {
-  const contacts = await getContacts();
-  const filtered = contacts.filter((c) => c.id !== contactId);
-  await AsyncStorage.setItem(CONTACTS_KEY, JSON.stringify(filtered));
+  await updateContacts((contacts) =>
+    contacts.filter((c) => c.id !== contactId)
+  );
 }
 
 export async function getContact(contactId: string): Promise<Contact | null> {
@@ -142,11 +329,103 @@ export async function getContact(contactId: string): Promise<Contact | null> {
   return contacts.find((c) => c.id === contactId) || null;
 }
 
+// Swaps in a contact's new key everywhere it is stored: the contact itself and
+// their membership in any group.
+export async function updateContactKey(
+  contactId: string,
+  publicKey: string,
+  fingerprint: string
+): Promise<void> {
+  await updateContacts((contacts) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return undefined;
+    contact.publicKey = publicKey;
+    contact.fingerprint = fingerprint;
+    // A QR verification only vouched for the previous key.
+    contact.verified = false;
+    delete contact.keyChange;
+    return contacts;
+  });
+
+  await updateGroups((groups) => {
+    let groupsChanged = false;
+    for (const member of groups.flatMap((g) => g.members)) {
+      if (member.id === contactId) {
+        member.publicKey = publicKey;
+        groupsChanged = true;
+      }
+    }
+    return groupsChanged ? groups : undefined;
+  });
+}
+
+// Keeps the pinned key in place until the user explicitly accepts the new one.
+export async function recordContactKeyChange(
+  contactId: string,
+  publicKey: string,
+  fingerprint: string
+): Promise<void> {
+  await updateContacts((contacts) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return undefined;
+    contact.keyChange = { publicKey, fingerprint, detectedAt: Date.now() };
+    return contacts;
+  });
+}
+
+export async function acceptContactKeyChange(contactId: string): Promise<boolean> {
+  const contact = await getContact(contactId);
+  if (!contact?.keyChange) return false;
+
+  await updateContactKey(
+    contactId,
+    contact.keyChange.publicKey,
+    contact.keyChange.fingerprint
+  );
+
+  // The ratchet session was authenticated by the old key; start a new one.
+  await deleteChatSession(contactId);
+  return true;
+}
+
+export async function setContactVerified(
+  contactId: string,
+  verified: boolean
+): Promise<void> {
+  await updateContacts((contacts) => {
+    const contact = contacts.find((c) => c.id === contactId);
+    if (!contact) return undefined;
+    contact.verified = verified;
+    return contacts;
+  });
+}
+
+async function loadChats(): Promise<Chat[]> {
+  const chats = (await readSealed<Chat[]>(CHATS_KEY)) ?? [];
+  return chats.map((c) => ({ ...c, isArchived: c.isArchived || false }));
+}
+
+function updateChats(
+  update: (chats: Chat[]) => Chat[] | undefined
+): Promise<void> {
+  return updateSealed(CHATS_KEY, loadChats, update);
+}
+
+// Applies `update` to one chat and stores the result unless it returns false.
+function updateChat(
+  contactId: string,
+  update: (chat: Chat) => boolean | void
+): Promise<void> {
+  return updateChats((chats) => {
+    const chat = chats.find((c) => c.contactId === contactId);
+    if (!chat || update(chat) === false) return undefined;
+    return chats;
+  });
+}
+
 export async function getChats(): Promise<Chat[]> {
   try {
-    const stored = await AsyncStorage.getItem(CHATS_KEY);
-    const chats: Chat[] = stored ? JSON.parse(stored) : [];
-    return chats.map((c) => ({ ...c, isArchived: c.isArchived || false }));
+    return await loadChats();
   } catch {
     return [];
   }
@@ -171,81 +450,216 @@ export async function saveMessage(
   contactId: string,
   message: Message
 ): Promise<void> {
-  const chats = await getChats();
-  let chat = chats.find((c) => c.contactId === contactId);
-
-  if (!chat) {
-    chat = {
-      contactId,
-      messages: [],
-      lastMessageAt: message.timestamp,
-      unreadCount: 0,
-      isArchived: false,
-    };
-    chats.push(chat);
-  }
+  await updateChats((chats) => {
+    let chat = chats.find((c) => c.contactId === contactId);
 
-  chat.messages.push(message);
-  chat.lastMessageAt = message.timestamp;
+    if (!chat) {
+      chat = {
+        contactId,
+        messages: [],
+        lastMessageAt: message.timestamp,
+        unreadCount: 0,
+        isArchived: false,
+      };
+      chats.push(chat);
+    }
 
-  await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
+    chat.messages.push(message);
+    chat.lastMessageAt = message.timestamp;
+    return chats;
+  });
 }
 
-export async function markChatAsRead(contactId: string): Promise<void> {
-  const chats = await getChats();
-  const chat = chats.find((c) => c.contactId === contactId);
-  if (chat) {
+export async function updateMessage(
+  contactId: string,
+  messageId: string,
+  updates: Partial<Omit<Message, "id">>
+): Promise<void> {
+  await updateChat(contactId, (chat) => {
+    const message = chat.messages.find((m) => m.id === messageId);
+    if (!message) return false;
+    Object.assign(message, updates);
+  });
+}
+
+const OUTGOING_STATUS_ORDER: Message["status"][] = ["sending", "sent", "delivered", "read"];
+
+// Moves outgoing messages forward only: a late "delivered" receipt never
+// downgrades a message that is already "read", and failed messages stay put.
+export async function advanceMessageStatus(
+  contactId: string,
+  messageIds: string[],
+  status: "sent" | "delivered" | "read"
+): Promise<boolean> {
+  const target = OUTGOING_STATUS_ORDER.indexOf(status);
+  let changed = false;
+  await updateChat(contactId, (chat) => {
+    for (const message of chat.messages) {
+      if (!messageIds.includes(message.id) || message.senderId === contactId) {
+        continue;
+      }
+      const current = OUTGOING_STATUS_ORDER.indexOf(message.status);
+      if (current !== -1 && current < target) {
+        message.status = status;
+        changed = true;
+      }
+    }
+    return changed;
+  });
+  return changed;
+}
+
+// Returns the IDs of incoming messages that were unread until now, so the
+// caller can send a read receipt for exactly those.
+export async function markChatAsRead(contactId: string): Promise<string[]> {
+  const newlyRead: string[] = [];
+  await updateChat(contactId, (chat) => {
+    for (const message of chat.messages) {
+      if (message.senderId === contactId && message.status === "received") {
+        message.status = "read";
+        newlyRead.push(message.id);
+      }
+    }
     chat.unreadCount = 0;
-    await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
-  }
+  });
+  return newlyRead;
 }
 
 export async function archiveChat(contactId: string): Promise<void> {
-  const chats = await getChats();
-  const chat = chats.find((c) => c.contactId === contactId);
-  if (chat) {
+  await updateChat(contactId, (chat) => {
     chat.isArchived = true;
-    await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
-  }
+  });
 }
 
 export async function unarchiveChat(contactId: string): Promise<void> {
-  const chats = await getChats();
-  const chat = chats.find((c) => c.contactId === contactId);
-  if (chat) {
+  await updateChat(contactId, (chat) => {
     chat.isArchived = false;
-    await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
-  }
+  });
 }
 
 export async function deleteChat(contactId: string): Promise<void> {
-  const chats = await getChats();
-  const filtered = chats.filter((c) => c.contactId !== contactId);
-  await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(filtered));
+  await updateChats((chats) => chats.filter((c) => c.contactId !== contactId));
+  await deleteChatSession(contactId);
 }
 
 export async function deleteMessage(contactId: string, messageId: string): Promise<void> {
-  const chats = await getChats();
-  const chat = chats.find((c) => c.contactId === contactId);
-  if (chat) {
+  let deleted = false;
+  await updateChat(contactId, (chat) => {
     chat.messages = chat.messages.filter((m) => m.id !== messageId);
     if (chat.messages.length > 0) {
       chat.lastMessageAt = chat.messages[chat.messages.length - 1].timestamp;
     }
-    await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
+    deleted = true;
+  });
+  if (deleted) {
+    deleteMessageAttachments([messageId]);
   }
 }
 
+// Ratchet sessions have their own blob, so the frequent rewrites of
+// CHATS_KEY can never roll a chain back.
+type Sessions = Record<string, ChatSession>;
+
+async function loadSessions(): Promise<Sessions> {
+  return (await readSealed<Sessions>(SESSIONS_KEY)) ?? {};
+}
+
+function updateSessions(update: (sessions: Sessions) => Sessions): Promise<void> {
+  return updateSealed(SESSIONS_KEY, loadSessions, update);
+}
+
+export async function getChatSession(contactId: string): Promise<ChatSession | null> {
+  const sessions = await loadSessions();
+  return sessions[contactId] ?? null;
+}
+
+export async function saveChatSession(
+  contactId: string,
+  session: ChatSession
+): Promise<void> {
+  await updateSessions((sessions) => {
+    sessions[contactId] = session;
+    return sessions;
+  });
+}
+
+export async function deleteChatSession(contactId: string): Promise<void> {
+  await updateSessions((sessions) => {
+    delete sessions[contactId];
+    return sessions;
+  });
+}
+
+// Sessions used to be stored on their chat. Moves any still there to
+// SESSIONS_KEY; runs on every unlock and is a no-op once they are moved.
+export async function migrateChatSessions(): Promise<void> {
+  const chats = (await loadChats()) as (Chat & { session?: ChatSession })[];
+  const legacy = chats.filter((c) => c.session);
+  if (legacy.length === 0) return;
+
+  await updateSessions((sessions) => {
+    for (const chat of legacy) {
+      sessions[chat.contactId] ??= chat.session!;
+    }
+    return sessions;
+  });
+  await updateChats((current) =>
+    (current as (Chat & { session?: ChatSession })[]).map(
+      ({ session: _session, ...chat }) => chat
+    )
+  );
+}
+
+export async function getLocalPrekeys(): Promise<LocalPrekeys | null> {
+  return readSealed<LocalPrekeys>(PREKEYS_KEY);
+}
+
+export async function saveLocalPrekeys(prekeys: LocalPrekeys): Promise<void> {
+  await writeSealed(PREKEYS_KEY, prekeys);
+}
+
 export async function deleteContactAndChat(contactId: string): Promise<void> {
   await deleteChat(contactId);
   await removeContact(contactId);
 }
 
+async function loadGroups(): Promise<Group[]> {
+  const groups = (await readSealed<Group[]>(GROUPS_KEY)) ?? [];
+  return groups.map((g) => ({ ...g, isArchived: g.isArchived || false }));
+}
+
+function updateGroups(
+  update: (groups: Group[]) => Group[] | undefined
+): Promise<void> {
+  return updateSealed(GROUPS_KEY, loadGroups, update);
+}
+
+// Reads and writes one group inside the storage write queue, for changes that
+// must check the stored group and update it with nothing in between. `update`
+// returns the group to store, or null to leave it as it is; the result is
+// what ends up stored.
+export async function updateGroup(
+  groupId: string,
+  update: (group: Group) => Group | null
+): Promise<Group | null> {
+  let result: Group | null = null;
+  await updateGroups((groups) => {
+    const index = groups.findIndex((g) => g.id === groupId);
+    if (index === -1) return undefined;
+    const updated = update(groups[index]);
+    if (!updated) {
+      result = groups[index];
+      return undefined;
+    }
+    groups[index] = result = updated;
+    return groups;
+  });
+  return result;
+}
+
 export async function getGroups(): Promise<Group[]> {
   try {
-    const stored = await AsyncStorage.getItem(GROUPS_KEY);
-    const groups: Group[] = stored ? JSON.parse(stored) : [];
-    return groups.map((g) => ({ ...g, isArchived: g.isArchived || false }));
+    return await loadGroups();
   } catch {
     return [];
   }
@@ -273,7 +687,6 @@ export async function createGroup(
   creatorPublicKey: string,
   creatorDisplayName: string
 ): Promise<Group> {
-  const groups = await getGroups();
   const newGroup: Group = {
     id: `grp_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
     name,
@@ -294,85 +707,127 @@ export async function createGroup(
     unreadCount: 0,
     isArchived: false,
   };
-  groups.push(newGroup);
-  await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
+  await updateGroups((groups) => [...groups, newGroup]);
   return newGroup;
 }
 
+// Inserts or replaces a group as a whole, for membership changes that touch
+// several fields at once.
+export async function saveGroup(group: Group): Promise<void> {
+  await updateGroups((groups) => {
+    const index = groups.findIndex((g) => g.id === group.id);
+    if (index > -1) {
+      groups[index] = group;
+    } else {
+      groups.push(group);
+    }
+    return groups;
+  });
+}
+
+async function loadPendingGroupJoins(): Promise<PendingGroupJoin[]> {
+  return (await readSealed<PendingGroupJoin[]>(PENDING_GROUP_JOINS_KEY)) ?? [];
+}
+
+function updatePendingGroupJoins(
+  update: (joins: PendingGroupJoin[]) => PendingGroupJoin[]
+): Promise<void> {
+  return updateSealed(PENDING_GROUP_JOINS_KEY, loadPendingGroupJoins, update);
+}
+
+export async function getPendingGroupJoins(): Promise<PendingGroupJoin[]> {
+  try {
+    return await loadPendingGroupJoins();
+  } catch {
+    return [];
+  }
+}
+
+export async function addPendingGroupJoin(join: PendingGroupJoin): Promise<void> {
+  await updatePendingGroupJoins((joins) => [
+    ...joins.filter((j) => j.groupId !== join.groupId),
+    join,
+  ]);
+}
+
+export async function removePendingGroupJoin(groupId: string): Promise<void> {
+  await updatePendingGroupJoins((joins) =>
+    joins.filter((j) => j.groupId !== groupId)
+  );
+}
+
 export async function addGroupMember(
   groupId: string,
   member: GroupMember
 ): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     const exists = group.members.find((m) => m.id === member.id);
-    if (!exists) {
-      group.members.push(member);
-      await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-    }
-  }
+    if (exists) return null;
+    group.members.push(member);
+    return group;
+  });
 }
 
 export async function removeGroupMember(
   groupId: string,
   memberId: string
 ): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     group.members = group.members.filter((m) => m.id !== memberId);
-    await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-  }
+    return group;
+  });
 }
 
 export async function saveGroupMessage(
   groupId: string,
   message: Message
 ): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     group.messages.push({ ...message, groupId });
     group.lastMessageAt = message.timestamp;
-    await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-  }
+    return group;
+  });
+}
+
+export async function updateGroupMessage(
+  groupId: string,
+  messageId: string,
+  updates: Partial<Omit<Message, "id">>
+): Promise<void> {
+  await updateGroup(groupId, (group) => {
+    const message = group.messages.find((m) => m.id === messageId);
+    if (!message) return null;
+    Object.assign(message, updates);
+    return group;
+  });
 }
 
 export async function archiveGroup(groupId: string): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     group.isArchived = true;
-    await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-  }
+    return group;
+  });
 }
 
 export async function unarchiveGroup(groupId: string): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     group.isArchived = false;
-    await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-  }
+    return group;
+  });
 }
 
 export async function deleteGroup(groupId: string): Promise<void> {
-  const groups = await getGroups();
-  const filtered = groups.filter((g) => g.id !== groupId);
-  await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(filtered));
+  await updateGroups((groups) => groups.filter((g) => g.id !== groupId));
 }
 
 export async function updateGroupName(
   groupId: string,
   name: string
 ): Promise<void> {
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
+  await updateGroup(groupId, (group) => {
     group.name = name;
-    await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-  }
+    return group;
+  });
 }
 
 export async function getSettings(): Promise<AppSettings> {
@@ -411,10 +866,53 @@ export async function updatePrivacySettings(
   updates: Partial<PrivacySettings>
 ): Promise<void> {
   const current = await getPrivacySettings();
-  await AsyncStorage.setItem(
-    PRIVACY_SETTINGS_KEY,
-    JSON.stringify({ ...current, ...updates })
-  );
+  const updated = { ...current, ...updates };
+  await AsyncStorage.setItem(PRIVACY_SETTINGS_KEY, JSON.stringify(updated));
+  notifyPrivacySettingsChange(updated);
+}
+
+// App-wide privacy features such as screen protection follow the settings as
+// they change rather than on the next launch.
+export function onPrivacySettingsChange(callback: PrivacySettingsCallback): () => void {
+  privacySettingsListeners.push(callback);
+  return () => {
+    const index = privacySettingsListeners.indexOf(callback);
+    if (index > -1) privacySettingsListeners.splice(index, 1);
+  };
+}
+
+function notifyPrivacySettingsChange(settings: PrivacySettings): void {
+  privacySettingsListeners.forEach((cb) => cb(settings));
+}
+
+export async function getAppLockPin(): Promise<AppLockPin | null> {
+  try {
+    return await readSealed<AppLockPin>(APP_LOCK_PIN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveAppLockPin(pin: AppLockPin | null): Promise<void> {
+  if (pin) {
+    await writeSealed(APP_LOCK_PIN_KEY, pin);
+  } else {
+    await AsyncStorage.removeItem(APP_LOCK_PIN_KEY);
+  }
+}
+
+// Kept outside the vault so it survives restarts between failed attempts.
+export async function getFailedUnlockCount(): Promise<number> {
+  const stored = await AsyncStorage.getItem(FAILED_UNLOCKS_KEY);
+  return stored ? parseInt(stored, 10) || 0 : 0;
+}
+
+export async function setFailedUnlockCount(count: number): Promise<void> {
+  if (count > 0) {
+    await AsyncStorage.setItem(FAILED_UNLOCKS_KEY, String(count));
+  } else {
+    await AsyncStorage.removeItem(FAILED_UNLOCKS_KEY);
+  }
 }
 
 export async function getTorSettings(): Promise<TorSettings> {
@@ -453,7 +951,10 @@ export async function setLanguage(language: "tr" | "en"): Promise<void> {
   await updateSettings({ language });
 }
 
+// Crypto-shred: the data key goes first, so sealed blobs are unreadable even
+// if removing them below fails or a copy survives in a backup.
 export async function clearAllData(): Promise<void> {
+  await destroyVault();
   await AsyncStorage.multiRemove([
     CONTACTS_KEY,
     CHATS_KEY,
@@ -461,92 +962,223 @@ export async function clearAllData(): Promise<void> {
     SETTINGS_KEY,
     ONBOARDING_KEY,
     LANGUAGE_KEY,
+    OUTBOX_KEY,
+    PREKEYS_KEY,
+    SESSIONS_KEY,
+    PENDING_GROUP_JOINS_KEY,
+    APP_LOCK_PIN_KEY,
+    FAILED_UNLOCKS_KEY,
     "@ciphernode/identity",
   ]);
 }
 
+// Everything the app ever persisted, settings included, for the wipe after
+// too many failed unlocks.
+export async function wipeAllData(): Promise<void> {
+  await destroyVault();
+  await AsyncStorage.clear();
+  notifyPrivacySettingsChange(DEFAULT_PRIVACY_SETTINGS);
+}
+
+export async function getStorageSnapshot(): Promise<StorageSnapshot> {
+  const [contacts, chats, groups, settings, privacySettings, torSettings, language] =
+    await Promise.all([
+      loadContacts(),
+      loadChats(),
+      loadGroups(),
+      getSettings(),
+      getPrivacySettings(),
+      getTorSettings(),
+      getLanguage(),
+    ]);
+  // Ratchet sessions are left out: restoring one on a second device would
+  // reuse its message keys.
+  return {
+    contacts,
+    chats,
+    groups,
+    settings,
+    privacySettings,
+    torSettings,
+    language,
+  };
+}
+
+// Replaces all local data with a snapshot. Clearing destroys the old data
+// key, so a new one is created under the restored identity's passphrase and
+// the snapshot is sealed before it touches disk.
+export async function restoreStorageSnapshot(
+  snapshot: StorageSnapshot,
+  passphrase: string
+): Promise<void> {
+  await clearAllData();
+  await AsyncStorage.multiRemove([PRIVACY_SETTINGS_KEY, TOR_SETTINGS_KEY]);
+  await openVault(passphrase);
+  try {
+    await AsyncStorage.multiSet([
+      [CONTACTS_KEY, await seal(JSON.stringify(snapshot.contacts))],
+      [CHATS_KEY, await seal(JSON.stringify(snapshot.chats))],
+      [GROUPS_KEY, await seal(JSON.stringify(snapshot.groups))],
+    ]);
+  } finally {
+    // Unlocking the restored identity opens it again.
+    closeVault();
+  }
+  await AsyncStorage.multiSet([
+    [SETTINGS_KEY, JSON.stringify(snapshot.settings)],
+    [PRIVACY_SETTINGS_KEY, JSON.stringify(snapshot.privacySettings)],
+    [TOR_SETTINGS_KEY, JSON.stringify(snapshot.torSettings)],
+    [LANGUAGE_KEY, snapshot.language],
+    [ONBOARDING_KEY, "true"],
+  ]);
+  notifyPrivacySettingsChange(await getPrivacySettings());
+}
+
+async function loadOutbox(): Promise<OutboxEntry[]> {
+  return (await readSealed<OutboxEntry[]>(OUTBOX_KEY)) ?? [];
+}
+
+export async function getOutbox(): Promise<OutboxEntry[]> {
+  try {
+    return await loadOutbox();
+  } catch {
+    return [];
+  }
+}
+
+function updateOutbox(
+  update: (entries: OutboxEntry[]) => OutboxEntry[] | undefined
+): Promise<void> {
+  return updateSealed(OUTBOX_KEY, loadOutbox, update);
+}
+
+export async function addToOutbox(entry: OutboxEntry): Promise<void> {
+  await updateOutbox((entries) => [
+    ...entries.filter((e) => e.id !== entry.id),
+    entry,
+  ]);
+}
+
+// Does nothing once the entry is gone, so a retry that finishes after the
+// relay acked the message cannot bring it back.
+export async function updateOutboxEntry(
+  id: string,
+  updates: Partial<Omit<OutboxEntry, "id">>
+): Promise<void> {
+  await updateOutbox((entries) => {
+    const entry = entries.find((e) => e.id === id);
+    if (!entry) return undefined;
+    Object.assign(entry, updates);
+    return entries;
+  });
+}
+
+export async function removeFromOutbox(id: string): Promise<OutboxEntry | null> {
+  let removed: OutboxEntry | null = null;
+  await updateOutbox((entries) => {
+    removed = entries.find((e) => e.id === id) || null;
+    return removed ? entries.filter((e) => e.id !== id) : undefined;
+  });
+  return removed;
+}
+
 export function generateMessageId(): string {
   return `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
+// Splits off the messages whose timer has run out.
+function partitionExpired(messages: Message[], now: number): [Message[], string[]] {
+  const kept: Message[] = [];
+  const expiredIds: string[] = [];
+  for (const msg of messages) {
+    if (msg.expiresAt && msg.expiresAt <= now) {
+      expiredIds.push(msg.id);
+    } else {
+      kept.push(msg);
+    }
+  }
+  return [kept, expiredIds];
+}
+
+// Expired messages take their attachments' local copies (voice notes, files)
+// with them.
 export async function cleanupExpiredMessages(): Promise<number> {
   const now = Date.now();
   let deletedCount = 0;
+  const expiredIds: string[] = [];
 
-  const chats = await getChats();
-  for (const chat of chats) {
-    const originalLength = chat.messages.length;
-    chat.messages = chat.messages.filter((msg) => {
-      if (msg.expiresAt && msg.expiresAt <= now) {
-        return false;
+  await updateChats((chats) => {
+    for (const chat of chats) {
+      const [kept, expired] = partitionExpired(chat.messages, now);
+      chat.messages = kept;
+      expiredIds.push(...expired);
+      const deleted = expired.length;
+      deletedCount += deleted;
+      if (deleted > 0) {
+        chat.lastMessageAt = chat.messages.length > 0 
+          ? chat.messages[chat.messages.length - 1].timestamp 
+          : 0;
+        chat.unreadCount = Math.min(chat.unreadCount, chat.messages.length);
       }
-      return true;
-    });
-    const deleted = originalLength - chat.messages.length;
-    deletedCount += deleted;
-    if (deleted > 0) {
-      chat.lastMessageAt = chat.messages.length > 0 
-        ? chat.messages[chat.messages.length - 1].timestamp 
-        : 0;
-      chat.unreadCount = Math.min(chat.unreadCount, chat.messages.length);
     }
-  }
-  await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
+    return chats;
+  });
 
-  const groups = await getGroups();
-  for (const group of groups) {
-    const originalLength = group.messages.length;
-    group.messages = group.messages.filter((msg) => {
-      if (msg.expiresAt && msg.expiresAt <= now) {
-        return false;
+  await updateGroups((groups) => {
+    for (const group of groups) {
+      const [kept, expired] = partitionExpired(group.messages, now);
+      group.messages = kept;
+      expiredIds.push(...expired);
+      const deleted = expired.length;
+      deletedCount += deleted;
+      if (deleted > 0) {
+        group.lastMessageAt = group.messages.length > 0 
+          ? group.messages[group.messages.length - 1].timestamp 
+          : 0;
+        group.unreadCount = Math.min(group.unreadCount, group.messages.length);
       }
-      return true;
-    });
-    const deleted = originalLength - group.messages.length;
-    deletedCount += deleted;
-    if (deleted > 0) {
-      group.lastMessageAt = group.messages.length > 0 
-        ? group.messages[group.messages.length - 1].timestamp 
-        : 0;
-      group.unreadCount = Math.min(group.unreadCount, group.messages.length);
     }
-  }
-  await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
+    return groups;
+  });
+  deleteMessageAttachments(expiredIds);
 
   return deletedCount;
 }
 
 export async function cleanupExpiredMessagesForChat(contactId: string): Promise<void> {
   const now = Date.now();
-  const chats = await getChats();
-  const chat = chats.find((c) => c.contactId === contactId);
-  if (chat) {
-    const originalLength = chat.messages.length;
-    chat.messages = chat.messages.filter((msg) => !msg.expiresAt || msg.expiresAt > now);
-    if (chat.messages.length !== originalLength) {
-      chat.lastMessageAt = chat.messages.length > 0 
-        ? chat.messages[chat.messages.length - 1].timestamp 
-        : 0;
-      chat.unreadCount = Math.min(chat.unreadCount, chat.messages.length);
-      await AsyncStorage.setItem(CHATS_KEY, JSON.stringify(chats));
-    }
+  let expiredIds: string[] = [];
+  await updateChat(contactId, (chat) => {
+    const [kept, expired] = partitionExpired(chat.messages, now);
+    if (expired.length === 0) return false;
+    expiredIds = expired;
+    chat.messages = kept;
+    chat.lastMessageAt = chat.messages.length > 0 
+      ? chat.messages[chat.messages.length - 1].timestamp 
+      : 0;
+    chat.unreadCount = Math.min(chat.unreadCount, chat.messages.length);
+  });
+  if (expiredIds.length > 0) {
+    deleteMessageAttachments(expiredIds);
   }
 }
 
 export async function cleanupExpiredMessagesForGroup(groupId: string): Promise<void> {
   const now = Date.now();
-  const groups = await getGroups();
-  const group = groups.find((g) => g.id === groupId);
-  if (group) {
-    const originalLength = group.messages.length;
-    group.messages = group.messages.filter((msg) => !msg.expiresAt || msg.expiresAt > now);
-    if (group.messages.length !== originalLength) {
-      group.lastMessageAt = group.messages.length > 0 
-        ? group.messages[group.messages.length - 1].timestamp 
-        : 0;
-      group.unreadCount = Math.min(group.unreadCount, group.messages.length);
-      await AsyncStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
-    }
+  let expiredIds: string[] = [];
+  await updateGroup(groupId, (group) => {
+    const [kept, expired] = partitionExpired(group.messages, now);
+    if (expired.length === 0) return null;
+    expiredIds = expired;
+    group.messages = kept;
+    group.lastMessageAt = group.messages.length > 0 
+      ? group.messages[group.messages.length - 1].timestamp 
+      : 0;
+    group.unreadCount = Math.min(group.unreadCount, group.messages.length);
+    return group;
+  });
+  if (expiredIds.length > 0) {
+    deleteMessageAttachments(expiredIds);
   }
 }
 
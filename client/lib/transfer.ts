@@ -0,0 +1,305 @@
+import { io, type Socket } from "socket.io-client";
+import type {
+  TransferChunkPayload,
+  TransferError,
+  TransferErrorCode,
+} from "@shared/transfer";
+import { isBackupPayload, type BackupPayload } from "./backup";
+import { getKeyFingerprint } from "./crypto";
+import {
+  concatBytes,
+  fromBase64,
+  fromBase64Url,
+  randomBytes,
+  toBase64,
+  toBase64Url,
+} from "./encoding";
+import { getApiUrl } from "./query-client";
+
+const TRANSFER_URI_PREFIX = "ciphernode://transfer?";
+const TRANSFER_VERSION = "1";
+const CHUNK_LENGTH = 32 * 1024;
+
+// Shown as a QR code on the old device. The key never reaches the relay, so
+// the relay only sees a session ID and ciphertext.
+export interface TransferInvite {
+  sessionId: string;
+  key: string;
+}
+
+type TransferFrame =
+  | { kind: "chunk"; index: number; total: number; data: string }
+  | { kind: "received"; fingerprint: string };
+
+export type TransferFailure = TransferErrorCode | "network" | "corrupted";
+
+export interface TransferHostHandlers {
+  onPeerJoined: () => void;
+  onProgress: (sent: number, total: number) => void;
+  // The fingerprint the new device computed from the identity it received.
+  onReceived: (fingerprint: string) => void;
+  onError: (error: TransferFailure) => void;
+}
+
+export interface TransferGuestHandlers {
+  onProgress: (received: number, total: number) => void;
+  onReceived: (payload: BackupPayload, fingerprint: string) => void;
+  onError: (error: TransferFailure) => void;
+}
+
+export function createTransferInvite(): TransferInvite {
+  return {
+    sessionId: toBase64Url(randomBytes(16)),
+    key: toBase64Url(randomBytes(32)),
+  };
+}
+
+export function createTransferUri(invite: TransferInvite): string {
+  return `${TRANSFER_URI_PREFIX}v=${TRANSFER_VERSION}&sid=${invite.sessionId}&k=${invite.key}`;
+}
+
+export function isTransferUri(uri: string): boolean {
+  return uri.startsWith(TRANSFER_URI_PREFIX);
+}
+
+export function parseTransferUri(uri: string): TransferInvite | null {
+  if (!isTransferUri(uri)) return null;
+  const params = new Map<string, string>();
+  for (const pair of uri.slice(TRANSFER_URI_PREFIX.length).split("&")) {
+    const separator = pair.indexOf("=");
+    if (separator > 0) {
+      params.set(pair.slice(0, separator), pair.slice(separator + 1));
+    }
+  }
+
+  const sessionId = params.get("sid");
+  const key = params.get("k");
+  if (params.get("v") !== TRANSFER_VERSION || !sessionId || !key) {
+    return null;
+  }
+  try {
+    if (fromBase64Url(key).length !== 32) return null;
+  } catch {
+    return null;
+  }
+  return { sessionId, key };
+}
+
+async function importTransferKey(invite: TransferInvite): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    fromBase64Url(invite.key),
+    "AES-GCM",
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// Frames are bound to the session ID, so they cannot be replayed into another
+// transfer that happens to go through the same relay.
+async function sealFrame(
+  key: CryptoKey,
+  sessionId: string,
+  frame: TransferFrame,
+): Promise<string> {
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv,
+      additionalData: new TextEncoder().encode(sessionId),
+    },
+    key,
+    new TextEncoder().encode(JSON.stringify(frame)),
+  );
+  return toBase64(concatBytes(iv, new Uint8Array(ciphertext)));
+}
+
+async function openFrame(
+  key: CryptoKey,
+  sessionId: string,
+  data: string,
+): Promise<TransferFrame | null> {
+  try {
+    const bytes = fromBase64(data);
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: "AES-GCM",
+        iv: bytes.slice(0, 12),
+        additionalData: new TextEncoder().encode(sessionId),
+      },
+      key,
+      bytes.slice(12),
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    return null;
+  }
+}
+
+// A dedicated connection: the new device has no identity to register with,
+// and a dropped connection ends the session on the relay anyway. Errors after
+// the transfer has finished (the peer hanging up) are not reported.
+function connectTransferSocket(
+  onError: (error: TransferFailure) => void,
+  isFinished: () => boolean,
+): Socket {
+  const socket = io(getApiUrl(), {
+    transports: ["websocket", "polling"],
+    forceNew: true,
+    reconnection: false,
+  });
+  socket.on("transfer:error", (error: TransferError) => {
+    if (!isFinished()) onError(error.code);
+    socket.disconnect();
+  });
+  socket.on("connect_error", () => {
+    if (!isFinished()) onError("network");
+  });
+  return socket;
+}
+
+// Key import, encryption and fingerprinting can all throw inside the async
+// handlers; a failure ends the transfer instead of leaving it waiting. Nothing
+// is reported once the socket has been closed by a cancel or a finished
+// transfer.
+function failOnError<T extends unknown[]>(
+  socket: Socket,
+  onError: (error: TransferFailure) => void,
+  handler: (...args: T) => Promise<void>,
+): (...args: T) => void {
+  return (...args: T) => {
+    handler(...args).catch((error) => {
+      console.error("Transfer failed:", error);
+      if (!socket.connected) return;
+      onError("corrupted");
+      socket.disconnect();
+    });
+  };
+}
+
+function sendFrame(socket: Socket, sessionId: string, data: string): void {
+  const chunk: TransferChunkPayload = { sessionId, data };
+  socket.emit("transfer:chunk", chunk);
+}
+
+// Runs on the old device. The payload is streamed as soon as the new device
+// joins; returns a function that cancels the transfer.
+export function hostTransfer(
+  invite: TransferInvite,
+  payload: BackupPayload,
+  handlers: TransferHostHandlers,
+): () => void {
+  let finished = false;
+  const socket = connectTransferSocket(handlers.onError, () => finished);
+  const keyPromise = importTransferKey(invite);
+
+  socket.on("connect", () => {
+    socket.emit("transfer:host", { sessionId: invite.sessionId });
+  });
+
+  const handlePeer = async () => {
+    handlers.onPeerJoined();
+    const key = await keyPromise;
+    const serialized = JSON.stringify(payload);
+    const total = Math.ceil(serialized.length / CHUNK_LENGTH);
+    for (let index = 0; index < total; index++) {
+      const data = serialized.slice(
+        index * CHUNK_LENGTH,
+        (index + 1) * CHUNK_LENGTH,
+      );
+      sendFrame(
+        socket,
+        invite.sessionId,
+        await sealFrame(key, invite.sessionId, {
+          kind: "chunk",
+          index,
+          total,
+          data,
+        }),
+      );
+      handlers.onProgress(index + 1, total);
+    }
+  };
+
+  const handleChunk = async ({ data }: { data: string }) => {
+    const frame = await openFrame(await keyPromise, invite.sessionId, data);
+    if (frame?.kind !== "received" || finished) return;
+    finished = true;
+    handlers.onReceived(frame.fingerprint);
+    socket.disconnect();
+  };
+
+  socket.on("transfer:peer", failOnError(socket, handlers.onError, handlePeer));
+  socket.on(
+    "transfer:chunk",
+    failOnError(socket, handlers.onError, handleChunk),
+  );
+
+  return () => {
+    finished = true;
+    socket.disconnect();
+  };
+}
+
+// Runs on the new device. Nothing is written here: the caller applies the
+// payload once the user has compared fingerprints and entered the passphrase.
+export function joinTransfer(
+  invite: TransferInvite,
+  handlers: TransferGuestHandlers,
+): () => void {
+  let finished = false;
+  const socket = connectTransferSocket(handlers.onError, () => finished);
+  const keyPromise = importTransferKey(invite);
+  const chunks: string[] = [];
+  let received = 0;
+
+  socket.on("connect", () => {
+    socket.emit("transfer:join", { sessionId: invite.sessionId });
+  });
+
+  const handleChunk = async ({ data }: { data: string }) => {
+    const key = await keyPromise;
+    const frame = await openFrame(key, invite.sessionId, data);
+    if (finished || frame?.kind !== "chunk") return;
+    if (frame.index >= frame.total || chunks[frame.index] !== undefined) {
+      return;
+    }
+    chunks[frame.index] = frame.data;
+    received += 1;
+    handlers.onProgress(received, frame.total);
+    if (received < frame.total) return;
+
+    finished = true;
+    let payload: unknown;
+    try {
+      payload = JSON.parse(chunks.join(""));
+    } catch {
+      payload = null;
+    }
+    if (!isBackupPayload(payload)) {
+      handlers.onError("corrupted");
+      socket.disconnect();
+      return;
+    }
+
+    const fingerprint = await getKeyFingerprint(payload.identity.publicKey);
+    sendFrame(
+      socket,
+      invite.sessionId,
+      await sealFrame(key, invite.sessionId, { kind: "received", fingerprint }),
+    );
+    // The old device hangs up once it has the fingerprint.
+    handlers.onReceived(payload, fingerprint);
+  };
+
+  socket.on(
+    "transfer:chunk",
+    failOnError(socket, handlers.onError, handleChunk),
+  );
+
+  return () => {
+    finished = true;
+    socket.disconnect();
+  };
+}
@@ -0,0 +1,168 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { fromBase64, randomBytes, toBase64 } from "./encoding";
+
+const DATA_KEY_STORAGE_KEY = "@ciphernode/data_key";
+const SEALED_PREFIX = "enc:v1:";
+const PBKDF2_ITERATIONS = 210000;
+
+// The data key that encrypts local storage, wrapped with a key derived from
+// the identity passphrase. Deleting this record crypto-shreds every sealed blob.
+interface WrappedDataKey {
+  salt: string;
+  iv: string;
+  wrapped: string;
+}
+
+let dataKey: CryptoKey | null = null;
+
+// Also used to encrypt backup archives under the same passphrase.
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", salt, iterations: PBKDF2_ITERATIONS, hash: "SHA-256" },
+    baseKey,
+    256,
+  );
+  return crypto.subtle.importKey("raw", bits, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function importDataKey(raw: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", raw, "AES-GCM", false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+async function wrapDataKey(
+  raw: Uint8Array<ArrayBuffer>,
+  passphrase: string,
+): Promise<WrappedDataKey> {
+  const salt = randomBytes(16);
+  const iv = randomBytes(12);
+  const wrappingKey = await derivePassphraseKey(passphrase, salt);
+  const wrapped = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    wrappingKey,
+    raw,
+  );
+  return {
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    wrapped: toBase64(new Uint8Array(wrapped)),
+  };
+}
+
+// Throws when the passphrase does not match the one the key was wrapped with.
+async function unwrapDataKey(
+  record: WrappedDataKey,
+  passphrase: string,
+): Promise<Uint8Array<ArrayBuffer>> {
+  const wrappingKey = await derivePassphraseKey(
+    passphrase,
+    fromBase64(record.salt),
+  );
+  const raw = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(record.iv) },
+    wrappingKey,
+    fromBase64(record.wrapped),
+  );
+  return new Uint8Array(raw);
+}
+
+async function getWrappedDataKey(): Promise<WrappedDataKey | null> {
+  const stored = await AsyncStorage.getItem(DATA_KEY_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export function isVaultOpen(): boolean {
+  return dataKey !== null;
+}
+
+// Unwraps the data key for this session, creating one the first time.
+export async function openVault(passphrase: string): Promise<void> {
+  const record = await getWrappedDataKey();
+  if (record) {
+    dataKey = await importDataKey(await unwrapDataKey(record, passphrase));
+    return;
+  }
+
+  const raw = randomBytes(32);
+  await AsyncStorage.setItem(
+    DATA_KEY_STORAGE_KEY,
+    JSON.stringify(await wrapDataKey(raw, passphrase)),
+  );
+  dataKey = await importDataKey(raw);
+}
+
+export function closeVault(): void {
+  dataKey = null;
+}
+
+// `alongside` entries are written in the same multiSet as the new wrap, so
+// records that must switch passphrase together never end up split.
+export async function rewrapVault(
+  currentPassphrase: string,
+  newPassphrase: string,
+  alongside: [string, string][] = [],
+): Promise<void> {
+  const record = await getWrappedDataKey();
+  const entries = [...alongside];
+  if (record) {
+    const raw = await unwrapDataKey(record, currentPassphrase);
+    entries.push([
+      DATA_KEY_STORAGE_KEY,
+      JSON.stringify(await wrapDataKey(raw, newPassphrase)),
+    ]);
+  }
+  await AsyncStorage.multiSet(entries);
+}
+
+export async function destroyVault(): Promise<void> {
+  dataKey = null;
+  await AsyncStorage.removeItem(DATA_KEY_STORAGE_KEY);
+}
+
+export function isSealed(value: string): boolean {
+  return value.startsWith(SEALED_PREFIX);
+}
+
+export async function seal(plaintext: string): Promise<string> {
+  if (!dataKey) {
+    throw new Error("Local storage is locked");
+  }
+  const iv = randomBytes(12);
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    dataKey,
+    new TextEncoder().encode(plaintext),
+  );
+  const payload = new Uint8Array(iv.length + ciphertext.byteLength);
+  payload.set(iv);
+  payload.set(new Uint8Array(ciphertext), iv.length);
+  return SEALED_PREFIX + toBase64(payload);
+}
+
+export async function unseal(value: string): Promise<string> {
+  if (!dataKey) {
+    throw new Error("Local storage is locked");
+  }
+  const payload = fromBase64(value.slice(SEALED_PREFIX.length));
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: payload.slice(0, 12) },
+    dataKey,
+    payload.slice(12),
+  );
+  return new TextDecoder().decode(plaintext);
+}
@@ -3,6 +3,7 @@ import { createNativeStackNavigator } from "@react-navigation/native-stack";
 import MainTabNavigator from "@/navigation/MainTabNavigator";
 import QRScannerScreen from "@/screens/QRScannerScreen";
 import AddContactScreen from "@/screens/AddContactScreen";
+import GroupInviteScreen from "@/screens/GroupInviteScreen";
 import { useScreenOptions } from "@/hooks/useScreenOptions";
 import { Colors } from "@/constants/theme";
 import { useLanguage } from "@/constants/language";
@@ -10,7 +11,10 @@ import { useLanguage } from "@/constants/language";
 export type RootStackParamList = {
   Main: undefined;
   QRScanner: undefined;
-  AddContact: undefined;
+  // `card` is a ciphernode://contact URI opened as a deep link.
+  AddContact: { card?: string } | undefined;
+  // `invite` is a ciphernode://group-invite URI, scanned or opened as a link.
+  GroupInvite: { invite: string };
 };
 
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -49,6 +53,21 @@ export default function RootStackNavigator() {
           presentation: "modal",
         }}
       />
+      <Stack.Screen
+        name="GroupInvite"
+        component={GroupInviteScreen}
+        options={{
+          headerTitle: language === "tr" ? "Grup Daveti" : "Group Invite",
+          headerStyle: {
+            backgroundColor: Colors.dark.backgroundRoot,
+          },
+          headerTintColor: Colors.dark.text,
+          headerTitleStyle: {
+            fontWeight: "600" as const,
+          },
+          presentation: "modal",
+        }}
+      />
     </Stack.Navigator>
   );
 }
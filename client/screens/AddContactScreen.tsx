@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect, useMemo } from "react";
 import {
   View,
   TextInput,
@@ -6,8 +6,10 @@ import {
   Pressable,
   Alert,
   Platform,
+  Share,
 } from "react-native";
-import { useNavigation, CommonActions } from "@react-navigation/native";
+import { useNavigation, useRoute, CommonActions } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Feather } from "@expo/vector-icons";
@@ -18,23 +20,30 @@ import { ThemedText } from "@/components/ThemedText";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { parseContactId } from "@/lib/crypto";
+import { lookupContactKey } from "@/lib/directory";
+import { createContactCard, verifyContactCard } from "@/lib/contactCard";
 import { addContact, getContacts } from "@/lib/storage";
 import { useIdentity } from "@/hooks/useIdentity";
 import type { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { useLanguage } from "@/constants/language";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+type ScreenRouteProp = RouteProp<RootStackParamList, "AddContact">;
 
 export default function AddContactScreen() {
   const navigation = useNavigation<NavigationProp>();
+  const route = useRoute<ScreenRouteProp>();
+  const incomingCard = route.params?.card;
   const insets = useSafeAreaInsets();
   const { identity, loading } = useIdentity();
   const { language } = useLanguage();
 
   const [contactIdInput, setContactIdInput] = useState("");
   const [isAdding, setIsAdding] = useState(false);
+  const [contactCard, setContactCard] = useState<string | null>(null);
 
-  const t = {
+  // Memoized so the deep-link effect below does not re-run on every render.
+  const t = useMemo(() => ({
     scanQR: language === "tr" ? "QR Kod Tara" : "Scan QR Code",
     scanQRSubtext: language === "tr" ? "Eklemek için kişinin QR kodunu tarayın" : "Scan a contact's QR code to add them",
     or: language === "tr" ? "VEYA" : "OR",
@@ -54,7 +63,50 @@ export default function AddContactScreen() {
     success: language === "tr" ? "Başarılı" : "Success",
     contactAdded: language === "tr" ? "Kişi başarıyla eklendi" : "Contact added successfully",
     failedToAdd: language === "tr" ? "Kişi eklenemedi" : "Failed to add contact",
+    keyNotFound: language === "tr" ? "Anahtar Bulunamadı" : "Key Not Found",
+    keyNotFoundMsg: language === "tr"
+      ? "Bu ID için relay sunucusunda yayınlanmış bir anahtar yok. Kişiden QR kodunu taramanızı isteyin."
+      : "No key is published on the relay for this ID. Ask the contact to let you scan their QR code.",
+    lookupFailed: language === "tr" ? "Relay sunucusuna ulaşılamadı" : "Could not reach the relay server",
+    keyRejected: language === "tr" ? "Anahtar Reddedildi" : "Key Rejected",
+    keyRejectedMsg: language === "tr"
+      ? "Relay sunucusunun döndürdüğü anahtar bu ID ile eşleşmiyor. Kişi eklenmedi."
+      : "The key returned by the relay does not match this ID. The contact was not added.",
+    confirmFingerprint: language === "tr" ? "Parmak İzini Doğrulayın" : "Confirm Fingerprint",
+    confirmFingerprintMsg: language === "tr"
+      ? "Bu parmak izini kişinin cihazında gösterilenle karşılaştırın:"
+      : "Compare this fingerprint with the one shown on the contact's device:",
+    cancel: language === "tr" ? "İptal" : "Cancel",
+    confirm: language === "tr" ? "Onayla" : "Confirm",
     generatingIdentity: language === "tr" ? "Kimlik oluşturuluyor..." : "Generating identity...",
+    shareLink: language === "tr" ? "Kişi Bağlantısını Paylaş" : "Share Contact Link",
+    addFromLink: language === "tr" ? "Bağlantıdan Kişi Ekle" : "Add Contact From Link",
+    addFromLinkMsg: language === "tr"
+      ? "Bu kişiyi eklemeden önce parmak izini kişinin cihazında gösterilenle karşılaştırın:"
+      : "Before adding this contact, compare the fingerprint with the one shown on their device:",
+    invalidLink: language === "tr" ? "Geçersiz Bağlantı" : "Invalid Link",
+    invalidLinkMsg: language === "tr"
+      ? "Bu kişi bağlantısı doğrulanamadı. Değiştirilmiş veya eksik olabilir."
+      : "This contact link could not be verified. It may have been tampered with or cut off.",
+  }), [language]);
+
+  useEffect(() => {
+    if (!identity) return;
+    let cancelled = false;
+    createContactCard(identity)
+      .then((card) => {
+        if (!cancelled) setContactCard(card);
+      })
+      .catch((error) => console.error("Contact card error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [identity]);
+
+  const shareContactLink = async () => {
+    if (contactCard) {
+      await Share.share({ message: contactCard });
+    }
   };
 
   const handleScanQR = () => {
@@ -71,31 +123,13 @@ export default function AddContactScreen() {
     }
   };
 
-  const handleAddContact = useCallback(async () => {
-    const parsedId = parseContactId(contactIdInput);
-    if (!parsedId) {
-      Alert.alert(t.invalidId, t.invalidIdMsg);
-      return;
-    }
-
-    if (parsedId === identity?.id) {
-      Alert.alert(t.error, t.cannotAddSelf);
-      return;
-    }
-
-    const contacts = await getContacts();
-    if (contacts.some((c) => c.id === parsedId)) {
-      Alert.alert(t.alreadyAdded, t.alreadyAddedMsg);
-      return;
-    }
-
-    setIsAdding(true);
+  const saveContact = useCallback(async (contactId: string, publicKey: string, fingerprint: string, displayName = "") => {
     try {
       await addContact({
-        id: parsedId,
-        publicKey: "",
-        fingerprint: parsedId.replace("-", "").padEnd(40, "0"),
-        displayName: "",
+        id: contactId,
+        publicKey,
+        fingerprint,
+        displayName,
         addedAt: Date.now(),
       });
 
@@ -112,7 +146,7 @@ export default function AddContactScreen() {
                 name: "ChatsTab",
                 params: {
                   screen: "ChatThread",
-                  params: { contactId: parsedId },
+                  params: { contactId },
                 },
               })
             );
@@ -124,7 +158,94 @@ export default function AddContactScreen() {
     } finally {
       setIsAdding(false);
     }
-  }, [contactIdInput, identity, t, navigation]);
+  }, [t, navigation]);
+
+  const handleAddContact = useCallback(async () => {
+    const parsedId = parseContactId(contactIdInput);
+    if (!parsedId) {
+      Alert.alert(t.invalidId, t.invalidIdMsg);
+      return;
+    }
+
+    if (parsedId === identity?.id) {
+      Alert.alert(t.error, t.cannotAddSelf);
+      return;
+    }
+
+    const contacts = await getContacts();
+    if (contacts.some((c) => c.id === parsedId)) {
+      Alert.alert(t.alreadyAdded, t.alreadyAddedMsg);
+      return;
+    }
+
+    setIsAdding(true);
+    const lookup = await lookupContactKey(parsedId);
+    if (!lookup.found) {
+      setIsAdding(false);
+      if (lookup.reason === "not_found") {
+        Alert.alert(t.keyNotFound, t.keyNotFoundMsg);
+      } else if (lookup.reason === "network") {
+        Alert.alert(t.error, t.lookupFailed);
+      } else {
+        Alert.alert(t.keyRejected, t.keyRejectedMsg);
+      }
+      return;
+    }
+
+    Alert.alert(
+      t.confirmFingerprint,
+      `${t.confirmFingerprintMsg}\n\n${lookup.fingerprint.replace(/(.{4})/g, "$1 ").trim()}`,
+      [
+        { text: t.cancel, style: "cancel", onPress: () => setIsAdding(false) },
+        {
+          text: t.confirm,
+          onPress: () => saveContact(parsedId, lookup.publicKey, lookup.fingerprint),
+        },
+      ],
+      { cancelable: true, onDismiss: () => setIsAdding(false) }
+    );
+  }, [contactIdInput, identity, t, saveContact]);
+
+  // Opened from a ciphernode://contact deep link. Links arrive over untrusted
+  // channels, so the user still confirms the fingerprint and the contact is
+  // not marked as verified.
+  useEffect(() => {
+    if (!incomingCard) return;
+    navigation.setParams({ card: undefined });
+
+    const openCard = async () => {
+      const check = await verifyContactCard(incomingCard);
+      if (!check.valid) {
+        Alert.alert(t.invalidLink, t.invalidLinkMsg);
+        return;
+      }
+      const { card } = check;
+      if (card.id === identity?.id) {
+        Alert.alert(t.error, t.cannotAddSelf);
+        return;
+      }
+      const contacts = await getContacts();
+      if (contacts.some((c) => c.id === card.id)) {
+        Alert.alert(t.alreadyAdded, t.alreadyAddedMsg);
+        return;
+      }
+
+      setIsAdding(true);
+      Alert.alert(
+        t.addFromLink,
+        `${card.displayName || card.id}\n\n${t.addFromLinkMsg}\n\n${card.fingerprint.replace(/(.{4})/g, "$1 ").trim()}`,
+        [
+          { text: t.cancel, style: "cancel", onPress: () => setIsAdding(false) },
+          {
+            text: t.confirm,
+            onPress: () => saveContact(card.id, card.publicKey, card.fingerprint, card.displayName),
+          },
+        ],
+        { cancelable: true, onDismiss: () => setIsAdding(false) }
+      );
+    };
+    openCard();
+  }, [incomingCard, identity, navigation, t, saveContact]);
 
   if (loading) {
     return (
@@ -216,13 +337,12 @@ export default function AddContactScreen() {
           </Pressable>
 
           <View style={styles.qrContainer}>
-            {identity?.publicKey ? (
+            {contactCard ? (
               <QRCode
-                value={JSON.stringify({
-                  id: identity.id,
-                  publicKey: identity.publicKey,
-                })}
-                size={180}
+                value={contactCard}
+                // Low error correction keeps the signed card at a scannable density.
+                ecl="L"
+                size={220}
                 backgroundColor={Colors.dark.backgroundSecondary}
                 color={Colors.dark.text}
               />
@@ -231,6 +351,17 @@ export default function AddContactScreen() {
           <ThemedText style={styles.qrHint}>
             {t.othersCanScan}
           </ThemedText>
+          <Pressable
+            onPress={shareContactLink}
+            disabled={!contactCard}
+            style={({ pressed }) => [
+              styles.shareLinkButton,
+              pressed && styles.idDisplayPressed,
+            ]}
+          >
+            <Feather name="share-2" size={18} color={Colors.dark.primary} />
+            <ThemedText style={styles.shareLinkText}>{t.shareLink}</ThemedText>
+          </Pressable>
         </View>
       </View>
     </KeyboardAwareScrollViewCompat>
@@ -381,4 +512,18 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: Colors.dark.textSecondary,
   },
+  shareLinkButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginTop: Spacing.lg,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+  },
+  shareLinkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.dark.primary,
+    marginLeft: Spacing.sm,
+  },
 });
@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Platform,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
+import { useLanguage } from "@/constants/language";
+import { getPrivacySettings } from "@/lib/storage";
+import { lockIdentity } from "@/lib/keystore";
+import {
+  canUseBiometrics,
+  hasAppLockPin,
+  unlockWithBiometricPrompt,
+  unlockWithPin,
+  MAX_PIN_LENGTH,
+} from "@/lib/appLock";
+
+export default function AppLockScreen() {
+  const insets = useSafeAreaInsets();
+  const { language } = useLanguage();
+
+  const [loaded, setLoaded] = useState(false);
+  const [biometricsReady, setBiometricsReady] = useState(false);
+  const [hasPin, setHasPin] = useState(false);
+  const [wipeEnabled, setWipeEnabled] = useState(false);
+  const [pin, setPin] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const t = useMemo(
+    () => ({
+      title: language === "tr" ? "CipherNode Kilitli" : "CipherNode Is Locked",
+      biometricDesc:
+        language === "tr"
+          ? "Devam etmek için kimliğinizi doğrulayın."
+          : "Verify it's you to continue.",
+      pinDesc:
+        language === "tr"
+          ? "Devam etmek için uygulama PIN'inizi girin."
+          : "Enter your app PIN to continue.",
+      passphraseDesc:
+        language === "tr"
+          ? "Bu cihazda biyometrik doğrulama veya PIN yok. Parolanızla kilidi açın."
+          : "No biometrics or PIN are set up on this device. Unlock with your passphrase.",
+      pin: "PIN",
+      unlock: language === "tr" ? "Kilidi Aç" : "Unlock",
+      useBiometrics:
+        language === "tr" ? "Biyometrik ile Aç" : "Unlock with Biometrics",
+      biometricPrompt:
+        language === "tr" ? "CipherNode kilidini açın" : "Unlock CipherNode",
+      usePassphrase:
+        language === "tr" ? "Parola Kullan" : "Use Passphrase Instead",
+      wrongPin: (left: number) =>
+        language === "tr"
+          ? `PIN yanlış. ${left} deneme hakkınız kaldı.`
+          : `Incorrect PIN. ${left} ${left === 1 ? "attempt" : "attempts"} left.`,
+      wipeWarning:
+        language === "tr"
+          ? "Hakkınız bittiğinde tüm veriler silinir."
+          : "All data is erased when none are left.",
+    }),
+    [language],
+  );
+
+  const handleBiometricUnlock = useCallback(async () => {
+    setBusy(true);
+    const unlocked = await unlockWithBiometricPrompt(t.biometricPrompt);
+    setBusy(false);
+    if (!unlocked && Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    const load = async () => {
+      const [biometrics, pinSet, privacySettings] = await Promise.all([
+        canUseBiometrics(),
+        hasAppLockPin(),
+        getPrivacySettings(),
+      ]);
+      setBiometricsReady(biometrics);
+      setHasPin(pinSet);
+      setWipeEnabled(privacySettings.wipeOnFailedUnlocks);
+      setLoaded(true);
+      if (biometrics) {
+        handleBiometricUnlock();
+      }
+    };
+    load();
+  }, [handleBiometricUnlock]);
+
+  const handlePinSubmit = async () => {
+    if (!pin) return;
+    setError(null);
+    setBusy(true);
+    const result = await unlockWithPin(pin);
+    // A wipe or lockout hands over to the identity unlock screen.
+    if (result.unlocked || result.reason !== "wrong_pin") return;
+
+    setBusy(false);
+    setPin("");
+    setError(
+      wipeEnabled
+        ? `${t.wrongPin(result.attemptsLeft)} ${t.wipeWarning}`
+        : t.wrongPin(result.attemptsLeft),
+    );
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  };
+
+  if (!loaded) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.dark.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <View
+        style={[
+          styles.content,
+          {
+            paddingTop: insets.top + Spacing["3xl"],
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <View style={styles.iconContainer}>
+          <Feather name="lock" size={48} color={Colors.dark.primary} />
+        </View>
+
+        <ThemedText style={styles.title}>{t.title}</ThemedText>
+        <ThemedText style={styles.description}>
+          {hasPin
+            ? t.pinDesc
+            : biometricsReady
+              ? t.biometricDesc
+              : t.passphraseDesc}
+        </ThemedText>
+
+        {hasPin ? (
+          <>
+            <TextInput
+              style={styles.input}
+              value={pin}
+              onChangeText={(text) => setPin(text.replace(/\D/g, ""))}
+              placeholder={t.pin}
+              placeholderTextColor={Colors.dark.textDisabled}
+              keyboardType="number-pad"
+              maxLength={MAX_PIN_LENGTH}
+              secureTextEntry
+              editable={!busy}
+              autoFocus={!biometricsReady}
+              onSubmitEditing={handlePinSubmit}
+            />
+
+            {error ? (
+              <ThemedText style={styles.errorText}>{error}</ThemedText>
+            ) : null}
+
+            <Pressable
+              onPress={handlePinSubmit}
+              disabled={busy || !pin}
+              style={({ pressed }) => [
+                styles.primaryButton,
+                (busy || !pin) && styles.primaryButtonDisabled,
+                pressed && styles.buttonPressed,
+              ]}
+            >
+              {busy ? (
+                <ActivityIndicator color={Colors.dark.buttonText} />
+              ) : (
+                <ThemedText style={styles.primaryButtonText}>
+                  {t.unlock}
+                </ThemedText>
+              )}
+            </Pressable>
+          </>
+        ) : null}
+
+        {biometricsReady ? (
+          <Pressable
+            onPress={handleBiometricUnlock}
+            disabled={busy}
+            style={({ pressed }) => [
+              styles.secondaryButton,
+              pressed && styles.buttonPressed,
+            ]}
+          >
+            <Feather name="smartphone" size={18} color={Colors.dark.primary} />
+            <ThemedText style={styles.secondaryButtonText}>
+              {t.useBiometrics}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+
+        <Pressable
+          onPress={lockIdentity}
+          disabled={busy}
+          style={({ pressed }) => [
+            styles.secondaryButton,
+            pressed && styles.buttonPressed,
+          ]}
+        >
+          <Feather name="key" size={18} color={Colors.dark.primary} />
+          <ThemedText style={styles.secondaryButtonText}>
+            {t.usePassphrase}
+          </ThemedText>
+        </Pressable>
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: Spacing["2xl"],
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: Colors.dark.primary + "20",
+    alignItems: "center",
+    justifyContent: "center",
+    alignSelf: "center",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: Colors.dark.text,
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  description: {
+    fontSize: 15,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    lineHeight: 22,
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    fontSize: 24,
+    letterSpacing: 8,
+    textAlign: "center",
+    color: Colors.dark.text,
+    fontFamily: Fonts?.mono,
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    fontSize: 14,
+    color: Colors.dark.error,
+    marginBottom: Spacing.md,
+    textAlign: "center",
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.primary,
+  },
+});
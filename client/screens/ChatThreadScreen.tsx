@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   View,
   FlatList,
@@ -7,8 +7,10 @@ import {
   Pressable,
   Platform,
   KeyboardAvoidingView,
+  Alert,
+  Modal,
 } from "react-native";
-import { useNavigation, useRoute, useFocusEffect } from "@react-navigation/native";
+import { useNavigation, useRoute, useFocusEffect, useIsFocused } from "@react-navigation/native";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { HeaderButton } from "@react-navigation/elements";
@@ -18,6 +20,10 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { ThreadHeaderTitle } from "@/components/ThreadHeaderTitle";
+import { AttachmentBubble } from "@/components/AttachmentBubble";
+import { AttachmentPreview } from "@/components/AttachmentPreview";
+import { CarrierPickerModal, type CarrierAction } from "@/components/CarrierPickerModal";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import {
   getChat,
@@ -26,22 +32,69 @@ import {
   markChatAsRead,
   generateMessageId,
   getSettings,
+  getPrivacySettings,
+  advanceMessageStatus,
   calculateExpiresAt,
   cleanupExpiredMessagesForChat,
   deleteMessage,
+  updateMessage,
+  acceptContactKeyChange,
   type Message,
 } from "@/lib/storage";
 import ActionSheet, { type ActionSheetOption } from "@/components/ActionSheet";
 import * as Clipboard from "expo-clipboard";
 import * as Sharing from "expo-sharing";
-import { encryptMessage, decryptMessage, type Contact, type UserIdentity } from "@/lib/crypto";
-import { sendMessage as socketSendMessage, onMessage } from "@/lib/socket";
+import {
+  encryptMessage,
+  decryptMessage,
+  hasUsableEncryptionKey,
+  type Contact,
+  type UserIdentity,
+} from "@/lib/crypto";
+import {
+  sendMessage as socketSendMessage,
+  onMessage,
+  onMessageAck,
+  onReceipt,
+  onContactKeyChange,
+} from "@/lib/socket";
+import { sendReceipt, parseReceipt } from "@/lib/receipts";
+import { checkContactKey } from "@/lib/directory";
+import { encryptForSession, decryptSessionMessage, isSessionEnvelope } from "@/lib/sessions";
+import {
+  closeAttachment,
+  discardUpload,
+  downloadAttachment,
+  formatDuration,
+  isAttachmentMessage,
+  isAttachmentSupported,
+  parseAttachment,
+  pickDocument,
+  pickImage,
+  serializeAttachment,
+  uploadAttachment,
+  MAX_ATTACHMENT_SIZE,
+  type PickedFile,
+  type UploadResult,
+} from "@/lib/attachments";
+import { createStegoImage, deleteStegoImages, readHiddenPayload } from "@/lib/stegoImages";
+import { prepareOutgoingFile, discardScrubbedCopy } from "@/lib/scrubber";
 import type { ChatsStackParamList } from "@/navigation/ChatsStackNavigator";
 import { useIdentity } from "@/hooks/useIdentity";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { useVoiceRecorder, discardRecording } from "@/hooks/useVoiceRecorder";
 
 type NavigationProp = NativeStackNavigationProp<ChatsStackParamList, "ChatThread">;
 type ScreenRouteProp = RouteProp<ChatsStackParamList, "ChatThread">;
 
+const UPLOAD_ERRORS: Record<Extract<UploadResult, { uploaded: false }>["reason"], string> = {
+  too_large: "This file is too large to send.",
+  store_full: "The relay has no room for attachments right now. Try again later.",
+  quota_exceeded: "You have sent too many attachments today. Try again later.",
+  unreadable: "The file could not be read.",
+  network: "The file could not be uploaded. Check your connection and try again.",
+};
+
 interface MessageBubbleProps {
   message: Message;
   isMine: boolean;
@@ -64,6 +117,25 @@ function formatRemainingTime(expiresAt: number, now: number): string {
   return `${days}d`;
 }
 
+function StatusTicks({ status }: { status: Message["status"] }) {
+  if (status === "sending") {
+    return <Feather name="clock" size={10} color={Colors.dark.buttonText} style={styles.statusIcon} />;
+  }
+  if (status === "sent") {
+    return <Feather name="check" size={12} color={Colors.dark.buttonText} style={styles.statusIcon} />;
+  }
+  if (status === "delivered" || status === "read") {
+    const color = status === "read" ? Colors.dark.secondary : Colors.dark.buttonText;
+    return (
+      <View style={[styles.statusIcon, styles.doubleTick]}>
+        <Feather name="check" size={12} color={color} />
+        <Feather name="check" size={12} color={color} style={styles.secondTick} />
+      </View>
+    );
+  }
+  return null;
+}
+
 function MessageBubble({ message, isMine, currentTime, identity, contact, onLongPress }: MessageBubbleProps) {
   const [displayContent, setDisplayContent] = useState(message.content);
   const [verified, setVerified] = useState<boolean | null>(null);
@@ -75,6 +147,8 @@ function MessageBubble({ message, isMine, currentTime, identity, contact, onLong
     onLongPress(message, displayContent);
   };
 
+  const failed = message.status === "failed";
+
   useEffect(() => {
     const decrypt = async () => {
       if (isMine) {
@@ -111,6 +185,8 @@ function MessageBubble({ message, isMine, currentTime, identity, contact, onLong
     });
   };
 
+  const attachment = useMemo(() => parseAttachment(displayContent), [displayContent]);
+
   return (
     <Pressable
       onLongPress={handleLongPress}
@@ -120,16 +196,37 @@ function MessageBubble({ message, isMine, currentTime, identity, contact, onLong
         isMine ? styles.messageBubbleMine : styles.messageBubbleTheirs,
       ]}
     >
-      <ThemedText
-        style={[
-          styles.messageText,
-          isMine ? styles.messageTextMine : styles.messageTextTheirs,
-        ]}
-      >
-        {displayContent}
-      </ThemedText>
+      {attachment ? (
+        <AttachmentBubble
+          attachment={attachment}
+          messageId={message.id}
+          isMine={isMine}
+          onLongPress={handleLongPress}
+        />
+      ) : (
+        <ThemedText
+          style={[
+            styles.messageText,
+            isMine ? styles.messageTextMine : styles.messageTextTheirs,
+          ]}
+        >
+          {displayContent}
+        </ThemedText>
+      )}
       <View style={styles.messageFooter}>
-        {message.expiresAt ? (
+        {failed ? (
+          <View style={styles.timerContainer}>
+            <Feather
+              name="alert-circle"
+              size={10}
+              color={Colors.dark.error}
+              style={styles.lockIcon}
+            />
+            <ThemedText style={[styles.timerText, { color: Colors.dark.error }]}>
+              Not sent
+            </ThemedText>
+          </View>
+        ) : message.expiresAt ? (
           <View style={styles.timerContainer}>
             <Feather
               name="clock"
@@ -168,6 +265,7 @@ function MessageBubble({ message, isMine, currentTime, identity, contact, onLong
         >
           {formatTime(message.timestamp)}
         </ThemedText>
+        {isMine ? <StatusTicks status={message.status} /> : null}
       </View>
     </Pressable>
   );
@@ -180,6 +278,8 @@ export default function ChatThreadScreen() {
   const headerHeight = useHeaderHeight();
   const insets = useSafeAreaInsets();
   const { identity } = useIdentity();
+  const { typingUsers, notifyTyping } = useTypingIndicator({ contactId });
+  const voiceRecorder = useVoiceRecorder();
 
   const [messages, setMessages] = useState<Message[]>([]);
   const [contact, setContact] = useState<Contact | null>(null);
@@ -188,7 +288,17 @@ export default function ChatThreadScreen() {
   const [currentTime, setCurrentTime] = useState(Date.now());
   const flatListRef = useRef<FlatList>(null);
   const [actionSheetVisible, setActionSheetVisible] = useState(false);
+  const [attachMenuVisible, setAttachMenuVisible] = useState(false);
+  const [pendingFile, setPendingFile] = useState<PickedFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [steganographyMode, setSteganographyMode] = useState(false);
+  const [carrierPickerVisible, setCarrierPickerVisible] = useState(false);
+  const [isHiding, setIsHiding] = useState(false);
   const [selectedMessage, setSelectedMessage] = useState<{ message: Message; displayContent: string } | null>(null);
+  const [hasUsableKey, setHasUsableKey] = useState(true);
+  const isFocused = useIsFocused();
+  // Nothing is sent until the user has looked at a changed key.
+  const keyChangePending = !!contact?.keyChange;
 
   useEffect(() => {
     const tickerInterval = setInterval(() => setCurrentTime(Date.now()), 1000);
@@ -197,19 +307,25 @@ export default function ChatThreadScreen() {
 
   const loadData = useCallback(async () => {
     await cleanupExpiredMessagesForChat(contactId);
-    const [chatDataRaw, contactData, settings] = await Promise.all([
+    const [chatDataRaw, contactData, settings, privacySettings] = await Promise.all([
       getChat(contactId),
       getContact(contactId),
       getSettings(),
+      getPrivacySettings(),
     ]);
     const clonedMessages = chatDataRaw?.messages.map(m => ({ ...m })) || [];
     setMessages(clonedMessages);
     setContact(contactData);
     setMessageTimer(settings.defaultMessageTimer);
-    if (chatDataRaw) {
-      await markChatAsRead(contactId);
+    setSteganographyMode(privacySettings.steganographyMode);
+    if (chatDataRaw && identity) {
+      const newlyRead = await markChatAsRead(contactId);
+      // Ghost Mode still accepts read receipts but never sends them.
+      if (contactData && !privacySettings.ghostMode) {
+        await sendReceipt("read", newlyRead, contactData, identity);
+      }
     }
-  }, [contactId]);
+  }, [contactId, identity]);
 
   useEffect(() => {
     const interval = setInterval(async () => {
@@ -229,10 +345,22 @@ export default function ChatThreadScreen() {
     }, [loadData])
   );
 
+  useEffect(() => {
+    if (!contact) return;
+    let cancelled = false;
+    hasUsableEncryptionKey(contact.publicKey).then((usable) => {
+      if (!cancelled) setHasUsableKey(usable);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [contact]);
+
   React.useLayoutEffect(() => {
     const displayName = contact?.displayName || contact?.id || "Chat";
+    const subtitle = typingUsers.length > 0 ? "typing…" : undefined;
     navigation.setOptions({
-      headerTitle: displayName,
+      headerTitle: () => <ThreadHeaderTitle title={displayName} subtitle={subtitle} />,
       headerRight: () => (
         <HeaderButton
           onPress={() => navigation.navigate("ContactInfo", { contactId })}
@@ -241,11 +369,14 @@ export default function ChatThreadScreen() {
         </HeaderButton>
       ),
     });
-  }, [navigation, contact, contactId]);
+  }, [navigation, contact, contactId, typingUsers]);
 
   useEffect(() => {
     const unsubscribe = onMessage(async (msg) => {
       if (msg.from === contactId && identity) {
+        const existing = msg.id ? await getChat(contactId) : null;
+        if (existing?.messages.some((m) => m.id === msg.id)) return;
+
         const receivedMessage: Message = {
           id: msg.id || generateMessageId(),
           content: msg.encrypted,
@@ -255,51 +386,339 @@ export default function ChatThreadScreen() {
           timestamp: msg.timestamp,
           status: "received",
         };
+        // Session messages can only be decrypted once, so they are stored as
+        // plaintext (local storage is sealed) instead of at render time.
+        if (isSessionEnvelope(msg.encrypted)) {
+          const sender = contact ?? (await getContact(contactId));
+          const plaintext = sender
+            ? await decryptSessionMessage(sender, identity, msg.encrypted)
+            : null;
+          receivedMessage.content = plaintext ?? "Message could not be decrypted";
+          receivedMessage.encrypted = "";
+          if (!plaintext) await checkContactKey(contactId);
+        } else if (contact) {
+          const { signedByOtherKey } = await decryptMessage(
+            msg.encrypted,
+            identity.privateKey,
+            contact.publicKey
+          );
+          if (signedByOtherKey) await checkContactKey(contactId);
+        }
         await saveMessage(contactId, receivedMessage);
+        if (contact) {
+          await sendReceipt("delivered", [receivedMessage.id], contact, identity);
+        }
         loadData();
       }
     });
     return unsubscribe;
-  }, [contactId, identity, loadData]);
+  }, [contactId, identity, contact, loadData]);
 
-  const handleSendMessage = useCallback(async () => {
-    if (!inputText.trim() || !identity || !contact) return;
+  // A contact who upgraded their key is picked up in the background by
+  // socket.ts; reload so new messages are encrypted to the new key, or so a
+  // key that could not be vouched for brings up the warning.
+  useEffect(() => {
+    return onContactKeyChange((changedId) => {
+      if (changedId === contactId) loadData();
+    });
+  }, [contactId, loadData]);
 
-    const messageId = generateMessageId();
-    const plaintext = inputText.trim();
-    let encryptedContent = plaintext;
-    
-    try {
-      if (contact.publicKey && identity.privateKey) {
-        encryptedContent = await encryptMessage(plaintext, contact.publicKey, identity.privateKey);
-      } else if (contact.publicKey) {
-        encryptedContent = await encryptMessage(plaintext, contact.publicKey);
+  const applyStatus = useCallback(async (messageIds: string[], status: "sent" | "delivered" | "read") => {
+    if (await advanceMessageStatus(contactId, messageIds, status)) {
+      const chatData = await getChat(contactId);
+      if (chatData) {
+        setMessages(chatData.messages.map(m => ({ ...m })));
       }
+    }
+  }, [contactId]);
+
+  useEffect(() => {
+    // socket.ts has already moved the message to "sent" in storage by the
+    // time the ack reaches us; just pick up the new status.
+    const unsubscribeAck = onMessageAck(async (ack) => {
+      if (ack.to === contactId) {
+        const chatData = await getChat(contactId);
+        if (chatData) {
+          setMessages(chatData.messages.map(m => ({ ...m })));
+        }
+      }
+    });
+    const unsubscribeReceipt = onReceipt(async (receipt) => {
+      if (receipt.from !== contactId || !contact || !identity) return;
+      const parsed = await parseReceipt(receipt.encrypted, contact, identity);
+      if (parsed) {
+        await applyStatus(parsed.messageIds, parsed.type);
+      }
+    });
+    return () => {
+      unsubscribeAck();
+      unsubscribeReceipt();
+    };
+  }, [contactId, contact, identity, applyStatus]);
+
+  // Returns null rather than plaintext when the contact's key is missing or
+  // unusable; callers keep the message locally as "failed" instead of sending.
+  // Contacts without a ratchet session or published prekeys get plain OpenPGP.
+  const encryptForContact = useCallback(async (plaintext: string): Promise<string | null> => {
+    if (!identity || !contact || contact.keyChange) return null;
+    const sessionEnvelope = await encryptForSession(contact, identity, plaintext);
+    if (sessionEnvelope) return sessionEnvelope;
+    // Starting a session may have just turned up a different key.
+    const latest = await getContact(contactId);
+    if (latest?.keyChange) {
+      setContact(latest);
+      return null;
+    }
+    try {
+      return await encryptMessage(plaintext, contact.publicKey, identity.privateKey || undefined);
     } catch (error) {
       console.error("Encryption failed:", error);
+      return null;
     }
+  }, [identity, contact, contactId]);
+
+  // Stores the message, as failed when it could not be encrypted, and hands
+  // the ciphertext to the relay.
+  const deliverMessage = useCallback(async (plaintext: string, encryptedContent: string | null, messageId: string) => {
+    if (!identity) return;
 
     const message: Message = {
       id: messageId,
       content: plaintext,
-      encrypted: encryptedContent,
+      encrypted: encryptedContent ?? "",
       senderId: identity.id,
       recipientId: contactId,
       timestamp: Date.now(),
-      status: "sending",
+      status: encryptedContent ? "sending" : "failed",
       expiresAt: calculateExpiresAt(messageTimer),
     };
 
     await saveMessage(contactId, message);
     setMessages((prev) => [...prev, message]);
-    setInputText("");
 
-    socketSendMessage(contactId, encryptedContent, messageId);
+    if (!encryptedContent) {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+      return;
+    }
+
+    await socketSendMessage(contactId, encryptedContent, messageId);
 
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
-  }, [inputText, identity, contact, contactId, messageTimer]);
+  }, [identity, contactId, messageTimer]);
+
+  const sendPlaintext = useCallback(async (plaintext: string) => {
+    if (!identity || !contact || contact.keyChange) return;
+
+    const encryptedContent = await encryptForContact(plaintext);
+    await deliverMessage(plaintext, encryptedContent, generateMessageId());
+  }, [identity, contact, encryptForContact, deliverMessage]);
+
+  // The file goes to the relay first; the message only carries its key. When
+  // that message cannot be encrypted the upload is taken back rather than
+  // kept as a failed message pointing at it.
+  const handleSendAttachment = useCallback(async (file: PickedFile, caption?: string): Promise<boolean> => {
+    setIsUploading(true);
+    const messageId = generateMessageId();
+    const result = await uploadAttachment(file, messageId, {
+      caption,
+      // Disappearing attachments leave the relay no later than the message.
+      ttl: messageTimer > 0 ? messageTimer * 1000 : undefined,
+    });
+    if (!result.uploaded) {
+      setIsUploading(false);
+      Alert.alert("Attachment Not Sent", UPLOAD_ERRORS[result.reason]);
+      return false;
+    }
+    const plaintext = serializeAttachment(result.attachment);
+    const encryptedContent = await encryptForContact(plaintext);
+    setIsUploading(false);
+    if (!encryptedContent) {
+      await discardUpload(result.attachment, messageId, result.deleteToken);
+      Alert.alert(
+        "Encryption Failed",
+        "This contact has no usable public key, so the attachment was not sent."
+      );
+      return false;
+    }
+    discardScrubbedCopy(file);
+    await deliverMessage(plaintext, encryptedContent, messageId);
+    return true;
+  }, [messageTimer, encryptForContact, deliverMessage]);
+
+  // With Auto-Metadata Scrubbing on, every outgoing file is sent as a cleaned,
+  // renamed copy. Returns null when the file could not be read.
+  const scrubOutgoing = useCallback(async (file: PickedFile): Promise<PickedFile | null> => {
+    try {
+      return await prepareOutgoingFile(file);
+    } catch (error) {
+      console.error("Metadata scrub error:", error);
+      Alert.alert("Attachment Not Sent", "The file could not be checked for metadata.");
+      return null;
+    }
+  }, []);
+
+  // Voice notes record while the mic button is held and send on release.
+  const handleRecordStart = useCallback(async () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    const started = await voiceRecorder.start();
+    if (!started) {
+      Alert.alert(
+        "Microphone Unavailable",
+        "Allow microphone access in your device settings to send voice messages."
+      );
+    }
+  }, [voiceRecorder]);
+
+  const handleRecordEnd = useCallback(async () => {
+    const result = await voiceRecorder.stop();
+    if (!result.recorded) {
+      if (result.reason === "too_short") {
+        Alert.alert("Hold to Record", "Keep the microphone pressed while you speak, then let go to send.");
+      }
+      return;
+    }
+    const file = await scrubOutgoing(result.file);
+    if (file) {
+      await handleSendAttachment(file);
+      discardScrubbedCopy(file);
+    }
+    discardRecording(result.file.uri);
+  }, [voiceRecorder, scrubOutgoing, handleSendAttachment]);
+
+  const handleSendMessage = useCallback(async () => {
+    if (!contact || contact.keyChange) return;
+    if (pendingFile) {
+      if (await handleSendAttachment(pendingFile, inputText.trim())) {
+        setPendingFile(null);
+        setInputText("");
+      }
+      return;
+    }
+    if (!inputText.trim()) return;
+    // Steganography mode sends text only as a picture with the ciphertext in
+    // its pixels.
+    if (steganographyMode && isAttachmentSupported()) {
+      setCarrierPickerVisible(true);
+      return;
+    }
+    const plaintext = inputText.trim();
+    setInputText("");
+    await sendPlaintext(plaintext);
+  }, [contact, pendingFile, inputText, steganographyMode, handleSendAttachment, sendPlaintext]);
+
+  // The hidden payload is a signed PGP message rather than a session
+  // envelope, so the image can be decrypted wherever it ends up.
+  const handleHideMessage = useCallback(async (carrier: Uint8Array, action: CarrierAction) => {
+    const plaintext = inputText.trim();
+    if (!identity || !contact || !plaintext) return;
+    setIsHiding(true);
+    try {
+      const ciphertext = await encryptMessage(plaintext, contact.publicKey, identity.privateKey);
+      const result = createStegoImage(carrier, ciphertext);
+      if (!result.created) {
+        Alert.alert(
+          "Image Not Usable",
+          result.reason === "too_small"
+            ? "This picture is too small to hold the message. Choose a larger one or shorten the message."
+            : "This picture could not be read as a PNG. Choose another one."
+        );
+        return;
+      }
+      if (action === "share") {
+        if (!(await Sharing.isAvailableAsync())) return;
+        await Sharing.shareAsync(result.file.uri, {
+          mimeType: "image/png",
+          dialogTitle: "Share Image",
+        });
+      } else {
+        const sent = await handleSendAttachment(result.file);
+        deleteStegoImages();
+        if (!sent) return;
+      }
+      setInputText("");
+      setCarrierPickerVisible(false);
+    } catch (error) {
+      console.error("Steganography failed:", error);
+      Alert.alert("Encryption Failed", "The message could not be encrypted for this contact.");
+    } finally {
+      setIsHiding(false);
+    }
+  }, [identity, contact, inputText, handleSendAttachment]);
+
+  const revealHiddenMessage = useCallback(async (uri: string) => {
+    if (!identity || !contact) return;
+    const result = await readHiddenPayload(uri);
+    if (!result.found) {
+      Alert.alert(
+        "Nothing Found",
+        result.reason === "unsupported_image"
+          ? "Hidden messages can only be read from PNG images that were not recompressed."
+          : "This image does not contain a hidden message."
+      );
+      return;
+    }
+    const { content, verified } = await decryptMessage(result.payload, identity.privateKey, contact.publicKey);
+    if (content === result.payload) {
+      Alert.alert("Cannot Decrypt", "This image holds a hidden message, but it was not encrypted to your key.");
+      return;
+    }
+    Alert.alert(
+      "Hidden Message",
+      verified
+        ? content
+        : `${content}\n\nThe signature does not match ${contact.displayName}'s key.`
+    );
+  }, [identity, contact]);
+
+  const handleExtractFromFile = useCallback(async () => {
+    const file = await pickDocument();
+    if (file) await revealHiddenMessage(file.uri);
+  }, [revealHiddenMessage]);
+
+  const handlePickAttachment = useCallback(async (pick: () => Promise<PickedFile | null>) => {
+    const file = await pick();
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      Alert.alert("File Too Large", UPLOAD_ERRORS.too_large);
+      return;
+    }
+    const prepared = await scrubOutgoing(file);
+    if (prepared) setPendingFile(prepared);
+  }, [scrubOutgoing]);
+
+  const handleChangeText = useCallback((text: string) => {
+    setInputText(text);
+    if (text.trim()) {
+      notifyTyping();
+    }
+  }, [notifyTyping]);
+
+  const handleRetryMessage = useCallback(async () => {
+    if (!selectedMessage) return;
+
+    const { message } = selectedMessage;
+    const encryptedContent = await encryptForContact(message.content);
+    if (!encryptedContent) {
+      Alert.alert(
+        "Encryption Failed",
+        "This contact has no usable public key, so the message was not sent."
+      );
+      return;
+    }
+
+    const updates = { encrypted: encryptedContent, status: "sending" as const };
+    await updateMessage(contactId, message.id, updates);
+    setMessages((prev) =>
+      prev.map((m) => (m.id === message.id ? { ...m, ...updates } : m))
+    );
+    await socketSendMessage(contactId, encryptedContent, message.id);
+  }, [selectedMessage, contactId, encryptForContact]);
 
   const handleMessageLongPress = useCallback((message: Message, displayContent: string) => {
     setSelectedMessage({ message, displayContent });
@@ -319,6 +738,21 @@ export default function ChatThreadScreen() {
     }
   }, [selectedMessage, contactId]);
 
+  const handleExtractFromMessage = useCallback(async () => {
+    const attachment = selectedMessage && parseAttachment(selectedMessage.displayContent);
+    if (!selectedMessage || !attachment) return;
+    const result = await downloadAttachment(attachment, selectedMessage.message.id);
+    if (!result.downloaded) {
+      Alert.alert("Download Failed", "The image could not be downloaded.");
+      return;
+    }
+    try {
+      await revealHiddenMessage(result.uri);
+    } finally {
+      closeAttachment(result.uri);
+    }
+  }, [selectedMessage, revealHiddenMessage]);
+
   const handleShareMessage = useCallback(async () => {
     if (selectedMessage) {
       const isAvailable = await Sharing.isAvailableAsync();
@@ -332,15 +766,34 @@ export default function ChatThreadScreen() {
   }, [selectedMessage]);
 
   const getActionSheetOptions = useCallback((): ActionSheetOption[] => {
+    const retryOption: ActionSheetOption[] =
+      selectedMessage?.message.status === "failed"
+        ? [{ text: "Retry", onPress: handleRetryMessage }]
+        : [];
+    // An attachment's text holds its decryption key, so it is never copied
+    // or shared as text.
+    const textOptions: ActionSheetOption[] =
+      selectedMessage && isAttachmentMessage(selectedMessage.displayContent)
+        ? []
+        : [
+            {
+              text: "Copy",
+              onPress: handleCopyMessage,
+            },
+            {
+              text: "Share",
+              onPress: handleShareMessage,
+            },
+          ];
+    const attachment = selectedMessage && parseAttachment(selectedMessage.displayContent);
+    const extractOption: ActionSheetOption[] =
+      attachment?.mimeType === "image/png"
+        ? [{ text: "Extract Hidden Message", onPress: handleExtractFromMessage }]
+        : [];
     return [
-      {
-        text: "Copy",
-        onPress: handleCopyMessage,
-      },
-      {
-        text: "Share",
-        onPress: handleShareMessage,
-      },
+      ...retryOption,
+      ...textOptions,
+      ...extractOption,
       {
         text: "Delete",
         onPress: handleDeleteMessage,
@@ -352,9 +805,19 @@ export default function ChatThreadScreen() {
         style: "cancel",
       },
     ];
-  }, [handleCopyMessage, handleShareMessage, handleDeleteMessage]);
+  }, [selectedMessage, handleRetryMessage, handleCopyMessage, handleShareMessage, handleExtractFromMessage, handleDeleteMessage]);
+
+  const handleAcceptKeyChange = useCallback(async () => {
+    await acceptContactKeyChange(contactId);
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    loadData();
+  }, [contactId, loadData]);
 
   const bottomPadding = Math.max(insets.bottom, Spacing.md);
+  const canSend = (!!inputText.trim() || !!pendingFile) && !isUploading;
+  const showMic = isAttachmentSupported() && !inputText.trim() && !pendingFile;
 
   return (
     <ThemedView style={styles.container}>
@@ -363,6 +826,14 @@ export default function ChatThreadScreen() {
         behavior={Platform.OS === "ios" ? "padding" : "height"}
         keyboardVerticalOffset={headerHeight}
       >
+        {!hasUsableKey ? (
+          <View style={[styles.keyBanner, { marginTop: headerHeight }]}>
+            <Feather name="alert-triangle" size={16} color={Colors.dark.warning} />
+            <ThemedText style={styles.keyBannerText}>
+              This contact has no usable encryption key. Messages will not be sent until a valid key is added.
+            </ThemedText>
+          </View>
+        ) : null}
         <FlatList
           ref={flatListRef}
           style={styles.flatList}
@@ -381,7 +852,7 @@ export default function ChatThreadScreen() {
           contentContainerStyle={[
             styles.listContent,
             {
-              paddingTop: headerHeight + Spacing.lg,
+              paddingTop: (hasUsableKey ? headerHeight : 0) + Spacing.lg,
               paddingBottom: Spacing.md,
             },
           ]}
@@ -399,31 +870,86 @@ export default function ChatThreadScreen() {
           }
         />
 
-        <View style={[styles.inputContainer, { paddingBottom: bottomPadding }]}>
-          <TextInput
-            style={styles.input}
-            value={inputText}
-            onChangeText={setInputText}
-            placeholder="Type a message..."
-            placeholderTextColor={Colors.dark.textDisabled}
-            multiline
-            maxLength={2000}
+        {pendingFile ? (
+          <AttachmentPreview
+            file={pendingFile}
+            isUploading={isUploading}
+            onRemove={() => {
+              discardScrubbedCopy(pendingFile);
+              setPendingFile(null);
+            }}
           />
-          <Pressable
-            onPress={handleSendMessage}
-            disabled={!inputText.trim()}
-            style={({ pressed }) => [
-              styles.sendButton,
-              !inputText.trim() && styles.sendButtonDisabled,
-              pressed && styles.sendButtonPressed,
-            ]}
-          >
-            <Feather
-              name="send"
-              size={20}
-              color={inputText.trim() ? Colors.dark.buttonText : Colors.dark.textDisabled}
+        ) : null}
+        <View style={[styles.inputContainer, { paddingBottom: bottomPadding }]}>
+          {isAttachmentSupported() ? (
+            <Pressable
+              onPress={() => setAttachMenuVisible(true)}
+              disabled={keyChangePending || isUploading}
+              style={({ pressed }) => [styles.attachButton, pressed && styles.sendButtonPressed]}
+            >
+              <Feather name="paperclip" size={20} color={Colors.dark.textSecondary} />
+            </Pressable>
+          ) : null}
+          {voiceRecorder.isRecording ? (
+            <View style={styles.recordingIndicator}>
+              <View style={styles.recordingDot} />
+              <ThemedText style={styles.recordingText}>
+                {formatDuration(voiceRecorder.duration)} · Release to send
+              </ThemedText>
+            </View>
+          ) : (
+            <TextInput
+              style={styles.input}
+              value={inputText}
+              onChangeText={handleChangeText}
+              placeholder={
+                isUploading && !pendingFile
+                  ? "Sending voice message..."
+                  : pendingFile
+                    ? "Add a caption..."
+                    : "Type a message..."
+              }
+              placeholderTextColor={Colors.dark.textDisabled}
+              editable={!keyChangePending && !isUploading}
+              multiline
+              maxLength={2000}
             />
-          </Pressable>
+          )}
+          {showMic ? (
+            <Pressable
+              onPressIn={handleRecordStart}
+              onPressOut={handleRecordEnd}
+              disabled={keyChangePending || isUploading}
+              style={({ pressed }) => [
+                styles.sendButton,
+                voiceRecorder.isRecording && styles.recordButtonActive,
+                (keyChangePending || isUploading) && styles.sendButtonDisabled,
+                pressed && styles.sendButtonPressed,
+              ]}
+            >
+              <Feather
+                name="mic"
+                size={20}
+                color={keyChangePending || isUploading ? Colors.dark.textDisabled : Colors.dark.buttonText}
+              />
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={handleSendMessage}
+              disabled={!canSend}
+              style={({ pressed }) => [
+                styles.sendButton,
+                !canSend && styles.sendButtonDisabled,
+                pressed && styles.sendButtonPressed,
+              ]}
+            >
+              <Feather
+                name="send"
+                size={20}
+                color={canSend ? Colors.dark.buttonText : Colors.dark.textDisabled}
+              />
+            </Pressable>
+          )}
         </View>
       </KeyboardAvoidingView>
       
@@ -432,6 +958,60 @@ export default function ChatThreadScreen() {
         onClose={() => setActionSheetVisible(false)}
         options={getActionSheetOptions()}
       />
+
+      <ActionSheet
+        visible={attachMenuVisible}
+        onClose={() => setAttachMenuVisible(false)}
+        title="Send Attachment"
+        message="Files are encrypted on this device before they are uploaded."
+        options={[
+          { text: "Photo", onPress: () => handlePickAttachment(pickImage) },
+          { text: "File", onPress: () => handlePickAttachment(pickDocument) },
+          { text: "Extract from Image", onPress: handleExtractFromFile },
+          { text: "Cancel", style: "cancel", onPress: () => {} },
+        ]}
+      />
+
+      <CarrierPickerModal
+        visible={carrierPickerVisible}
+        isWorking={isHiding || isUploading}
+        recipientName={contact?.displayName || contactId}
+        onConfirm={handleHideMessage}
+        onClose={() => setCarrierPickerVisible(false)}
+      />
+
+      <Modal
+        visible={keyChangePending && isFocused}
+        transparent
+        animationType="fade"
+        onRequestClose={() => navigation.goBack()}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <Feather name="alert-triangle" size={32} color={Colors.dark.warning} />
+            <ThemedText style={styles.modalTitle}>Safety Number Changed</ThemedText>
+            <ThemedText style={styles.modalText}>
+              {contact?.displayName || contactId} is using a different key than the one you saved.
+              This happens when they reinstall the app, but it could also mean someone is
+              intercepting your messages. Compare safety numbers before you continue.
+            </ThemedText>
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => navigation.navigate("ContactInfo", { contactId })}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>View Safety Number</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleAcceptKeyChange}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                <ThemedText style={styles.modalButtonText}>Accept New Key</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -447,6 +1027,21 @@ const styles = StyleSheet.create({
   flatList: {
     flex: 1,
   },
+  keyBanner: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.dark.warning,
+  },
+  keyBannerText: {
+    flex: 1,
+    marginLeft: Spacing.sm,
+    fontSize: 13,
+    color: Colors.dark.warning,
+  },
   listContent: {
     flexGrow: 1,
     paddingHorizontal: Spacing.lg,
@@ -486,6 +1081,15 @@ const styles = StyleSheet.create({
   lockIcon: {
     marginRight: 4,
   },
+  statusIcon: {
+    marginLeft: 4,
+  },
+  doubleTick: {
+    flexDirection: "row",
+  },
+  secondTick: {
+    marginLeft: -7,
+  },
   timerContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -538,6 +1142,13 @@ const styles = StyleSheet.create({
     fontFamily: Fonts?.sans,
     marginRight: Spacing.sm,
   },
+  attachButton: {
+    width: 36,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.xs,
+  },
   sendButton: {
     width: 44,
     height: 44,
@@ -552,4 +1163,75 @@ const styles = StyleSheet.create({
   sendButtonPressed: {
     opacity: 0.8,
   },
+  recordButtonActive: {
+    backgroundColor: Colors.dark.error,
+  },
+  recordingIndicator: {
+    flex: 1,
+    minHeight: 44,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    marginRight: Spacing.sm,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.dark.error,
+    marginRight: Spacing.sm,
+  },
+  recordingText: {
+    fontSize: 15,
+    color: Colors.dark.text,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    width: "85%",
+    alignItems: "center",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginTop: Spacing.md,
+    marginBottom: Spacing.md,
+    color: Colors.dark.text,
+  },
+  modalText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    marginBottom: Spacing.lg,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.dark.warning,
+  },
+  modalButtonSecondary: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  modalButtonText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    textAlign: "center",
+  },
 });
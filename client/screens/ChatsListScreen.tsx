@@ -31,6 +31,7 @@ import {
   type Group,
 } from "@/lib/storage";
 import type { Contact } from "@/lib/crypto";
+import { describeAttachment, parseAttachment } from "@/lib/attachments";
 import type { ChatsStackParamList } from "@/navigation/ChatsStackNavigator";
 import ConnectionStatus from "@/components/ConnectionStatus";
 import { useLanguage } from "@/constants/language";
@@ -54,6 +55,8 @@ function ChatItem({ item, onPress, onLongPress }: ChatItemProps) {
       : item.messages[item.messages.length - 1];
   const displayName = item.type === "chat" ? item.displayName : item.name;
   const hasNoMessages = item.type === "chat" && item.messages.length === 0;
+  const lastAttachment = lastMessage ? parseAttachment(lastMessage.content) : null;
+  const lastContent = lastAttachment ? describeAttachment(lastAttachment) : lastMessage?.content;
 
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
@@ -98,8 +101,8 @@ function ChatItem({ item, onPress, onLongPress }: ChatItemProps) {
         <View style={styles.chatPreview}>
           <ThemedText style={styles.messagePreview} numberOfLines={1}>
             {item.type === "group" && lastMessage
-              ? `${lastMessage.senderId.split("-")[0]}: ${lastMessage.content}`
-              : lastMessage?.content || (hasNoMessages ? "Tap to start chatting" : "No messages yet")}
+              ? `${lastMessage.senderId.split("-")[0]}: ${lastContent}`
+              : lastContent || (hasNoMessages ? "Tap to start chatting" : "No messages yet")}
           </ThemedText>
           {item.unreadCount > 0 ? (
             <View style={styles.unreadBadge}>
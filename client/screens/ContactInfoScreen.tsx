@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
   View,
   ScrollView,
@@ -18,7 +18,13 @@ import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { getContact, deleteChat, removeContact } from "@/lib/storage";
-import type { Contact } from "@/lib/crypto";
+import {
+  computeSafetyNumber,
+  formatSafetyNumber,
+  getKeyFingerprint,
+  type Contact,
+} from "@/lib/crypto";
+import { useIdentity } from "@/hooks/useIdentity";
 import type { ChatsStackParamList } from "@/navigation/ChatsStackNavigator";
 import { Platform } from "react-native";
 
@@ -34,6 +40,9 @@ export default function ContactInfoScreen() {
 
   const [contact, setContact] = useState<Contact | null>(null);
   const [showFullFingerprint, setShowFullFingerprint] = useState(false);
+  const [fingerprint, setFingerprint] = useState("");
+  const [safetyNumber, setSafetyNumber] = useState("");
+  const { identity } = useIdentity();
 
   useFocusEffect(
     useCallback(() => {
@@ -41,6 +50,25 @@ export default function ContactInfoScreen() {
     }, [contactId])
   );
 
+  // Derived from the stored key rather than trusting a saved fingerprint.
+  useEffect(() => {
+    if (!contact || !identity) return;
+    let cancelled = false;
+    Promise.all([
+      getKeyFingerprint(contact.publicKey),
+      computeSafetyNumber(identity.id, identity.publicKey, contact.id, contact.publicKey),
+    ])
+      .then(([fp, number]) => {
+        if (cancelled) return;
+        setFingerprint(fp);
+        setSafetyNumber(number);
+      })
+      .catch((error) => console.error("Safety number error:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [contact, identity]);
+
   const copyToClipboard = async (text: string) => {
     await Clipboard.setStringAsync(text);
     if (Platform.OS !== "web") {
@@ -123,7 +151,7 @@ export default function ContactInfoScreen() {
             ]}
           >
             <ThemedText style={styles.monoTextSmall} numberOfLines={showFullFingerprint ? 10 : 1}>
-              {formatFingerprint(contact.fingerprint)}
+              {formatFingerprint(fingerprint)}
             </ThemedText>
             <Feather
               name={showFullFingerprint ? "chevron-up" : "chevron-down"}
@@ -133,6 +161,47 @@ export default function ContactInfoScreen() {
           </Pressable>
         </View>
 
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>Safety Number</ThemedText>
+          <View style={styles.encryptionStatus}>
+            <View style={styles.encryptionBadge}>
+              <Feather
+                name={contact.verified ? "check-circle" : "alert-circle"}
+                size={16}
+                color={contact.verified ? Colors.dark.success : Colors.dark.warning}
+              />
+              <ThemedText
+                style={[
+                  styles.encryptionText,
+                  !contact.verified && { color: Colors.dark.warning },
+                ]}
+              >
+                {contact.verified ? "Verified" : "Not Verified"}
+              </ThemedText>
+            </View>
+            <ThemedText style={styles.safetyNumber}>
+              {formatSafetyNumber(safetyNumber)}
+            </ThemedText>
+            <ThemedText style={styles.encryptionDetails}>
+              {contact.keyChange
+                ? "This contact's key has changed. Review the warning in the chat before messaging them."
+                : "Compare this number with your contact, or scan each other's QR codes to verify their key."}
+            </ThemedText>
+          </View>
+          <Pressable
+            onPress={() => navigation.navigate("QRScanner" as never)}
+            style={({ pressed }) => [
+              styles.verifyButton,
+              pressed && styles.infoRowPressed,
+            ]}
+          >
+            <Feather name="camera" size={18} color={Colors.dark.primary} />
+            <ThemedText style={styles.verifyButtonText}>
+              Scan QR Code to Verify
+            </ThemedText>
+          </Pressable>
+        </View>
+
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>Encryption</ThemedText>
           <View style={styles.encryptionStatus}>
@@ -143,7 +212,7 @@ export default function ContactInfoScreen() {
               </ThemedText>
             </View>
             <ThemedText style={styles.encryptionDetails}>
-              Messages are secured with AES-256 + RSA encryption using OpenPGP
+              Messages are secured with AES-256 + public-key encryption using OpenPGP
             </ThemedText>
           </View>
         </View>
@@ -257,6 +326,28 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: Colors.dark.textSecondary,
   },
+  safetyNumber: {
+    fontFamily: Fonts?.mono,
+    fontSize: 16,
+    lineHeight: 26,
+    color: Colors.dark.text,
+    marginBottom: Spacing.sm,
+  },
+  verifyButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: Colors.dark.backgroundSecondary,
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    marginTop: Spacing.sm,
+  },
+  verifyButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.primary,
+    marginLeft: Spacing.sm,
+  },
   addedDate: {
     fontSize: 16,
     color: Colors.dark.text,
@@ -15,8 +15,8 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
-import { createGroup, getContacts } from "@/lib/storage";
-import { createGroupOnServer } from "@/lib/socket";
+import { createGroup, getContacts, type GroupMember } from "@/lib/storage";
+import { sendGroupControl } from "@/lib/socket";
 import { useIdentity } from "@/hooks/useIdentity";
 import type { Contact } from "@/lib/crypto";
 import { useLanguage } from "@/constants/language";
@@ -88,8 +88,20 @@ export default function CreateGroupScreen() {
         identity.displayName || identity.id
       );
 
-      const memberIds = [identity.id, ...selectedContacts];
-      createGroupOnServer(newGroup.id, memberIds);
+      // Members are invited the same way as later additions: the relay roster
+      // is opened and they are invited before the add_members message goes out.
+      const members: GroupMember[] = contacts
+        .filter((c) => selectedContacts.includes(c.id))
+        .map((contact) => ({
+          id: contact.id,
+          publicKey: contact.publicKey,
+          displayName: contact.displayName || contact.id,
+          role: "member",
+          addedAt: Date.now(),
+        }));
+      if (members.length > 0) {
+        await sendGroupControl(newGroup.id, identity, { type: "add_members", members });
+      }
 
       if (Platform.OS !== "web") {
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
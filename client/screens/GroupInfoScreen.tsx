@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from "react";
+import React, { useState, useCallback, useEffect } from "react";
 import {
   View,
   ScrollView,
@@ -6,6 +6,9 @@ import {
   Pressable,
   Alert,
   Platform,
+  Modal,
+  TextInput,
+  Share,
 } from "react-native";
 import { useNavigation, useRoute, useFocusEffect } from "@react-navigation/native";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -14,16 +17,42 @@ import type { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import type { RouteProp } from "@react-navigation/native";
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
+import QRCode from "react-native-qrcode-svg";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
-import { getGroup, deleteGroup, archiveGroup, removeGroupMember, type Group } from "@/lib/storage";
+import ActionSheet, { type ActionSheetOption } from "@/components/ActionSheet";
+import {
+  getGroup,
+  getContacts,
+  deleteGroup,
+  archiveGroup,
+  removeGroupMember,
+  type Group,
+  type GroupMember,
+} from "@/lib/storage";
+import { sendGroupControl, onGroupUpdate } from "@/lib/socket";
+import {
+  MAX_GROUP_NAME_LENGTH,
+  MAX_GROUP_DESCRIPTION_LENGTH,
+  type GroupControlAction,
+} from "@/lib/groupControl";
+import { createGroupInvite, revokeGroupInvite } from "@/lib/groupInvites";
 import { useIdentity } from "@/hooks/useIdentity";
+import type { Contact } from "@/lib/crypto";
 import type { ChatsStackParamList } from "@/navigation/ChatsStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<ChatsStackParamList, "GroupInfo">;
 type ScreenRouteProp = RouteProp<ChatsStackParamList, "GroupInfo">;
 
+const HOUR = 60 * 60 * 1000;
+const INVITE_LIFETIMES = [
+  { label: "1 hour", value: HOUR },
+  { label: "1 day", value: 24 * HOUR },
+  { label: "7 days", value: 7 * 24 * HOUR },
+];
+const INVITE_MAX_USES = [1, 5, 25];
+
 export default function GroupInfoScreen() {
   const navigation = useNavigation<NavigationProp>();
   const route = useRoute<ScreenRouteProp>();
@@ -33,6 +62,18 @@ export default function GroupInfoScreen() {
   const { identity } = useIdentity();
 
   const [group, setGroup] = useState<Group | null>(null);
+  const [editVisible, setEditVisible] = useState(false);
+  const [editName, setEditName] = useState("");
+  const [editDescription, setEditDescription] = useState("");
+  const [addVisible, setAddVisible] = useState(false);
+  const [availableContacts, setAvailableContacts] = useState<Contact[]>([]);
+  const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
+  const [selectedMember, setSelectedMember] = useState<GroupMember | null>(null);
+  const [inviteVisible, setInviteVisible] = useState(false);
+  const [inviteLifetime, setInviteLifetime] = useState(INVITE_LIFETIMES[1].value);
+  const [inviteMaxUses, setInviteMaxUses] = useState(INVITE_MAX_USES[1]);
+  const [inviteUri, setInviteUri] = useState<string | null>(null);
+  const [isCreatingInvite, setIsCreatingInvite] = useState(false);
 
   const loadGroup = useCallback(async () => {
     const g = await getGroup(groupId);
@@ -45,8 +86,164 @@ export default function GroupInfoScreen() {
     }, [loadGroup])
   );
 
+  // Changes from other admins arrive while this screen is open.
+  useEffect(() => {
+    return onGroupUpdate((updatedId) => {
+      if (updatedId === groupId) loadGroup();
+    });
+  }, [groupId, loadGroup]);
+
+  const isMember = !!group?.members.some((m) => m.id === identity?.id);
   const isAdmin = group?.members.find((m) => m.id === identity?.id)?.role === "admin";
 
+  const applyControl = async (action: GroupControlAction): Promise<boolean> => {
+    if (!identity) return false;
+    const updated = await sendGroupControl(groupId, identity, action);
+    if (!updated) {
+      Alert.alert("Not Allowed", "This change could not be applied to the group.");
+      return false;
+    }
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    setGroup(updated);
+    return true;
+  };
+
+  const openEditInfo = () => {
+    if (!group) return;
+    setEditName(group.name);
+    setEditDescription(group.description);
+    setEditVisible(true);
+  };
+
+  const handleSaveInfo = async () => {
+    if (!editName.trim()) {
+      Alert.alert("Error", "Please enter a group name");
+      return;
+    }
+    const saved = await applyControl({
+      type: "update_info",
+      name: editName.trim(),
+      description: editDescription.trim(),
+    });
+    if (saved) setEditVisible(false);
+  };
+
+  const openAddMembers = async () => {
+    if (!group) return;
+    const contacts = await getContacts();
+    setAvailableContacts(
+      contacts.filter((c) => !group.members.some((m) => m.id === c.id))
+    );
+    setSelectedContacts([]);
+    setAddVisible(true);
+  };
+
+  const toggleContact = (contactId: string) => {
+    setSelectedContacts((prev) =>
+      prev.includes(contactId)
+        ? prev.filter((id) => id !== contactId)
+        : [...prev, contactId]
+    );
+  };
+
+  const handleAddMembers = async () => {
+    if (selectedContacts.length === 0) {
+      Alert.alert("Error", "Please select at least one contact");
+      return;
+    }
+    const members: GroupMember[] = availableContacts
+      .filter((c) => selectedContacts.includes(c.id))
+      .map((c) => ({
+        id: c.id,
+        publicKey: c.publicKey,
+        displayName: c.displayName || c.id,
+        role: "member",
+        addedAt: Date.now(),
+      }));
+    const added = await applyControl({ type: "add_members", members });
+    if (added) setAddVisible(false);
+  };
+
+  const openInviteLink = () => {
+    setInviteUri(null);
+    setInviteVisible(true);
+  };
+
+  const handleCreateInvite = async () => {
+    if (!identity) return;
+    setIsCreatingInvite(true);
+    try {
+      const uri = await createGroupInvite(groupId, identity, {
+        lifetime: inviteLifetime,
+        maxUses: inviteMaxUses,
+      });
+      if (!uri) {
+        Alert.alert("Not Allowed", "Only admins can create invite links.");
+        return;
+      }
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setInviteUri(uri);
+      loadGroup();
+    } catch (error) {
+      console.error("Invite link error:", error);
+      Alert.alert("Error", "Could not create the invite link");
+    } finally {
+      setIsCreatingInvite(false);
+    }
+  };
+
+  const shareInviteLink = async () => {
+    if (inviteUri) {
+      await Share.share({ message: inviteUri });
+    }
+  };
+
+  const handleRevokeInvite = (secret: string) => {
+    Alert.alert(
+      "Revoke Invite Link",
+      "Join requests using this link will be refused.",
+      [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Revoke",
+          style: "destructive",
+          onPress: async () => {
+            await revokeGroupInvite(groupId, secret);
+            loadGroup();
+          },
+        },
+      ]
+    );
+  };
+
+  const memberOptions = (member: GroupMember): ActionSheetOption[] => [
+    member.role === "admin"
+      ? {
+          text: "Remove Admin",
+          onPress: () => {
+            applyControl({ type: "set_role", memberId: member.id, role: "member" });
+          },
+        }
+      : {
+          text: "Make Admin",
+          onPress: () => {
+            applyControl({ type: "set_role", memberId: member.id, role: "admin" });
+          },
+        },
+    {
+      text: "Remove from Group",
+      style: "destructive",
+      onPress: () => {
+        applyControl({ type: "remove_member", memberId: member.id });
+      },
+    },
+    { text: "Cancel", style: "cancel", onPress: () => {} },
+  ];
+
   const handleArchive = async () => {
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -65,8 +262,12 @@ export default function GroupInfoScreen() {
           text: "Leave",
           style: "destructive",
           onPress: async () => {
-            if (identity) {
-              await removeGroupMember(groupId, identity.id);
+            if (identity && isMember) {
+              // Tell the others; if nobody is left to tell, just drop ourselves.
+              const left = await sendGroupControl(groupId, identity, { type: "leave" });
+              if (!left) {
+                await removeGroupMember(groupId, identity.id);
+              }
             }
             navigation.popToTop();
           },
@@ -101,6 +302,10 @@ export default function GroupInfoScreen() {
     );
   }
 
+  const openInvites = (group.invites ?? []).filter(
+    (i) => i.expiresAt > Date.now() && i.uses < i.maxUses
+  );
+
   return (
     <ThemedView style={styles.container}>
       <ScrollView
@@ -120,15 +325,72 @@ export default function GroupInfoScreen() {
           {group.description ? (
             <ThemedText style={styles.description}>{group.description}</ThemedText>
           ) : null}
+          {isAdmin ? (
+            <Pressable
+              onPress={openEditInfo}
+              style={({ pressed }) => [
+                styles.editButton,
+                pressed && styles.actionButtonPressed,
+              ]}
+            >
+              <Feather name="edit-2" size={14} color={Colors.dark.primary} />
+              <ThemedText style={styles.editButtonText}>Edit Name & Description</ThemedText>
+            </Pressable>
+          ) : null}
         </View>
 
+        {!isMember ? (
+          <View style={styles.noticeCard}>
+            <Feather name="info" size={16} color={Colors.dark.warning} />
+            <ThemedText style={styles.noticeText}>
+              You are no longer a member of this group.
+            </ThemedText>
+          </View>
+        ) : null}
+
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>
             Members ({group.members.length})
           </ThemedText>
           <View style={styles.membersList}>
+            {isAdmin ? (
+              <Pressable
+                onPress={openAddMembers}
+                style={({ pressed }) => [
+                  styles.memberRow,
+                  pressed && styles.memberRowPressed,
+                ]}
+              >
+                <View style={styles.memberAvatar}>
+                  <Feather name="user-plus" size={18} color={Colors.dark.primary} />
+                </View>
+                <ThemedText style={styles.addMembersText}>Add Members</ThemedText>
+              </Pressable>
+            ) : null}
+            {isAdmin ? (
+              <Pressable
+                onPress={openInviteLink}
+                style={({ pressed }) => [
+                  styles.memberRow,
+                  pressed && styles.memberRowPressed,
+                ]}
+              >
+                <View style={styles.memberAvatar}>
+                  <Feather name="link" size={18} color={Colors.dark.primary} />
+                </View>
+                <ThemedText style={styles.addMembersText}>Invite Link</ThemedText>
+              </Pressable>
+            ) : null}
             {group.members.map((member) => (
-              <View key={member.id} style={styles.memberRow}>
+              <Pressable
+                key={member.id}
+                disabled={!isAdmin || member.id === identity?.id}
+                onPress={() => setSelectedMember(member)}
+                style={({ pressed }) => [
+                  styles.memberRow,
+                  pressed && styles.memberRowPressed,
+                ]}
+              >
                 <View style={styles.memberAvatar}>
                   <Feather name="user" size={18} color={Colors.dark.secondary} />
                 </View>
@@ -144,11 +406,40 @@ export default function GroupInfoScreen() {
                     <ThemedText style={styles.adminText}>Admin</ThemedText>
                   </View>
                 ) : null}
-              </View>
+              </Pressable>
             ))}
           </View>
         </View>
 
+        {isAdmin && openInvites.length > 0 ? (
+          <View style={styles.section}>
+            <ThemedText style={styles.sectionTitle}>Invite Links</ThemedText>
+            <View style={styles.membersList}>
+              {openInvites.map((invite) => (
+                <View key={invite.secret} style={styles.memberRow}>
+                  <View style={styles.memberAvatar}>
+                    <Feather name="link" size={18} color={Colors.dark.secondary} />
+                  </View>
+                  <View style={styles.memberInfo}>
+                    <ThemedText style={styles.memberName}>
+                      Used {invite.uses} of {invite.maxUses}
+                    </ThemedText>
+                    <ThemedText style={styles.memberId}>
+                      Expires {new Date(invite.expiresAt).toLocaleString()}
+                    </ThemedText>
+                  </View>
+                  <Pressable
+                    onPress={() => handleRevokeInvite(invite.secret)}
+                    hitSlop={8}
+                  >
+                    <Feather name="x-circle" size={20} color={Colors.dark.error} />
+                  </Pressable>
+                </View>
+              ))}
+            </View>
+          </View>
+        ) : null}
+
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>Encryption</ThemedText>
           <View style={styles.encryptionCard}>
@@ -159,7 +450,7 @@ export default function GroupInfoScreen() {
               </ThemedText>
             </View>
             <ThemedText style={styles.encryptionDetails}>
-              All group messages are encrypted with AES-256 + RSA
+              All group messages are encrypted with AES-256 + OpenPGP
             </ThemedText>
           </View>
         </View>
@@ -187,19 +478,21 @@ export default function GroupInfoScreen() {
             <ThemedText style={styles.actionButtonText}>Archive Group</ThemedText>
           </Pressable>
 
-          <Pressable
-            onPress={handleLeaveGroup}
-            style={({ pressed }) => [
-              styles.actionButton,
-              styles.actionButtonDanger,
-              pressed && styles.actionButtonPressed,
-            ]}
-          >
-            <Feather name="log-out" size={18} color={Colors.dark.error} />
-            <ThemedText style={styles.actionButtonTextDanger}>Leave Group</ThemedText>
-          </Pressable>
+          {isMember ? (
+            <Pressable
+              onPress={handleLeaveGroup}
+              style={({ pressed }) => [
+                styles.actionButton,
+                styles.actionButtonDanger,
+                pressed && styles.actionButtonPressed,
+              ]}
+            >
+              <Feather name="log-out" size={18} color={Colors.dark.error} />
+              <ThemedText style={styles.actionButtonTextDanger}>Leave Group</ThemedText>
+            </Pressable>
+          ) : null}
 
-          {isAdmin ? (
+          {isAdmin || !isMember ? (
             <Pressable
               onPress={handleDeleteGroup}
               style={({ pressed }) => [
@@ -214,6 +507,213 @@ export default function GroupInfoScreen() {
           ) : null}
         </View>
       </ScrollView>
+
+      <ActionSheet
+        visible={selectedMember !== null}
+        onClose={() => setSelectedMember(null)}
+        title={selectedMember?.displayName || selectedMember?.id}
+        message="Changes are sent to every member as a signed update."
+        options={selectedMember ? memberOptions(selectedMember) : []}
+      />
+
+      <Modal
+        visible={editVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setEditVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>Edit Group</ThemedText>
+            <TextInput
+              style={styles.modalInput}
+              value={editName}
+              onChangeText={setEditName}
+              placeholder="Group name"
+              placeholderTextColor={Colors.dark.textDisabled}
+              maxLength={MAX_GROUP_NAME_LENGTH}
+            />
+            <TextInput
+              style={[styles.modalInput, styles.modalInputMultiline]}
+              value={editDescription}
+              onChangeText={setEditDescription}
+              placeholder="Description (optional)"
+              placeholderTextColor={Colors.dark.textDisabled}
+              maxLength={MAX_GROUP_DESCRIPTION_LENGTH}
+              multiline
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setEditVisible(false)}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleSaveInfo}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                <ThemedText style={styles.modalButtonText}>Save</ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={addVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setAddVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>Add Members</ThemedText>
+            {availableContacts.length === 0 ? (
+              <ThemedText style={styles.modalText}>
+                All of your contacts are already in this group.
+              </ThemedText>
+            ) : (
+              <ScrollView style={styles.contactList}>
+                {availableContacts.map((contact) => (
+                  <Pressable
+                    key={contact.id}
+                    onPress={() => toggleContact(contact.id)}
+                    style={({ pressed }) => [
+                      styles.contactRow,
+                      selectedContacts.includes(contact.id) && styles.contactRowSelected,
+                      pressed && styles.memberRowPressed,
+                    ]}
+                  >
+                    <View style={styles.memberInfo}>
+                      <ThemedText style={styles.memberName}>
+                        {contact.displayName || contact.id}
+                      </ThemedText>
+                      <ThemedText style={styles.memberId}>{contact.id}</ThemedText>
+                    </View>
+                    {selectedContacts.includes(contact.id) ? (
+                      <Feather name="check-circle" size={22} color={Colors.dark.primary} />
+                    ) : (
+                      <Feather name="circle" size={22} color={Colors.dark.textDisabled} />
+                    )}
+                  </Pressable>
+                ))}
+              </ScrollView>
+            )}
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={() => setAddVisible(false)}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+              </Pressable>
+              {availableContacts.length > 0 ? (
+                <Pressable
+                  onPress={handleAddMembers}
+                  style={[styles.modalButton, styles.modalButtonPrimary]}
+                >
+                  <ThemedText style={styles.modalButtonText}>Add</ThemedText>
+                </Pressable>
+              ) : null}
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal
+        visible={inviteVisible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setInviteVisible(false)}
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>Invite Link</ThemedText>
+            {inviteUri ? (
+              <>
+                <View style={styles.qrContainer}>
+                  <QRCode
+                    value={inviteUri}
+                    // Low error correction keeps the signed link at a scannable density.
+                    ecl="L"
+                    size={200}
+                    backgroundColor={Colors.dark.backgroundSecondary}
+                    color={Colors.dark.text}
+                  />
+                </View>
+                <ThemedText style={styles.modalText}>
+                  Anyone with this link can ask to join. Your device adds them
+                  when it receives the request, so it has to come online first.
+                </ThemedText>
+                <View style={styles.modalButtons}>
+                  <Pressable
+                    onPress={shareInviteLink}
+                    style={[styles.modalButton, styles.modalButtonSecondary]}
+                  >
+                    <ThemedText style={styles.modalButtonText}>Share</ThemedText>
+                  </Pressable>
+                  <Pressable
+                    onPress={() => setInviteVisible(false)}
+                    style={[styles.modalButton, styles.modalButtonPrimary]}
+                  >
+                    <ThemedText style={styles.modalButtonText}>Done</ThemedText>
+                  </Pressable>
+                </View>
+              </>
+            ) : (
+              <>
+                <ThemedText style={styles.optionLabel}>Expires after</ThemedText>
+                <View style={styles.optionRow}>
+                  {INVITE_LIFETIMES.map((option) => (
+                    <Pressable
+                      key={option.value}
+                      onPress={() => setInviteLifetime(option.value)}
+                      style={[
+                        styles.optionChip,
+                        inviteLifetime === option.value && styles.optionChipSelected,
+                      ]}
+                    >
+                      <ThemedText style={styles.optionChipText}>{option.label}</ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+                <ThemedText style={styles.optionLabel}>Number of uses</ThemedText>
+                <View style={styles.optionRow}>
+                  {INVITE_MAX_USES.map((uses) => (
+                    <Pressable
+                      key={uses}
+                      onPress={() => setInviteMaxUses(uses)}
+                      style={[
+                        styles.optionChip,
+                        inviteMaxUses === uses && styles.optionChipSelected,
+                      ]}
+                    >
+                      <ThemedText style={styles.optionChipText}>{uses}</ThemedText>
+                    </Pressable>
+                  ))}
+                </View>
+                <View style={styles.modalButtons}>
+                  <Pressable
+                    onPress={() => setInviteVisible(false)}
+                    style={[styles.modalButton, styles.modalButtonSecondary]}
+                  >
+                    <ThemedText style={styles.modalButtonText}>Cancel</ThemedText>
+                  </Pressable>
+                  <Pressable
+                    onPress={handleCreateInvite}
+                    disabled={isCreatingInvite}
+                    style={[styles.modalButton, styles.modalButtonPrimary]}
+                  >
+                    <ThemedText style={styles.modalButtonText}>
+                      {isCreatingInvite ? "Creating..." : "Create Link"}
+                    </ThemedText>
+                  </Pressable>
+                </View>
+              </>
+            )}
+          </View>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -255,6 +755,32 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginTop: Spacing.sm,
   },
+  editButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    marginTop: Spacing.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+  },
+  editButtonText: {
+    fontSize: 14,
+    color: Colors.dark.primary,
+  },
+  noticeCard: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    backgroundColor: Colors.dark.warning + "15",
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.xl,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.dark.warning,
+  },
   section: {
     marginBottom: Spacing.xl,
   },
@@ -279,6 +805,14 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: Colors.dark.border,
   },
+  memberRowPressed: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  addMembersText: {
+    fontSize: 15,
+    fontWeight: "500",
+    color: Colors.dark.primary,
+  },
   memberAvatar: {
     width: 36,
     height: 36,
@@ -368,4 +902,109 @@ const styles = StyleSheet.create({
     fontWeight: "500",
     color: Colors.dark.error,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    width: "85%",
+    maxHeight: "80%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    color: Colors.dark.text,
+  },
+  modalText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  modalInput: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    fontSize: 16,
+    color: Colors.dark.text,
+    marginBottom: Spacing.md,
+  },
+  modalInputMultiline: {
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.dark.secondary,
+  },
+  modalButtonSecondary: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  contactList: {
+    maxHeight: 320,
+    marginBottom: Spacing.md,
+  },
+  contactRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.dark.border,
+  },
+  contactRowSelected: {
+    backgroundColor: Colors.dark.primary + "10",
+  },
+  optionLabel: {
+    fontSize: 13,
+    fontWeight: "600",
+    color: Colors.dark.textSecondary,
+    marginBottom: Spacing.sm,
+  },
+  optionRow: {
+    flexDirection: "row",
+    gap: Spacing.sm,
+    marginBottom: Spacing.lg,
+  },
+  optionChip: {
+    flex: 1,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+  },
+  optionChipSelected: {
+    backgroundColor: Colors.dark.primary + "30",
+  },
+  optionChipText: {
+    fontSize: 14,
+    color: Colors.dark.text,
+  },
+  qrContainer: {
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    marginBottom: Spacing.lg,
+  },
 });
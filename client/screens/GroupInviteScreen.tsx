@@ -0,0 +1,316 @@
+import React, { useState, useEffect, useMemo } from "react";
+import {
+  View,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  Alert,
+  Platform,
+  ActivityIndicator,
+} from "react-native";
+import { useNavigation, useRoute } from "@react-navigation/native";
+import type { RouteProp } from "@react-navigation/native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
+import { verifyGroupInvite, type GroupInviteLink } from "@/lib/groupInvites";
+import { requestGroupJoin } from "@/lib/socket";
+import { getGroup } from "@/lib/storage";
+import { useIdentity } from "@/hooks/useIdentity";
+import type { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { useLanguage } from "@/constants/language";
+
+type ScreenRouteProp = RouteProp<RootStackParamList, "GroupInvite">;
+
+// Preview of a scanned or opened group invite link. Nothing is sent until the
+// user asks to join.
+export default function GroupInviteScreen() {
+  const navigation = useNavigation();
+  const route = useRoute<ScreenRouteProp>();
+  const headerHeight = useHeaderHeight();
+  const insets = useSafeAreaInsets();
+  const { identity } = useIdentity();
+  const { language } = useLanguage();
+
+  const [invite, setInvite] = useState<GroupInviteLink | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [alreadyMember, setAlreadyMember] = useState(false);
+  const [isJoining, setIsJoining] = useState(false);
+
+  // Memoized so the verification effect below does not re-run on every render.
+  const t = useMemo(() => ({
+    checking: language === "tr" ? "Davet doğrulanıyor..." : "Checking invite...",
+    invalidInvite: language === "tr" ? "Geçersiz Davet" : "Invalid Invite",
+    malformed: language === "tr"
+      ? "Bu bağlantı geçerli bir CipherNode grup daveti değil."
+      : "This link is not a valid CipherNode group invite.",
+    forged: language === "tr"
+      ? "Davetin imzası veya yöneticinin ID'si doğrulanamadı. Bağlantı değiştirilmiş olabilir."
+      : "The invite's signature or the admin's ID does not check out. The link may have been tampered with.",
+    expired: language === "tr" ? "Bu davetin süresi dolmuş." : "This invite has expired.",
+    invitedBy: language === "tr" ? "Davet eden" : "Invited by",
+    adminFingerprint: language === "tr" ? "Yönetici anahtar parmak izi" : "Admin key fingerprint",
+    expires: language === "tr" ? "Son geçerlilik" : "Expires",
+    howItWorks: language === "tr"
+      ? "Katılma isteğiniz şifrelenerek yalnızca yöneticiye gönderilir. Yöneticinin cihazı isteği kabul ettiğinde grup, üye listesi ve anahtarlarıyla birlikte sohbetlerinizde görünür."
+      : "Your join request is encrypted and sent to the admin only. Once the admin's device accepts it, the group shows up in your chats with its member list and keys.",
+    alreadyMember: language === "tr" ? "Bu grubun zaten üyesisiniz." : "You are already a member of this group.",
+    cannotJoinOwn: language === "tr" ? "Kendi davetinizle katılamazsınız." : "You cannot join with your own invite.",
+    requestToJoin: language === "tr" ? "Katılma İsteği Gönder" : "Request to Join",
+    sending: language === "tr" ? "Gönderiliyor..." : "Sending...",
+    cancel: language === "tr" ? "İptal" : "Cancel",
+    requestSent: language === "tr" ? "İstek Gönderildi" : "Request Sent",
+    requestSentMsg: language === "tr"
+      ? "Yönetici çevrimiçi olduğunda isteğiniz işlenecek."
+      : "Your request will be handled when the admin is online.",
+    error: language === "tr" ? "Hata" : "Error",
+    failedToSend: language === "tr" ? "Katılma isteği gönderilemedi" : "Could not send the join request",
+    ok: language === "tr" ? "Tamam" : "OK",
+  }), [language]);
+
+  useEffect(() => {
+    const check = async () => {
+      const result = await verifyGroupInvite(route.params.invite);
+      if (!result.valid) {
+        setError(
+          result.reason === "expired"
+            ? t.expired
+            : result.reason === "invalid_signature" || result.reason === "id_mismatch"
+              ? t.forged
+              : t.malformed
+        );
+        return;
+      }
+      const existing = await getGroup(result.invite.groupId);
+      setAlreadyMember(!!existing?.members.some((m) => m.id === identity?.id));
+      setInvite(result.invite);
+    };
+    check();
+  }, [route.params.invite, identity?.id, t]);
+
+  const handleJoin = async () => {
+    if (!invite || !identity) return;
+    setIsJoining(true);
+    try {
+      await requestGroupJoin(invite, identity);
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      Alert.alert(t.requestSent, `${invite.groupName}\n\n${t.requestSentMsg}`, [
+        { text: t.ok, onPress: () => navigation.goBack() },
+      ]);
+    } catch (err) {
+      console.error("Join request failed:", err);
+      Alert.alert(t.error, t.failedToSend);
+    } finally {
+      setIsJoining(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <Feather name="alert-triangle" size={48} color={Colors.dark.warning} />
+        <ThemedText style={styles.errorTitle}>{t.invalidInvite}</ThemedText>
+        <ThemedText style={styles.errorText}>{error}</ThemedText>
+        <Pressable
+          onPress={() => navigation.goBack()}
+          style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+        >
+          <ThemedText style={styles.secondaryButtonText}>{t.ok}</ThemedText>
+        </Pressable>
+      </View>
+    );
+  }
+
+  if (!invite) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator color={Colors.dark.primary} />
+        <ThemedText style={styles.checkingText}>{t.checking}</ThemedText>
+      </View>
+    );
+  }
+
+  const ownInvite = invite.adminId === identity?.id;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={[
+        styles.content,
+        {
+          paddingTop: headerHeight + Spacing.xl,
+          paddingBottom: insets.bottom + Spacing.xl,
+        },
+      ]}
+    >
+      <View style={styles.headerSection}>
+        <View style={styles.avatar}>
+          <Feather name="users" size={48} color={Colors.dark.secondary} />
+        </View>
+        <ThemedText style={styles.groupName}>{invite.groupName}</ThemedText>
+        <ThemedText style={styles.invitedBy}>
+          {t.invitedBy} {invite.adminName || invite.adminId}
+        </ThemedText>
+      </View>
+
+      <View style={styles.card}>
+        <ThemedText style={styles.label}>ID</ThemedText>
+        <ThemedText style={styles.monoValue}>{invite.adminId}</ThemedText>
+        <ThemedText style={styles.label}>{t.adminFingerprint}</ThemedText>
+        <ThemedText style={styles.monoValue}>
+          {invite.adminFingerprint.replace(/(.{4})/g, "$1 ").trim()}
+        </ThemedText>
+        <ThemedText style={styles.label}>{t.expires}</ThemedText>
+        <ThemedText style={styles.value}>
+          {new Date(invite.expiresAt).toLocaleString()}
+        </ThemedText>
+      </View>
+
+      <ThemedText style={styles.hint}>
+        {alreadyMember ? t.alreadyMember : ownInvite ? t.cannotJoinOwn : t.howItWorks}
+      </ThemedText>
+
+      {!alreadyMember && !ownInvite ? (
+        <Pressable
+          onPress={handleJoin}
+          disabled={isJoining}
+          style={({ pressed }) => [
+            styles.primaryButton,
+            isJoining && styles.primaryButtonDisabled,
+            pressed && styles.buttonPressed,
+          ]}
+        >
+          <ThemedText style={styles.primaryButtonText}>
+            {isJoining ? t.sending : t.requestToJoin}
+          </ThemedText>
+        </Pressable>
+      ) : null}
+
+      <Pressable
+        onPress={() => navigation.goBack()}
+        style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+      >
+        <ThemedText style={styles.secondaryButtonText}>{t.cancel}</ThemedText>
+      </Pressable>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  content: {
+    paddingHorizontal: Spacing.lg,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+    paddingHorizontal: Spacing["3xl"],
+  },
+  checkingText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    marginTop: Spacing.md,
+  },
+  errorTitle: {
+    fontSize: 20,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    marginTop: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  errorText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    marginBottom: Spacing.xl,
+  },
+  headerSection: {
+    alignItems: "center",
+    marginBottom: Spacing["2xl"],
+  },
+  avatar: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    alignItems: "center",
+    justifyContent: "center",
+    marginBottom: Spacing.lg,
+  },
+  groupName: {
+    fontSize: 24,
+    fontWeight: "600",
+    color: Colors.dark.text,
+    textAlign: "center",
+  },
+  invitedBy: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    marginTop: Spacing.sm,
+  },
+  card: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    marginBottom: Spacing.lg,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: Colors.dark.textSecondary,
+    textTransform: "uppercase",
+    letterSpacing: 0.5,
+    marginTop: Spacing.sm,
+  },
+  monoValue: {
+    fontSize: 13,
+    fontFamily: Fonts?.mono,
+    color: Colors.dark.text,
+    marginTop: 2,
+  },
+  value: {
+    fontSize: 15,
+    color: Colors.dark.text,
+    marginTop: 2,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.dark.textSecondary,
+    marginBottom: Spacing.xl,
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    borderRadius: BorderRadius.sm,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+    marginBottom: Spacing.sm,
+  },
+  primaryButtonDisabled: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  secondaryButton: {
+    paddingVertical: Spacing.md,
+    paddingHorizontal: Spacing.xl,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    color: Colors.dark.textSecondary,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from "react";
+import React, { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import {
   View,
   FlatList,
@@ -6,6 +6,7 @@ import {
   StyleSheet,
   Pressable,
   Platform,
+  Alert,
 } from "react-native";
 import { useNavigation, useRoute, useFocusEffect } from "@react-navigation/native";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -16,20 +17,51 @@ import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
+import { ThreadHeaderTitle } from "@/components/ThreadHeaderTitle";
+import { AttachmentBubble } from "@/components/AttachmentBubble";
+import { AttachmentPreview } from "@/components/AttachmentPreview";
+import ActionSheet from "@/components/ActionSheet";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { getGroup, saveGroupMessage, generateMessageId, getSettings, calculateExpiresAt, cleanupExpiredMessagesForGroup, type Group, type Message } from "@/lib/storage";
-import { sendGroupMessage, onGroupMessage } from "@/lib/socket";
+import { sendGroupMessage, onGroupMessage, onGroupMessageAck, onGroupUpdate } from "@/lib/socket";
+import { encryptGroupMessage, decryptMessage, type UserIdentity } from "@/lib/crypto";
+import {
+  discardUpload,
+  formatDuration,
+  isAttachmentSupported,
+  parseAttachment,
+  pickDocument,
+  pickImage,
+  serializeAttachment,
+  uploadAttachment,
+  MAX_ATTACHMENT_SIZE,
+  type PickedFile,
+  type UploadResult,
+} from "@/lib/attachments";
 import { useIdentity } from "@/hooks/useIdentity";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { useVoiceRecorder, discardRecording } from "@/hooks/useVoiceRecorder";
+import { prepareOutgoingFile, discardScrubbedCopy } from "@/lib/scrubber";
 import type { ChatsStackParamList } from "@/navigation/ChatsStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<ChatsStackParamList, "GroupThread">;
 type ScreenRouteProp = RouteProp<ChatsStackParamList, "GroupThread">;
 
+const UPLOAD_ERRORS: Record<Extract<UploadResult, { uploaded: false }>["reason"], string> = {
+  too_large: "This file is too large to send.",
+  store_full: "The relay has no room for attachments right now. Try again later.",
+  quota_exceeded: "You have sent too many attachments today. Try again later.",
+  unreadable: "The file could not be read.",
+  network: "The file could not be uploaded. Check your connection and try again.",
+};
+
 interface MessageBubbleProps {
   message: Message;
   isOwn: boolean;
   senderName: string;
+  senderPublicKey?: string;
+  identity: UserIdentity | null;
   currentTime: number;
 }
 
@@ -46,7 +78,38 @@ function formatRemainingTime(expiresAt: number, now: number): string {
   return `${days}d`;
 }
 
-function MessageBubble({ message, isOwn, senderName, currentTime }: MessageBubbleProps) {
+function MessageBubble({ message, isOwn, senderName, senderPublicKey, identity, currentTime }: MessageBubbleProps) {
+  const [displayContent, setDisplayContent] = useState(message.content);
+  const [verified, setVerified] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    const decrypt = async () => {
+      if (isOwn) {
+        setDisplayContent(message.content);
+        setVerified(true);
+        return;
+      }
+
+      if (!identity?.privateKey) {
+        setDisplayContent(message.content);
+        return;
+      }
+
+      const encryptedPayload = message.encrypted || message.content;
+      const isEncrypted = encryptedPayload.includes("-----BEGIN PGP MESSAGE-----");
+
+      if (isEncrypted) {
+        const result = await decryptMessage(encryptedPayload, identity.privateKey, senderPublicKey);
+        setDisplayContent(result.content);
+        setVerified(result.verified);
+      } else {
+        setDisplayContent(message.content);
+        setVerified(null);
+      }
+    };
+    decrypt();
+  }, [message.content, message.encrypted, identity, senderPublicKey, isOwn]);
+
   const formatTime = (timestamp: number) => {
     return new Date(timestamp).toLocaleTimeString([], {
       hour: "2-digit",
@@ -54,15 +117,21 @@ function MessageBubble({ message, isOwn, senderName, currentTime }: MessageBubbl
     });
   };
 
+  const attachment = useMemo(() => parseAttachment(displayContent), [displayContent]);
+
   return (
     <View style={[styles.messageContainer, isOwn && styles.ownMessageContainer]}>
       {!isOwn ? (
         <ThemedText style={styles.senderName}>{senderName}</ThemedText>
       ) : null}
       <View style={[styles.messageBubble, isOwn && styles.ownMessageBubble]}>
-        <ThemedText style={[styles.messageText, isOwn && styles.ownMessageText]}>
-          {message.content}
-        </ThemedText>
+        {attachment ? (
+          <AttachmentBubble attachment={attachment} messageId={message.id} isMine={isOwn} />
+        ) : (
+          <ThemedText style={[styles.messageText, isOwn && styles.ownMessageText]}>
+            {displayContent}
+          </ThemedText>
+        )}
         <View style={styles.messageFooter}>
           {message.expiresAt ? (
             <View style={styles.timerContainer}>
@@ -80,10 +149,29 @@ function MessageBubble({ message, isOwn, senderName, currentTime }: MessageBubbl
                 {formatRemainingTime(message.expiresAt, currentTime)}
               </ThemedText>
             </View>
-          ) : null}
+          ) : (
+            <Feather
+              name={verified === false ? "alert-triangle" : "lock"}
+              size={10}
+              color={
+                verified === false
+                  ? Colors.dark.warning
+                  : isOwn
+                    ? Colors.dark.buttonText
+                    : Colors.dark.secondary
+              }
+              style={styles.lockIcon}
+            />
+          )}
           <ThemedText style={[styles.messageTime, isOwn && styles.ownMessageTime]}>
             {formatTime(message.timestamp)}
           </ThemedText>
+          {isOwn && message.status === "sending" ? (
+            <Feather name="clock" size={10} color={Colors.dark.buttonText} style={styles.statusIcon} />
+          ) : null}
+          {isOwn && message.status === "failed" ? (
+            <Feather name="alert-circle" size={10} color={Colors.dark.error} style={styles.statusIcon} />
+          ) : null}
         </View>
       </View>
     </View>
@@ -97,12 +185,17 @@ export default function GroupThreadScreen() {
   const headerHeight = useHeaderHeight();
   const insets = useSafeAreaInsets();
   const { identity } = useIdentity();
+  const { typingUsers, notifyTyping } = useTypingIndicator({ groupId });
+  const voiceRecorder = useVoiceRecorder();
   const flatListRef = useRef<FlatList>(null);
 
   const [group, setGroup] = useState<Group | null>(null);
   const [inputText, setInputText] = useState("");
   const [messageTimer, setMessageTimer] = useState(0);
   const [currentTime, setCurrentTime] = useState(Date.now());
+  const [attachMenuVisible, setAttachMenuVisible] = useState(false);
+  const [pendingFile, setPendingFile] = useState<PickedFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
 
   useEffect(() => {
     const tickerInterval = setInterval(() => setCurrentTime(Date.now()), 1000);
@@ -143,8 +236,8 @@ export default function GroupThreadScreen() {
     const unsubscribe = onGroupMessage(async (msg) => {
       if (msg.groupId === groupId) {
         const newMessage: Message = {
-          id: generateMessageId(),
-          content: msg.content || msg.encrypted,
+          id: msg.id || generateMessageId(),
+          content: msg.encrypted,
           encrypted: msg.encrypted,
           senderId: msg.from,
           recipientId: groupId,
@@ -159,10 +252,34 @@ export default function GroupThreadScreen() {
     return unsubscribe;
   }, [groupId, loadGroup]);
 
+  useEffect(() => {
+    const unsubscribe = onGroupMessageAck((ack) => {
+      if (ack.groupId === groupId) {
+        loadGroup();
+      }
+    });
+    return unsubscribe;
+  }, [groupId, loadGroup]);
+
+  useEffect(() => {
+    return onGroupUpdate((updatedId) => {
+      if (updatedId === groupId) loadGroup();
+    });
+  }, [groupId, loadGroup]);
+
+  const isMember = !!group?.members.some((m) => m.id === identity?.id);
+
   useEffect(() => {
     if (group) {
+      let subtitle: string | undefined;
+      if (typingUsers.length === 1) {
+        const member = group.members.find((m) => m.id === typingUsers[0]);
+        subtitle = `${member?.displayName || typingUsers[0].split("-")[0]} is typing…`;
+      } else if (typingUsers.length > 1) {
+        subtitle = "Several people are typing…";
+      }
       navigation.setOptions({
-        headerTitle: group.name,
+        headerTitle: () => <ThreadHeaderTitle title={group.name} subtitle={subtitle} />,
         headerRight: () => (
           <Pressable
             onPress={() => navigation.navigate("GroupInfo", { groupId })}
@@ -176,7 +293,7 @@ export default function GroupThreadScreen() {
         ),
       });
     }
-  }, [group, navigation, groupId]);
+  }, [group, navigation, groupId, typingUsers]);
 
   const getSenderName = (senderId: string) => {
     if (senderId === identity?.id) return "You";
@@ -184,36 +301,146 @@ export default function GroupThreadScreen() {
     return member?.displayName || senderId.split("-")[0];
   };
 
-  const handleSend = async () => {
-    if (!inputText.trim() || !identity || !group) return;
+  // Returns false when nothing was sent, e.g. the content could not be
+  // encrypted for the members.
+  const sendContent = async (content: string, messageId = generateMessageId()): Promise<boolean> => {
+    if (!identity || !group || !isMember) return false;
 
     if (Platform.OS !== "web") {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     }
 
-    const content = inputText.trim();
+    const recipientKeys = group.members
+      .filter((m) => m.id !== identity.id)
+      .map((m) => m.publicKey);
+
+    let encrypted: string;
+    try {
+      encrypted = await encryptGroupMessage(content, recipientKeys, identity.privateKey);
+    } catch (error) {
+      console.error("Group encryption failed:", error);
+      Alert.alert(
+        "Encryption Failed",
+        "This message was not sent because it could not be encrypted for the group members."
+      );
+      return false;
+    }
+
     const message: Message = {
-      id: generateMessageId(),
+      id: messageId,
       content,
-      encrypted: "",
+      encrypted,
       senderId: identity.id,
       recipientId: groupId,
       timestamp: Date.now(),
-      status: "sent",
+      status: "sending",
       groupId,
       expiresAt: calculateExpiresAt(messageTimer),
     };
 
     await saveGroupMessage(groupId, message);
-    sendGroupMessage(groupId, content, content);
-    setInputText("");
     loadGroup();
+    await sendGroupMessage(groupId, encrypted, message.id);
 
     setTimeout(() => {
       flatListRef.current?.scrollToEnd({ animated: true });
     }, 100);
+    return true;
+  };
+
+  // The file goes to the relay once; every member fetches the same blob with
+  // the key from the group message. If that message is not sent, the upload
+  // is taken back.
+  const sendAttachment = async (file: PickedFile) => {
+    setIsUploading(true);
+    const messageId = generateMessageId();
+    const result = await uploadAttachment(file, messageId, {
+      caption: file.voice ? undefined : inputText.trim(),
+      ttl: messageTimer > 0 ? messageTimer * 1000 : undefined,
+    });
+    setIsUploading(false);
+    if (!result.uploaded) {
+      Alert.alert("Attachment Not Sent", UPLOAD_ERRORS[result.reason]);
+      return;
+    }
+    if (!(await sendContent(serializeAttachment(result.attachment), messageId))) {
+      await discardUpload(result.attachment, messageId, result.deleteToken);
+      return;
+    }
+    discardScrubbedCopy(file);
+    if (!file.voice) {
+      setPendingFile(null);
+      setInputText("");
+    }
+  };
+
+  // With Auto-Metadata Scrubbing on, every outgoing file is sent as a cleaned,
+  // renamed copy. Returns null when the file could not be read.
+  const scrubOutgoing = async (file: PickedFile): Promise<PickedFile | null> => {
+    try {
+      return await prepareOutgoingFile(file);
+    } catch (error) {
+      console.error("Metadata scrub error:", error);
+      Alert.alert("Attachment Not Sent", "The file could not be checked for metadata.");
+      return null;
+    }
+  };
+
+  // Voice notes record while the mic button is held and send on release.
+  const handleRecordStart = async () => {
+    if (Platform.OS !== "web") {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    const started = await voiceRecorder.start();
+    if (!started) {
+      Alert.alert(
+        "Microphone Unavailable",
+        "Allow microphone access in your device settings to send voice messages."
+      );
+    }
+  };
+
+  const handleRecordEnd = async () => {
+    const result = await voiceRecorder.stop();
+    if (!result.recorded) {
+      if (result.reason === "too_short") {
+        Alert.alert("Hold to Record", "Keep the microphone pressed while you speak, then let go to send.");
+      }
+      return;
+    }
+    const file = await scrubOutgoing(result.file);
+    if (file) {
+      await sendAttachment(file);
+      discardScrubbedCopy(file);
+    }
+    discardRecording(result.file.uri);
+  };
+
+  const handleSend = async () => {
+    if (pendingFile) {
+      await sendAttachment(pendingFile);
+      return;
+    }
+    if (!inputText.trim()) return;
+    const content = inputText.trim();
+    setInputText("");
+    await sendContent(content);
+  };
+
+  const pickAttachment = async (pick: () => Promise<PickedFile | null>) => {
+    const file = await pick();
+    if (!file) return;
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      Alert.alert("File Too Large", UPLOAD_ERRORS.too_large);
+      return;
+    }
+    const prepared = await scrubOutgoing(file);
+    if (prepared) setPendingFile(prepared);
   };
 
+  const canSend = (!!inputText.trim() || !!pendingFile) && !isUploading;
+  const showMic = isAttachmentSupported() && !inputText.trim() && !pendingFile;
+
   if (!group) {
     return (
       <ThemedView style={styles.container}>
@@ -233,6 +460,8 @@ export default function GroupThreadScreen() {
             message={item}
             isOwn={item.senderId === identity?.id}
             senderName={getSenderName(item.senderId)}
+            senderPublicKey={group.members.find((m) => m.id === item.senderId)?.publicKey}
+            identity={identity}
             currentTime={currentTime}
           />
         )}
@@ -254,32 +483,114 @@ export default function GroupThreadScreen() {
         }
       />
 
-      <View style={[styles.inputContainer, { paddingBottom: insets.bottom + Spacing.sm }]}>
-        <TextInput
-          style={styles.input}
-          value={inputText}
-          onChangeText={setInputText}
-          placeholder="Type a message..."
-          placeholderTextColor={Colors.dark.textDisabled}
-          multiline
-          maxLength={2000}
-        />
-        <Pressable
-          onPress={handleSend}
-          disabled={!inputText.trim()}
-          style={({ pressed }) => [
-            styles.sendButton,
-            !inputText.trim() && styles.sendButtonDisabled,
-            pressed && styles.sendButtonPressed,
-          ]}
-        >
-          <Feather
-            name="send"
-            size={20}
-            color={inputText.trim() ? Colors.dark.buttonText : Colors.dark.textDisabled}
-          />
-        </Pressable>
-      </View>
+      {group && !isMember ? (
+        <View style={[styles.removedNotice, { paddingBottom: insets.bottom + Spacing.md }]}>
+          <ThemedText style={styles.removedNoticeText}>
+            You can no longer send messages to this group because you are not a member.
+          </ThemedText>
+        </View>
+      ) : (
+        <>
+          {pendingFile ? (
+            <AttachmentPreview
+              file={pendingFile}
+              isUploading={isUploading}
+              onRemove={() => {
+                discardScrubbedCopy(pendingFile);
+                setPendingFile(null);
+              }}
+            />
+          ) : null}
+          <View style={[styles.inputContainer, { paddingBottom: insets.bottom + Spacing.sm }]}>
+            {isAttachmentSupported() ? (
+              <Pressable
+                onPress={() => setAttachMenuVisible(true)}
+                disabled={isUploading}
+                style={({ pressed }) => [styles.attachButton, pressed && styles.sendButtonPressed]}
+              >
+                <Feather name="paperclip" size={20} color={Colors.dark.textSecondary} />
+              </Pressable>
+            ) : null}
+            {voiceRecorder.isRecording ? (
+              <View style={styles.recordingIndicator}>
+                <View style={styles.recordingDot} />
+                <ThemedText style={styles.recordingText}>
+                  {formatDuration(voiceRecorder.duration)} · Release to send
+                </ThemedText>
+              </View>
+            ) : (
+              <TextInput
+                style={styles.input}
+                value={inputText}
+                onChangeText={(text) => {
+                  setInputText(text);
+                  if (text.trim()) {
+                    notifyTyping();
+                  }
+                }}
+                placeholder={
+                  isUploading && !pendingFile
+                    ? "Sending voice message..."
+                    : pendingFile
+                      ? "Add a caption..."
+                      : "Type a message..."
+                }
+                placeholderTextColor={Colors.dark.textDisabled}
+                editable={!isUploading}
+                multiline
+                maxLength={2000}
+              />
+            )}
+            {showMic ? (
+              <Pressable
+                onPressIn={handleRecordStart}
+                onPressOut={handleRecordEnd}
+                disabled={isUploading}
+                style={({ pressed }) => [
+                  styles.sendButton,
+                  voiceRecorder.isRecording && styles.recordButtonActive,
+                  isUploading && styles.sendButtonDisabled,
+                  pressed && styles.sendButtonPressed,
+                ]}
+              >
+                <Feather
+                  name="mic"
+                  size={20}
+                  color={isUploading ? Colors.dark.textDisabled : Colors.dark.buttonText}
+                />
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={handleSend}
+                disabled={!canSend}
+                style={({ pressed }) => [
+                  styles.sendButton,
+                  !canSend && styles.sendButtonDisabled,
+                  pressed && styles.sendButtonPressed,
+                ]}
+              >
+                <Feather
+                  name="send"
+                  size={20}
+                  color={canSend ? Colors.dark.buttonText : Colors.dark.textDisabled}
+                />
+              </Pressable>
+            )}
+          </View>
+        </>
+      )}
+
+      <ActionSheet
+        visible={attachMenuVisible}
+        onClose={() => setAttachMenuVisible(false)}
+        title="Send Attachment"
+        message="Files are encrypted on this device before they are uploaded."
+        options={[
+          { text: "Photo", onPress: () => pickAttachment(pickImage) },
+          { text: "File", onPress: () => pickAttachment(pickDocument) },
+          { text: "Cancel", style: "cancel", onPress: () => {} },
+        ]}
+      />
     </ThemedView>
   );
 }
@@ -358,6 +669,12 @@ const styles = StyleSheet.create({
     alignItems: "center",
     marginRight: 6,
   },
+  statusIcon: {
+    marginLeft: 4,
+  },
+  lockIcon: {
+    marginRight: 4,
+  },
   timerText: {
     fontSize: 10,
     fontWeight: "600",
@@ -375,6 +692,18 @@ const styles = StyleSheet.create({
     marginTop: Spacing.md,
     textAlign: "center",
   },
+  removedNotice: {
+    paddingHorizontal: Spacing.lg,
+    paddingTop: Spacing.md,
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderTopWidth: 1,
+    borderTopColor: Colors.dark.border,
+  },
+  removedNoticeText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+  },
   inputContainer: {
     flexDirection: "row",
     alignItems: "flex-end",
@@ -395,6 +724,13 @@ const styles = StyleSheet.create({
     maxHeight: 120,
     marginRight: Spacing.sm,
   },
+  attachButton: {
+    width: 36,
+    height: 44,
+    alignItems: "center",
+    justifyContent: "center",
+    marginRight: Spacing.xs,
+  },
   sendButton: {
     width: 44,
     height: 44,
@@ -409,4 +745,26 @@ const styles = StyleSheet.create({
   sendButtonPressed: {
     opacity: 0.8,
   },
+  recordButtonActive: {
+    backgroundColor: Colors.dark.error,
+  },
+  recordingIndicator: {
+    flex: 1,
+    minHeight: 44,
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    marginRight: Spacing.sm,
+  },
+  recordingDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    backgroundColor: Colors.dark.error,
+    marginRight: Spacing.sm,
+  },
+  recordingText: {
+    fontSize: 15,
+    color: Colors.dark.text,
+  },
 });
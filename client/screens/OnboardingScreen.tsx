@@ -1,10 +1,14 @@
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import {
   View,
   StyleSheet,
   Pressable,
   Dimensions,
   Platform,
+  Alert,
+  Modal,
+  TextInput,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import Animated, {
@@ -18,8 +22,21 @@ import Animated, {
 import { Feather } from "@expo/vector-icons";
 import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
-import { Colors, Spacing, BorderRadius } from "@/constants/theme";
+import QRCameraView from "@/components/QRCameraView";
+import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { setOnboardingComplete } from "@/lib/storage";
+import {
+  applyBackupPayload,
+  isBackupSupported,
+  pickBackupFile,
+  restoreBackup,
+  type BackupPayload,
+} from "@/lib/backup";
+import {
+  joinTransfer,
+  parseTransferUri,
+  type TransferFailure,
+} from "@/lib/transfer";
 import { useLanguage } from "@/constants/language";
 
 const { width } = Dimensions.get("window");
@@ -40,6 +57,62 @@ export default function OnboardingScreen({ onComplete }: OnboardingScreenProps)
   const { language } = useLanguage();
   const [currentIndex, setCurrentIndex] = useState(0);
   const progress = useSharedValue(0);
+  const [backupArchive, setBackupArchive] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState("");
+  const [restoring, setRestoring] = useState(false);
+  const [scanningTransfer, setScanningTransfer] = useState(false);
+  const [transferScanned, setTransferScanned] = useState(false);
+  const [receivingTransfer, setReceivingTransfer] = useState(false);
+  const [transferProgress, setTransferProgress] = useState({ done: 0, total: 0 });
+  const [transferPayload, setTransferPayload] = useState<BackupPayload | null>(null);
+  const [transferFingerprint, setTransferFingerprint] = useState("");
+  const [transferPassphrase, setTransferPassphrase] = useState("");
+  const [applyingTransfer, setApplyingTransfer] = useState(false);
+  const cancelTransferRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    return () => cancelTransferRef.current?.();
+  }, []);
+
+  const t = {
+    restoreFromBackup: language === "tr" ? "Yedekten Geri Yükle" : "Restore from backup",
+    restoreDesc: language === "tr"
+      ? "Bu cihazdaki tüm veriler yedekteki kimlik, kişiler ve sohbetlerle değiştirilecek. Yedeği oluştururken kullandığınız parolayı girin."
+      : "Everything on this device will be replaced with the identity, contacts and chats in the backup. Enter the passphrase you used when creating it.",
+    passphrase: language === "tr" ? "Parola" : "Passphrase",
+    cancel: language === "tr" ? "İptal" : "Cancel",
+    restore: language === "tr" ? "Geri Yükle" : "Restore",
+    error: language === "tr" ? "Hata" : "Error",
+    invalidArchive: language === "tr"
+      ? "Bu dosya bir CipherNode yedeği değil"
+      : "This file is not a CipherNode backup",
+    unsupportedVersion: language === "tr"
+      ? "Bu yedek uygulamanın daha yeni bir sürümüyle oluşturulmuş. Önce uygulamayı güncelleyin."
+      : "This backup was made by a newer version of the app. Update the app first.",
+    wrongPassphrase: language === "tr" ? "Parola yanlış" : "Incorrect passphrase",
+    backupUnavailable: language === "tr"
+      ? "Yedekleme yalnızca mobil uygulamada kullanılabilir"
+      : "Backups are only available in the mobile app",
+    transferFromDevice: language === "tr" ? "Eski cihazdan aktar" : "Transfer from old device",
+    scanTransferCode: language === "tr"
+      ? "Eski cihazda Güvenlik > Yeni Cihaza Aktar ekranındaki kodu tarayın"
+      : "Scan the code under Security > Transfer to New Device on your old device",
+    invalidTransferCode: language === "tr"
+      ? "Bu QR kodu bir CipherNode aktarım kodu değil"
+      : "This QR code is not a CipherNode transfer code",
+    ok: language === "tr" ? "Tamam" : "OK",
+    receivingAccount: language === "tr" ? "Hesap alınıyor" : "Receiving account",
+    confirmTransfer: language === "tr"
+      ? "Eski cihazınızın aynı parmak izini gösterdiğini kontrol edin, ardından hesabın parolasını girin. Bu cihazdaki tüm veriler değiştirilecek."
+      : "Check that your old device shows the same fingerprint, then enter the account's passphrase. Everything on this device will be replaced.",
+    confirm: language === "tr" ? "Onayla" : "Confirm",
+    transferFailed: language === "tr" ? "Aktarım başarısız oldu" : "The transfer failed",
+    transferPeerLeft: language === "tr" ? "Eski cihazın bağlantısı kesildi" : "The old device disconnected",
+    transferNotFound: language === "tr"
+      ? "Bu aktarım kodu artık geçerli değil. Eski cihazda yeni bir kod oluşturun."
+      : "This transfer code is no longer valid. Start a new transfer on the old device.",
+    transferNetwork: language === "tr" ? "Sunucuya bağlanılamadı" : "Could not reach the relay",
+  };
 
   const slides: SlideData[] = [
     {
@@ -95,6 +168,138 @@ export default function OnboardingScreen({ onComplete }: OnboardingScreenProps)
     onComplete();
   };
 
+  const handlePickBackup = async () => {
+    if (!isBackupSupported()) {
+      Alert.alert(t.error, t.backupUnavailable);
+      return;
+    }
+    const archive = await pickBackupFile();
+    if (archive) setBackupArchive(archive);
+  };
+
+  const closeRestoreModal = () => {
+    setBackupArchive(null);
+    setRestorePassphrase("");
+  };
+
+  const handleRestore = async () => {
+    if (!backupArchive) return;
+    setRestoring(true);
+    const result = await restoreBackup(backupArchive, restorePassphrase).catch((error) => {
+      console.error("Restore failed:", error);
+      return { restored: false as const, reason: "invalid_archive" as const };
+    });
+    setRestoring(false);
+
+    if (!result.restored) {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+      if (result.reason === "wrong_passphrase") {
+        Alert.alert(t.error, t.wrongPassphrase);
+      } else {
+        closeRestoreModal();
+        Alert.alert(
+          t.error,
+          result.reason === "unsupported_version" ? t.unsupportedVersion : t.invalidArchive
+        );
+      }
+      return;
+    }
+
+    closeRestoreModal();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    // The restored identity is already unlocked, so the app goes straight in.
+    onComplete();
+  };
+
+  const openTransferScanner = () => {
+    if (!isBackupSupported()) {
+      Alert.alert(t.error, t.backupUnavailable);
+      return;
+    }
+    setTransferScanned(false);
+    setScanningTransfer(true);
+  };
+
+  const closeTransfer = () => {
+    cancelTransferRef.current?.();
+    cancelTransferRef.current = null;
+    setReceivingTransfer(false);
+    setTransferPayload(null);
+    setTransferFingerprint("");
+    setTransferPassphrase("");
+  };
+
+  const handleTransferError = (error: TransferFailure) => {
+    closeTransfer();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+    Alert.alert(
+      t.error,
+      error === "peer_left"
+        ? t.transferPeerLeft
+        : error === "not_found" || error === "session_taken"
+          ? t.transferNotFound
+          : error === "network"
+            ? t.transferNetwork
+            : t.transferFailed
+    );
+  };
+
+  const handleTransferScanned = (data: string) => {
+    setTransferScanned(true);
+    const invite = parseTransferUri(data);
+    if (!invite) {
+      Alert.alert(t.error, t.invalidTransferCode, [
+        { text: t.ok, onPress: () => setTransferScanned(false) },
+      ]);
+      return;
+    }
+
+    setScanningTransfer(false);
+    setTransferProgress({ done: 0, total: 0 });
+    setReceivingTransfer(true);
+    cancelTransferRef.current = joinTransfer(invite, {
+      onProgress: (done, total) => setTransferProgress({ done, total }),
+      onReceived: (payload, fingerprint) => {
+        setReceivingTransfer(false);
+        setTransferPayload(payload);
+        setTransferFingerprint(fingerprint);
+      },
+      onError: handleTransferError,
+    });
+  };
+
+  const handleApplyTransfer = async () => {
+    if (!transferPayload) return;
+    setApplyingTransfer(true);
+    const identity = await applyBackupPayload(transferPayload, transferPassphrase).catch(
+      (error) => {
+        console.error("Transfer apply failed:", error);
+        return null;
+      }
+    );
+    setApplyingTransfer(false);
+
+    if (!identity) {
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+      Alert.alert(t.error, t.wrongPassphrase);
+      return;
+    }
+
+    closeTransfer();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    onComplete();
+  };
+
   const dotAnimatedStyle = (index: number) =>
     useAnimatedStyle(() => {
       const scale = interpolate(
@@ -171,7 +376,127 @@ export default function OnboardingScreen({ onComplete }: OnboardingScreenProps)
             color={Colors.dark.buttonText}
           />
         </Pressable>
+
+        <Pressable onPress={handlePickBackup} style={styles.restoreButton}>
+          <Feather name="upload" size={16} color={Colors.dark.textSecondary} />
+          <ThemedText style={styles.restoreText}>{t.restoreFromBackup}</ThemedText>
+        </Pressable>
+
+        <Pressable onPress={openTransferScanner} style={styles.restoreButton}>
+          <Feather name="smartphone" size={16} color={Colors.dark.textSecondary} />
+          <ThemedText style={styles.restoreText}>{t.transferFromDevice}</ThemedText>
+        </Pressable>
       </View>
+
+      <Modal visible={backupArchive !== null} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>{t.restoreFromBackup}</ThemedText>
+            <ThemedText style={styles.modalText}>{t.restoreDesc}</ThemedText>
+            <TextInput
+              style={styles.modalInput}
+              value={restorePassphrase}
+              onChangeText={setRestorePassphrase}
+              placeholder={t.passphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closeRestoreModal}
+                disabled={restoring}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleRestore}
+                disabled={restoring || !restorePassphrase}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                {restoring ? (
+                  <ActivityIndicator color={Colors.dark.text} />
+                ) : (
+                  <ThemedText style={styles.modalButtonText}>{t.restore}</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={scanningTransfer} animationType="slide">
+        <QRCameraView
+          title={t.transferFromDevice}
+          hint={t.scanTransferCode}
+          onScan={transferScanned ? undefined : handleTransferScanned}
+          onClose={() => setScanningTransfer(false)}
+        />
+      </Modal>
+
+      <Modal
+        visible={receivingTransfer || transferPayload !== null}
+        transparent
+        animationType="fade"
+      >
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>{t.transferFromDevice}</ThemedText>
+            {transferPayload ? (
+              <>
+                <ThemedText style={styles.fingerprint}>
+                  {transferFingerprint.replace(/(.{4})/g, "$1 ").trim()}
+                </ThemedText>
+                <ThemedText style={styles.modalText}>{t.confirmTransfer}</ThemedText>
+                <TextInput
+                  style={styles.modalInput}
+                  value={transferPassphrase}
+                  onChangeText={setTransferPassphrase}
+                  placeholder={t.passphrase}
+                  placeholderTextColor={Colors.dark.textDisabled}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            ) : (
+              <View style={styles.transferProgress}>
+                <ActivityIndicator color={Colors.dark.primary} />
+                <ThemedText style={styles.modalText}>
+                  {t.receivingAccount}
+                  {transferProgress.total > 0
+                    ? ` (${transferProgress.done}/${transferProgress.total})`
+                    : ""}
+                </ThemedText>
+              </View>
+            )}
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closeTransfer}
+                disabled={applyingTransfer}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+              </Pressable>
+              {transferPayload ? (
+                <Pressable
+                  onPress={handleApplyTransfer}
+                  disabled={applyingTransfer || !transferPassphrase}
+                  style={[styles.modalButton, styles.modalButtonPrimary]}
+                >
+                  {applyingTransfer ? (
+                    <ActivityIndicator color={Colors.dark.text} />
+                  ) : (
+                    <ThemedText style={styles.modalButtonText}>{t.confirm}</ThemedText>
+                  )}
+                </Pressable>
+              ) : null}
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 }
@@ -252,4 +577,82 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: Colors.dark.buttonText,
   },
+  restoreButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.sm,
+    gap: Spacing.sm,
+  },
+  restoreText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    width: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    color: Colors.dark.text,
+  },
+  modalText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  modalInput: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    fontSize: 16,
+    color: Colors.dark.text,
+    marginBottom: Spacing.md,
+  },
+  fingerprint: {
+    fontSize: 12,
+    fontFamily: Fonts?.mono,
+    color: Colors.dark.text,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    padding: Spacing.md,
+    borderRadius: BorderRadius.xs,
+    marginBottom: Spacing.lg,
+  },
+  transferProgress: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.dark.secondary,
+  },
+  modalButtonSecondary: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
 });
@@ -1,54 +1,31 @@
 import React, { useState } from "react";
-import {
-  View,
-  StyleSheet,
-  Pressable,
-  Platform,
-  Alert,
-} from "react-native";
-import { useNavigation, CommonActions } from "@react-navigation/native";
-import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { CameraView, useCameraPermissions } from "expo-camera";
-import { Feather } from "@expo/vector-icons";
+import { Platform, Alert } from "react-native";
+import { useNavigation, CommonActions, StackActions } from "@react-navigation/native";
 import * as Haptics from "expo-haptics";
-import * as Linking from "expo-linking";
-import { ThemedText } from "@/components/ThemedText";
-import { ThemedView } from "@/components/ThemedView";
-import { Colors, Spacing, BorderRadius } from "@/constants/theme";
-import { addContact, getContacts } from "@/lib/storage";
+import QRCameraView from "@/components/QRCameraView";
+import {
+  addContact,
+  getContact,
+  setContactVerified,
+  recordContactKeyChange,
+  acceptContactKeyChange,
+} from "@/lib/storage";
+import { getKeyFingerprint } from "@/lib/crypto";
+import { verifyContactCard } from "@/lib/contactCard";
+import { isGroupInviteUri } from "@/lib/groupInvites";
 import { useIdentity } from "@/hooks/useIdentity";
 import { useLanguage } from "@/constants/language";
 
 export default function QRScannerScreen() {
   const navigation = useNavigation();
-  const insets = useSafeAreaInsets();
   const { identity } = useIdentity();
   const { language } = useLanguage();
-  const [permission, requestPermission] = useCameraPermissions();
   const [scanned, setScanned] = useState(false);
 
   const t = {
-    loadingCamera: language === "tr" ? "Kamera yukleniyor..." : "Loading camera...",
-    cameraAccessRequired: language === "tr" ? "Kamera Erişimi Gerekli" : "Camera Access Required",
-    enableCameraInSettings: language === "tr" 
-      ? "QR kodlari taramak icin Ayarlar'dan kamera erisimini etkinlestirin"
-      : "Please enable camera access in Settings to scan QR codes",
-    openSettings: language === "tr" ? "Ayarlari Ac" : "Open Settings",
-    goBack: language === "tr" ? "Geri Don" : "Go Back",
-    cameraPermission: language === "tr" ? "Kamera Izni" : "Camera Permission",
-    needCameraAccess: language === "tr" 
-      ? "QR kodlari taramak icin kamera erisimi gerekiyor"
-      : "We need camera access to scan QR codes",
-    enableCamera: language === "tr" ? "Kamerayi Etkinlestir" : "Enable Camera",
     cancel: language === "tr" ? "Iptal" : "Cancel",
-    useExpoGo: language === "tr" ? "Expo Go Kullanin" : "Use Expo Go",
-    qrScanningBest: language === "tr" 
-      ? "QR tarama mobilde en iyi calisir. QR kodlari taramak icin bu uygulamayi Expo Go'da acin."
-      : "QR scanning is best on mobile. Open this app in Expo Go to scan QR codes.",
     error: language === "tr" ? "Hata" : "Error",
     cannotAddSelf: language === "tr" ? "Kendinizi kisi olarak ekleyemezsiniz" : "You cannot add yourself as a contact",
-    alreadyAdded: language === "tr" ? "Zaten Ekli" : "Already Added",
-    alreadyAddedMsg: language === "tr" ? "Bu kisi zaten listenizde" : "This contact is already in your list",
     success: language === "tr" ? "Basarili" : "Success",
     contactAdded: language === "tr" ? "Kisi basariyla eklendi" : "Contact added successfully",
     ok: language === "tr" ? "Tamam" : "OK",
@@ -56,41 +33,107 @@ export default function QRScannerScreen() {
     invalidQRMsg: language === "tr" 
       ? "Bu QR kodu gecerli bir CipherNode kisisi degil"
       : "This QR code is not a valid CipherNode contact",
+    forgedQRMsg: language === "tr"
+      ? "Bu kisi kartinin imzasi veya ID'si dogrulanamadi. Kart degistirilmis olabilir."
+      : "This contact card's signature or ID does not check out. It may have been tampered with.",
     scanQR: language === "tr" ? "QR Kod Tara" : "Scan QR Code",
     positionQR: language === "tr" 
       ? "QR kodu cerceve icine yerlestirin"
       : "Position QR code within the frame",
+    verified: language === "tr" ? "Dogrulandi" : "Verified",
+    verifiedMsg: language === "tr"
+      ? "Bu kisinin anahtari kayitli anahtarla eslesiyor ve dogrulandi olarak isaretlendi"
+      : "This contact's key matches the one you have saved and is now marked as verified",
+    keyMismatch: language === "tr" ? "Anahtar Uyusmuyor" : "Key Mismatch",
+    keyMismatchMsg: language === "tr"
+      ? "Taranan anahtar bu kisi icin kayitli anahtardan farkli. Yalnizca kisinin kendi cihazindan taradiysaniz guvenin."
+      : "The scanned key differs from the one saved for this contact. Only trust it if you scanned it from their own device.",
+    trustScannedKey: language === "tr" ? "Taranan Anahtara Guven" : "Trust Scanned Key",
+  };
+
+  // Checks a scanned contact against the key already pinned for them.
+  const verifyExistingContact = async (
+    contactId: string,
+    publicKey: string,
+    fingerprint: string,
+    pinnedPublicKey: string
+  ) => {
+    if ((await getKeyFingerprint(pinnedPublicKey)) === fingerprint) {
+      await setContactVerified(contactId, true);
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      Alert.alert(t.verified, t.verifiedMsg, [
+        { text: t.ok, onPress: () => navigation.goBack() },
+      ]);
+      return;
+    }
+
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    Alert.alert(t.keyMismatch, t.keyMismatchMsg, [
+      { text: t.cancel, style: "cancel", onPress: () => navigation.goBack() },
+      {
+        text: t.trustScannedKey,
+        style: "destructive",
+        onPress: async () => {
+          await recordContactKeyChange(contactId, publicKey, fingerprint);
+          await acceptContactKeyChange(contactId);
+          await setContactVerified(contactId, true);
+          navigation.goBack();
+        },
+      },
+    ]);
   };
 
-  const handleBarCodeScanned = async ({ data }: { data: string }) => {
+  const handleBarCodeScanned = async (data: string) => {
     if (scanned) return;
     setScanned(true);
 
+    // Group invites get their own preview; the join is confirmed there.
+    if (isGroupInviteUri(data)) {
+      navigation.dispatch(StackActions.replace("GroupInvite", { invite: data }));
+      return;
+    }
+
     try {
-      const parsed = JSON.parse(data);
-      if (!parsed.id || !parsed.publicKey) {
-        throw new Error("Invalid QR code");
+      const check = await verifyContactCard(data);
+      if (!check.valid) {
+        const forged =
+          check.reason === "invalid_signature" || check.reason === "id_mismatch";
+        Alert.alert(t.invalidQR, forged ? t.forgedQRMsg : t.invalidQRMsg, [
+          { text: t.ok, onPress: () => setScanned(false) },
+        ]);
+        return;
       }
+      const { card } = check;
 
-      if (parsed.id === identity?.id) {
+      if (card.id === identity?.id) {
         Alert.alert(t.error, t.cannotAddSelf);
         setScanned(false);
         return;
       }
 
-      const contacts = await getContacts();
-      if (contacts.some((c) => c.id === parsed.id)) {
-        Alert.alert(t.alreadyAdded, t.alreadyAddedMsg);
-        navigation.goBack();
+      const existing = await getContact(card.id);
+      if (existing) {
+        await verifyExistingContact(
+          card.id,
+          card.publicKey,
+          card.fingerprint,
+          existing.publicKey
+        );
         return;
       }
 
       await addContact({
-        id: parsed.id,
-        publicKey: parsed.publicKey,
-        fingerprint: parsed.id.replace("-", "").padEnd(40, "0"),
-        displayName: "",
+        id: card.id,
+        publicKey: card.publicKey,
+        fingerprint: card.fingerprint,
+        displayName: card.displayName,
         addedAt: Date.now(),
+        // Scanned in person, so the key is known to be theirs.
+        verified: true,
       });
 
       if (Platform.OS !== "web") {
@@ -106,7 +149,7 @@ export default function QRScannerScreen() {
                 name: "ChatsTab",
                 params: {
                   screen: "ChatThread",
-                  params: { contactId: parsed.id },
+                  params: { contactId: card.id },
                 },
               })
             );
@@ -120,283 +163,12 @@ export default function QRScannerScreen() {
     }
   };
 
-  if (Platform.OS === "web") {
-    return (
-      <ThemedView style={[styles.container, styles.permissionContainer]}>
-        <Feather name="smartphone" size={64} color={Colors.dark.primary} />
-        <ThemedText style={styles.permissionTitle}>{t.useExpoGo}</ThemedText>
-        <ThemedText style={styles.permissionText}>
-          {t.qrScanningBest}
-        </ThemedText>
-        <Pressable
-          onPress={() => navigation.goBack()}
-          style={({ pressed }) => [
-            styles.closeButton,
-            pressed && styles.closeButtonPressed,
-          ]}
-        >
-          <ThemedText style={styles.closeButtonText}>{t.goBack}</ThemedText>
-        </Pressable>
-      </ThemedView>
-    );
-  }
-
-  if (!permission) {
-    return (
-      <ThemedView style={[styles.container, styles.permissionContainer]}>
-        <ThemedText>{t.loadingCamera}</ThemedText>
-      </ThemedView>
-    );
-  }
-
-  if (!permission.granted) {
-    if (permission.status === "denied" && !permission.canAskAgain) {
-      return (
-        <ThemedView style={[styles.container, styles.permissionContainer]}>
-          <Feather name="camera-off" size={64} color={Colors.dark.textSecondary} />
-          <ThemedText style={styles.permissionTitle}>{t.cameraAccessRequired}</ThemedText>
-          <ThemedText style={styles.permissionText}>
-            {t.enableCameraInSettings}
-          </ThemedText>
-          <Pressable
-            onPress={async () => {
-              try {
-                await Linking.openSettings();
-              } catch (error) {
-                console.error("Could not open settings");
-              }
-            }}
-            style={({ pressed }) => [
-              styles.settingsButton,
-              pressed && styles.settingsButtonPressed,
-            ]}
-          >
-            <ThemedText style={styles.settingsButtonText}>{t.openSettings}</ThemedText>
-          </Pressable>
-          <Pressable
-            onPress={() => navigation.goBack()}
-            style={({ pressed }) => [
-              styles.closeButton,
-              pressed && styles.closeButtonPressed,
-            ]}
-          >
-            <ThemedText style={styles.closeButtonText}>{t.goBack}</ThemedText>
-          </Pressable>
-        </ThemedView>
-      );
-    }
-
-    return (
-      <ThemedView style={[styles.container, styles.permissionContainer]}>
-        <Feather name="camera" size={64} color={Colors.dark.primary} />
-        <ThemedText style={styles.permissionTitle}>{t.cameraPermission}</ThemedText>
-        <ThemedText style={styles.permissionText}>
-          {t.needCameraAccess}
-        </ThemedText>
-        <Pressable
-          onPress={requestPermission}
-          style={({ pressed }) => [
-            styles.permissionButton,
-            pressed && styles.permissionButtonPressed,
-          ]}
-        >
-          <ThemedText style={styles.permissionButtonText}>{t.enableCamera}</ThemedText>
-        </Pressable>
-        <Pressable
-          onPress={() => navigation.goBack()}
-          style={({ pressed }) => [
-            styles.closeButton,
-            pressed && styles.closeButtonPressed,
-          ]}
-        >
-          <ThemedText style={styles.closeButtonText}>{t.cancel}</ThemedText>
-        </Pressable>
-      </ThemedView>
-    );
-  }
-
   return (
-    <View style={styles.container}>
-      <CameraView
-        style={StyleSheet.absoluteFill}
-        barcodeScannerSettings={{
-          barcodeTypes: ["qr"],
-        }}
-        onBarcodeScanned={scanned ? undefined : handleBarCodeScanned}
-      />
-
-      <View style={[styles.overlay, { paddingTop: insets.top }]}>
-        <View style={styles.header}>
-          <Pressable
-            onPress={() => navigation.goBack()}
-            style={({ pressed }) => [
-              styles.backButton,
-              pressed && styles.backButtonPressed,
-            ]}
-          >
-            <Feather name="x" size={24} color={Colors.dark.text} />
-          </Pressable>
-          <ThemedText style={styles.title}>{t.scanQR}</ThemedText>
-          <View style={styles.placeholder} />
-        </View>
-
-        <View style={styles.scanArea}>
-          <View style={styles.corner} />
-          <View style={[styles.corner, styles.cornerTopRight]} />
-          <View style={[styles.corner, styles.cornerBottomLeft]} />
-          <View style={[styles.corner, styles.cornerBottomRight]} />
-        </View>
-
-        <ThemedText style={styles.hint}>
-          {t.positionQR}
-        </ThemedText>
-      </View>
-    </View>
+    <QRCameraView
+      title={t.scanQR}
+      hint={t.positionQR}
+      onScan={scanned ? undefined : handleBarCodeScanned}
+      onClose={() => navigation.goBack()}
+    />
   );
 }
-
-const styles = StyleSheet.create({
-  container: {
-    flex: 1,
-    backgroundColor: Colors.dark.backgroundRoot,
-  },
-  permissionContainer: {
-    justifyContent: "center",
-    alignItems: "center",
-    paddingHorizontal: Spacing["3xl"],
-  },
-  permissionTitle: {
-    fontSize: 24,
-    fontWeight: "600",
-    color: Colors.dark.text,
-    marginTop: Spacing.xl,
-    marginBottom: Spacing.md,
-  },
-  permissionText: {
-    fontSize: 16,
-    color: Colors.dark.textSecondary,
-    textAlign: "center",
-    marginBottom: Spacing.xl,
-  },
-  permissionButton: {
-    backgroundColor: Colors.dark.primary,
-    paddingHorizontal: Spacing["3xl"],
-    paddingVertical: Spacing.md,
-    borderRadius: BorderRadius.sm,
-    marginBottom: Spacing.lg,
-  },
-  permissionButtonPressed: {
-    opacity: 0.8,
-  },
-  permissionButtonText: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: Colors.dark.buttonText,
-  },
-  settingsButton: {
-    backgroundColor: Colors.dark.primary,
-    paddingHorizontal: Spacing["3xl"],
-    paddingVertical: Spacing.md,
-    borderRadius: BorderRadius.sm,
-    marginBottom: Spacing.lg,
-  },
-  settingsButtonPressed: {
-    opacity: 0.8,
-  },
-  settingsButtonText: {
-    fontSize: 16,
-    fontWeight: "600",
-    color: Colors.dark.buttonText,
-  },
-  closeButton: {
-    paddingHorizontal: Spacing.xl,
-    paddingVertical: Spacing.md,
-  },
-  closeButtonPressed: {
-    opacity: 0.6,
-  },
-  closeButtonText: {
-    fontSize: 16,
-    color: Colors.dark.textSecondary,
-  },
-  overlay: {
-    ...StyleSheet.absoluteFillObject,
-    justifyContent: "space-between",
-    alignItems: "center",
-    paddingBottom: Spacing["5xl"],
-  },
-  header: {
-    flexDirection: "row",
-    alignItems: "center",
-    justifyContent: "space-between",
-    width: "100%",
-    paddingHorizontal: Spacing.lg,
-    paddingVertical: Spacing.md,
-  },
-  backButton: {
-    width: 44,
-    height: 44,
-    borderRadius: 22,
-    backgroundColor: "rgba(0,0,0,0.5)",
-    alignItems: "center",
-    justifyContent: "center",
-  },
-  backButtonPressed: {
-    opacity: 0.7,
-  },
-  title: {
-    fontSize: 18,
-    fontWeight: "600",
-    color: Colors.dark.text,
-  },
-  placeholder: {
-    width: 44,
-  },
-  scanArea: {
-    width: 250,
-    height: 250,
-    position: "relative",
-  },
-  corner: {
-    position: "absolute",
-    width: 40,
-    height: 40,
-    borderColor: Colors.dark.primary,
-    borderTopWidth: 4,
-    borderLeftWidth: 4,
-    top: 0,
-    left: 0,
-  },
-  cornerTopRight: {
-    top: 0,
-    left: undefined,
-    right: 0,
-    borderLeftWidth: 0,
-    borderRightWidth: 4,
-  },
-  cornerBottomLeft: {
-    top: undefined,
-    bottom: 0,
-    borderTopWidth: 0,
-    borderBottomWidth: 4,
-  },
-  cornerBottomRight: {
-    top: undefined,
-    left: undefined,
-    bottom: 0,
-    right: 0,
-    borderTopWidth: 0,
-    borderLeftWidth: 0,
-    borderBottomWidth: 4,
-    borderRightWidth: 4,
-  },
-  hint: {
-    fontSize: 16,
-    color: Colors.dark.text,
-    textAlign: "center",
-    backgroundColor: "rgba(0,0,0,0.5)",
-    paddingHorizontal: Spacing.xl,
-    paddingVertical: Spacing.md,
-    borderRadius: BorderRadius.sm,
-  },
-});
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import {
   View,
   ScrollView,
@@ -6,6 +6,9 @@ import {
   Pressable,
   Alert,
   Platform,
+  Modal,
+  TextInput,
+  ActivityIndicator,
 } from "react-native";
 import { useNavigation } from "@react-navigation/native";
 import { useHeaderHeight } from "@react-navigation/elements";
@@ -13,11 +16,31 @@ import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Feather } from "@expo/vector-icons";
 import * as Clipboard from "expo-clipboard";
 import * as Haptics from "expo-haptics";
+import QRCode from "react-native-qrcode-svg";
 import { ThemedText } from "@/components/ThemedText";
 import { ThemedView } from "@/components/ThemedView";
 import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { useIdentity } from "@/hooks/useIdentity";
 import { clearAllData } from "@/lib/storage";
+import { deleteAllAttachmentFiles } from "@/lib/attachments";
+import { isLegacyRsaKey } from "@/lib/crypto";
+import {
+  changePassphrase,
+  migrateIdentityKey,
+  MIN_PASSPHRASE_LENGTH,
+} from "@/lib/keystore";
+import {
+  buildBackupPayload,
+  createBackup,
+  isBackupSupported,
+  shareBackup,
+} from "@/lib/backup";
+import {
+  createTransferInvite,
+  createTransferUri,
+  hostTransfer,
+  type TransferFailure,
+} from "@/lib/transfer";
 import { useLanguage } from "@/constants/language";
 
 export default function SecuritySettingsScreen() {
@@ -28,6 +51,39 @@ export default function SecuritySettingsScreen() {
   const { language } = useLanguage();
 
   const [showFingerprint, setShowFingerprint] = useState(false);
+  const [showPassphraseModal, setShowPassphraseModal] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState("");
+  const [newPassphrase, setNewPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [changingPassphrase, setChangingPassphrase] = useState(false);
+  const [legacyKey, setLegacyKey] = useState(false);
+  const [showMigrateModal, setShowMigrateModal] = useState(false);
+  const [migratePassphrase, setMigratePassphrase] = useState("");
+  const [migrating, setMigrating] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [backupPassphrase, setBackupPassphrase] = useState("");
+  const [exportingBackup, setExportingBackup] = useState(false);
+  const [transferStage, setTransferStage] = useState<
+    "passphrase" | "waiting" | "sending" | "received" | null
+  >(null);
+  const [transferPassphrase, setTransferPassphrase] = useState("");
+  const [preparingTransfer, setPreparingTransfer] = useState(false);
+  const [transferUri, setTransferUri] = useState("");
+  const [transferProgress, setTransferProgress] = useState({ done: 0, total: 0 });
+  const [receivedFingerprint, setReceivedFingerprint] = useState("");
+  const cancelTransferRef = useRef<(() => void) | null>(null);
+
+  // Leaving the screen hangs up on the relay, which ends the session.
+  useEffect(() => {
+    return () => cancelTransferRef.current?.();
+  }, []);
+
+  useEffect(() => {
+    if (!identity?.publicKey) return;
+    isLegacyRsaKey(identity.publicKey)
+      .then(setLegacyKey)
+      .catch(() => setLegacyKey(false));
+  }, [identity?.publicKey]);
 
   const t = {
     encryptionStatus: language === "tr" ? "Şifreleme Durumu" : "Encryption Status",
@@ -51,8 +107,73 @@ export default function SecuritySettingsScreen() {
       : "This will create a new identity and delete all your contacts and messages. This action cannot be undone.\n\nAre you sure you want to continue?",
     cancel: language === "tr" ? "İptal" : "Cancel",
     regenerate: language === "tr" ? "Yeniden Oluştur" : "Regenerate",
+    changePassphrase: language === "tr" ? "Parolayı Değiştir" : "Change Passphrase",
+    changePassphraseDesc: language === "tr" ? "Özel anahtarınızı koruyan parolayı değiştirin" : "Change the passphrase that encrypts your private key",
+    currentPassphrase: language === "tr" ? "Mevcut parola" : "Current passphrase",
+    newPassphrase: language === "tr" ? "Yeni parola" : "New passphrase",
+    confirmPassphrase: language === "tr" ? "Yeni parolayı onayla" : "Confirm new passphrase",
+    save: language === "tr" ? "Kaydet" : "Save",
+    error: language === "tr" ? "Hata" : "Error",
+    wrongPassphrase: language === "tr" ? "Mevcut parola yanlış" : "Current passphrase is incorrect",
+    tooShort: language === "tr"
+      ? `Parola en az ${MIN_PASSPHRASE_LENGTH} karakter olmalı`
+      : `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+    mismatch: language === "tr" ? "Parolalar eşleşmiyor" : "Passphrases do not match",
     success: language === "tr" ? "Başarılı" : "Success",
-    newIdentityGenerated: language === "tr" ? "Yeni kimlik oluşturuldu" : "New identity has been generated",
+    passphraseChanged: language === "tr" ? "Parolanız değiştirildi" : "Your passphrase has been changed",
+    upgradeKey: language === "tr" ? "Anahtarı Yükselt" : "Upgrade Key",
+    upgradeKeyDesc: language === "tr"
+      ? "Kimliğiniz eski bir RSA anahtarı kullanıyor. Daha küçük ve hızlı bir Curve25519 anahtarına geçin; ID'niz, kişileriniz ve mesajlarınız korunur."
+      : "Your identity uses a legacy RSA key. Move to a smaller, faster Curve25519 key; your ID, contacts and messages are kept.",
+    upgradeKeyConfirm: language === "tr"
+      ? "Yeni anahtar eski anahtarınızla imzalanır ve kişilerinize bildirilir. Devam etmek için parolanızı girin."
+      : "The new key is signed with your old key and your contacts are notified. Enter your passphrase to continue.",
+    passphrase: language === "tr" ? "Parola" : "Passphrase",
+    upgrade: language === "tr" ? "Yükselt" : "Upgrade",
+    wrongMigratePassphrase: language === "tr" ? "Parola yanlış" : "Incorrect passphrase",
+    keyUpgraded: language === "tr"
+      ? "Anahtarınız yükseltildi. Kişileriniz bir sonraki bağlantıda bilgilendirilecek."
+      : "Your key has been upgraded. Your contacts will be notified the next time you connect.",
+    backup: language === "tr" ? "Yedekleme" : "Backup",
+    exportBackup: language === "tr" ? "Yedeği Dışa Aktar" : "Export Backup",
+    exportBackupDesc: language === "tr"
+      ? "Kimliğinizi, kişilerinizi, sohbetlerinizi, gruplarınızı ve ayarlarınızı yeni bir telefona taşımak için şifreli tek bir dosyaya kaydedin."
+      : "Save your identity, contacts, chats, groups and settings to a single encrypted file to move to a new phone.",
+    exportBackupConfirm: language === "tr"
+      ? "Yedek parolanızla şifrelenir ve geri yüklemek için aynı parola gerekir. Dosyayı güvenli bir yerde saklayın."
+      : "The backup is encrypted with your passphrase, and the same passphrase is needed to restore it. Keep the file somewhere safe.",
+    export: language === "tr" ? "Dışa Aktar" : "Export",
+    backupUnavailable: language === "tr"
+      ? "Yedekleme yalnızca mobil uygulamada kullanılabilir"
+      : "Backups are only available in the mobile app",
+    wrongBackupPassphrase: language === "tr" ? "Parola yanlış" : "Incorrect passphrase",
+    backupFailed: language === "tr" ? "Yedek oluşturulamadı" : "Could not create the backup",
+    transferToDevice: language === "tr" ? "Yeni Cihaza Aktar" : "Transfer to New Device",
+    transferToDeviceDesc: language === "tr"
+      ? "Hesabınızı yanınızdaki bir telefona dosya kullanmadan taşıyın. Aktarım uçtan uca şifrelenir; sunucu yalnızca okunamayan parçaları iletir."
+      : "Move your account to a phone next to you without a file. The transfer is end-to-end encrypted; the relay only passes along chunks it cannot read.",
+    transferConfirm: language === "tr"
+      ? "Devam etmek için parolanızı girin. Yeni cihazda hesabı açmak için de aynı parola gerekecek."
+      : "Enter your passphrase to continue. The new device will need the same passphrase to open the account.",
+    continue: language === "tr" ? "Devam" : "Continue",
+    scanOnNewDevice: language === "tr"
+      ? "Yeni cihazda karşılama ekranından \"Eski cihazdan aktar\" seçeneğine dokunun ve bu kodu tarayın."
+      : "On the new device, tap \"Transfer from old device\" on the welcome screen and scan this code.",
+    sendingAccount: language === "tr" ? "Hesap gönderiliyor" : "Sending account",
+    transferReceived: language === "tr" ? "Aktarım Tamamlandı" : "Transfer Complete",
+    compareFingerprint: language === "tr"
+      ? "Yeni cihaz bu parmak izini göstermeli. Aynı değilse yeni cihazda aktarımı iptal edin."
+      : "The new device should show this fingerprint. If it does not, cancel the transfer there.",
+    fingerprintMismatch: language === "tr"
+      ? "Yeni cihazın bildirdiği parmak izi sizinkiyle eşleşmiyor. Yeni cihazda aktarımı iptal edin."
+      : "The fingerprint reported by the new device does not match yours. Cancel the transfer on the new device.",
+    keepOldDevice: language === "tr"
+      ? "Bu cihazı artık kullanmayacaksanız kimliğinizi burada sıfırlayın; aynı kimlik yalnızca bir cihazda bağlı kalabilir."
+      : "If you will not use this device anymore, reset your identity here; the same identity can only stay connected on one device.",
+    done: language === "tr" ? "Tamam" : "Done",
+    transferFailed: language === "tr" ? "Aktarım başarısız oldu" : "The transfer failed",
+    transferPeerLeft: language === "tr" ? "Diğer cihazın bağlantısı kesildi" : "The other device disconnected",
+    transferNetwork: language === "tr" ? "Sunucuya bağlanılamadı" : "Could not reach the relay",
   };
 
   const handleExportPublicKey = async () => {
@@ -76,17 +197,159 @@ export default function SecuritySettingsScreen() {
           style: "destructive",
           onPress: async () => {
             await clearAllData();
+            deleteAllAttachmentFiles();
+            // The lock gate takes over from here and asks for a passphrase
+            // for the new identity.
             await regenerate();
             if (Platform.OS !== "web") {
               Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
             }
-            Alert.alert(t.success, t.newIdentityGenerated);
           },
         },
       ]
     );
   };
 
+  const closePassphraseModal = () => {
+    setShowPassphraseModal(false);
+    setCurrentPassphrase("");
+    setNewPassphrase("");
+    setConfirmPassphrase("");
+  };
+
+  const handleChangePassphrase = async () => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      Alert.alert(t.error, t.tooShort);
+      return;
+    }
+    if (newPassphrase !== confirmPassphrase) {
+      Alert.alert(t.error, t.mismatch);
+      return;
+    }
+
+    setChangingPassphrase(true);
+    const changed = await changePassphrase(currentPassphrase, newPassphrase);
+    setChangingPassphrase(false);
+
+    if (!changed) {
+      Alert.alert(t.error, t.wrongPassphrase);
+      return;
+    }
+
+    closePassphraseModal();
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    Alert.alert(t.success, t.passphraseChanged);
+  };
+
+  const closeMigrateModal = () => {
+    setShowMigrateModal(false);
+    setMigratePassphrase("");
+  };
+
+  const handleMigrateKey = async () => {
+    setMigrating(true);
+    const migrated = await migrateIdentityKey(migratePassphrase).catch((error) => {
+      console.error("Key migration failed:", error);
+      return false;
+    });
+    setMigrating(false);
+
+    if (!migrated) {
+      Alert.alert(t.error, t.wrongMigratePassphrase);
+      return;
+    }
+
+    closeMigrateModal();
+    setLegacyKey(false);
+    if (Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    Alert.alert(t.success, t.keyUpgraded);
+  };
+
+  const closeBackupModal = () => {
+    setShowBackupModal(false);
+    setBackupPassphrase("");
+  };
+
+  const handleExportBackup = async () => {
+    setExportingBackup(true);
+    try {
+      const archive = await createBackup(backupPassphrase);
+      if (!archive) {
+        Alert.alert(t.error, t.wrongBackupPassphrase);
+        return;
+      }
+      closeBackupModal();
+      await shareBackup(archive, t.exportBackup);
+    } catch (error) {
+      console.error("Backup export failed:", error);
+      Alert.alert(t.error, t.backupFailed);
+    } finally {
+      setExportingBackup(false);
+    }
+  };
+
+  const closeTransferModal = () => {
+    cancelTransferRef.current?.();
+    cancelTransferRef.current = null;
+    setTransferStage(null);
+    setTransferPassphrase("");
+    setTransferUri("");
+    setReceivedFingerprint("");
+  };
+
+  const handleTransferError = (error: TransferFailure) => {
+    closeTransferModal();
+    Alert.alert(
+      t.error,
+      error === "peer_left"
+        ? t.transferPeerLeft
+        : error === "network"
+          ? t.transferNetwork
+          : t.transferFailed
+    );
+  };
+
+  const handleStartTransfer = async () => {
+    setPreparingTransfer(true);
+    try {
+      const payload = await buildBackupPayload(transferPassphrase);
+      if (!payload) {
+        Alert.alert(t.error, t.wrongBackupPassphrase);
+        return;
+      }
+      const invite = createTransferInvite();
+      setTransferPassphrase("");
+      setTransferUri(createTransferUri(invite));
+      setTransferStage("waiting");
+      cancelTransferRef.current = hostTransfer(invite, payload, {
+        onPeerJoined: () => setTransferStage("sending"),
+        onProgress: (done, total) => setTransferProgress({ done, total }),
+        onReceived: (fingerprint) => {
+          cancelTransferRef.current = null;
+          setReceivedFingerprint(fingerprint);
+          setTransferStage("received");
+          if (Platform.OS !== "web") {
+            Haptics.notificationAsync(
+              fingerprint === identity?.fingerprint
+                ? Haptics.NotificationFeedbackType.Success
+                : Haptics.NotificationFeedbackType.Error
+            );
+          }
+        },
+        onError: handleTransferError,
+      });
+    } catch (error) {
+      console.error("Transfer setup failed:", error);
+      Alert.alert(t.error, t.transferFailed);
+    } finally {
+      setPreparingTransfer(false);
+    }
+  };
+
   const formatFingerprint = (fp: string) => {
     return fp.replace(/(.{4})/g, "$1 ").trim();
   };
@@ -112,7 +375,7 @@ export default function SecuritySettingsScreen() {
               <View>
                 <ThemedText style={styles.statusTitle}>{t.e2eEncrypted}</ThemedText>
                 <ThemedText style={styles.statusSubtitle}>
-                  AES-256 + RSA (OpenPGP)
+                  {legacyKey ? "AES-256 + RSA (OpenPGP)" : "AES-256 + Curve25519 (OpenPGP)"}
                 </ThemedText>
               </View>
             </View>
@@ -159,6 +422,44 @@ export default function SecuritySettingsScreen() {
 
         <View style={styles.section}>
           <ThemedText style={styles.sectionTitle}>{t.keyManagement}</ThemedText>
+          {legacyKey ? (
+            <View style={styles.passphraseCard}>
+              <ThemedText style={styles.dangerTitle}>{t.upgradeKey}</ThemedText>
+              <ThemedText style={styles.dangerText}>
+                {t.upgradeKeyDesc}
+              </ThemedText>
+              <Pressable
+                onPress={() => setShowMigrateModal(true)}
+                style={({ pressed }) => [
+                  styles.exportButton,
+                  pressed && styles.exportButtonPressed,
+                ]}
+              >
+                <Feather name="arrow-up-circle" size={18} color={Colors.dark.primary} />
+                <ThemedText style={styles.exportButtonText}>
+                  {t.upgradeKey}
+                </ThemedText>
+              </Pressable>
+            </View>
+          ) : null}
+          <View style={styles.passphraseCard}>
+            <ThemedText style={styles.dangerTitle}>{t.changePassphrase}</ThemedText>
+            <ThemedText style={styles.dangerText}>
+              {t.changePassphraseDesc}
+            </ThemedText>
+            <Pressable
+              onPress={() => setShowPassphraseModal(true)}
+              style={({ pressed }) => [
+                styles.exportButton,
+                pressed && styles.exportButtonPressed,
+              ]}
+            >
+              <Feather name="key" size={18} color={Colors.dark.primary} />
+              <ThemedText style={styles.exportButtonText}>
+                {t.changePassphrase}
+              </ThemedText>
+            </Pressable>
+          </View>
           <View style={styles.dangerCard}>
             <ThemedText style={styles.dangerTitle}>{t.regenerateKeys}</ThemedText>
             <ThemedText style={styles.dangerText}>
@@ -179,6 +480,54 @@ export default function SecuritySettingsScreen() {
           </View>
         </View>
 
+        <View style={styles.section}>
+          <ThemedText style={styles.sectionTitle}>{t.backup}</ThemedText>
+          <View style={styles.passphraseCard}>
+            <ThemedText style={styles.dangerTitle}>{t.exportBackup}</ThemedText>
+            <ThemedText style={styles.dangerText}>
+              {t.exportBackupDesc}
+            </ThemedText>
+            <Pressable
+              onPress={() =>
+                isBackupSupported()
+                  ? setShowBackupModal(true)
+                  : Alert.alert(t.error, t.backupUnavailable)
+              }
+              style={({ pressed }) => [
+                styles.exportButton,
+                pressed && styles.exportButtonPressed,
+              ]}
+            >
+              <Feather name="download" size={18} color={Colors.dark.primary} />
+              <ThemedText style={styles.exportButtonText}>
+                {t.exportBackup}
+              </ThemedText>
+            </Pressable>
+          </View>
+          <View style={styles.passphraseCard}>
+            <ThemedText style={styles.dangerTitle}>{t.transferToDevice}</ThemedText>
+            <ThemedText style={styles.dangerText}>
+              {t.transferToDeviceDesc}
+            </ThemedText>
+            <Pressable
+              onPress={() =>
+                isBackupSupported()
+                  ? setTransferStage("passphrase")
+                  : Alert.alert(t.error, t.backupUnavailable)
+              }
+              style={({ pressed }) => [
+                styles.exportButton,
+                pressed && styles.exportButtonPressed,
+              ]}
+            >
+              <Feather name="smartphone" size={18} color={Colors.dark.primary} />
+              <ThemedText style={styles.exportButtonText}>
+                {t.transferToDevice}
+              </ThemedText>
+            </Pressable>
+          </View>
+        </View>
+
         <View style={styles.infoSection}>
           <Feather name="info" size={18} color={Colors.dark.secondary} />
           <ThemedText style={styles.infoText}>
@@ -188,6 +537,236 @@ export default function SecuritySettingsScreen() {
           </ThemedText>
         </View>
       </ScrollView>
+
+      <Modal visible={showPassphraseModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>{t.changePassphrase}</ThemedText>
+            <TextInput
+              style={styles.modalInput}
+              value={currentPassphrase}
+              onChangeText={setCurrentPassphrase}
+              placeholder={t.currentPassphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={styles.modalInput}
+              value={newPassphrase}
+              onChangeText={setNewPassphrase}
+              placeholder={t.newPassphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <TextInput
+              style={styles.modalInput}
+              value={confirmPassphrase}
+              onChangeText={setConfirmPassphrase}
+              placeholder={t.confirmPassphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closePassphraseModal}
+                disabled={changingPassphrase}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleChangePassphrase}
+                disabled={changingPassphrase || !currentPassphrase || !newPassphrase}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                {changingPassphrase ? (
+                  <ActivityIndicator color={Colors.dark.text} />
+                ) : (
+                  <ThemedText style={styles.modalButtonText}>{t.save}</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={showMigrateModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>{t.upgradeKey}</ThemedText>
+            <ThemedText style={styles.modalText}>{t.upgradeKeyConfirm}</ThemedText>
+            <TextInput
+              style={styles.modalInput}
+              value={migratePassphrase}
+              onChangeText={setMigratePassphrase}
+              placeholder={t.passphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closeMigrateModal}
+                disabled={migrating}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleMigrateKey}
+                disabled={migrating || !migratePassphrase}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                {migrating ? (
+                  <ActivityIndicator color={Colors.dark.text} />
+                ) : (
+                  <ThemedText style={styles.modalButtonText}>{t.upgrade}</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={showBackupModal} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>{t.exportBackup}</ThemedText>
+            <ThemedText style={styles.modalText}>{t.exportBackupConfirm}</ThemedText>
+            <TextInput
+              style={styles.modalInput}
+              value={backupPassphrase}
+              onChangeText={setBackupPassphrase}
+              placeholder={t.passphrase}
+              placeholderTextColor={Colors.dark.textDisabled}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            <View style={styles.modalButtons}>
+              <Pressable
+                onPress={closeBackupModal}
+                disabled={exportingBackup}
+                style={[styles.modalButton, styles.modalButtonSecondary]}
+              >
+                <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+              </Pressable>
+              <Pressable
+                onPress={handleExportBackup}
+                disabled={exportingBackup || !backupPassphrase}
+                style={[styles.modalButton, styles.modalButtonPrimary]}
+              >
+                {exportingBackup ? (
+                  <ActivityIndicator color={Colors.dark.text} />
+                ) : (
+                  <ThemedText style={styles.modalButtonText}>{t.export}</ThemedText>
+                )}
+              </Pressable>
+            </View>
+          </View>
+        </View>
+      </Modal>
+
+      <Modal visible={transferStage !== null} transparent animationType="fade">
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContent}>
+            <ThemedText style={styles.modalTitle}>
+              {transferStage === "received" ? t.transferReceived : t.transferToDevice}
+            </ThemedText>
+            {transferStage === "passphrase" ? (
+              <>
+                <ThemedText style={styles.modalText}>{t.transferConfirm}</ThemedText>
+                <TextInput
+                  style={styles.modalInput}
+                  value={transferPassphrase}
+                  onChangeText={setTransferPassphrase}
+                  placeholder={t.passphrase}
+                  placeholderTextColor={Colors.dark.textDisabled}
+                  secureTextEntry
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+              </>
+            ) : null}
+            {transferStage === "waiting" && transferUri ? (
+              <>
+                <View style={styles.transferQR}>
+                  <QRCode
+                    value={transferUri}
+                    size={200}
+                    ecl="L"
+                    backgroundColor={Colors.dark.backgroundSecondary}
+                    color={Colors.dark.text}
+                  />
+                </View>
+                <ThemedText style={styles.modalText}>{t.scanOnNewDevice}</ThemedText>
+              </>
+            ) : null}
+            {transferStage === "sending" ? (
+              <View style={styles.transferProgress}>
+                <ActivityIndicator color={Colors.dark.primary} />
+                <ThemedText style={styles.modalText}>
+                  {t.sendingAccount}
+                  {transferProgress.total > 0
+                    ? ` (${transferProgress.done}/${transferProgress.total})`
+                    : ""}
+                </ThemedText>
+              </View>
+            ) : null}
+            {transferStage === "received" ? (
+              <>
+                <ThemedText style={styles.fingerprint}>
+                  {formatFingerprint(receivedFingerprint)}
+                </ThemedText>
+                <ThemedText style={styles.modalText}>
+                  {receivedFingerprint === identity?.fingerprint
+                    ? t.compareFingerprint
+                    : t.fingerprintMismatch}
+                </ThemedText>
+                <ThemedText style={styles.modalText}>{t.keepOldDevice}</ThemedText>
+              </>
+            ) : null}
+            <View style={styles.modalButtons}>
+              {transferStage === "received" ? (
+                <Pressable
+                  onPress={closeTransferModal}
+                  style={[styles.modalButton, styles.modalButtonPrimary]}
+                >
+                  <ThemedText style={styles.modalButtonText}>{t.done}</ThemedText>
+                </Pressable>
+              ) : (
+                <Pressable
+                  onPress={closeTransferModal}
+                  disabled={preparingTransfer}
+                  style={[styles.modalButton, styles.modalButtonSecondary]}
+                >
+                  <ThemedText style={styles.modalButtonText}>{t.cancel}</ThemedText>
+                </Pressable>
+              )}
+              {transferStage === "passphrase" ? (
+                <Pressable
+                  onPress={handleStartTransfer}
+                  disabled={preparingTransfer || !transferPassphrase}
+                  style={[styles.modalButton, styles.modalButtonPrimary]}
+                >
+                  {preparingTransfer ? (
+                    <ActivityIndicator color={Colors.dark.text} />
+                  ) : (
+                    <ThemedText style={styles.modalButtonText}>{t.continue}</ThemedText>
+                  )}
+                </Pressable>
+              ) : null}
+            </View>
+          </View>
+        </View>
+      </Modal>
     </ThemedView>
   );
 }
@@ -292,6 +871,12 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: Colors.dark.primary,
   },
+  passphraseCard: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.lg,
+    marginBottom: Spacing.md,
+  },
   dangerCard: {
     backgroundColor: Colors.dark.backgroundDefault,
     borderRadius: BorderRadius.sm,
@@ -329,6 +914,70 @@ const styles = StyleSheet.create({
     fontWeight: "600",
     color: Colors.dark.error,
   },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.7)",
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  modalContent: {
+    backgroundColor: Colors.dark.backgroundDefault,
+    borderRadius: BorderRadius.lg,
+    padding: Spacing.xl,
+    width: "85%",
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: "600",
+    marginBottom: Spacing.lg,
+    color: Colors.dark.text,
+  },
+  modalText: {
+    fontSize: 14,
+    color: Colors.dark.textSecondary,
+    marginBottom: Spacing.lg,
+  },
+  modalInput: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    fontSize: 16,
+    color: Colors.dark.text,
+    marginBottom: Spacing.md,
+  },
+  modalButtons: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.sm,
+  },
+  modalButton: {
+    flex: 1,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.sm,
+    alignItems: "center",
+  },
+  modalButtonPrimary: {
+    backgroundColor: Colors.dark.secondary,
+  },
+  modalButtonSecondary: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+  },
+  modalButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.text,
+  },
+  transferQR: {
+    alignSelf: "center",
+    padding: Spacing.md,
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    marginBottom: Spacing.lg,
+  },
+  transferProgress: {
+    alignItems: "center",
+    gap: Spacing.md,
+  },
   infoSection: {
     flexDirection: "row",
     alignItems: "flex-start",
@@ -6,7 +6,6 @@ import {
   StyleSheet,
   Pressable,
   Switch,
-  Platform,
   Alert,
   Modal,
 } from "react-native";
@@ -22,6 +21,8 @@ import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
 import { useIdentity } from "@/hooks/useIdentity";
 import { getSettings, updateSettings, getPrivacySettings, updatePrivacySettings, getTorSettings, updateTorSettings, setLanguage as saveLanguage, type PrivacySettings, type TorSettings } from "@/lib/storage";
 import { reconnectWithTor } from "@/lib/socket";
+import { forgetBiometricPassphrase } from "@/lib/keystore";
+import { canUseBiometrics, clearAppLockPin, isValidPin, setAppLockPin, MAX_FAILED_UNLOCKS, MAX_PIN_LENGTH, MIN_PIN_LENGTH } from "@/lib/appLock";
 import { SUPPORTED_LANGUAGES, type Language, useLanguage } from "@/constants/language";
 import type { SettingsStackParamList } from "@/navigation/SettingsStackNavigator";
 
@@ -75,6 +76,8 @@ export default function SettingsScreen() {
   const [privacySettings, setPrivacySettings] = useState<PrivacySettings>({
     screenProtection: false,
     biometricLock: false,
+    appLockTimeout: 60,
+    wipeOnFailedUnlocks: false,
     autoMetadataScrubbing: true,
     steganographyMode: false,
     ghostMode: false,
@@ -91,6 +94,10 @@ export default function SettingsScreen() {
   const [showLanguageModal, setShowLanguageModal] = useState(false);
   const [showTimerModal, setShowTimerModal] = useState(false);
   const [showTorModal, setShowTorModal] = useState(false);
+  const [showAutoLockModal, setShowAutoLockModal] = useState(false);
+  const [showPinModal, setShowPinModal] = useState(false);
+  const [pinInput, setPinInput] = useState("");
+  const [pinConfirmInput, setPinConfirmInput] = useState("");
   const [torProxyInput, setTorProxyInput] = useState("127.0.0.1:9050");
 
   useEffect(() => {
@@ -105,7 +112,7 @@ export default function SettingsScreen() {
       setTorSettings(t);
       setTorProxyInput(`${t.proxyHost}:${t.proxyPort}`);
     });
-    LocalAuthentication.hasHardwareAsync().then(setBiometricAvailable);
+    canUseBiometrics().then(setBiometricAvailable);
   }, [identity]);
 
   const handleDisplayNameChange = async () => {
@@ -117,11 +124,10 @@ export default function SettingsScreen() {
 
   const handleToggle = useCallback(async (key: keyof PrivacySettings, value: boolean) => {
     if (key === "biometricLock" && value) {
-      if (Platform.OS === "web") {
-        Alert.alert(
-          currentLanguage === "tr" ? "Biyometrik Kilit" : "Biometric Lock",
-          currentLanguage === "tr" ? "Bu ozellik sadece mobil cihazlarda kullanilabilir." : "This feature is only available on mobile devices."
-        );
+      // Without usable biometrics (always the case on web) the app lock
+      // falls back to a PIN, set up before the lock is switched on.
+      if (!(await canUseBiometrics())) {
+        setShowPinModal(true);
         return;
       }
       const result = await LocalAuthentication.authenticateAsync({
@@ -132,6 +138,10 @@ export default function SettingsScreen() {
         return;
       }
     }
+    if (key === "biometricLock" && !value) {
+      await forgetBiometricPassphrase();
+      await clearAppLockPin();
+    }
     setPrivacySettings((prev) => ({ ...prev, [key]: value }));
     await updatePrivacySettings({ [key]: value });
   }, [currentLanguage]);
@@ -147,6 +157,51 @@ export default function SettingsScreen() {
 
   const timerOptions = [0, 30, 60, 300, 3600, 86400];
 
+  const closePinModal = () => {
+    setShowPinModal(false);
+    setPinInput("");
+    setPinConfirmInput("");
+  };
+
+  const handlePinSave = async () => {
+    if (!isValidPin(pinInput)) {
+      Alert.alert(
+        currentLanguage === "tr" ? "Gecersiz PIN" : "Invalid PIN",
+        currentLanguage === "tr"
+          ? `PIN ${MIN_PIN_LENGTH}-${MAX_PIN_LENGTH} rakamdan olusmali.`
+          : `The PIN must be ${MIN_PIN_LENGTH} to ${MAX_PIN_LENGTH} digits.`
+      );
+      return;
+    }
+    if (pinInput !== pinConfirmInput) {
+      Alert.alert(
+        currentLanguage === "tr" ? "Gecersiz PIN" : "Invalid PIN",
+        currentLanguage === "tr" ? "PIN'ler eslesmiyor." : "The PINs do not match."
+      );
+      return;
+    }
+    await setAppLockPin(pinInput);
+    closePinModal();
+    setPrivacySettings((prev) => ({ ...prev, biometricLock: true }));
+    await updatePrivacySettings({ biometricLock: true });
+  };
+
+  const autoLockLabels: Record<number, string> = {
+    0: currentLanguage === "tr" ? "Hemen" : "Immediately",
+    30: currentLanguage === "tr" ? "30 saniye sonra" : "After 30 seconds",
+    60: currentLanguage === "tr" ? "1 dakika sonra" : "After 1 minute",
+    300: currentLanguage === "tr" ? "5 dakika sonra" : "After 5 minutes",
+    900: currentLanguage === "tr" ? "15 dakika sonra" : "After 15 minutes",
+  };
+
+  const autoLockOptions = [0, 30, 60, 300, 900];
+
+  const handleAutoLockChange = async (timeout: number) => {
+    setPrivacySettings((prev) => ({ ...prev, appLockTimeout: timeout }));
+    await updatePrivacySettings({ appLockTimeout: timeout });
+    setShowAutoLockModal(false);
+  };
+
   const handleTimerChange = async (timer: number) => {
     setDefaultTimer(timer);
     await updateSettings({ defaultMessageTimer: timer });
@@ -291,17 +346,41 @@ export default function SettingsScreen() {
             <SettingsRow
               icon="lock"
               title={currentLanguage === "tr" ? "Biyometrik Kilit" : "Biometric Lock"}
-              subtitle={biometricAvailable ? (currentLanguage === "tr" ? "Parmak izi ile giris" : "Require fingerprint to open app") : (currentLanguage === "tr" ? "Cihaz desteklemiyor" : "Device not supported")}
+              subtitle={biometricAvailable ? (currentLanguage === "tr" ? "Parmak izi ile giris" : "Require fingerprint to open app") : (currentLanguage === "tr" ? "Uygulamayi PIN ile ac" : "Require a PIN to open app")}
               rightElement={
                 <Switch
                   value={privacySettings.biometricLock}
                   onValueChange={(v) => handleToggle("biometricLock", v)}
                   trackColor={{ false: Colors.dark.border, true: Colors.dark.primary }}
                   thumbColor={privacySettings.biometricLock ? Colors.dark.text : Colors.dark.textSecondary}
-                  disabled={!biometricAvailable && Platform.OS !== "web"}
                 />
               }
             />
+            {privacySettings.biometricLock ? (
+              <>
+                <SettingsRow
+                  icon="clock"
+                  title={currentLanguage === "tr" ? "Otomatik Kilit" : "Auto-Lock"}
+                  subtitle={autoLockLabels[privacySettings.appLockTimeout] || `${privacySettings.appLockTimeout}s`}
+                  onPress={() => setShowAutoLockModal(true)}
+                />
+                {!biometricAvailable ? (
+                  <SettingsRow
+                    icon="trash-2"
+                    title={currentLanguage === "tr" ? "Hatali Denemede Verileri Sil" : "Erase After Failed Unlocks"}
+                    subtitle={currentLanguage === "tr" ? `${MAX_FAILED_UNLOCKS} yanlis PIN'den sonra tum verileri sil` : `Erase all data after ${MAX_FAILED_UNLOCKS} wrong PINs`}
+                    rightElement={
+                      <Switch
+                        value={privacySettings.wipeOnFailedUnlocks}
+                        onValueChange={(v) => handleToggle("wipeOnFailedUnlocks", v)}
+                        trackColor={{ false: Colors.dark.border, true: Colors.dark.error }}
+                        thumbColor={privacySettings.wipeOnFailedUnlocks ? Colors.dark.text : Colors.dark.textSecondary}
+                      />
+                    }
+                  />
+                ) : null}
+              </>
+            ) : null}
             <SettingsRow
               icon="image"
               title={currentLanguage === "tr" ? "Otomatik Metadata Temizligi" : "Auto Metadata Scrubbing"}
@@ -474,6 +553,97 @@ export default function SettingsScreen() {
           </View>
         </Modal>
 
+        <Modal visible={showAutoLockModal} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <ThemedText style={styles.modalTitle}>
+                {currentLanguage === "tr" ? "Otomatik Kilit" : "Auto-Lock"}
+              </ThemedText>
+              {autoLockOptions.map((timeout) => (
+                <Pressable
+                  key={timeout}
+                  onPress={() => handleAutoLockChange(timeout)}
+                  style={[
+                    styles.languageOption,
+                    privacySettings.appLockTimeout === timeout && styles.languageOptionSelected,
+                  ]}
+                >
+                  <ThemedText
+                    style={[
+                      styles.languageOptionText,
+                      privacySettings.appLockTimeout === timeout && styles.languageOptionTextSelected,
+                    ]}
+                  >
+                    {autoLockLabels[timeout]}
+                  </ThemedText>
+                </Pressable>
+              ))}
+              <Pressable
+                onPress={() => setShowAutoLockModal(false)}
+                style={styles.modalCloseButton}
+              >
+                <ThemedText style={styles.modalCloseButtonText}>
+                  {currentLanguage === "tr" ? "Kapat" : "Close"}
+                </ThemedText>
+              </Pressable>
+            </View>
+          </View>
+        </Modal>
+
+        <Modal visible={showPinModal} transparent animationType="fade">
+          <View style={styles.modalOverlay}>
+            <View style={styles.modalContent}>
+              <ThemedText style={styles.modalTitle}>
+                {currentLanguage === "tr" ? "Uygulama PIN'i Belirle" : "Set an App PIN"}
+              </ThemedText>
+              <ThemedText style={[styles.settingsRowSubtitle, styles.pinModalText]}>
+                {currentLanguage === "tr"
+                  ? "Bu cihazda biyometrik dogrulama kullanilamiyor. Uygulama bu PIN ile acilacak."
+                  : "Biometrics aren't available on this device, so the app will ask for this PIN instead."}
+              </ThemedText>
+              <TextInput
+                style={styles.torModalInput}
+                value={pinInput}
+                onChangeText={(text) => setPinInput(text.replace(/\D/g, ""))}
+                placeholder="PIN"
+                placeholderTextColor={Colors.dark.textDisabled}
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+                secureTextEntry
+              />
+              <TextInput
+                style={styles.torModalInput}
+                value={pinConfirmInput}
+                onChangeText={(text) => setPinConfirmInput(text.replace(/\D/g, ""))}
+                placeholder={currentLanguage === "tr" ? "PIN'i Onayla" : "Confirm PIN"}
+                placeholderTextColor={Colors.dark.textDisabled}
+                keyboardType="number-pad"
+                maxLength={MAX_PIN_LENGTH}
+                secureTextEntry
+                onSubmitEditing={handlePinSave}
+              />
+              <View style={styles.torModalButtons}>
+                <Pressable
+                  onPress={closePinModal}
+                  style={[styles.torModalButton, styles.torModalButtonSecondary]}
+                >
+                  <ThemedText style={styles.torModalButtonText}>
+                    {currentLanguage === "tr" ? "Iptal" : "Cancel"}
+                  </ThemedText>
+                </Pressable>
+                <Pressable
+                  onPress={handlePinSave}
+                  style={[styles.torModalButton, styles.torModalButtonPrimary]}
+                >
+                  <ThemedText style={styles.torModalButtonText}>
+                    {currentLanguage === "tr" ? "Kaydet" : "Save"}
+                  </ThemedText>
+                </Pressable>
+              </View>
+            </View>
+          </View>
+        </Modal>
+
         <Modal visible={showTorModal} transparent animationType="fade">
           <View style={styles.modalOverlay}>
             <View style={styles.modalContent}>
@@ -771,6 +941,9 @@ const styles = StyleSheet.create({
     marginBottom: Spacing.lg,
     fontFamily: Fonts?.mono,
   },
+  pinModalText: {
+    marginBottom: Spacing.md,
+  },
   torModalButtons: {
     flexDirection: "row",
     gap: Spacing.md,
@@ -0,0 +1,355 @@
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  View,
+  StyleSheet,
+  Pressable,
+  TextInput,
+  Platform,
+  ActivityIndicator,
+  KeyboardAvoidingView,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { Feather } from "@expo/vector-icons";
+import * as Haptics from "expo-haptics";
+import { ThemedText } from "@/components/ThemedText";
+import { Colors, Spacing, BorderRadius, Fonts } from "@/constants/theme";
+import { useLanguage } from "@/constants/language";
+import { getPrivacySettings } from "@/lib/storage";
+import {
+  getKeystoreState,
+  hasBiometricPassphrase,
+  setupIdentity,
+  storeBiometricPassphrase,
+  unlockIdentity,
+  unlockWithBiometrics,
+  MIN_PASSPHRASE_LENGTH,
+  type KeystoreState,
+} from "@/lib/keystore";
+
+export default function UnlockScreen() {
+  const insets = useSafeAreaInsets();
+  const { language } = useLanguage();
+
+  const [state, setState] = useState<KeystoreState | null>(null);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [biometricLock, setBiometricLock] = useState(false);
+  const [biometricReady, setBiometricReady] = useState(false);
+
+  const t = {
+    unlockTitle:
+      language === "tr" ? "Kimliğinizin Kilidini Açın" : "Unlock Your Identity",
+    unlockDesc:
+      language === "tr"
+        ? "Özel anahtarınız parolanızla şifrelenmiştir."
+        : "Your private key is encrypted with your passphrase.",
+    setupTitle: language === "tr" ? "Parola Belirleyin" : "Set a Passphrase",
+    setupDesc:
+      language === "tr"
+        ? "Özel anahtarınız bu parola ile şifrelenerek saklanır. Parolayı unutursanız kimliğiniz kurtarılamaz."
+        : "Your private key is stored encrypted with this passphrase. If you forget it, your identity cannot be recovered.",
+    protectDesc:
+      language === "tr"
+        ? "Mevcut özel anahtarınız şifrelenmeden saklanıyor. Korumak için bir parola belirleyin."
+        : "Your existing private key is stored unencrypted. Set a passphrase to protect it.",
+    passphrase: language === "tr" ? "Parola" : "Passphrase",
+    confirmPassphrase:
+      language === "tr" ? "Parolayı Onayla" : "Confirm Passphrase",
+    unlock: language === "tr" ? "Kilidi Aç" : "Unlock",
+    create: language === "tr" ? "Kimlik Oluştur" : "Create Identity",
+    protect: language === "tr" ? "Anahtarı Koru" : "Protect Key",
+    useBiometrics:
+      language === "tr" ? "Biyometrik ile Aç" : "Unlock with Biometrics",
+    biometricPrompt:
+      language === "tr" ? "Kimliğinizin kilidini açın" : "Unlock your identity",
+    wrongPassphrase:
+      language === "tr" ? "Parola yanlış" : "Incorrect passphrase",
+    tooShort:
+      language === "tr"
+        ? `Parola en az ${MIN_PASSPHRASE_LENGTH} karakter olmalı`
+        : `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+    mismatch:
+      language === "tr" ? "Parolalar eşleşmiyor" : "Passphrases do not match",
+    generating:
+      language === "tr" ? "Anahtarlar oluşturuluyor..." : "Generating keys...",
+  };
+
+  const handleBiometricUnlock = useCallback(async (prompt: string) => {
+    setBusy(true);
+    const identity = await unlockWithBiometrics(prompt);
+    setBusy(false);
+    if (!identity && Platform.OS !== "web") {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    }
+  }, []);
+
+  useEffect(() => {
+    const load = async () => {
+      const [keystoreState, privacySettings, storedPassphrase] =
+        await Promise.all([
+          getKeystoreState(),
+          getPrivacySettings(),
+          hasBiometricPassphrase(),
+        ]);
+      setState(keystoreState);
+      setBiometricLock(privacySettings.biometricLock);
+      const ready =
+        keystoreState === "locked" &&
+        privacySettings.biometricLock &&
+        storedPassphrase;
+      setBiometricReady(ready);
+      if (ready) {
+        handleBiometricUnlock(t.biometricPrompt);
+      }
+    };
+    load();
+  }, [handleBiometricUnlock, t.biometricPrompt]);
+
+  const isSetup = state === "missing" || state === "unprotected";
+
+  const handleSubmit = async () => {
+    setError(null);
+
+    if (isSetup) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(t.tooShort);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError(t.mismatch);
+        return;
+      }
+    }
+
+    setBusy(true);
+    const identity = isSetup
+      ? await setupIdentity(passphrase)
+      : await unlockIdentity(passphrase);
+
+    if (!identity) {
+      setBusy(false);
+      setError(t.wrongPassphrase);
+      if (Platform.OS !== "web") {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      }
+      return;
+    }
+
+    if (biometricLock && !biometricReady) {
+      await storeBiometricPassphrase(passphrase).catch((err) => {
+        console.error("Storing biometric passphrase failed:", err);
+      });
+    }
+  };
+
+  if (!state) {
+    return (
+      <View style={[styles.container, styles.centered]}>
+        <ActivityIndicator size="large" color={Colors.dark.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : "height"}
+    >
+      <View
+        style={[
+          styles.content,
+          {
+            paddingTop: insets.top + Spacing["3xl"],
+            paddingBottom: insets.bottom + Spacing.xl,
+          },
+        ]}
+      >
+        <View style={styles.iconContainer}>
+          <Feather
+            name={isSetup ? "key" : "lock"}
+            size={48}
+            color={Colors.dark.primary}
+          />
+        </View>
+
+        <ThemedText style={styles.title}>
+          {isSetup ? t.setupTitle : t.unlockTitle}
+        </ThemedText>
+        <ThemedText style={styles.description}>
+          {state === "unprotected"
+            ? t.protectDesc
+            : isSetup
+              ? t.setupDesc
+              : t.unlockDesc}
+        </ThemedText>
+
+        <TextInput
+          style={styles.input}
+          value={passphrase}
+          onChangeText={setPassphrase}
+          placeholder={t.passphrase}
+          placeholderTextColor={Colors.dark.textDisabled}
+          secureTextEntry
+          autoCapitalize="none"
+          autoCorrect={false}
+          editable={!busy}
+          onSubmitEditing={isSetup ? undefined : handleSubmit}
+        />
+        {isSetup ? (
+          <TextInput
+            style={styles.input}
+            value={confirmation}
+            onChangeText={setConfirmation}
+            placeholder={t.confirmPassphrase}
+            placeholderTextColor={Colors.dark.textDisabled}
+            secureTextEntry
+            autoCapitalize="none"
+            autoCorrect={false}
+            editable={!busy}
+            onSubmitEditing={handleSubmit}
+          />
+        ) : null}
+
+        {error ? (
+          <ThemedText style={styles.errorText}>{error}</ThemedText>
+        ) : null}
+
+        <Pressable
+          onPress={handleSubmit}
+          disabled={busy || !passphrase}
+          style={({ pressed }) => [
+            styles.primaryButton,
+            (busy || !passphrase) && styles.primaryButtonDisabled,
+            pressed && styles.buttonPressed,
+          ]}
+        >
+          {busy ? (
+            <ActivityIndicator color={Colors.dark.buttonText} />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>
+              {state === "unprotected"
+                ? t.protect
+                : isSetup
+                  ? t.create
+                  : t.unlock}
+            </ThemedText>
+          )}
+        </Pressable>
+
+        {busy && state === "missing" ? (
+          <ThemedText style={styles.hintText}>{t.generating}</ThemedText>
+        ) : null}
+
+        {biometricReady ? (
+          <Pressable
+            onPress={() => handleBiometricUnlock(t.biometricPrompt)}
+            disabled={busy}
+            style={({ pressed }) => [
+              styles.secondaryButton,
+              pressed && styles.buttonPressed,
+            ]}
+          >
+            <Feather name="smartphone" size={18} color={Colors.dark.primary} />
+            <ThemedText style={styles.secondaryButtonText}>
+              {t.useBiometrics}
+            </ThemedText>
+          </Pressable>
+        ) : null}
+      </View>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.dark.backgroundRoot,
+  },
+  centered: {
+    justifyContent: "center",
+    alignItems: "center",
+  },
+  content: {
+    flex: 1,
+    justifyContent: "center",
+    paddingHorizontal: Spacing["2xl"],
+  },
+  iconContainer: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: Colors.dark.primary + "20",
+    alignItems: "center",
+    justifyContent: "center",
+    alignSelf: "center",
+    marginBottom: Spacing.xl,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: "700",
+    color: Colors.dark.text,
+    textAlign: "center",
+    marginBottom: Spacing.md,
+  },
+  description: {
+    fontSize: 15,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    lineHeight: 22,
+    marginBottom: Spacing.xl,
+  },
+  input: {
+    backgroundColor: Colors.dark.backgroundSecondary,
+    borderRadius: BorderRadius.sm,
+    padding: Spacing.md,
+    fontSize: 16,
+    color: Colors.dark.text,
+    fontFamily: Fonts?.sans,
+    marginBottom: Spacing.md,
+  },
+  errorText: {
+    fontSize: 14,
+    color: Colors.dark.error,
+    marginBottom: Spacing.md,
+    textAlign: "center",
+  },
+  primaryButton: {
+    backgroundColor: Colors.dark.primary,
+    paddingVertical: Spacing.lg,
+    borderRadius: BorderRadius.md,
+    alignItems: "center",
+    marginTop: Spacing.sm,
+  },
+  primaryButtonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    fontSize: 18,
+    fontWeight: "600",
+    color: Colors.dark.buttonText,
+  },
+  buttonPressed: {
+    opacity: 0.8,
+  },
+  hintText: {
+    fontSize: 13,
+    color: Colors.dark.textSecondary,
+    textAlign: "center",
+    marginTop: Spacing.md,
+  },
+  secondaryButton: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    paddingVertical: Spacing.md,
+    marginTop: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: Colors.dark.primary,
+  },
+});
@@ -0,0 +1,390 @@
+import assert from "node:assert/strict";
+import { before, describe, it } from "node:test";
+import * as openpgp from "openpgp";
+import type { GroupInvitationClaims } from "@shared/groups";
+import {
+  generateShortId,
+  type KeyBundle,
+  type KeyBundleClaims,
+  type KeyTransition,
+  type KeyTransitionClaims,
+} from "@shared/identity";
+import {
+  acceptKeyBundleUpdate,
+  verifyGroupInvitation,
+  verifyKeyBundle,
+  verifyKeyTransition,
+  verifyRegistration,
+} from "./identity";
+
+interface TestKey {
+  publicKey: string;
+  privateKey: string;
+  fingerprint: string;
+  userId: string;
+}
+
+async function makeKey(): Promise<TestKey> {
+  const { publicKey, privateKey } = await openpgp.generateKey({
+    type: "curve25519",
+    userIDs: [{ name: "Test" }],
+    format: "armored",
+  });
+  const key = await openpgp.readKey({ armoredKey: publicKey });
+  const fingerprint = key.getFingerprint().toUpperCase();
+  return {
+    publicKey,
+    privateKey,
+    fingerprint,
+    userId: generateShortId(fingerprint),
+  };
+}
+
+async function sign(text: string, key: TestKey): Promise<string> {
+  return openpgp.sign({
+    message: await openpgp.createCleartextMessage({ text }),
+    signingKeys: await openpgp.readPrivateKey({ armoredKey: key.privateKey }),
+  });
+}
+
+// `original` hands its ID to `next`.
+async function transition(
+  original: TestKey,
+  next: TestKey,
+): Promise<KeyTransition> {
+  const claims: KeyTransitionClaims = {
+    userId: original.userId,
+    previousFingerprint: original.fingerprint,
+    fingerprint: next.fingerprint,
+    issuedAt: Date.now(),
+  };
+  return {
+    previousPublicKey: original.publicKey,
+    signedClaims: await sign(JSON.stringify(claims), original),
+  };
+}
+
+async function bundle(
+  userId: string,
+  key: TestKey,
+  publishedAt: number,
+  keyTransition?: KeyTransition,
+): Promise<KeyBundle> {
+  const claims: KeyBundleClaims = {
+    userId,
+    fingerprint: key.fingerprint,
+    publishedAt,
+  };
+  return {
+    userId,
+    publicKey: key.publicKey,
+    signedClaims: await sign(JSON.stringify(claims), key),
+    publishedAt,
+    keyTransition,
+  };
+}
+
+let alice: TestKey;
+let aliceNext: TestKey;
+let mallory: TestKey;
+
+before(async () => {
+  [alice, aliceNext, mallory] = await Promise.all([
+    makeKey(),
+    makeKey(),
+    makeKey(),
+  ]);
+});
+
+describe("verifyRegistration", () => {
+  it("accepts the key the ID hashes from, signing the issued nonce", async () => {
+    const result = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: alice.publicKey,
+        signature: await sign("nonce-1", alice),
+      },
+      "nonce-1",
+    );
+    assert.deepEqual(result, { fingerprint: alice.fingerprint });
+  });
+
+  it("rejects a signature over another nonce", async () => {
+    const result = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: alice.publicKey,
+        signature: await sign("nonce-1", alice),
+      },
+      "nonce-2",
+    );
+    assert.equal("code" in result && result.code, "invalid_signature");
+  });
+
+  it("rejects a key that does not hash to the ID", async () => {
+    const result = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: mallory.publicKey,
+        signature: await sign("nonce", mallory),
+      },
+      "nonce",
+    );
+    assert.equal("code" in result && result.code, "id_mismatch");
+  });
+
+  it("rejects a key that cannot be parsed", async () => {
+    const result = await verifyRegistration(
+      { userId: alice.userId, publicKey: "not a key", signature: "" },
+      "nonce",
+    );
+    assert.equal("code" in result && result.code, "invalid_key");
+  });
+
+  it("accepts a new key carrying a transition from the original", async () => {
+    const result = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: aliceNext.publicKey,
+        signature: await sign("nonce", aliceNext),
+        keyTransition: await transition(alice, aliceNext),
+      },
+      "nonce",
+    );
+    assert.deepEqual(result, { fingerprint: aliceNext.fingerprint });
+  });
+
+  it("retires the original key once a transition is published", async () => {
+    const published = await bundle(
+      alice.userId,
+      aliceNext,
+      Date.now(),
+      await transition(alice, aliceNext),
+    );
+    const result = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: alice.publicKey,
+        signature: await sign("nonce", alice),
+      },
+      "nonce",
+      published,
+    );
+    assert.equal("code" in result && result.code, "key_retired");
+
+    const next = await verifyRegistration(
+      {
+        userId: alice.userId,
+        publicKey: aliceNext.publicKey,
+        signature: await sign("nonce", aliceNext),
+      },
+      "nonce",
+      published,
+    );
+    assert.deepEqual(next, { fingerprint: aliceNext.fingerprint });
+  });
+});
+
+describe("verifyKeyTransition", () => {
+  it("accepts a transition signed by the original key", async () => {
+    assert.equal(
+      await verifyKeyTransition(
+        alice.userId,
+        aliceNext.fingerprint,
+        await transition(alice, aliceNext),
+      ),
+      true,
+    );
+  });
+
+  it("rejects a transition to a different key", async () => {
+    assert.equal(
+      await verifyKeyTransition(
+        alice.userId,
+        mallory.fingerprint,
+        await transition(alice, aliceNext),
+      ),
+      false,
+    );
+  });
+
+  it("rejects a transition from a key the ID does not hash from", async () => {
+    const forged = await transition(mallory, aliceNext);
+    assert.equal(
+      await verifyKeyTransition(alice.userId, aliceNext.fingerprint, forged),
+      false,
+    );
+  });
+});
+
+describe("verifyKeyBundle", () => {
+  it("accepts a bundle signed by its key", async () => {
+    const signed = await bundle(alice.userId, alice, 1000);
+    const result = await verifyKeyBundle(
+      alice.userId,
+      alice.publicKey,
+      signed.signedClaims,
+    );
+    assert.equal(result?.publishedAt, 1000);
+  });
+
+  it("rejects a bundle naming another ID", async () => {
+    const signed = await bundle(mallory.userId, alice, 1000);
+    assert.equal(
+      await verifyKeyBundle(alice.userId, alice.publicKey, signed.signedClaims),
+      null,
+    );
+  });
+
+  it("rejects a bundle signed by another key", async () => {
+    const signed = await bundle(alice.userId, mallory, 1000);
+    assert.equal(
+      await verifyKeyBundle(alice.userId, alice.publicKey, signed.signedClaims),
+      null,
+    );
+  });
+});
+
+describe("acceptKeyBundleUpdate", () => {
+  it("only moves forward in time", async () => {
+    const published = await bundle(alice.userId, alice, 2000);
+    assert.equal(
+      await acceptKeyBundleUpdate(
+        published,
+        await bundle(alice.userId, alice, 2000),
+      ),
+      null,
+    );
+    const newer = await bundle(alice.userId, alice, 3000);
+    assert.equal(
+      (await acceptKeyBundleUpdate(published, newer))?.publishedAt,
+      3000,
+    );
+  });
+
+  it("refuses a different key without a transition", async () => {
+    const published = await bundle(alice.userId, alice, 1000);
+    const next = await bundle(alice.userId, mallory, 2000);
+    assert.equal(await acceptKeyBundleUpdate(published, next), null);
+  });
+
+  it("accepts a different key through a transition from the published one", async () => {
+    const published = await bundle(alice.userId, alice, 1000);
+    const next = await bundle(
+      alice.userId,
+      aliceNext,
+      2000,
+      await transition(alice, aliceNext),
+    );
+    assert.equal(await acceptKeyBundleUpdate(published, next), next);
+  });
+
+  it("keeps a recorded transition and refuses a second one", async () => {
+    const moved = await transition(alice, aliceNext);
+    const published = await bundle(alice.userId, aliceNext, 1000, moved);
+
+    const republished = await acceptKeyBundleUpdate(
+      published,
+      await bundle(alice.userId, aliceNext, 2000),
+    );
+    assert.deepEqual(republished?.keyTransition, moved);
+
+    const back = await bundle(
+      alice.userId,
+      alice,
+      3000,
+      await transition(alice, alice),
+    );
+    assert.equal(await acceptKeyBundleUpdate(published, back), null);
+  });
+});
+
+describe("verifyGroupInvitation", () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function invitation(
+    issuer: TestKey,
+    overrides: Partial<GroupInvitationClaims> = {},
+  ): Promise<string> {
+    const claims: GroupInvitationClaims = {
+      groupId: "grp_1",
+      userId: mallory.userId,
+      publicKey: mallory.publicKey,
+      role: "member",
+      issuedBy: issuer.userId,
+      issuedAt: Date.now(),
+      ...overrides,
+    };
+    return sign(JSON.stringify(claims), issuer);
+  }
+
+  it("accepts an invitation from an admin on the roster", async () => {
+    const claims = await verifyGroupInvitation(
+      "grp_1",
+      await invitation(alice),
+      [{ id: alice.userId, publicKey: alice.publicKey }],
+      DAY,
+    );
+    assert.equal(claims?.userId, mallory.userId);
+    assert.equal(claims?.role, "member");
+  });
+
+  it("rejects an issuer who is not an admin", async () => {
+    assert.equal(
+      await verifyGroupInvitation(
+        "grp_1",
+        await invitation(mallory),
+        [{ id: alice.userId, publicKey: alice.publicKey }],
+        DAY,
+      ),
+      null,
+    );
+  });
+
+  it("rejects an admin with no recorded key", async () => {
+    assert.equal(
+      await verifyGroupInvitation(
+        "grp_1",
+        await invitation(alice),
+        [{ id: alice.userId, publicKey: null }],
+        DAY,
+      ),
+      null,
+    );
+  });
+
+  it("rejects an invitation signed by another key than the issuer's", async () => {
+    const forged = await invitation(mallory, { issuedBy: alice.userId });
+    assert.equal(
+      await verifyGroupInvitation(
+        "grp_1",
+        forged,
+        [{ id: alice.userId, publicKey: alice.publicKey }],
+        DAY,
+      ),
+      null,
+    );
+  });
+
+  it("rejects an invitation for another group or past its age", async () => {
+    const admins = [{ id: alice.userId, publicKey: alice.publicKey }];
+    assert.equal(
+      await verifyGroupInvitation(
+        "grp_2",
+        await invitation(alice),
+        admins,
+        DAY,
+      ),
+      null,
+    );
+    assert.equal(
+      await verifyGroupInvitation(
+        "grp_1",
+        await invitation(alice, { issuedAt: Date.now() - 2 * DAY }),
+        admins,
+        DAY,
+      ),
+      null,
+    );
+  });
+});
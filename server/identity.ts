@@ -0,0 +1,251 @@
+import * as openpgp from "openpgp";
+import { randomBytes } from "node:crypto";
+import type { GroupInvitationClaims } from "@shared/groups";
+import {
+  generateShortId,
+  type KeyBundle,
+  type KeyBundleClaims,
+  type KeyTransition,
+  type KeyTransitionClaims,
+  type RegisterError,
+  type RegisterPayload,
+} from "@shared/identity";
+
+export function generateNonce(): string {
+  return randomBytes(32).toString("hex");
+}
+
+// True when `transition` is signed by the key `userId` was derived from and
+// hands the ID to the key with `fingerprint`.
+export async function verifyKeyTransition(
+  userId: string,
+  fingerprint: string,
+  transition: KeyTransition,
+): Promise<boolean> {
+  try {
+    const previousKey = await openpgp.readKey({
+      armoredKey: transition.previousPublicKey,
+    });
+    const previousFingerprint = previousKey.getFingerprint().toUpperCase();
+    if (generateShortId(previousFingerprint) !== userId) {
+      return false;
+    }
+
+    const result = await openpgp.verify({
+      message: await openpgp.readCleartextMessage({
+        cleartextMessage: transition.signedClaims,
+      }),
+      verificationKeys: previousKey,
+    });
+    if (result.signatures.length === 0) {
+      return false;
+    }
+    await result.signatures[0].verified;
+
+    const claims = JSON.parse(result.data) as KeyTransitionClaims;
+    return (
+      claims.userId === userId &&
+      claims.previousFingerprint === previousFingerprint &&
+      claims.fingerprint === fingerprint
+    );
+  } catch {
+    return false;
+  }
+}
+
+async function keyFingerprint(armoredKey: string): Promise<string> {
+  const key = await openpgp.readKey({ armoredKey });
+  return key.getFingerprint().toUpperCase();
+}
+
+// Proves the registering socket holds the private key behind `userId`: the
+// signed cleartext must be exactly the nonce we issued, and the submitted key
+// must be the one `published` for the ID, hash to the claimed short ID, or
+// carry a transition from the key that does. Once `published` records a
+// transition, only its key is accepted: the original key could otherwise sign
+// itself back in, or hand the ID to yet another key.
+export async function verifyRegistration(
+  payload: RegisterPayload,
+  nonce: string,
+  published?: KeyBundle,
+): Promise<{ fingerprint: string } | RegisterError> {
+  let publicKey: openpgp.Key;
+  try {
+    publicKey = await openpgp.readKey({ armoredKey: payload.publicKey });
+  } catch {
+    return { code: "invalid_key", message: "Public key could not be parsed" };
+  }
+
+  const fingerprint = publicKey.getFingerprint().toUpperCase();
+  const publishedFingerprint = published
+    ? await keyFingerprint(published.publicKey)
+    : null;
+  if (published?.keyTransition && fingerprint !== publishedFingerprint) {
+    return {
+      code: "key_retired",
+      message: "This user ID has moved to another key",
+    };
+  }
+  if (
+    fingerprint !== publishedFingerprint &&
+    generateShortId(fingerprint) !== payload.userId &&
+    !(
+      payload.keyTransition &&
+      (await verifyKeyTransition(
+        payload.userId,
+        fingerprint,
+        payload.keyTransition,
+      ))
+    )
+  ) {
+    return {
+      code: "id_mismatch",
+      message: "User ID does not match the public key fingerprint",
+    };
+  }
+
+  try {
+    const result = await openpgp.verify({
+      message: await openpgp.readCleartextMessage({
+        cleartextMessage: payload.signature,
+      }),
+      verificationKeys: publicKey,
+    });
+    if (result.signatures.length === 0 || result.data !== nonce) {
+      throw new Error("Signature does not cover the issued nonce");
+    }
+    await result.signatures[0].verified;
+  } catch {
+    return {
+      code: "invalid_signature",
+      message: "Challenge signature could not be verified",
+    };
+  }
+
+  return { fingerprint };
+}
+
+// Checks a self-signed key bundle before the relay republishes it. Returns
+// null for anything that is not signed by `publicKey` or names another ID.
+export async function verifyKeyBundle(
+  userId: string,
+  publicKeyArmored: string,
+  signedClaims: string,
+  keyTransition?: KeyTransition,
+): Promise<KeyBundle | null> {
+  try {
+    const publicKey = await openpgp.readKey({ armoredKey: publicKeyArmored });
+    const fingerprint = publicKey.getFingerprint().toUpperCase();
+    const result = await openpgp.verify({
+      message: await openpgp.readCleartextMessage({
+        cleartextMessage: signedClaims,
+      }),
+      verificationKeys: publicKey,
+    });
+    if (result.signatures.length === 0) {
+      return null;
+    }
+    await result.signatures[0].verified;
+
+    const claims = JSON.parse(result.data) as KeyBundleClaims;
+    if (claims.userId !== userId || claims.fingerprint !== fingerprint) {
+      return null;
+    }
+
+    return {
+      userId,
+      publicKey: publicKeyArmored,
+      signedClaims,
+      publishedAt: claims.publishedAt,
+      keyTransition,
+    };
+  } catch {
+    return null;
+  }
+}
+
+// Decides whether `next` may replace the bundle `published` for the same ID.
+// Bundles only move forward in time, and a different key only takes over
+// through a transition signed by the published key, which must still be the
+// ID's original one. Returns the bundle to store, which keeps a recorded
+// transition even when `next` leaves it out, or null to keep `published`.
+export async function acceptKeyBundleUpdate(
+  published: KeyBundle | undefined,
+  next: KeyBundle,
+): Promise<KeyBundle | null> {
+  if (!published) {
+    return next;
+  }
+  if (next.publishedAt <= published.publishedAt) {
+    return null;
+  }
+  try {
+    const publishedFingerprint = await keyFingerprint(published.publicKey);
+    const fingerprint = await keyFingerprint(next.publicKey);
+    if (fingerprint === publishedFingerprint) {
+      return {
+        ...next,
+        keyTransition: next.keyTransition ?? published.keyTransition,
+      };
+    }
+    if (
+      published.keyTransition ||
+      !next.keyTransition ||
+      (await keyFingerprint(next.keyTransition.previousPublicKey)) !==
+        publishedFingerprint ||
+      !(await verifyKeyTransition(next.userId, fingerprint, next.keyTransition))
+    ) {
+      return null;
+    }
+    return next;
+  } catch {
+    return null;
+  }
+}
+
+// Checks an invitation against the admin keys on the relay roster. Returns
+// the claims only when they are signed by the admin they name, that admin is
+// still on `admins`, and they are for `groupId` and recent enough.
+export async function verifyGroupInvitation(
+  groupId: string,
+  invitation: string,
+  admins: { id: string; publicKey: string | null }[],
+  maxAge: number,
+): Promise<GroupInvitationClaims | null> {
+  try {
+    const message = await openpgp.readCleartextMessage({
+      cleartextMessage: invitation,
+    });
+    const claimed = JSON.parse(message.getText()) as GroupInvitationClaims;
+    const issuer = admins.find((admin) => admin.id === claimed.issuedBy);
+    if (!issuer?.publicKey) {
+      return null;
+    }
+
+    const result = await openpgp.verify({
+      message,
+      verificationKeys: await openpgp.readKey({ armoredKey: issuer.publicKey }),
+    });
+    if (result.signatures.length === 0) {
+      return null;
+    }
+    await result.signatures[0].verified;
+
+    const claims = JSON.parse(result.data) as GroupInvitationClaims;
+    if (
+      claims.groupId !== groupId ||
+      claims.issuedBy !== issuer.id ||
+      typeof claims.userId !== "string" ||
+      typeof claims.publicKey !== "string" ||
+      (claims.role !== "admin" && claims.role !== "member") ||
+      typeof claims.issuedAt !== "number" ||
+      Date.now() - claims.issuedAt > maxAge
+    ) {
+      return null;
+    }
+    await openpgp.readKey({ armoredKey: claims.publicKey });
+    return claims;
+  } catch {
+    return null;
+  }
+}
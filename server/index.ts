@@ -1,5 +1,9 @@
 import express from "express";
 import type { Request, Response, NextFunction } from "express";
+import {
+  BLOB_DELETE_TOKEN_HEADER,
+  BLOB_UPLOAD_TOKEN_HEADER,
+} from "@shared/blobs";
 import { registerRoutes } from "./routes";
 import * as fs from "fs";
 import * as path from "path";
@@ -22,7 +26,7 @@ function setupCors(app: express.Application) {
     }
 
     if (process.env.REPLIT_DOMAINS) {
-      process.env.REPLIT_DOMAINS.split(",").forEach((d) => {
+      process.env.REPLIT_DOMAINS.split(",").forEach((d: string) => {
         origins.add(`https://${d.trim()}`);
       });
     }
@@ -35,7 +39,10 @@ function setupCors(app: express.Application) {
         "Access-Control-Allow-Methods",
         "GET, POST, PUT, DELETE, OPTIONS",
       );
-      res.header("Access-Control-Allow-Headers", "Content-Type");
+      res.header(
+        "Access-Control-Allow-Headers",
+        `Content-Type, ${BLOB_UPLOAD_TOKEN_HEADER}, ${BLOB_DELETE_TOKEN_HEADER}`,
+      );
       res.header("Access-Control-Allow-Credentials", "true");
     }
 
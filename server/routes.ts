@@ -1,68 +1,288 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
 import { createServer, type Server } from "node:http";
 import { Server as SocketIOServer } from "socket.io";
-
-interface PendingMessage {
-  id: string;
-  from: string;
-  to: string;
-  encrypted: string;
-  timestamp: number;
-  groupId?: string;
-  content?: string;
-}
-
-interface GroupInfo {
-  id: string;
-  members: string[];
-}
+import {
+  BLOB_DELETE_TOKEN_HEADER,
+  BLOB_ID_PATTERN,
+  BLOB_UPLOAD_TOKEN_HEADER,
+  MAX_BLOB_SIZE,
+  MAX_BLOB_TTL,
+  MIN_BLOB_TTL,
+  type BlobError,
+  type BlobTokenResult,
+  type BlobUploadResult,
+} from "@shared/blobs";
+import type {
+  GroupCreatePayload,
+  GroupErrorCode,
+  GroupJoinPayload,
+  GroupLeavePayload,
+  GroupMessageError,
+  GroupResult,
+} from "@shared/groups";
+import type { RegisterError, RegisterPayload } from "@shared/identity";
+import {
+  MAX_TRANSFER_CHUNK_LENGTH,
+  TRANSFER_SESSION_ID_PATTERN,
+  type TransferChunkPayload,
+  type TransferError,
+  type TransferErrorCode,
+  type TransferSessionPayload,
+} from "@shared/transfer";
+import {
+  acceptKeyBundleUpdate,
+  generateNonce,
+  verifyGroupInvitation,
+  verifyKeyBundle,
+  verifyRegistration,
+} from "./identity";
+import { MemStorage, storage } from "./storage";
 
 const connectedUsers = new Map<string, string>();
-const pendingMessages = new Map<string, PendingMessage[]>();
-const groups = new Map<string, GroupInfo>();
-const deliveredMessageIds = new Map<string, number>();
 const MESSAGE_TTL = 24 * 60 * 60 * 1000;
 const DELIVERED_IDS_TTL = 60 * 60 * 1000;
+const TRANSFER_SESSION_TTL = 10 * 60 * 1000;
+// Invitations are presented by the inviting admin's outbox, which gives up
+// long before this.
+const GROUP_INVITATION_TTL = 24 * 60 * 60 * 1000;
+// Across all stored blobs, so one client cannot fill the relay's disk. The
+// in-memory store keeps every blob in the process heap, so it gets far less.
+const MAX_BLOB_STORE_SIZE =
+  storage instanceof MemStorage ? 128 * 1024 * 1024 : 1024 * 1024 * 1024;
+// Per identity, over a rolling day.
+const MAX_BLOB_BYTES_PER_USER = 64 * 1024 * 1024;
+const BLOB_QUOTA_WINDOW = 24 * 60 * 60 * 1000;
+const BLOB_TOKEN_TTL = 5 * 60 * 1000;
+
+// Upload tokens issued to registered sockets, and how much each identity has
+// uploaded in its current quota window. Both only live in process memory.
+const blobUploadTokens = new Map<string, { userId: string; createdAt: number }>();
+const blobUploadUsage = new Map<string, { windowStart: number; bytes: number }>();
+// Delete tokens are an HMAC of the blob ID, so nothing is stored for them. The
+// key is per process: after a restart, blobs can only wait out their TTL.
+const blobDeleteKey = randomBytes(32);
+
+// Rendezvous for device transfers: only socket IDs are kept, never the chunks.
+const transferSessions = new Map<string, { host: string; guest: string | null; createdAt: number }>();
 
 function generateMessageId(): string {
   return `srv_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 }
 
-function cleanupDeliveredIds() {
-  const now = Date.now();
-  for (const [id, timestamp] of deliveredMessageIds.entries()) {
-    if (now - timestamp > DELIVERED_IDS_TTL) {
-      deliveredMessageIds.delete(id);
-    }
+async function cleanupDeliveredIds() {
+  try {
+    await storage.deleteDeliveredIdsOlderThan(Date.now() - DELIVERED_IDS_TTL);
+  } catch (error) {
+    console.error("[Relay] Failed to clean up delivered IDs:", error);
   }
 }
 
 setInterval(cleanupDeliveredIds, 5 * 60 * 1000);
 
-function cleanupExpiredMessages() {
+async function cleanupExpiredMessages() {
+  try {
+    await storage.deleteMessagesOlderThan(Date.now() - MESSAGE_TTL);
+  } catch (error) {
+    console.error("[Relay] Failed to clean up expired messages:", error);
+  }
+  // Attachments are purged on the same schedule; expired ones are already
+  // refused by GET /api/blobs/:id in between.
+  try {
+    await storage.deleteExpiredBlobs(Date.now());
+  } catch (error) {
+    console.error("[Relay] Failed to clean up expired blobs:", error);
+  }
+}
+
+setInterval(cleanupExpiredMessages, 60 * 60 * 1000);
+
+function cleanupTransferSessions() {
+  const cutoff = Date.now() - TRANSFER_SESSION_TTL;
+  for (const [sessionId, session] of transferSessions.entries()) {
+    if (session.createdAt < cutoff) {
+      transferSessions.delete(sessionId);
+    }
+  }
+}
+
+setInterval(cleanupTransferSessions, 60 * 1000);
+
+function cleanupBlobUploads() {
   const now = Date.now();
-  for (const [userId, messages] of pendingMessages.entries()) {
-    const validMessages = messages.filter(msg => now - msg.timestamp < MESSAGE_TTL);
-    if (validMessages.length === 0) {
-      pendingMessages.delete(userId);
-    } else {
-      pendingMessages.set(userId, validMessages);
+  for (const [token, issued] of blobUploadTokens.entries()) {
+    if (issued.createdAt < now - BLOB_TOKEN_TTL) {
+      blobUploadTokens.delete(token);
+    }
+  }
+  for (const [userId, usage] of blobUploadUsage.entries()) {
+    if (usage.windowStart < now - BLOB_QUOTA_WINDOW) {
+      blobUploadUsage.delete(userId);
     }
   }
 }
 
-setInterval(cleanupExpiredMessages, 60 * 60 * 1000);
+setInterval(cleanupBlobUploads, 60 * 1000);
+
+// Tokens are single-use: taking one removes it.
+function takeBlobUploadToken(token: string | undefined): string | null {
+  const issued = token ? blobUploadTokens.get(token) : undefined;
+  if (!token || !issued) return null;
+  blobUploadTokens.delete(token);
+  return issued.createdAt >= Date.now() - BLOB_TOKEN_TTL ? issued.userId : null;
+}
+
+function blobBytesUsed(userId: string, now: number): number {
+  const usage = blobUploadUsage.get(userId);
+  return usage && usage.windowStart >= now - BLOB_QUOTA_WINDOW ? usage.bytes : 0;
+}
+
+function recordBlobUpload(userId: string, bytes: number, now: number) {
+  const usage = blobUploadUsage.get(userId);
+  if (usage && usage.windowStart >= now - BLOB_QUOTA_WINDOW) {
+    usage.bytes += bytes;
+  } else {
+    blobUploadUsage.set(userId, { windowStart: now, bytes });
+  }
+}
+
+function blobDeleteToken(id: string): string {
+  return createHmac("sha256", blobDeleteKey).update(id).digest("base64url");
+}
+
+function isBlobDeleteToken(id: string, token: string | undefined): boolean {
+  const expected = Buffer.from(blobDeleteToken(id));
+  const given = Buffer.from(token ?? "");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+// Socket.io ignores the promise an async listener returns, so storage
+// failures have to be caught here or they become unhandled rejections.
+function safeHandler<T extends unknown[]>(event: string, handler: (...args: T) => Promise<void>) {
+  return (...args: T) => {
+    handler(...args).catch((error) => {
+      console.error(`[Relay] ${event} handler failed:`, error);
+    });
+  };
+}
+
+function sendBlobError(res: express.Response, status: number, error: BlobError) {
+  res.status(status).json(error);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/health", (_req, res) => {
     res.json({ status: "ok", timestamp: Date.now() });
   });
 
-  app.get("/api/stats", (_req, res) => {
-    res.json({
-      connectedUsers: connectedUsers.size,
-      pendingMessages: Array.from(pendingMessages.values()).reduce((acc, msgs) => acc + msgs.length, 0),
-    });
+  app.get("/api/keys/:userId", async (req, res, next) => {
+    try {
+      const userId = req.params.userId.toUpperCase();
+      if (!/^[A-Z0-9]{4}-[A-Z0-9]{4}$/.test(userId)) {
+        return res.status(400).json({ message: "Invalid user ID" });
+      }
+      const bundle = await storage.getKeyBundle(userId);
+      if (!bundle) {
+        return res.status(404).json({ message: "No key published for this ID" });
+      }
+      res.json(bundle);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // The body is ciphertext the relay cannot read; whoever holds the returned ID
+  // can download it until it expires. `ttl` (ms) shortens the default lifetime
+  // for attachments in disappearing chats. Uploading takes a token from
+  // `blob:token`, and counts against the uploader's daily quota.
+  app.post(
+    "/api/blobs",
+    (req, res, next) => {
+      // Refused before the body is read when the client announces its size.
+      if (Number(req.header("content-length")) > MAX_BLOB_SIZE) {
+        return sendBlobError(res, 413, { code: "too_large", message: "Attachment is too large" });
+      }
+      const userId = takeBlobUploadToken(req.header(BLOB_UPLOAD_TOKEN_HEADER));
+      if (!userId) {
+        return sendBlobError(res, 401, { code: "unauthorized", message: "A valid upload token is required" });
+      }
+      res.locals.userId = userId;
+      next();
+    },
+    express.raw({ type: "application/octet-stream", limit: MAX_BLOB_SIZE }),
+    async (req, res, next) => {
+      try {
+        const data = req.body;
+        if (!Buffer.isBuffer(data) || data.length === 0) {
+          return sendBlobError(res, 400, { code: "empty", message: "Expected an application/octet-stream body" });
+        }
+        const userId: string = res.locals.userId;
+        const now = Date.now();
+        if (blobBytesUsed(userId, now) + data.length > MAX_BLOB_BYTES_PER_USER) {
+          return sendBlobError(res, 429, { code: "quota_exceeded", message: "Attachment upload quota reached, try again later" });
+        }
+        if ((await storage.totalBlobSize()) + data.length > MAX_BLOB_STORE_SIZE) {
+          return sendBlobError(res, 507, { code: "store_full", message: "The relay has no room for attachments right now" });
+        }
+
+        const requestedTtl = Number(req.query.ttl);
+        const ttl = Number.isFinite(requestedTtl)
+          ? Math.min(Math.max(requestedTtl, MIN_BLOB_TTL), MAX_BLOB_TTL)
+          : MAX_BLOB_TTL;
+        const id = randomBytes(16).toString("base64url");
+        const result: BlobUploadResult = {
+          id,
+          expiresAt: now + ttl,
+          deleteToken: blobDeleteToken(id),
+        };
+        await storage.saveBlob({ id: result.id, data, createdAt: now, expiresAt: result.expiresAt });
+        recordBlobUpload(userId, data.length, now);
+        res.status(201).json(result);
+      } catch (error) {
+        next(error);
+      }
+    },
+  );
+
+  app.get("/api/blobs/:id", async (req, res, next) => {
+    try {
+      if (!BLOB_ID_PATTERN.test(req.params.id)) {
+        return sendBlobError(res, 404, { code: "not_found", message: "No such attachment" });
+      }
+      const blob = await storage.getBlob(req.params.id, Date.now());
+      if (!blob) {
+        return sendBlobError(res, 404, { code: "not_found", message: "No such attachment" });
+      }
+      res.setHeader("Cache-Control", "no-store");
+      res.type("application/octet-stream").send(blob.data);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Lets the uploader take back a blob that no message ended up carrying.
+  app.delete("/api/blobs/:id", async (req, res, next) => {
+    try {
+      const { id } = req.params;
+      if (!BLOB_ID_PATTERN.test(id) || !isBlobDeleteToken(id, req.header(BLOB_DELETE_TOKEN_HEADER))) {
+        return sendBlobError(res, 401, { code: "unauthorized", message: "A valid delete token is required" });
+      }
+      await storage.deleteBlob(id);
+      res.status(204).end();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/api/stats", async (_req, res, next) => {
+    try {
+      res.json({
+        connectedUsers: connectedUsers.size,
+        pendingMessages: await storage.countPendingMessages(),
+      });
+    } catch (error) {
+      next(error);
+    }
   });
 
   const httpServer = createServer(app);
@@ -77,56 +297,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   io.on("connection", (socket) => {
     console.log(`[Relay] Client connected: ${socket.id}`);
 
-    socket.on("register", (data: { userId: string; publicKey?: string; torEnabled?: boolean; groups?: string[] } | string) => {
-      const userId = typeof data === "string" ? data : data.userId;
-      const userGroups = typeof data === "object" ? data.groups : undefined;
-      
+    let pendingNonce: string | null = generateNonce();
+    let registeredUserId: string | null = null;
+    let registeredPublicKey: string | null = null;
+    socket.emit("register:challenge", { nonce: pendingNonce });
+
+    const rejectRegistration = (error: RegisterError) => {
+      socket.emit("register:error", error);
+      console.log(`[Relay] Registration rejected (${error.code}): ${socket.id}`);
+    };
+
+    socket.on("register", safeHandler("register", async (data: RegisterPayload) => {
+      const nonce = pendingNonce;
+      pendingNonce = null;
+      if (!nonce) {
+        rejectRegistration({ code: "no_challenge", message: "No outstanding challenge for this connection" });
+        return;
+      }
+      if (!data || typeof data !== "object" || !data.userId || !data.publicKey || !data.signature) {
+        rejectRegistration({ code: "invalid_signature", message: "Registration payload is incomplete" });
+        return;
+      }
+
+      const published = await storage.getKeyBundle(data.userId);
+      const result = await verifyRegistration(data, nonce, published);
+      if ("code" in result) {
+        rejectRegistration(result);
+        return;
+      }
+
+      const userId = data.userId;
+
       connectedUsers.set(userId, socket.id);
+      registeredUserId = userId;
+      registeredPublicKey = data.publicKey;
+      socket.emit("registered", { userId });
       console.log(`[Relay] User registered: ${userId}`);
 
-      if (userGroups && userGroups.length > 0) {
-        userGroups.forEach((groupId) => {
-          socket.join(groupId);
-          const group = groups.get(groupId);
-          if (group) {
-            if (!group.members.includes(userId)) {
-              group.members.push(userId);
-            }
-          } else {
-            groups.set(groupId, { id: groupId, members: [userId] });
-          }
-        });
-        console.log(`[Relay] User ${userId} rejoined ${userGroups.length} groups`);
+      if (data.keyBundle) {
+        // verifyRegistration already checked any transition against this key.
+        const bundle = await verifyKeyBundle(userId, data.publicKey, data.keyBundle, data.keyTransition);
+        const accepted = bundle ? await acceptKeyBundleUpdate(published, bundle) : null;
+        if (!accepted || !(await storage.saveKeyBundle(accepted))) {
+          console.log(`[Relay] Ignoring invalid or outdated key bundle from ${userId}`);
+        }
       }
+      // Registering proves the key speaks for the ID, so rosters follow it,
+      // e.g. after a key migration.
+      await storage.updateMemberPublicKey(userId, data.publicKey);
 
-      const pending = pendingMessages.get(userId);
-      if (pending && pending.length > 0) {
+      const pending = await storage.takePendingMessages(userId);
+      if (pending.length > 0) {
         pending.forEach((msg) => {
-          if (msg.groupId) {
+          if (msg.kind === "key_update") {
+            socket.emit("key:update", { from: msg.from, timestamp: msg.timestamp });
+          } else if (msg.kind === "receipt") {
+            socket.emit("receipt", {
+              id: msg.id,
+              from: msg.from,
+              encrypted: msg.encrypted,
+              timestamp: msg.timestamp,
+            });
+          } else if (msg.groupId) {
             socket.emit("group:message", {
+              id: msg.id,
               groupId: msg.groupId,
               from: msg.from,
               encrypted: msg.encrypted,
-              content: msg.content,
               timestamp: msg.timestamp,
             });
           } else {
-            socket.emit("message", msg);
+            socket.emit("message", {
+              id: msg.id,
+              from: msg.from,
+              to: msg.to,
+              encrypted: msg.encrypted,
+              timestamp: msg.timestamp,
+            });
           }
         });
-        pendingMessages.delete(userId);
         console.log(`[Relay] Delivered ${pending.length} pending messages to ${userId}`);
       }
-    });
+    }));
 
-    socket.on("message", (data: { to: string; from: string; encrypted: string; id?: string }) => {
+    // Like key updates and typing, messages and receipts carry the registered
+    // identity as their sender; a socket that has not registered cannot send.
+    socket.on("message", safeHandler("message", async (data: { to?: string; encrypted?: string; id?: string }) => {
+      const from = registeredUserId;
+      if (!from || !data?.to || typeof data.encrypted !== "string") return;
       const messageId = data.id || generateMessageId();
       
-      if (deliveredMessageIds.has(messageId)) {
+      if (!(await storage.markDelivered(messageId, Date.now()))) {
+        // The first copy was already accepted; ack again so a resend after a
+        // lost ack still moves the sender's message forward.
+        socket.emit("message:ack", { id: messageId, to: data.to, queued: false });
         console.log(`[Relay] Duplicate message ignored: ${messageId}`);
         return;
       }
-      deliveredMessageIds.set(messageId, Date.now());
       
       const targetSocketId = connectedUsers.get(data.to);
       const timestamp = Date.now();
@@ -134,107 +401,321 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (targetSocketId) {
         io.to(targetSocketId).emit("message", {
           id: messageId,
-          from: data.from,
+          from,
           encrypted: data.encrypted,
           timestamp,
         });
-        console.log(`[Relay] Message delivered: ${data.from} -> ${data.to}`);
+        console.log(`[Relay] Message delivered: ${from} -> ${data.to}`);
       } else {
-        const pending = pendingMessages.get(data.to) || [];
-        pending.push({
+        await storage.queueMessage({
           id: messageId,
-          from: data.from,
+          from,
           to: data.to,
           encrypted: data.encrypted,
           timestamp,
         });
-        pendingMessages.set(data.to, pending);
         console.log(`[Relay] Message queued for offline user: ${data.to}`);
       }
-    });
+      socket.emit("message:ack", { id: messageId, to: data.to, queued: !targetSocketId });
+    }));
 
-    socket.on("group:create", (data: { groupId: string; members: string[] }) => {
-      groups.set(data.groupId, { id: data.groupId, members: data.members });
-      socket.join(data.groupId);
-      console.log(`[Relay] Group created: ${data.groupId} with ${data.members.length} members`);
-    });
+    socket.on("receipt", safeHandler("receipt", async (data: { to?: string; encrypted?: string; id?: string }) => {
+      const from = registeredUserId;
+      if (!from || !data?.to || !data.id || typeof data.encrypted !== "string") return;
+      if (!(await storage.markDelivered(data.id, Date.now()))) {
+        return;
+      }
+
+      const targetSocketId = connectedUsers.get(data.to);
+      const timestamp = Date.now();
+
+      if (targetSocketId) {
+        io.to(targetSocketId).emit("receipt", {
+          id: data.id,
+          from,
+          encrypted: data.encrypted,
+          timestamp,
+        });
+      } else {
+        await storage.queueMessage({
+          id: data.id,
+          from,
+          to: data.to,
+          encrypted: data.encrypted,
+          timestamp,
+          kind: "receipt",
+        });
+      }
+    }));
+
+    // Tells a contact to fetch our key bundle again after a key migration. The
+    // sender comes from the registered identity; the bundle speaks for itself.
+    socket.on("key:update", safeHandler("key:update", async (data: { to?: string; id?: string }) => {
+      const from = registeredUserId;
+      if (!from || !data?.to || !data.id) return;
+
+      if (!(await storage.markDelivered(data.id, Date.now()))) {
+        socket.emit("key:update:ack", { id: data.id });
+        return;
+      }
+
+      const targetSocketId = connectedUsers.get(data.to);
+      const timestamp = Date.now();
+      if (targetSocketId) {
+        io.to(targetSocketId).emit("key:update", { from, timestamp });
+      } else {
+        await storage.queueMessage({
+          id: data.id,
+          from,
+          to: data.to,
+          encrypted: "",
+          timestamp,
+          kind: "key_update",
+        });
+      }
+      socket.emit("key:update:ack", { id: data.id });
+    }));
 
-    socket.on("group:join", (data: { groupId: string; userId: string }) => {
-      const group = groups.get(data.groupId);
-      if (group && !group.members.includes(data.userId)) {
-        group.members.push(data.userId);
+    socket.on("blob:token", (ack?: (result: BlobTokenResult) => void) => {
+      if (typeof ack !== "function") return;
+      if (!registeredUserId) {
+        ack({});
+        return;
       }
-      socket.join(data.groupId);
-      console.log(`[Relay] User ${data.userId} joined group: ${data.groupId}`);
+      const token = randomBytes(24).toString("base64url");
+      blobUploadTokens.set(token, { userId: registeredUserId, createdAt: Date.now() });
+      ack({ token });
     });
 
-    socket.on("group:leave", (data: { groupId: string; userId: string }) => {
-      const group = groups.get(data.groupId);
-      if (group) {
-        group.members = group.members.filter(m => m !== data.userId);
-        if (group.members.length === 0) {
-          groups.delete(data.groupId);
+    // Typing indicators are best-effort: never queued, and the sender is taken
+    // from the registered identity rather than the payload.
+    socket.on("typing", safeHandler("typing", async (data: { to?: string; groupId?: string }) => {
+      const from = registeredUserId;
+      if (!from || !data) return;
+
+      if (data.groupId) {
+        const group = await storage.getGroup(data.groupId);
+        if (!group?.members.includes(from)) return;
+        for (const memberId of group.members) {
+          const memberSocketId = memberId !== from ? connectedUsers.get(memberId) : undefined;
+          if (memberSocketId) {
+            io.to(memberSocketId).emit("typing", { from, groupId: data.groupId });
+          }
+        }
+      } else if (data.to) {
+        const targetSocketId = connectedUsers.get(data.to);
+        if (targetSocketId) {
+          io.to(targetSocketId).emit("typing", { from });
         }
       }
-      socket.leave(data.groupId);
+    }));
+
+    // The relay roster decides who receives group messages. Only a registered
+    // creator can open a roster, and everyone else gets on it through an
+    // invitation signed by one of its admins.
+    const replyGroup = (ack: ((result: GroupResult) => void) | undefined, code?: GroupErrorCode) => {
+      if (typeof ack === "function") {
+        ack(code ? { ok: false, code } : { ok: true });
+      }
+    };
+
+    socket.on("group:create", safeHandler("group:create", async (data: GroupCreatePayload, ack?: (result: GroupResult) => void) => {
+      if (!registeredUserId || !registeredPublicKey) {
+        replyGroup(ack, "not_registered");
+        return;
+      }
+      if (!data?.groupId) {
+        replyGroup(ack, "not_found");
+        return;
+      }
+      const created = await storage.createGroup(data.groupId, {
+        id: registeredUserId,
+        role: "admin",
+        publicKey: registeredPublicKey,
+      });
+      if (!created) {
+        // Outbox retries create the group again; that is fine for its admins.
+        const group = await storage.getGroup(data.groupId);
+        const isAdmin = group?.roster.some((m) => m.id === registeredUserId && m.role === "admin");
+        replyGroup(ack, isAdmin ? undefined : "group_exists");
+        return;
+      }
+      if (typeof ack === "function") {
+        ack({ ok: true, created: true });
+      }
+      console.log(`[Relay] Group created: ${data.groupId} by ${registeredUserId}`);
+    }));
+
+    socket.on("group:join", safeHandler("group:join", async (data: GroupJoinPayload, ack?: (result: GroupResult) => void) => {
+      if (!registeredUserId) {
+        replyGroup(ack, "not_registered");
+        return;
+      }
+      const group = data?.groupId ? await storage.getGroup(data.groupId) : undefined;
+      if (!group) {
+        replyGroup(ack, "not_found");
+        return;
+      }
+      const claims = typeof data.invitation === "string"
+        ? await verifyGroupInvitation(
+            data.groupId,
+            data.invitation,
+            group.roster.filter((m) => m.role === "admin"),
+            GROUP_INVITATION_TTL,
+          )
+        : null;
+      // Invitations stay valid for GROUP_INVITATION_TTL, so one signed before
+      // the member was removed could otherwise be replayed to put them back.
+      const removedAt = claims
+        ? await storage.getMemberRemovedAt(data.groupId, claims.userId)
+        : undefined;
+      if (!claims || (removedAt !== undefined && claims.issuedAt <= removedAt)) {
+        replyGroup(ack, "invalid_invitation");
+        return;
+      }
+      await storage.saveGroupMember(data.groupId, {
+        id: claims.userId,
+        role: claims.role,
+        publicKey: claims.publicKey,
+      });
+      replyGroup(ack);
+      console.log(`[Relay] User ${claims.userId} joined group ${data.groupId} (invited by ${claims.issuedBy})`);
+    }));
+
+    socket.on("group:leave", safeHandler("group:leave", async (data: GroupLeavePayload, ack?: (result: GroupResult) => void) => {
+      if (!registeredUserId) {
+        replyGroup(ack, "not_registered");
+        return;
+      }
+      const group = data?.groupId ? await storage.getGroup(data.groupId) : undefined;
+      if (!group) {
+        replyGroup(ack, "not_found");
+        return;
+      }
+      // Anyone may leave; removing someone else takes an admin.
+      const isAdmin = group.roster.some((m) => m.id === registeredUserId && m.role === "admin");
+      if (data.userId !== registeredUserId && !isAdmin) {
+        replyGroup(ack, "not_admin");
+        return;
+      }
+      await storage.removeGroupMember(data.groupId, data.userId, Date.now());
+      replyGroup(ack);
       console.log(`[Relay] User ${data.userId} left group: ${data.groupId}`);
-    });
+    }));
 
-    socket.on("group:message", (data: { groupId: string; from: string; encrypted: string; content: string; id?: string }) => {
+    socket.on("group:message", safeHandler("group:message", async (data: { groupId: string; encrypted: string; id?: string }) => {
       const messageId = data.id || generateMessageId();
-      
-      if (deliveredMessageIds.has(messageId)) {
+      const from = registeredUserId;
+
+      // Checked before dedup so a message refused now can still go through
+      // once the sender has been invited.
+      const group = await storage.getGroup(data.groupId);
+      if (!from || !group?.members.includes(from)) {
+        const error: GroupMessageError = {
+          id: messageId,
+          groupId: data.groupId,
+          code: !from ? "not_registered" : group ? "not_member" : "not_found",
+        };
+        socket.emit("group:message:error", error);
+        console.log(`[Relay] Group message from non-member dropped: ${data.groupId}`);
+        return;
+      }
+
+      if (!(await storage.markDelivered(messageId, Date.now()))) {
+        socket.emit("group:message:ack", { id: messageId, groupId: data.groupId });
         console.log(`[Relay] Duplicate group message ignored: ${messageId}`);
         return;
       }
-      deliveredMessageIds.set(messageId, Date.now());
-      
-      const group = groups.get(data.groupId);
+
       const timestamp = Date.now();
-      
-      if (group) {
-        group.members.forEach((memberId) => {
-          if (memberId !== data.from) {
-            const memberSocketId = connectedUsers.get(memberId);
-            if (memberSocketId) {
-              io.to(memberSocketId).emit("group:message", {
-                id: messageId,
-                groupId: data.groupId,
-                from: data.from,
-                encrypted: data.encrypted,
-                content: data.content,
-                timestamp,
-              });
-            } else {
-              const pending = pendingMessages.get(memberId) || [];
-              pending.push({
-                id: messageId,
-                from: data.from,
-                to: memberId,
-                encrypted: data.encrypted,
-                timestamp,
-                groupId: data.groupId,
-                content: data.content,
-              });
-              pendingMessages.set(memberId, pending);
-            }
+      for (const memberId of group.members) {
+        if (memberId !== from) {
+          const memberSocketId = connectedUsers.get(memberId);
+          if (memberSocketId) {
+            io.to(memberSocketId).emit("group:message", {
+              id: messageId,
+              groupId: data.groupId,
+              from,
+              encrypted: data.encrypted,
+              timestamp,
+            });
+          } else {
+            await storage.queueMessage({
+              id: messageId,
+              from,
+              to: memberId,
+              encrypted: data.encrypted,
+              timestamp,
+              groupId: data.groupId,
+            });
           }
-        });
-        console.log(`[Relay] Group message: ${data.from} -> ${data.groupId}`);
-      } else {
-        io.to(data.groupId).emit("group:message", {
-          id: messageId,
-          groupId: data.groupId,
-          from: data.from,
-          encrypted: data.encrypted,
-          content: data.content,
-          timestamp,
-        });
-        console.log(`[Relay] Group message (room): ${data.from} -> ${data.groupId}`);
+        }
       }
-    });
+      console.log(`[Relay] Group message: ${from} -> ${data.groupId}`);
+      socket.emit("group:message:ack", { id: messageId, groupId: data.groupId });
+    }));
+
+    // Transfer events need no registration: the receiving device has no
+    // identity yet. Knowing the session ID from the QR code is what pairs them.
+    const rejectTransfer = (code: TransferErrorCode) => {
+      const error: TransferError = { code };
+      socket.emit("transfer:error", error);
+    };
+
+    socket.on("transfer:host", safeHandler("transfer:host", async (data: TransferSessionPayload) => {
+      if (!data || !TRANSFER_SESSION_ID_PATTERN.test(data.sessionId)) {
+        rejectTransfer("invalid_session");
+        return;
+      }
+      if (transferSessions.has(data.sessionId)) {
+        rejectTransfer("session_taken");
+        return;
+      }
+      transferSessions.set(data.sessionId, { host: socket.id, guest: null, createdAt: Date.now() });
+      socket.emit("transfer:ready", { sessionId: data.sessionId });
+    }));
+
+    socket.on("transfer:join", safeHandler("transfer:join", async (data: TransferSessionPayload) => {
+      const session = data?.sessionId ? transferSessions.get(data.sessionId) : undefined;
+      if (!session) {
+        rejectTransfer("not_found");
+        return;
+      }
+      // One guest per session, so a QR code seen over someone's shoulder
+      // cannot be used once the real device has joined.
+      if (session.guest || session.host === socket.id) {
+        rejectTransfer("session_taken");
+        return;
+      }
+      session.guest = socket.id;
+      io.to(session.host).emit("transfer:peer", { sessionId: data.sessionId });
+      socket.emit("transfer:peer", { sessionId: data.sessionId });
+      console.log(`[Relay] Transfer session paired: ${socket.id}`);
+    }));
+
+    socket.on("transfer:chunk", safeHandler("transfer:chunk", async (data: TransferChunkPayload) => {
+      const session = data?.sessionId ? transferSessions.get(data.sessionId) : undefined;
+      if (!session?.guest || typeof data.data !== "string" || data.data.length > MAX_TRANSFER_CHUNK_LENGTH) {
+        return;
+      }
+      const peer = session.host === socket.id ? session.guest : session.guest === socket.id ? session.host : null;
+      if (peer) {
+        io.to(peer).emit("transfer:chunk", { data: data.data });
+      }
+    }));
 
     socket.on("disconnect", () => {
+      for (const [sessionId, session] of transferSessions.entries()) {
+        if (session.host === socket.id || session.guest === socket.id) {
+          transferSessions.delete(sessionId);
+          const peer = session.host === socket.id ? session.guest : session.host;
+          if (peer) {
+            const error: TransferError = { code: "peer_left" };
+            io.to(peer).emit("transfer:error", error);
+          }
+        }
+      }
+
       for (const [userId, socketId] of connectedUsers.entries()) {
         if (socketId === socket.id) {
           connectedUsers.delete(userId);
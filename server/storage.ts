@@ -1,38 +1,558 @@
-import { type User, type InsertUser } from "@shared/schema";
-import { randomUUID } from "crypto";
+import { and, asc, eq, lt, lte, sql } from "drizzle-orm";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import {
+  deliveredMessageIds,
+  groupRemovals,
+  groupRosters,
+  keyBundles,
+  queuedEnvelopes,
+  relayBlobs,
+} from "@shared/schema";
+import type { GroupRole } from "@shared/groups";
+import type { KeyBundle } from "@shared/identity";
 
-// modify the interface with any CRUD methods
-// you might need
+export interface PendingMessage {
+  id: string;
+  from: string;
+  to: string;
+  encrypted: string;
+  timestamp: number;
+  groupId?: string;
+  // Receipts travel through the same queue as messages; the relay can tell
+  // them apart but never sees which message they acknowledge. Key updates
+  // carry no payload: recipients fetch the new key bundle themselves.
+  kind?: "message" | "receipt" | "key_update";
+}
+
+export interface GroupRosterMember {
+  id: string;
+  role: GroupRole;
+  publicKey: string | null;
+}
 
+export interface GroupInfo {
+  id: string;
+  members: string[];
+  // Same members with the role and key the relay checks invitations against.
+  roster: GroupRosterMember[];
+}
+
+export interface StoredBlob {
+  id: string;
+  data: Buffer;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// Everything the relay has to remember between socket events. Connected
+// sockets stay in process memory; queued ciphertext, group rosters, dedup IDs
+// published key bundles and attachment blobs go through here so they can outlive a restart.
 export interface IStorage {
-  getUser(id: string): Promise<User | undefined>;
-  getUserByUsername(username: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  queueMessage(message: PendingMessage): Promise<void>;
+  takePendingMessages(userId: string): Promise<PendingMessage[]>;
+  countPendingMessages(): Promise<number>;
+  deleteMessagesOlderThan(cutoff: number): Promise<number>;
+
+  getGroup(groupId: string): Promise<GroupInfo | undefined>;
+  // Returns false when a roster for the group already exists.
+  createGroup(groupId: string, creator: GroupRosterMember): Promise<boolean>;
+  // Adds the member, or updates the role and key of an existing one.
+  saveGroupMember(groupId: string, member: GroupRosterMember): Promise<void>;
+  // Also records when, so invitations signed before the removal are refused.
+  removeGroupMember(
+    groupId: string,
+    memberId: string,
+    removedAt: number,
+  ): Promise<void>;
+  getMemberRemovedAt(
+    groupId: string,
+    memberId: string,
+  ): Promise<number | undefined>;
+  // Sets the member's key on every roster they are on, e.g. after they moved
+  // their ID to a new key.
+  updateMemberPublicKey(memberId: string, publicKey: string): Promise<void>;
+
+  // Returns false when the ID was already recorded, i.e. a duplicate send.
+  markDelivered(messageId: string, timestamp: number): Promise<boolean>;
+  deleteDeliveredIdsOlderThan(cutoff: number): Promise<number>;
+
+  getKeyBundle(userId: string): Promise<KeyBundle | undefined>;
+  // Keeps the stored bundle when it is as new as `bundle` or newer; returns
+  // whether `bundle` was stored.
+  saveKeyBundle(bundle: KeyBundle): Promise<boolean>;
+
+  saveBlob(blob: StoredBlob): Promise<void>;
+  // Expired blobs are not returned even before they are purged.
+  getBlob(id: string, now: number): Promise<StoredBlob | undefined>;
+  totalBlobSize(): Promise<number>;
+  deleteBlob(id: string): Promise<void>;
+  deleteExpiredBlobs(now: number): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
-  private users: Map<string, User>;
+  private pendingMessages: Map<string, PendingMessage[]>;
+  private groups: Map<string, GroupRosterMember[]>;
+  private groupRemovals: Map<string, Map<string, number>>;
+  private deliveredMessageIds: Map<string, number>;
+  private keyBundles: Map<string, KeyBundle>;
+  private blobs: Map<string, StoredBlob>;
 
   constructor() {
-    this.users = new Map();
+    this.pendingMessages = new Map();
+    this.groups = new Map();
+    this.groupRemovals = new Map();
+    this.deliveredMessageIds = new Map();
+    this.keyBundles = new Map();
+    this.blobs = new Map();
   }
 
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
+  async queueMessage(message: PendingMessage): Promise<void> {
+    const pending = this.pendingMessages.get(message.to) || [];
+    pending.push(message);
+    this.pendingMessages.set(message.to, pending);
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username,
+  async takePendingMessages(userId: string): Promise<PendingMessage[]> {
+    const pending = this.pendingMessages.get(userId) || [];
+    this.pendingMessages.delete(userId);
+    return pending;
+  }
+
+  async countPendingMessages(): Promise<number> {
+    return Array.from(this.pendingMessages.values()).reduce(
+      (acc, msgs) => acc + msgs.length,
+      0,
     );
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = randomUUID();
-    const user: User = { ...insertUser, id };
-    this.users.set(id, user);
-    return user;
+  async deleteMessagesOlderThan(cutoff: number): Promise<number> {
+    let deleted = 0;
+    for (const [userId, messages] of this.pendingMessages.entries()) {
+      const validMessages = messages.filter((msg) => msg.timestamp >= cutoff);
+      deleted += messages.length - validMessages.length;
+      if (validMessages.length === 0) {
+        this.pendingMessages.delete(userId);
+      } else {
+        this.pendingMessages.set(userId, validMessages);
+      }
+    }
+    return deleted;
+  }
+
+  async getGroup(groupId: string): Promise<GroupInfo | undefined> {
+    const roster = this.groups.get(groupId);
+    return roster
+      ? {
+          id: groupId,
+          members: roster.map((m) => m.id),
+          roster: roster.map((m) => ({ ...m })),
+        }
+      : undefined;
+  }
+
+  async createGroup(
+    groupId: string,
+    creator: GroupRosterMember,
+  ): Promise<boolean> {
+    if (this.groups.has(groupId)) {
+      return false;
+    }
+    this.groups.set(groupId, [{ ...creator }]);
+    return true;
+  }
+
+  async saveGroupMember(
+    groupId: string,
+    member: GroupRosterMember,
+  ): Promise<void> {
+    const roster = this.groups.get(groupId);
+    if (!roster) {
+      this.groups.set(groupId, [{ ...member }]);
+      return;
+    }
+    const index = roster.findIndex((m) => m.id === member.id);
+    if (index === -1) {
+      roster.push({ ...member });
+    } else {
+      roster[index] = { ...member };
+    }
+  }
+
+  async removeGroupMember(
+    groupId: string,
+    memberId: string,
+    removedAt: number,
+  ): Promise<void> {
+    const roster = this.groups.get(groupId);
+    if (roster) {
+      const remaining = roster.filter((m) => m.id !== memberId);
+      if (remaining.length === 0) {
+        this.groups.delete(groupId);
+        this.groupRemovals.delete(groupId);
+        return;
+      }
+      this.groups.set(groupId, remaining);
+    }
+    const removals = this.groupRemovals.get(groupId) ?? new Map();
+    removals.set(memberId, removedAt);
+    this.groupRemovals.set(groupId, removals);
+  }
+
+  async getMemberRemovedAt(
+    groupId: string,
+    memberId: string,
+  ): Promise<number | undefined> {
+    return this.groupRemovals.get(groupId)?.get(memberId);
+  }
+
+  async updateMemberPublicKey(
+    memberId: string,
+    publicKey: string,
+  ): Promise<void> {
+    for (const roster of this.groups.values()) {
+      for (const member of roster) {
+        if (member.id === memberId) {
+          member.publicKey = publicKey;
+        }
+      }
+    }
+  }
+
+  async markDelivered(messageId: string, timestamp: number): Promise<boolean> {
+    if (this.deliveredMessageIds.has(messageId)) {
+      return false;
+    }
+    this.deliveredMessageIds.set(messageId, timestamp);
+    return true;
+  }
+
+  async deleteDeliveredIdsOlderThan(cutoff: number): Promise<number> {
+    let deleted = 0;
+    for (const [id, timestamp] of this.deliveredMessageIds.entries()) {
+      if (timestamp < cutoff) {
+        this.deliveredMessageIds.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async getKeyBundle(userId: string): Promise<KeyBundle | undefined> {
+    return this.keyBundles.get(userId);
+  }
+
+  async saveKeyBundle(bundle: KeyBundle): Promise<boolean> {
+    const stored = this.keyBundles.get(bundle.userId);
+    if (stored && stored.publishedAt >= bundle.publishedAt) {
+      return false;
+    }
+    this.keyBundles.set(bundle.userId, bundle);
+    return true;
+  }
+
+  async saveBlob(blob: StoredBlob): Promise<void> {
+    this.blobs.set(blob.id, blob);
+  }
+
+  async getBlob(id: string, now: number): Promise<StoredBlob | undefined> {
+    const blob = this.blobs.get(id);
+    return blob && blob.expiresAt > now ? blob : undefined;
+  }
+
+  async totalBlobSize(): Promise<number> {
+    let total = 0;
+    for (const blob of this.blobs.values()) {
+      total += blob.data.length;
+    }
+    return total;
+  }
+
+  async deleteBlob(id: string): Promise<void> {
+    this.blobs.delete(id);
+  }
+
+  async deleteExpiredBlobs(now: number): Promise<number> {
+    let deleted = 0;
+    for (const [id, blob] of this.blobs.entries()) {
+      if (blob.expiresAt <= now) {
+        this.blobs.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+export class PgStorage implements IStorage {
+  private db: NodePgDatabase;
+
+  constructor(connectionString: string) {
+    this.db = drizzle(new pg.Pool({ connectionString }));
+  }
+
+  async queueMessage(message: PendingMessage): Promise<void> {
+    await this.db
+      .insert(queuedEnvelopes)
+      .values({
+        id: message.id,
+        recipientId: message.to,
+        senderId: message.from,
+        encrypted: message.encrypted,
+        groupId: message.groupId ?? null,
+        kind: message.kind ?? "message",
+        timestamp: message.timestamp,
+      })
+      .onConflictDoNothing();
+  }
+
+  async takePendingMessages(userId: string): Promise<PendingMessage[]> {
+    const rows = await this.db
+      .delete(queuedEnvelopes)
+      .where(eq(queuedEnvelopes.recipientId, userId))
+      .returning();
+    return rows
+      .sort((a, b) => a.seq - b.seq)
+      .map((row) => ({
+        id: row.id,
+        from: row.senderId,
+        to: row.recipientId,
+        encrypted: row.encrypted,
+        timestamp: row.timestamp,
+        groupId: row.groupId ?? undefined,
+        kind:
+          row.kind === "receipt" || row.kind === "key_update"
+            ? row.kind
+            : ("message" as const),
+      }));
+  }
+
+  async countPendingMessages(): Promise<number> {
+    const [row] = await this.db
+      .select({ count: sql<number>`cast(count(*) as integer)` })
+      .from(queuedEnvelopes);
+    return row?.count ?? 0;
+  }
+
+  async deleteMessagesOlderThan(cutoff: number): Promise<number> {
+    const rows = await this.db
+      .delete(queuedEnvelopes)
+      .where(lt(queuedEnvelopes.timestamp, cutoff))
+      .returning({ seq: queuedEnvelopes.seq });
+    return rows.length;
+  }
+
+  async getGroup(groupId: string): Promise<GroupInfo | undefined> {
+    const rows = await this.db
+      .select()
+      .from(groupRosters)
+      .where(eq(groupRosters.groupId, groupId))
+      .orderBy(asc(groupRosters.memberId));
+    if (rows.length === 0) {
+      return undefined;
+    }
+    return {
+      id: groupId,
+      members: rows.map((row) => row.memberId),
+      roster: rows.map((row) => ({
+        id: row.memberId,
+        role: row.role,
+        publicKey: row.publicKey,
+      })),
+    };
+  }
+
+  async createGroup(
+    groupId: string,
+    creator: GroupRosterMember,
+  ): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select({ memberId: groupRosters.memberId })
+        .from(groupRosters)
+        .where(eq(groupRosters.groupId, groupId))
+        .limit(1);
+      if (existing) {
+        return false;
+      }
+      await tx.insert(groupRosters).values({
+        groupId,
+        memberId: creator.id,
+        role: creator.role,
+        publicKey: creator.publicKey,
+      });
+      return true;
+    });
+  }
+
+  async saveGroupMember(
+    groupId: string,
+    member: GroupRosterMember,
+  ): Promise<void> {
+    await this.db
+      .insert(groupRosters)
+      .values({
+        groupId,
+        memberId: member.id,
+        role: member.role,
+        publicKey: member.publicKey,
+      })
+      .onConflictDoUpdate({
+        target: [groupRosters.groupId, groupRosters.memberId],
+        set: { role: member.role, publicKey: member.publicKey },
+      });
+  }
+
+  async removeGroupMember(
+    groupId: string,
+    memberId: string,
+    removedAt: number,
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      await tx
+        .delete(groupRosters)
+        .where(
+          and(
+            eq(groupRosters.groupId, groupId),
+            eq(groupRosters.memberId, memberId),
+          ),
+        );
+      await tx
+        .insert(groupRemovals)
+        .values({ groupId, memberId, removedAt })
+        .onConflictDoUpdate({
+          target: [groupRemovals.groupId, groupRemovals.memberId],
+          set: { removedAt },
+        });
+    });
+  }
+
+  async getMemberRemovedAt(
+    groupId: string,
+    memberId: string,
+  ): Promise<number | undefined> {
+    const [row] = await this.db
+      .select({ removedAt: groupRemovals.removedAt })
+      .from(groupRemovals)
+      .where(
+        and(
+          eq(groupRemovals.groupId, groupId),
+          eq(groupRemovals.memberId, memberId),
+        ),
+      );
+    return row?.removedAt;
+  }
+
+  async updateMemberPublicKey(
+    memberId: string,
+    publicKey: string,
+  ): Promise<void> {
+    await this.db
+      .update(groupRosters)
+      .set({ publicKey })
+      .where(eq(groupRosters.memberId, memberId));
+  }
+
+  async markDelivered(messageId: string, timestamp: number): Promise<boolean> {
+    const inserted = await this.db
+      .insert(deliveredMessageIds)
+      .values({ id: messageId, deliveredAt: timestamp })
+      .onConflictDoNothing()
+      .returning({ id: deliveredMessageIds.id });
+    return inserted.length > 0;
+  }
+
+  async deleteDeliveredIdsOlderThan(cutoff: number): Promise<number> {
+    const rows = await this.db
+      .delete(deliveredMessageIds)
+      .where(lt(deliveredMessageIds.deliveredAt, cutoff))
+      .returning({ id: deliveredMessageIds.id });
+    return rows.length;
+  }
+
+  async getKeyBundle(userId: string): Promise<KeyBundle | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(keyBundles)
+      .where(eq(keyBundles.userId, userId));
+    if (!row) return undefined;
+    return { ...row, keyTransition: row.keyTransition ?? undefined };
+  }
+
+  async saveKeyBundle(bundle: KeyBundle): Promise<boolean> {
+    const rows = await this.db
+      .insert(keyBundles)
+      .values(bundle)
+      .onConflictDoUpdate({
+        target: keyBundles.userId,
+        set: {
+          publicKey: bundle.publicKey,
+          signedClaims: bundle.signedClaims,
+          publishedAt: bundle.publishedAt,
+          keyTransition: bundle.keyTransition ?? null,
+        },
+        setWhere: lt(keyBundles.publishedAt, bundle.publishedAt),
+      })
+      .returning({ userId: keyBundles.userId });
+    return rows.length > 0;
+  }
+
+  async saveBlob(blob: StoredBlob): Promise<void> {
+    await this.db.insert(relayBlobs).values({
+      id: blob.id,
+      data: blob.data,
+      size: blob.data.length,
+      createdAt: blob.createdAt,
+      expiresAt: blob.expiresAt,
+    });
+  }
+
+  async getBlob(id: string, now: number): Promise<StoredBlob | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(relayBlobs)
+      .where(eq(relayBlobs.id, id));
+    if (!row || row.expiresAt <= now) return undefined;
+    return {
+      id: row.id,
+      data: row.data,
+      createdAt: row.createdAt,
+      expiresAt: row.expiresAt,
+    };
+  }
+
+  async totalBlobSize(): Promise<number> {
+    const [row] = await this.db
+      .select({
+        total: sql<number>`cast(coalesce(sum(${relayBlobs.size}), 0) as bigint)`,
+      })
+      .from(relayBlobs);
+    return Number(row?.total ?? 0);
+  }
+
+  async deleteBlob(id: string): Promise<void> {
+    await this.db.delete(relayBlobs).where(eq(relayBlobs.id, id));
+  }
+
+  async deleteExpiredBlobs(now: number): Promise<number> {
+    const rows = await this.db
+      .delete(relayBlobs)
+      .where(lte(relayBlobs.expiresAt, now))
+      .returning({ id: relayBlobs.id });
+    return rows.length;
+  }
+}
+
+// RELAY_STORAGE=postgres persists through DATABASE_URL; anything else keeps
+// the relay fully in memory, which is what local runs and tests rely on.
+function createStorage(): IStorage {
+  if (process.env.RELAY_STORAGE === "postgres") {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("RELAY_STORAGE=postgres requires DATABASE_URL to be set");
+    }
+    return new PgStorage(process.env.DATABASE_URL);
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,39 @@
+// Encrypted attachments. The relay stores each upload as an opaque blob under
+// a random ID until it expires; the key, hash and file type only ever travel
+// inside end-to-end encrypted messages.
+
+export const MAX_BLOB_SIZE = 16 * 1024 * 1024;
+export const MAX_BLOB_TTL = 7 * 24 * 60 * 60 * 1000;
+export const MIN_BLOB_TTL = 60 * 1000;
+export const BLOB_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+// Uploads carry a single-use token the relay hands registered sockets on
+// `blob:token`, so only identities it knows can store anything.
+export const BLOB_UPLOAD_TOKEN_HEADER = "X-Upload-Token";
+// Deleting a blob takes the `deleteToken` its upload returned, so only the
+// uploader can take it back.
+export const BLOB_DELETE_TOKEN_HEADER = "X-Delete-Token";
+
+export interface BlobUploadResult {
+  id: string;
+  expiresAt: number;
+  deleteToken: string;
+}
+
+// Sent back through the socket.io acknowledgement of `blob:token`; there is
+// no token for sockets that have not registered.
+export interface BlobTokenResult {
+  token?: string;
+}
+
+export type BlobErrorCode =
+  | "empty"
+  | "too_large"
+  | "store_full"
+  | "quota_exceeded"
+  | "unauthorized"
+  | "not_found";
+
+export interface BlobError {
+  code: BlobErrorCode;
+  message: string;
+}
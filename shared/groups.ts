@@ -0,0 +1,54 @@
+export type GroupRole = "admin" | "member";
+
+// What an admin attests to when putting someone on the relay roster: the
+// signed text is JSON.stringify(GroupInvitationClaims), cleartext-signed with
+// the admin's key. The relay only accepts it from keys it already holds as
+// admins of `groupId`, and stores `publicKey` so the invitee can later sign
+// invitations of their own if `role` is "admin".
+export interface GroupInvitationClaims {
+  groupId: string;
+  userId: string;
+  publicKey: string;
+  role: GroupRole;
+  issuedBy: string;
+  issuedAt: number;
+}
+
+export interface GroupCreatePayload {
+  groupId: string;
+}
+
+export interface GroupJoinPayload {
+  groupId: string;
+  invitation: string;
+}
+
+export interface GroupLeavePayload {
+  groupId: string;
+  userId: string;
+}
+
+export type GroupErrorCode =
+  | "not_registered"
+  | "group_exists"
+  | "not_found"
+  | "invalid_invitation"
+  | "not_admin"
+  | "not_member";
+
+// Sent back through the socket.io acknowledgement of group:create,
+// group:join and group:leave, and as group:message:error for messages the
+// relay refuses to fan out.
+export interface GroupResult {
+  ok: boolean;
+  code?: GroupErrorCode;
+  // Set by group:create when there was no roster before, e.g. after a relay
+  // with in-memory storage restarted; the admin then invites everyone again.
+  created?: boolean;
+}
+
+export interface GroupMessageError {
+  id: string;
+  groupId: string;
+  code: GroupErrorCode;
+}
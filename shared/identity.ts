@@ -0,0 +1,72 @@
+export function generateShortId(fingerprint: string): string {
+  const clean = fingerprint.replace(/\s/g, "").toUpperCase();
+  const part1 = clean.slice(0, 4);
+  const part2 = clean.slice(4, 8);
+  return `${part1}-${part2}`;
+}
+
+export interface RegisterChallenge {
+  nonce: string;
+}
+
+export interface RegisterPayload {
+  userId: string;
+  publicKey: string;
+  signature: string;
+  keyBundle?: string;
+  keyTransition?: KeyTransition;
+  torEnabled?: boolean;
+}
+
+export type RegisterErrorCode =
+  | "no_challenge"
+  | "invalid_key"
+  | "invalid_signature"
+  | "id_mismatch"
+  | "key_retired";
+
+export interface RegisterError {
+  code: RegisterErrorCode;
+  message: string;
+}
+
+// What a key owner attests to when publishing their key: the signed text is
+// JSON.stringify(KeyBundleClaims), cleartext-signed with the same key.
+export interface KeyBundleClaims {
+  userId: string;
+  fingerprint: string;
+  publishedAt: number;
+  prekeys?: PrekeyBundle;
+}
+
+// X25519 public keys (base64, raw) for starting a ratchet session. Carried in
+// the signed claims, so the identity key vouches for them. Clients that
+// publish no prekeys are only reachable through plain OpenPGP messages.
+export interface PrekeyBundle {
+  identityKey: string;
+  signedPrekey: string;
+  signedPrekeyId: number;
+}
+
+export interface KeyBundle {
+  userId: string;
+  publicKey: string;
+  signedClaims: string;
+  publishedAt: number;
+  keyTransition?: KeyTransition;
+}
+
+// A user ID is the short hash of the key it was created with. After moving to
+// a new key, that original key signs JSON.stringify(KeyTransitionClaims) to
+// hand the ID over; anyone holding `previousPublicKey` can check it.
+export interface KeyTransitionClaims {
+  userId: string;
+  previousFingerprint: string;
+  fingerprint: string;
+  issuedAt: number;
+}
+
+export interface KeyTransition {
+  previousPublicKey: string;
+  signedClaims: string;
+}
@@ -1,20 +1,93 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar } from "drizzle-orm/pg-core";
-import { createInsertSchema } from "drizzle-zod";
-import { z } from "zod";
-
-export const users = pgTable("users", {
-  id: varchar("id")
-    .primaryKey()
-    .default(sql`gen_random_uuid()`),
-  username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+import type { GroupRole } from "./groups";
+import type { KeyTransition } from "./identity";
+import {
+  bigint,
+  customType,
+  index,
+  integer,
+  jsonb,
+  pgTable,
+  primaryKey,
+  serial,
+  text,
+  unique,
+  varchar,
+} from "drizzle-orm/pg-core";
+
+export const queuedEnvelopes = pgTable(
+  "queued_envelopes",
+  {
+    seq: serial("seq").primaryKey(),
+    id: varchar("id").notNull(),
+    recipientId: varchar("recipient_id").notNull(),
+    senderId: varchar("sender_id").notNull(),
+    encrypted: text("encrypted").notNull(),
+    groupId: varchar("group_id"),
+    kind: varchar("kind").notNull().default("message"),
+    timestamp: bigint("timestamp", { mode: "number" }).notNull(),
+  },
+  (table) => [
+    unique("queued_envelopes_id_recipient_unique").on(
+      table.id,
+      table.recipientId,
+    ),
+    index("queued_envelopes_recipient_idx").on(table.recipientId),
+  ],
+);
+
+export const groupRosters = pgTable(
+  "group_rosters",
+  {
+    groupId: varchar("group_id").notNull(),
+    memberId: varchar("member_id").notNull(),
+    role: varchar("role").$type<GroupRole>().notNull().default("member"),
+    // Rosters created before invitations existed have no keys on record.
+    publicKey: text("public_key"),
+  },
+  (table) => [primaryKey({ columns: [table.groupId, table.memberId] })],
+);
+
+// When each member last left or was removed; invitations signed before then
+// no longer put them back on the roster.
+export const groupRemovals = pgTable(
+  "group_removals",
+  {
+    groupId: varchar("group_id").notNull(),
+    memberId: varchar("member_id").notNull(),
+    removedAt: bigint("removed_at", { mode: "number" }).notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.groupId, table.memberId] })],
+);
+
+export const deliveredMessageIds = pgTable("delivered_message_ids", {
+  id: varchar("id").primaryKey(),
+  deliveredAt: bigint("delivered_at", { mode: "number" }).notNull(),
 });
 
-export const insertUserSchema = createInsertSchema(users).pick({
-  username: true,
-  password: true,
+export const keyBundles = pgTable("key_bundles", {
+  userId: varchar("user_id").primaryKey(),
+  publicKey: text("public_key").notNull(),
+  signedClaims: text("signed_claims").notNull(),
+  publishedAt: bigint("published_at", { mode: "number" }).notNull(),
+  keyTransition: jsonb("key_transition").$type<KeyTransition>(),
 });
 
-export type InsertUser = z.infer<typeof insertUserSchema>;
-export type User = typeof users.$inferSelect;
+const bytea = customType<{ data: Buffer }>({
+  dataType: () => "bytea",
+});
+
+export const relayBlobs = pgTable(
+  "relay_blobs",
+  {
+    id: varchar("id").primaryKey(),
+    data: bytea("data").notNull(),
+    size: integer("size").notNull(),
+    createdAt: bigint("created_at", { mode: "number" }).notNull(),
+    expiresAt: bigint("expires_at", { mode: "number" }).notNull(),
+  },
+  (table) => [index("relay_blobs_expires_at_idx").on(table.expiresAt)],
+);
+
+export type QueuedEnvelope = typeof queuedEnvelopes.$inferSelect;
+export type InsertQueuedEnvelope = typeof queuedEnvelopes.$inferInsert;
+export type GroupRoster = typeof groupRosters.$inferSelect;
@@ -0,0 +1,25 @@
+// Device-to-device account transfer. The relay pairs the two devices by a
+// random session ID from the QR code and forwards chunks between them; it
+// never sees the one-time key, so every chunk is opaque to it.
+
+export const TRANSFER_SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{22}$/;
+export const MAX_TRANSFER_CHUNK_LENGTH = 256 * 1024;
+
+export interface TransferSessionPayload {
+  sessionId: string;
+}
+
+export interface TransferChunkPayload {
+  sessionId: string;
+  data: string;
+}
+
+export type TransferErrorCode =
+  | "invalid_session"
+  | "session_taken"
+  | "not_found"
+  | "peer_left";
+
+export interface TransferError {
+  code: TransferErrorCode;
+}